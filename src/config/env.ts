@@ -32,6 +32,78 @@ export class EnvironmentConfig {
   static readonly dialogflowProjectId =
     process.env.DIALOGFLOW_PROJECT_ID || '';
 
+  // Languages the Dialogflow agent is trained in; others use built-in logic
+  static readonly dialogflowLanguages = process.env.DIALOGFLOW_LANGUAGES
+    ? process.env.DIALOGFLOW_LANGUAGES.split(',').map(l => l.trim())
+    : ['en', 'fr'];
+
+  // Below this intentDetectionConfidence a Dialogflow match is checked against the built-in matcher
+  static readonly dialogflowConfidenceThreshold = parseFloat(process.env.DIALOGFLOW_CONFIDENCE_THRESHOLD || '0.5');
+
+  // detectIntent gives up after this long, well inside Twilio's 15 second webhook window
+  static readonly dialogflowTimeoutMs = parseInt(process.env.DIALOGFLOW_TIMEOUT_MS || '4000', 10);
+
+  // After this many failed calls in a row Dialogflow is skipped, then probed again after the reset period
+  static readonly dialogflowCircuitFailureThreshold = parseInt(process.env.DIALOGFLOW_CIRCUIT_FAILURE_THRESHOLD || '5', 10);
+  static readonly dialogflowCircuitResetSeconds = parseInt(process.env.DIALOGFLOW_CIRCUIT_RESET_SECONDS || '30', 10);
+
+  // Fulfillment webhook credentials: a shared secret sent as X-Webhook-Secret, basic auth, or both
+  static readonly dialogflowWebhookSecret = process.env.DIALOGFLOW_WEBHOOK_SECRET || '';
+  static readonly dialogflowWebhookUsername = process.env.DIALOGFLOW_WEBHOOK_USERNAME || '';
+  static readonly dialogflowWebhookPassword = process.env.DIALOGFLOW_WEBHOOK_PASSWORD || '';
+
+  // Salt used to derive pseudonymous user ids from phone numbers. Without it the
+  // ids can be reversed by hashing every possible number; changing it orphans stored profiles.
+  static readonly userIdSalt = process.env.USER_ID_SALT || '';
+
+  // Conversation sessions
+  static readonly sessionTtlMinutes = parseInt(process.env.SESSION_TTL_MINUTES || '30', 10);
+
+  // Message transcript: rows older than this are purged, checked this often
+  static readonly transcriptRetentionDays = parseInt(process.env.TRANSCRIPT_RETENTION_DAYS || '90', 10);
+  static readonly transcriptPurgeIntervalHours = parseInt(process.env.TRANSCRIPT_PURGE_INTERVAL_HOURS || '24', 10);
+
+  // Unanswered question clusters (raw user text) not seen for this long are purged
+  static readonly unansweredRetentionDays = parseInt(process.env.UNANSWERED_RETENTION_DAYS || '90', 10);
+
+  // Share of eligible answers followed by a "Was this helpful?" prompt, from 0 (never) to 1 (always)
+  static readonly feedbackPromptRate = parseFloat(process.env.FEEDBACK_PROMPT_RATE || '0.25');
+
+  // Acknowledge the Twilio webhook at once and send replies from the reply_jobs queue
+  static readonly asyncReplies = process.env.ASYNC_REPLIES === 'true';
+  static readonly replyJobPollIntervalSeconds = parseInt(process.env.REPLY_JOB_POLL_INTERVAL_SECONDS || '5', 10);
+  // Failed jobs wait the base delay, doubling each time, and are dead-lettered after the last attempt
+  static readonly replyJobMaxAttempts = parseInt(process.env.REPLY_JOB_MAX_ATTEMPTS || '5', 10);
+  static readonly replyJobRetryBaseSeconds = parseInt(process.env.REPLY_JOB_RETRY_BASE_SECONDS || '10', 10);
+  // Dead letters keep the raw number and message, so they are purged after this long
+  static readonly replyDeadLetterRetentionDays = parseInt(process.env.REPLY_DEAD_LETTER_RETENTION_DAYS || '30', 10);
+
+  // How long a Twilio MessageSid is remembered, so retried webhooks are answered from the first response
+  static readonly messageDedupTtlHours = parseInt(process.env.MESSAGE_DEDUP_TTL_HOURS || '24', 10);
+  // A delivery still unanswered after this long is presumed lost, so a retry may process the message.
+  // Longer than Twilio's 15 second webhook timeout.
+  static readonly messageDedupLeaseSeconds = parseInt(process.env.MESSAGE_DEDUP_LEASE_SECONDS || '20', 10);
+
+  // Shared key for the staff API (handoff inbox); the API is disabled without it
+  static readonly staffApiKey = process.env.STAFF_API_KEY || '';
+
+  // Signs admin session tokens; the admin API is disabled without it
+  static readonly adminSessionSecret = process.env.ADMIN_SESSION_SECRET || '';
+  static readonly adminSessionTtlHours = parseInt(process.env.ADMIN_SESSION_TTL_HOURS || '12', 10);
+  // Failed admin logins allowed per username and IP before a pause
+  static readonly adminLoginRateLimit = parseInt(process.env.ADMIN_LOGIN_RATE_LIMIT || '5', 10);
+  static readonly adminLoginWindowMinutes = parseInt(process.env.ADMIN_LOGIN_WINDOW_MINUTES || '15', 10);
+
+  // Sliding-window rate limits: messages per WhatsApp number and staff API requests per key
+  static readonly rateLimitWindowSeconds = parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || '60', 10);
+  static readonly webhookRateLimit = parseInt(process.env.WEBHOOK_RATE_LIMIT || '10', 10);
+  static readonly staffApiRateLimit = parseInt(process.env.STAFF_API_RATE_LIMIT || '120', 10);
+
+  // A number that hits the message limit this often within the period is blocked for ABUSE_BLOCK_HOURS
+  static readonly abuseBlockAfterViolations = parseInt(process.env.ABUSE_BLOCK_AFTER_VIOLATIONS || '3', 10);
+  static readonly abuseViolationWindowHours = parseInt(process.env.ABUSE_VIOLATION_WINDOW_HOURS || '24', 10);
+  static readonly abuseBlockHours = parseInt(process.env.ABUSE_BLOCK_HOURS || '24', 10);
+
   // CORS
   static readonly allowedOrigins = process.env.ALLOWED_ORIGINS
     ? process.env.ALLOWED_ORIGINS.split(',').map(o => o.trim())
@@ -60,6 +132,27 @@ export class EnvironmentConfig {
       if (!this.twilioAccountSid) errors.push('TWILIO_ACCOUNT_SID is required in production');
       if (!this.twilioAuthToken) errors.push('TWILIO_AUTH_TOKEN is required in production');
       if (!this.twilioWhatsAppNumber) errors.push('TWILIO_WHATSAPP_NUMBER is required in production');
+
+      if (this.userIdSalt.length < 16) errors.push('USER_ID_SALT of at least 16 characters is required in production');
+    } else if (!this.userIdSalt) {
+      console.warn('⚠️ USER_ID_SALT is not set — user ids can be traced back to phone numbers.');
+    }
+
+    // A zero or unparsable value would purge every transcript, or purge in a tight loop
+    this.checkPositiveInteger('TRANSCRIPT_RETENTION_DAYS', this.transcriptRetentionDays, errors);
+    this.checkPositiveInteger('TRANSCRIPT_PURGE_INTERVAL_HOURS', this.transcriptPurgeIntervalHours, errors);
+    this.checkPositiveInteger('UNANSWERED_RETENTION_DAYS', this.unansweredRetentionDays, errors);
+    this.checkPositiveInteger('REPLY_DEAD_LETTER_RETENTION_DAYS', this.replyDeadLetterRetentionDays, errors);
+    this.checkPositiveInteger('MESSAGE_DEDUP_LEASE_SECONDS', this.messageDedupLeaseSeconds, errors);
+
+    // An unparsable value makes every admin login fail
+    this.checkPositiveInteger('ADMIN_SESSION_TTL_HOURS', this.adminSessionTtlHours, errors);
+    this.checkPositiveInteger('ADMIN_LOGIN_RATE_LIMIT', this.adminLoginRateLimit, errors);
+    this.checkPositiveInteger('ADMIN_LOGIN_WINDOW_MINUTES', this.adminLoginWindowMinutes, errors);
+
+    // Tokens signed with a short secret can be forged by guessing it
+    if (this.adminSessionSecret && this.adminSessionSecret.length < 32) {
+      errors.push('ADMIN_SESSION_SECRET must be at least 32 characters');
     }
 
     if (errors.length > 0) {
@@ -67,6 +160,12 @@ export class EnvironmentConfig {
     }
   }
 
+  private static checkPositiveInteger(name: string, value: number, errors: string[]): void {
+    if (!Number.isInteger(value) || value <= 0) {
+      errors.push(`${name} must be a positive whole number`);
+    }
+  }
+
   static isProduction(): boolean {
     return this.nodeEnv === 'production';
   }
@@ -0,0 +1,49 @@
+// src/controllers/AdminAuthController.ts
+import { Request, Response } from 'express';
+import { AdminAuthService } from '../services/AdminAuthService.js';
+import { ValidationError } from '../types/index.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { getAuthenticatedAdmin } from '../middleware/adminAuth.js';
+import { successResponse } from '../utils/apiResponse.js';
+
+/**
+ * Admin sign-in, sign-out and password change
+ */
+export class AdminAuthController {
+  constructor(private adminAuthService: AdminAuthService) {}
+
+  /**
+   * Body: { username, password }. Returns a bearer token for the Authorization header.
+   */
+  public login = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { username, password } = req.body;
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      throw new ValidationError('username and password are required');
+    }
+
+    const result = await this.adminAuthService.login(username.trim(), password);
+    res.json(successResponse(req, result));
+  });
+
+  public me = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    res.json(successResponse(req, getAuthenticatedAdmin(req).user));
+  });
+
+  public logout = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    await this.adminAuthService.logout(getAuthenticatedAdmin(req));
+    res.json(successResponse(req, { loggedOut: true }));
+  });
+
+  /**
+   * Body: { currentPassword, newPassword }. Other sessions of the user are signed out.
+   */
+  public changePassword = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { currentPassword, newPassword } = req.body;
+    if (typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
+      throw new ValidationError('currentPassword and newPassword are required');
+    }
+
+    await this.adminAuthService.changePassword(getAuthenticatedAdmin(req), currentPassword, newPassword);
+    res.json(successResponse(req, { passwordChanged: true }));
+  });
+}
@@ -0,0 +1,107 @@
+// src/controllers/AdminUserController.ts
+import { Request, Response } from 'express';
+import { AdminUserService } from '../services/AdminUserService.js';
+import { AdminRole, AdminUserCreate, AdminUserUpdate, ValidationError } from '../types/index.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { getAuthenticatedAdmin } from '../middleware/adminAuth.js';
+import { successResponse } from '../utils/apiResponse.js';
+
+const ADMIN_ROLES: AdminRole[] = ['admin', 'editor'];
+const USERNAME_PATTERN = /^[A-Za-z0-9._-]{3,50}$/;
+
+/**
+ * Managing admin users (admins only), and creating the first one
+ */
+export class AdminUserController {
+  constructor(private adminUserService: AdminUserService) {}
+
+  /**
+   * Creates the first admin on a fresh install; needs the STAFF_API_KEY
+   */
+  public createFirstAdmin = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const user = await this.adminUserService.createFirstAdmin(this.parseFields(req.body, true));
+    res.status(201).json(successResponse(req, user));
+  });
+
+  public listUsers = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const users = await this.adminUserService.listUsers();
+    res.json(successResponse(req, users));
+  });
+
+  public getUser = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const user = await this.adminUserService.getUser(this.parseId(req.params.id));
+    res.json(successResponse(req, user));
+  });
+
+  public createUser = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const user = await this.adminUserService.createUser(this.parseFields(req.body, true));
+    res.status(201).json(successResponse(req, user));
+  });
+
+  public updateUser = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const updates = this.parseFields(req.body, false);
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError('Nothing to update. Editable fields: username, email, role, is_active, password');
+    }
+
+    const user = await this.adminUserService.updateUser(getAuthenticatedAdmin(req), this.parseId(req.params.id), updates);
+    res.json(successResponse(req, user));
+  });
+
+  public deleteUser = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const user = await this.adminUserService.deleteUser(getAuthenticatedAdmin(req), this.parseId(req.params.id));
+    res.json(successResponse(req, user));
+  });
+
+  /**
+   * The admin user fields in a request body. Bodies have already passed
+   * validateAdminRequest, which checks the email format and is_active.
+   */
+  private parseFields(body: Record<string, unknown>, isCreate: true): AdminUserCreate;
+  private parseFields(body: Record<string, unknown>, isCreate: false): AdminUserUpdate;
+  private parseFields(body: Record<string, unknown>, isCreate: boolean): AdminUserCreate | AdminUserUpdate {
+    const fields: AdminUserUpdate = {};
+
+    if (body.username !== undefined || isCreate) {
+      if (typeof body.username !== 'string' || !USERNAME_PATTERN.test(body.username)) {
+        throw new ValidationError('username must be 3-50 letters, digits, dots, dashes or underscores');
+      }
+      fields.username = body.username;
+    }
+
+    if (body.email !== undefined || isCreate) {
+      if (typeof body.email !== 'string' || body.email.length === 0) {
+        throw new ValidationError('email is required');
+      }
+      fields.email = body.email;
+    }
+
+    if (body.password !== undefined || isCreate) {
+      if (typeof body.password !== 'string') {
+        throw new ValidationError('password is required');
+      }
+      fields.password = body.password;
+    }
+
+    if (body.role !== undefined) {
+      if (!ADMIN_ROLES.includes(body.role as AdminRole)) {
+        throw new ValidationError(`role must be one of: ${ADMIN_ROLES.join(', ')}`);
+      }
+      fields.role = body.role as AdminRole;
+    }
+
+    if (body.is_active !== undefined && !isCreate) {
+      fields.is_active = body.is_active as boolean;
+    }
+
+    return fields;
+  }
+
+  private parseId(value: string): number {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError('ID must be a positive number');
+    }
+    return id;
+  }
+}
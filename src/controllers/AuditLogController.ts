@@ -0,0 +1,53 @@
+// src/controllers/AuditLogController.ts
+import { Request, Response } from 'express';
+import { AUDITED_TABLES, AuditLogService } from '../services/AuditLogService.js';
+import { AuditedTable, ValidationError } from '../types/index.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { getAuditActor } from '../middleware/adminAuth.js';
+import { listResponse, parsePagination, successResponse } from '../utils/apiResponse.js';
+
+/**
+ * Browsing the history of content records and restoring earlier versions
+ */
+export class AuditLogController {
+  constructor(private auditLogService: AuditLogService) {}
+
+  /**
+   * Query: table (required), record_id for one record's history; newest first
+   */
+  public listEntries = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { table, record_id: recordId } = req.query;
+    if (typeof table !== 'string' || !AUDITED_TABLES.includes(table as AuditedTable)) {
+      throw new ValidationError(`table must be one of: ${AUDITED_TABLES.join(', ')}`);
+    }
+
+    const pagination = parsePagination(req.query, ['created_at'], 'created_at', 'desc');
+    const { entries, total } = await this.auditLogService.listEntries(
+      table as AuditedTable,
+      recordId !== undefined ? this.parseId(String(recordId)) : undefined,
+      pagination
+    );
+    res.json(listResponse(req, entries, pagination, total));
+  });
+
+  public getEntry = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const entry = await this.auditLogService.getEntry(this.parseId(req.params.id));
+    res.json(successResponse(req, entry));
+  });
+
+  /**
+   * Put the entry's record back as it was after that change (before it, for deletions)
+   */
+  public restore = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const record = await this.auditLogService.restore(getAuditActor(req), this.parseId(req.params.id));
+    res.json(successResponse(req, record));
+  });
+
+  private parseId(value: string): number {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError('ID must be a positive number');
+    }
+    return id;
+  }
+}
@@ -0,0 +1,58 @@
+// src/controllers/BlocklistController.ts
+import { Request, Response } from 'express';
+import { AbuseProtectionService } from '../services/AbuseProtectionService.js';
+import { ValidationError } from '../types/index.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { getAuthenticatedAdmin } from '../middleware/adminAuth.js';
+import { successResponse } from '../utils/apiResponse.js';
+
+/**
+ * Staff management of the numbers the bot ignores. Entries are keyed on
+ * the pseudonymous user id; numbers are only accepted, never returned.
+ */
+export class BlocklistController {
+  constructor(private abuseProtectionService: AbuseProtectionService) {}
+
+  public listBlocks = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const blocks = await this.abuseProtectionService.listBlocks();
+    res.json(successResponse(req, blocks));
+  });
+
+  public blockNumber = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { phone, reason, expires_in_hours: expiresInHours } = req.body;
+
+    if (typeof phone !== 'string' || !/^(whatsapp:)?\+\d{1,15}$/.test(phone.trim())) {
+      throw new ValidationError('phone must be a number such as +256700000000');
+    }
+
+    if (typeof reason !== 'string' || reason.trim().length === 0) {
+      throw new ValidationError('reason is required');
+    }
+
+    if (expiresInHours !== undefined && (typeof expiresInHours !== 'number' || expiresInHours <= 0)) {
+      throw new ValidationError('expires_in_hours must be a positive number');
+    }
+
+    const block = await this.abuseProtectionService.blockNumber(
+      phone.trim(),
+      reason.trim(),
+      getAuthenticatedAdmin(req).user.username,
+      expiresInHours !== undefined ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString() : null
+    );
+
+    res.status(201).json(successResponse(req, block));
+  });
+
+  public unblock = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const block = await this.abuseProtectionService.unblock(this.parseId(req.params.id));
+    res.json(successResponse(req, block));
+  });
+
+  private parseId(value: string): number {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError('ID must be a positive number');
+    }
+    return id;
+  }
+}
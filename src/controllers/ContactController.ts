@@ -0,0 +1,116 @@
+// src/controllers/ContactController.ts
+import { Request, Response } from 'express';
+import { ContactDirectoryService } from '../services/ContactDirectoryService.js';
+import { ContactCreate, ContactFilters, ContactUpdate, ValidationError } from '../types/index.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { getAuditActor } from '../middleware/adminAuth.js';
+import { listResponse, parsePagination, successResponse } from '../utils/apiResponse.js';
+import { CONTACT_TYPE_VALUES, isContactType } from '../utils/constants.js';
+
+const SORTABLE_FIELDS = ['id', 'entity', 'type', 'is_urgent', 'created_at', 'updated_at'];
+
+// Columns staff may set; anything else in the body is ignored
+const EDITABLE_FIELDS: (keyof ContactUpdate)[] = [
+  'entity', 'phone', 'email', 'description', 'type', 'is_urgent',
+  'notes', 'latitude', 'longitude', 'settlement_id'
+];
+const TEXT_FIELDS: (keyof ContactUpdate)[] = ['entity', 'phone', 'email', 'description', 'notes'];
+
+/**
+ * Admin API for contacts. Bodies have already passed validateAdminRequest;
+ * this checks what is specific to contacts.
+ */
+export class ContactController {
+  constructor(private contactDirectoryService: ContactDirectoryService) {}
+
+  public listContacts = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const pagination = parsePagination(req.query, SORTABLE_FIELDS, 'id');
+    const { contacts, total } = await this.contactDirectoryService.listContacts(this.parseFilters(req.query), pagination);
+    res.json(listResponse(req, contacts, pagination, total));
+  });
+
+  public getContact = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const contact = await this.contactDirectoryService.getContact(this.parseId(req.params.id));
+    res.json(successResponse(req, contact));
+  });
+
+  public createContact = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const contact = await this.contactDirectoryService.createContact(
+      getAuditActor(req),
+      this.parseFields(req.body) as ContactCreate
+    );
+    res.status(201).json(successResponse(req, contact));
+  });
+
+  public updateContact = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const updates = this.parseFields(req.body);
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError(`Nothing to update. Editable fields: ${EDITABLE_FIELDS.join(', ')}`);
+    }
+
+    const contact = await this.contactDirectoryService.updateContact(
+      getAuditActor(req),
+      this.parseId(req.params.id),
+      updates
+    );
+    res.json(successResponse(req, contact));
+  });
+
+  public deleteContact = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const contact = await this.contactDirectoryService.deleteContact(
+      getAuditActor(req),
+      this.parseId(req.params.id)
+    );
+    res.json(successResponse(req, contact));
+  });
+
+  private parseFields(body: Record<string, unknown>): ContactUpdate {
+    const fields: Record<string, unknown> = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (body[field] !== undefined) fields[field] = body[field];
+    }
+
+    if (fields.type !== undefined && !isContactType(fields.type)) {
+      throw new ValidationError(`Type must be one of: ${CONTACT_TYPE_VALUES.join(', ')}`);
+    }
+
+    for (const field of TEXT_FIELDS) {
+      if (fields[field] !== undefined && fields[field] !== null && typeof fields[field] !== 'string') {
+        throw new ValidationError(`${field} must be a string`);
+      }
+    }
+
+    return fields as ContactUpdate;
+  }
+
+  private parseFilters(query: Request['query']): ContactFilters {
+    const filters: ContactFilters = {};
+
+    if (query.type !== undefined) {
+      if (!isContactType(query.type)) {
+        throw new ValidationError(`Type must be one of: ${CONTACT_TYPE_VALUES.join(', ')}`);
+      }
+      filters.type = query.type;
+    }
+
+    if (query.is_urgent !== undefined) {
+      if (query.is_urgent !== 'true' && query.is_urgent !== 'false') {
+        throw new ValidationError('is_urgent must be true or false');
+      }
+      filters.is_urgent = query.is_urgent === 'true';
+    }
+
+    if (typeof query.search === 'string') filters.search = query.search;
+    if (query.settlement_id !== undefined) filters.settlement_id = this.parseId(String(query.settlement_id));
+
+    return filters;
+  }
+
+  private parseId(value: string): number {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError('ID must be a positive number');
+    }
+    return id;
+  }
+}
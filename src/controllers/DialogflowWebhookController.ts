@@ -0,0 +1,66 @@
+// src/controllers/DialogflowWebhookController.ts
+import { Request, Response } from 'express';
+import { DialogflowService } from '../services/dialogflowService.js';
+import { LocationService } from '../services/LocationService.js';
+import { DialogflowWebhookRequest } from '../types/index.js';
+import { AppLogger } from '../config/logger.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { ResponseFormatter } from '../utils/responseFormatter.js';
+import { DEFAULT_LANGUAGE, LanguageCode, isSupportedLanguage } from '../utils/languages.js';
+
+/**
+ * Fulfillment webhook for the Dialogflow agent, so intents matched inside
+ * Dialogflow (follow-up intents, agent-side flows) are answered from the
+ * same data as messages the bot sends to detectIntent itself
+ */
+export class DialogflowWebhookController {
+  constructor(
+    private dialogflowService: DialogflowService,
+    private locationService: LocationService
+  ) {}
+
+  public handleFulfillment = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const request = req.body as DialogflowWebhookRequest;
+    const { queryResult } = request;
+    const intent = queryResult.intent?.displayName || null;
+    const language = this.toLanguage(queryResult.languageCode);
+
+    AppLogger.info('Received Dialogflow fulfillment request', { intent, language });
+
+    // Sessions opened by the bot are named after the pseudonymous user id
+    const settlement = await this.locationService.getUserSettlement(this.getSessionId(request.session));
+
+    const response = await this.dialogflowService.answerAgentIntent(
+      {
+        intent,
+        isFallback: !intent || Boolean(queryResult.intent?.isFallback),
+        queryText: queryResult.queryText,
+        parameters: queryResult.parameters ?? {}
+      },
+      language,
+      { settlement }
+    );
+
+    // An empty fulfillment leaves the response defined in the agent
+    if (!response) {
+      res.json({});
+      return;
+    }
+
+    res.json(ResponseFormatter.formatForDialogflow(
+      { ...response, metadata: { language, ...response.metadata } },
+      request.session,
+      queryResult.outputContexts
+    ));
+  });
+
+  private toLanguage(languageCode: string): LanguageCode {
+    // The agent sends regional codes such as en-US
+    const base = languageCode.toLowerCase().split('-')[0];
+    return isSupportedLanguage(base) ? base : DEFAULT_LANGUAGE;
+  }
+
+  private getSessionId(session: string): string {
+    return session.split('/').pop() || session;
+  }
+}
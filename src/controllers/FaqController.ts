@@ -0,0 +1,75 @@
+// src/controllers/FaqController.ts
+import { Request, Response } from 'express';
+import { FaqDirectoryService } from '../services/FaqDirectoryService.js';
+import { FaqCreate, FaqUpdate, ValidationError } from '../types/index.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { getAuditActor } from '../middleware/adminAuth.js';
+import { successResponse } from '../utils/apiResponse.js';
+
+// Columns staff may set; anything else in the body is ignored
+const EDITABLE_FIELDS: (keyof FaqUpdate)[] = ['question', 'answer', 'category', 'intent_reference'];
+// NOT NULL columns, which may not be cleared
+const REQUIRED_FIELDS: (keyof FaqUpdate)[] = ['question', 'answer', 'category'];
+
+/**
+ * Admin API for the FAQs. Bodies have already passed validateAdminRequest.
+ */
+export class FaqController {
+  constructor(private faqDirectoryService: FaqDirectoryService) {}
+
+  public listFaqs = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const category = typeof req.query.category === 'string' ? req.query.category : undefined;
+    const faqs = await this.faqDirectoryService.listFaqs(category);
+    res.json(successResponse(req, faqs));
+  });
+
+  public getFaq = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const faq = await this.faqDirectoryService.getFaq(this.parseId(req.params.id));
+    res.json(successResponse(req, faq));
+  });
+
+  public createFaq = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const faq = await this.faqDirectoryService.createFaq(getAuditActor(req), this.parseFields(req.body) as FaqCreate);
+    res.status(201).json(successResponse(req, faq));
+  });
+
+  public updateFaq = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const updates = this.parseFields(req.body);
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError(`Nothing to update. Editable fields: ${EDITABLE_FIELDS.join(', ')}`);
+    }
+
+    const faq = await this.faqDirectoryService.updateFaq(getAuditActor(req), this.parseId(req.params.id), updates);
+    res.json(successResponse(req, faq));
+  });
+
+  public deleteFaq = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const faq = await this.faqDirectoryService.deleteFaq(getAuditActor(req), this.parseId(req.params.id));
+    res.json(successResponse(req, faq));
+  });
+
+  private parseFields(body: Record<string, unknown>): FaqUpdate {
+    const fields: Record<string, unknown> = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (body[field] === undefined) continue;
+
+      const value = body[field];
+      if (value !== null && typeof value !== 'string') {
+        throw new ValidationError(`${field} must be a string`);
+      }
+      if (REQUIRED_FIELDS.includes(field) && (value === null || !value.trim())) {
+        throw new ValidationError(`${field} must not be empty`);
+      }
+      fields[field] = value;
+    }
+    return fields as FaqUpdate;
+  }
+
+  private parseId(value: string): number {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError('ID must be a positive number');
+    }
+    return id;
+  }
+}
@@ -0,0 +1,44 @@
+// src/controllers/FeedbackController.ts
+import { Request, Response } from 'express';
+import { FeedbackService } from '../services/FeedbackService.js';
+import { ValidationError } from '../types/index.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { listResponse, parsePagination, successResponse } from '../utils/apiResponse.js';
+
+/**
+ * Ratings users gave the bot's answers, raw and summarised
+ */
+export class FeedbackController {
+  constructor(private feedbackService: FeedbackService) {}
+
+  /**
+   * Query: intent, since; newest first by default
+   */
+  public listFeedback = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const intent = typeof req.query.intent === 'string' ? req.query.intent : undefined;
+    const pagination = parsePagination(req.query, ['created_at', 'rating'], 'created_at', 'desc');
+    const { feedback, total } = await this.feedbackService.listFeedback({ intent, since: this.parseSince(req) }, pagination);
+    res.json(listResponse(req, feedback, pagination, total));
+  });
+
+  public summariseByIntent = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const summary = await this.feedbackService.summariseByIntent(this.parseSince(req));
+    res.json(successResponse(req, summary));
+  });
+
+  public summariseByOrganization = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const summary = await this.feedbackService.summariseByOrganization(this.parseSince(req));
+    res.json(successResponse(req, summary));
+  });
+
+  private parseSince(req: Request): string | undefined {
+    const since = req.query.since;
+    if (since === undefined) return undefined;
+
+    const date = typeof since === 'string' ? new Date(since) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      throw new ValidationError('since must be a date, e.g. 2024-01-31');
+    }
+    return date.toISOString();
+  }
+}
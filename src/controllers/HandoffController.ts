@@ -0,0 +1,71 @@
+// src/controllers/HandoffController.ts
+import { Request, Response } from 'express';
+import { HandoffService } from '../services/HandoffService.js';
+import { HandoffTicket, ValidationError } from '../types/index.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { successResponse } from '../utils/apiResponse.js';
+
+const TICKET_STATUSES: HandoffTicket['status'][] = ['open', 'closed'];
+
+/**
+ * Staff inbox for conversations handed off from the bot
+ */
+export class HandoffController {
+  constructor(private handoffService: HandoffService) {}
+
+  public listTickets = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const status = req.query.status as HandoffTicket['status'] | undefined;
+
+    if (status && !TICKET_STATUSES.includes(status)) {
+      throw new ValidationError(`Status must be one of: ${TICKET_STATUSES.join(', ')}`);
+    }
+
+    const tickets = await this.handoffService.listTickets(status);
+    res.json(successResponse(req, tickets.map(ticket => this.toStaffView(ticket))));
+  });
+
+  public getConversation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { ticket, messages } = await this.handoffService.getConversation(this.parseId(req.params.id));
+    res.json(successResponse(req, { ticket: this.toStaffView(ticket), messages }));
+  });
+
+  public reply = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { body, staff_name: staffName } = req.body;
+
+    if (typeof body !== 'string' || body.trim().length === 0) {
+      throw new ValidationError('Reply body is required');
+    }
+
+    if (body.length > 1600) {
+      throw new ValidationError('Reply body too long. Maximum 1600 characters allowed');
+    }
+
+    const message = await this.handoffService.sendStaffReply(
+      this.parseId(req.params.id),
+      body.trim(),
+      typeof staffName === 'string' ? staffName : null
+    );
+
+    res.status(201).json(successResponse(req, message));
+  });
+
+  public closeTicket = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const closedBy = typeof req.body?.closed_by === 'string' ? req.body.closed_by : 'staff';
+    const ticket = await this.handoffService.closeTicket(this.parseId(req.params.id), closedBy);
+    res.json(successResponse(req, this.toStaffView(ticket)));
+  });
+
+  private parseId(value: string): number {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError('ID must be a positive number');
+    }
+    return id;
+  }
+
+  // Staff reply through the API, so the phone number never leaves the server
+  private toStaffView(ticket: HandoffTicket): Omit<HandoffTicket, 'phone'> {
+    const { phone: _phone, ...view } = ticket;
+    return view;
+  }
+}
@@ -0,0 +1,166 @@
+// src/controllers/RegistrationController.ts
+import { Request, Response } from 'express';
+import { RegistrationContentService } from '../services/RegistrationContentService.js';
+import {
+  RegistrationStepCreate,
+  RegistrationStepUpdate,
+  RequiredDocumentCreate,
+  RequiredDocumentUpdate,
+  ValidationError
+} from '../types/index.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { getAuditActor } from '../middleware/adminAuth.js';
+import { successResponse } from '../utils/apiResponse.js';
+
+// Columns staff may set; anything else in the body is ignored
+const STEP_FIELDS: (keyof RegistrationStepUpdate)[] = [
+  'step_number', 'title', 'description', 'location', 'contact_reference', 'requirements', 'estimated_duration'
+];
+const DOCUMENT_FIELDS: (keyof RequiredDocumentUpdate)[] = ['document_name', 'description', 'is_essential', 'notes'];
+
+/**
+ * Admin API for the registration walkthrough: its steps, in order, and the
+ * documents it asks people to bring
+ */
+export class RegistrationController {
+  constructor(private registrationContentService: RegistrationContentService) {}
+
+  public listSteps = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const steps = await this.registrationContentService.listSteps();
+    res.json(successResponse(req, steps));
+  });
+
+  public getStep = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const step = await this.registrationContentService.getStep(this.parseId(req.params.id));
+    res.json(successResponse(req, step));
+  });
+
+  public createStep = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const step = await this.registrationContentService.createStep(
+      getAuditActor(req),
+      this.parseStepFields(req.body) as RegistrationStepCreate
+    );
+    res.status(201).json(successResponse(req, step));
+  });
+
+  public updateStep = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const updates = this.parseStepFields(req.body);
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError(`Nothing to update. Editable fields: ${STEP_FIELDS.join(', ')}`);
+    }
+
+    const step = await this.registrationContentService.updateStep(
+      getAuditActor(req),
+      this.parseId(req.params.id),
+      updates
+    );
+    res.json(successResponse(req, step));
+  });
+
+  public deleteStep = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const step = await this.registrationContentService.deleteStep(
+      getAuditActor(req),
+      this.parseId(req.params.id)
+    );
+    res.json(successResponse(req, step));
+  });
+
+  /**
+   * Body: { stepIds: number[] } listing every step once, in the new order
+   */
+  public reorderSteps = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { stepIds } = req.body;
+    if (!Array.isArray(stepIds) || stepIds.length === 0 ||
+        !stepIds.every(id => Number.isInteger(id) && id > 0)) {
+      throw new ValidationError('stepIds must be a non-empty array of step IDs');
+    }
+
+    if (new Set(stepIds).size !== stepIds.length) {
+      throw new ValidationError('stepIds must not repeat a step');
+    }
+
+    const steps = await this.registrationContentService.reorderSteps(getAuditActor(req), stepIds);
+    res.json(successResponse(req, steps));
+  });
+
+  public listDocuments = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const documents = await this.registrationContentService.listDocuments();
+    res.json(successResponse(req, documents));
+  });
+
+  public getDocument = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const document = await this.registrationContentService.getDocument(this.parseId(req.params.id));
+    res.json(successResponse(req, document));
+  });
+
+  public createDocument = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const document = await this.registrationContentService.createDocument(
+      getAuditActor(req),
+      this.parseDocumentFields(req.body) as RequiredDocumentCreate
+    );
+    res.status(201).json(successResponse(req, document));
+  });
+
+  public updateDocument = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const updates = this.parseDocumentFields(req.body);
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError(`Nothing to update. Editable fields: ${DOCUMENT_FIELDS.join(', ')}`);
+    }
+
+    const document = await this.registrationContentService.updateDocument(
+      getAuditActor(req),
+      this.parseId(req.params.id),
+      updates
+    );
+    res.json(successResponse(req, document));
+  });
+
+  public deleteDocument = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const document = await this.registrationContentService.deleteDocument(
+      getAuditActor(req),
+      this.parseId(req.params.id)
+    );
+    res.json(successResponse(req, document));
+  });
+
+  private parseStepFields(body: Record<string, unknown>): RegistrationStepUpdate {
+    const fields = this.pickFields(body, STEP_FIELDS);
+
+    if (fields.step_number !== undefined &&
+        (!Number.isInteger(fields.step_number) || (fields.step_number as number) < 1)) {
+      throw new ValidationError('step_number must be a positive integer');
+    }
+
+    return fields as RegistrationStepUpdate;
+  }
+
+  private parseDocumentFields(body: Record<string, unknown>): RequiredDocumentUpdate {
+    return this.pickFields(body, DOCUMENT_FIELDS) as RequiredDocumentUpdate;
+  }
+
+  /**
+   * The editable fields present in the body; every one except step_number
+   * and is_essential (checked elsewhere) is text
+   */
+  private pickFields(body: Record<string, unknown>, editable: string[]): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    for (const field of editable) {
+      if (body[field] === undefined) continue;
+
+      const value = body[field];
+      if (field !== 'step_number' && field !== 'is_essential' && value !== null && typeof value !== 'string') {
+        throw new ValidationError(`${field} must be a string`);
+      }
+      fields[field] = value;
+    }
+    return fields;
+  }
+
+  private parseId(value: string): number {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError('ID must be a positive number');
+    }
+    return id;
+  }
+}
@@ -0,0 +1,40 @@
+// src/controllers/SafeguardingController.ts
+import { Request, Response } from 'express';
+import { SafeguardingService } from '../services/SafeguardingService.js';
+import { SafeguardingFlag, ValidationError } from '../types/index.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { successResponse } from '../utils/apiResponse.js';
+
+const FLAG_STATUSES: SafeguardingFlag['status'][] = ['open', 'resolved'];
+
+/**
+ * Staff follow-up queue for crisis messages
+ */
+export class SafeguardingController {
+  constructor(private safeguardingService: SafeguardingService) {}
+
+  public listFlags = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const status = (req.query.status as SafeguardingFlag['status'] | undefined) ?? 'open';
+
+    if (!FLAG_STATUSES.includes(status)) {
+      throw new ValidationError(`Status must be one of: ${FLAG_STATUSES.join(', ')}`);
+    }
+
+    const flags = await this.safeguardingService.listFlags(status);
+    res.json(successResponse(req, flags));
+  });
+
+  public resolveFlag = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const resolvedBy = typeof req.body?.resolved_by === 'string' ? req.body.resolved_by : 'staff';
+    const flag = await this.safeguardingService.resolveFlag(this.parseId(req.params.id), resolvedBy);
+    res.json(successResponse(req, flag));
+  });
+
+  private parseId(value: string): number {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError('ID must be a positive number');
+    }
+    return id;
+  }
+}
@@ -0,0 +1,120 @@
+// src/controllers/ServiceController.ts
+import { Request, Response } from 'express';
+import { ServiceDirectoryService } from '../services/ServiceDirectoryService.js';
+import { ServiceCreate, ServiceFilters, ServiceUpdate, ValidationError } from '../types/index.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { getAuditActor } from '../middleware/adminAuth.js';
+import { listResponse, parsePagination, successResponse } from '../utils/apiResponse.js';
+import { SERVICE_CATEGORIES, ServiceCategory } from '../utils/constants.js';
+
+const SORTABLE_FIELDS = ['id', 'category', 'organization', 'created_at', 'updated_at'];
+
+// Columns staff may set; anything else in the body is ignored
+const EDITABLE_FIELDS: (keyof ServiceUpdate)[] = [
+  'category', 'organization', 'services', 'contact_phone', 'contact_email',
+  'location', 'notes', 'latitude', 'longitude', 'settlement_id'
+];
+const TEXT_FIELDS: (keyof ServiceUpdate)[] = [
+  'organization', 'services', 'contact_phone', 'contact_email', 'location', 'notes'
+];
+// NOT NULL columns, which may not be cleared
+const REQUIRED_TEXT_FIELDS: (keyof ServiceUpdate)[] = ['organization', 'services', 'location'];
+
+/**
+ * Admin API for the services directory. Bodies have already passed
+ * validateAdminRequest; this checks what is specific to services.
+ */
+export class ServiceController {
+  constructor(private serviceDirectoryService: ServiceDirectoryService) {}
+
+  public listServices = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const pagination = parsePagination(req.query, SORTABLE_FIELDS, 'id');
+    const { services, total } = await this.serviceDirectoryService.listServices(this.parseFilters(req.query), pagination);
+    res.json(listResponse(req, services, pagination, total));
+  });
+
+  public getService = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const service = await this.serviceDirectoryService.getService(this.parseId(req.params.id));
+    res.json(successResponse(req, service));
+  });
+
+  public createService = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const service = await this.serviceDirectoryService.createService(
+      getAuditActor(req),
+      this.parseFields(req.body) as ServiceCreate
+    );
+    res.status(201).json(successResponse(req, service));
+  });
+
+  public updateService = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const updates = this.parseFields(req.body);
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError(`Nothing to update. Editable fields: ${EDITABLE_FIELDS.join(', ')}`);
+    }
+
+    const service = await this.serviceDirectoryService.updateService(
+      getAuditActor(req),
+      this.parseId(req.params.id),
+      updates
+    );
+    res.json(successResponse(req, service));
+  });
+
+  public deleteService = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const service = await this.serviceDirectoryService.deleteService(
+      getAuditActor(req),
+      this.parseId(req.params.id)
+    );
+    res.json(successResponse(req, service));
+  });
+
+  private parseFields(body: Record<string, unknown>): ServiceUpdate {
+    const fields: Record<string, unknown> = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (body[field] !== undefined) fields[field] = body[field];
+    }
+
+    if (fields.category !== undefined && !SERVICE_CATEGORIES.includes(fields.category as ServiceCategory)) {
+      throw new ValidationError(`Category must be one of: ${SERVICE_CATEGORIES.join(', ')}`);
+    }
+
+    for (const field of TEXT_FIELDS) {
+      if (fields[field] !== undefined && fields[field] !== null && typeof fields[field] !== 'string') {
+        throw new ValidationError(`${field} must be a string`);
+      }
+    }
+
+    for (const field of REQUIRED_TEXT_FIELDS) {
+      if (fields[field] !== undefined && (typeof fields[field] !== 'string' || !(fields[field] as string).trim())) {
+        throw new ValidationError(`${field} must not be empty`);
+      }
+    }
+
+    return fields as ServiceUpdate;
+  }
+
+  private parseFilters(query: Request['query']): ServiceFilters {
+    const filters: ServiceFilters = {};
+
+    if (typeof query.category === 'string') {
+      if (!SERVICE_CATEGORIES.includes(query.category as ServiceCategory)) {
+        throw new ValidationError(`Category must be one of: ${SERVICE_CATEGORIES.join(', ')}`);
+      }
+      filters.category = query.category as ServiceCategory;
+    }
+
+    if (typeof query.organization === 'string') filters.organization = query.organization;
+    if (typeof query.search === 'string') filters.search = query.search;
+    if (query.settlement_id !== undefined) filters.settlement_id = this.parseId(String(query.settlement_id));
+
+    return filters;
+  }
+
+  private parseId(value: string): number {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError('ID must be a positive number');
+    }
+    return id;
+  }
+}
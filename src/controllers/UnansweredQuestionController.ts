@@ -0,0 +1,89 @@
+// src/controllers/UnansweredQuestionController.ts
+import { Request, Response } from 'express';
+import { UnansweredQuestionService, UnansweredResolution } from '../services/UnansweredQuestionService.js';
+import { ValidationError } from '../types/index.js';
+import { UnansweredStatus } from '../types/database.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { getAuthenticatedAdmin } from '../middleware/adminAuth.js';
+import { isServiceCategory, SERVICE_CATEGORIES } from '../utils/constants.js';
+import { successResponse } from '../utils/apiResponse.js';
+
+const QUESTION_STATUSES: UnansweredStatus[] = ['open', 'resolved', 'dismissed'];
+
+/**
+ * Review queue of questions the bot could not answer
+ */
+export class UnansweredQuestionController {
+  constructor(private questionService: UnansweredQuestionService) {}
+
+  public listQuestions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const status = (req.query.status as UnansweredStatus | undefined) ?? 'open';
+
+    if (!QUESTION_STATUSES.includes(status)) {
+      throw new ValidationError(`Status must be one of: ${QUESTION_STATUSES.join(', ')}`);
+    }
+
+    const questions = await this.questionService.listQuestions(status);
+    res.json(successResponse(req, questions));
+  });
+
+  public getQuestion = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const question = await this.questionService.getQuestion(this.parseId(req.params.id));
+    res.json(successResponse(req, question));
+  });
+
+  public resolveQuestion = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const resolution = this.parseResolution(req.body);
+    const question = await this.questionService.resolve(this.parseId(req.params.id), resolution, this.getEditor(req));
+    res.json(successResponse(req, question));
+  });
+
+  public dismissQuestion = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const question = await this.questionService.dismiss(this.parseId(req.params.id), this.getEditor(req));
+    res.json(successResponse(req, question));
+  });
+
+  private parseResolution(body: Record<string, unknown>): UnansweredResolution {
+    switch (body?.type) {
+      case 'faq': {
+        const faqId = Number(body.faq_id);
+        if (!Number.isInteger(faqId) || faqId <= 0) {
+          throw new ValidationError('faq_id must be a positive number');
+        }
+        return { type: 'faq', faqId };
+      }
+
+      case 'category':
+        if (!isServiceCategory(body.category)) {
+          throw new ValidationError(`category must be one of: ${SERVICE_CATEGORIES.join(', ')}`);
+        }
+        return { type: 'category', category: body.category };
+
+      case 'training_phrase': {
+        const { intent, phrase } = body;
+        if (typeof intent !== 'string' || intent.length === 0) {
+          throw new ValidationError('intent is required for a training phrase');
+        }
+        if (phrase !== undefined && (typeof phrase !== 'string' || phrase.trim().length === 0)) {
+          throw new ValidationError('phrase must be a non-empty string');
+        }
+        return { type: 'training_phrase', intent, phrase: typeof phrase === 'string' ? phrase.trim() : null };
+      }
+
+      default:
+        throw new ValidationError('type must be one of: faq, category, training_phrase');
+    }
+  }
+
+  private getEditor(req: Request): string {
+    return getAuthenticatedAdmin(req).user.username;
+  }
+
+  private parseId(value: string): number {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ValidationError('ID must be a positive number');
+    }
+    return id;
+  }
+}
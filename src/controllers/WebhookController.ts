@@ -1,58 +1,194 @@
-import { Request, Response } from 'express';
+import { NextFunction, Request, Response } from 'express';
+import { RateLimitInfo } from 'express-rate-limit';
 import MessagingResponse from 'twilio/lib/twiml/MessagingResponse.js';
 import { MessageService } from '../services/MessageService.js';
+import { TranscriptService } from '../services/TranscriptService.js';
+import { ReplyQueueService } from '../services/ReplyQueueService.js';
+import { WebhookDedupService } from '../services/WebhookDedupService.js';
+import { AbuseProtectionService } from '../services/AbuseProtectionService.js';
+import { DialogflowService } from '../services/dialogflowService.js';
+import { SafeguardingService } from '../services/SafeguardingService.js';
+import { EnvironmentConfig } from '../config/env.js';
 import { AppLogger } from '../config/logger.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
+import { ResponseFormatter } from '../utils/responseFormatter.js';
+import { Coordinates, openStreetMapLink, parseCoordinates } from '../utils/geo.js';
+import { pseudonymizeUserId } from '../utils/userIdentity.js';
 
 export class WebhookController {
-  constructor(private messageService: MessageService) {}
+  constructor(
+    private messageService: MessageService,
+    private transcriptService: TranscriptService,
+    private replyQueueService: ReplyQueueService,
+    private webhookDedupService: WebhookDedupService,
+    private abuseProtectionService: AbuseProtectionService,
+    private dialogflowService: DialogflowService,
+    private safeguardingService: SafeguardingService
+  ) {}
 
-  public handleWhatsAppWebhook = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const userMessage = req.body.Body;
+  /**
+   * Runs ahead of the per-number rate limiter: drops messages from blocked
+   * numbers and answers retried deliveries, so a Twilio retry is never
+   * counted against the sender. Crisis messages are always let through.
+   */
+  public screenMessage = asyncHandler(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userMessage = req.body.Body || '';
     const userPhone = req.body.From;
+    const messageSid: string | null = req.body.MessageSid || null;
 
     AppLogger.info('Received WhatsApp webhook', {
       userPhone: this.maskPhoneNumber(userPhone),
-      message: userMessage
+      message: userMessage,
+      messageSid,
+      sharedLocation: Boolean(parseCoordinates(req.body.Latitude, req.body.Longitude))
     });
 
-    // Process the message
-    const botResponse = await this.messageService.processMessage(userMessage, userPhone);
+    // Blocked numbers are acknowledged without a reply, unless they write about a crisis
+    if (await this.abuseProtectionService.isBlocked(userPhone)) {
+      if (!this.safeguardingService.detectCrisis(userMessage)) {
+        AppLogger.info('Ignored message from blocked number', { userPhone: this.maskPhoneNumber(userPhone) });
+        res.type('text/xml');
+        res.send(new MessagingResponse().toString());
+        return;
+      }
+      AppLogger.warn('Answering crisis message from blocked number', { userPhone: this.maskPhoneNumber(userPhone) });
+    }
 
-    // Format Twilio response
-    const twiml = new MessagingResponse();
-    twiml.message(botResponse.message);
-
-    // Add quick replies if available (WhatsApp quick replies format)
-    if (botResponse.quickReplies && botResponse.quickReplies.length > 0) {
-      // Note: WhatsApp quick replies have specific format requirements
-      // This is a simplified implementation
-      AppLogger.debug('Quick replies available', { 
-        quickReplies: botResponse.quickReplies 
-      });
+    // A retried delivery gets the original response and is not processed again
+    if (messageSid) {
+      const earlier = await this.webhookDedupService.begin(messageSid);
+      if (earlier) {
+        AppLogger.info('Duplicate webhook delivery, returning the original response', {
+          messageSid,
+          // Still null while the first delivery is being answered; that one sends the reply
+          answered: earlier.response !== null
+        });
+        res.type('text/xml');
+        res.send(earlier.response ?? new MessagingResponse().toString());
+        return;
+      }
+    }
+
+    next();
+  });
+
+  public handleWhatsAppWebhook = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const userMessage = req.body.Body || '';
+    const userPhone = req.body.From;
+    const messageSid: string | null = req.body.MessageSid || null;
+    const location = parseCoordinates(req.body.Latitude, req.body.Longitude);
+
+    let twiml: string;
+    try {
+      twiml = await this.respond(userMessage, userPhone, location, messageSid);
+    } catch (error) {
+      // Twilio's retry of a failed delivery is processed from scratch
+      if (messageSid) await this.webhookDedupService.release(messageSid);
+      throw error;
     }
 
+    if (messageSid) void this.webhookDedupService.complete(messageSid, twiml);
+
     res.type('text/xml');
-    res.send(twiml.toString());
+    res.send(twiml);
+  });
+
+  /**
+   * Messages over the per-number rate limit, passed on by the webhook rate
+   * limiter. Crisis messages go on to be answered as usual.
+   */
+  public handleRateLimited = asyncHandler(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userPhone = req.body.From;
+    const messageSid: string | null = req.body.MessageSid || null;
+    const { used, limit } = (req as Request & { rateLimit: RateLimitInfo }).rateLimit;
+
+    if (this.safeguardingService.detectCrisis(req.body.Body || '')) {
+      AppLogger.warn('Answering crisis message over the rate limit', { userPhone: this.maskPhoneNumber(userPhone) });
+      next();
+      return;
+    }
 
-    AppLogger.info('Webhook response sent', {
+    AppLogger.warn('WhatsApp message over the rate limit', {
       userPhone: this.maskPhoneNumber(userPhone),
-      responseLength: botResponse.message.length
+      used,
+      limit
     });
+
+    const cooldown = await this.abuseProtectionService.handleRateLimited(userPhone, used === limit + 1);
+
+    const twiml = new MessagingResponse();
+    if (cooldown?.message) {
+      twiml.message(ResponseFormatter.formatForWhatsApp(cooldown));
+    }
+
+    // A retry of this delivery gets the same answer
+    if (messageSid) void this.webhookDedupService.complete(messageSid, twiml.toString());
+
+    res.type('text/xml');
+    res.send(twiml.toString());
   });
 
   public handleHealthCheck = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const dialogflowCircuit = EnvironmentConfig.dialogflowEnabled ? this.dialogflowService.getCircuitStatus() : null;
+
     const healthStatus = {
-      status: 'OK',
+      status: dialogflowCircuit?.state === 'open' ? 'DEGRADED' : 'OK',
       service: 'Refugee WhatsApp Bot Backend',
       timestamp: new Date().toISOString(),
       environment: process.env.NODE_ENV || 'development',
-      version: process.env.npm_package_version || '1.0.0'
+      version: process.env.npm_package_version || '1.0.0',
+      dialogflowCircuit
     };
 
     res.json(healthStatus);
   });
 
+  private async respond(
+    userMessage: string,
+    userPhone: string,
+    location: Coordinates | null,
+    messageSid: string | null
+  ): Promise<string> {
+    // Record what was received before anything can fail
+    void this.transcriptService.recordInbound(
+      pseudonymizeUserId(userPhone),
+      location ? `📍 ${openStreetMapLink(location)}` : userMessage,
+      messageSid
+    );
+
+    // Queue the message and acknowledge with empty TwiML; the reply goes out through the API
+    if (EnvironmentConfig.asyncReplies) {
+      try {
+        await this.replyQueueService.enqueue(userPhone, userMessage, location, messageSid);
+        return new MessagingResponse().toString();
+      } catch (error) {
+        // Without the queue, answer in the request as before
+        AppLogger.error('Failed to queue reply, answering synchronously', error as Error, {
+          userPhone: this.maskPhoneNumber(userPhone)
+        });
+      }
+    }
+
+    // Process the message
+    const botResponse = await this.messageService.processMessage(userMessage, userPhone, location);
+
+    // Format Twilio response, with quick replies rendered as numbered options.
+    // An empty response (a caseworker has the conversation) sends nothing.
+    const twiml = new MessagingResponse();
+    const replyBody = botResponse.message ? ResponseFormatter.formatForWhatsApp(botResponse) : '';
+    if (replyBody) {
+      twiml.message(replyBody);
+    }
+
+    AppLogger.info('Webhook reply built', {
+      userPhone: this.maskPhoneNumber(userPhone),
+      responseLength: replyBody.length,
+      quickReplies: botResponse.quickReplies?.length ?? 0
+    });
+
+    return twiml.toString();
+  }
+
   private maskPhoneNumber(phone: string): string {
     if (phone.length < 4) return '***';
     return `${phone.slice(0, 2)}***${phone.slice(-2)}`;
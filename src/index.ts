@@ -12,19 +12,73 @@ import { requestLogger } from './middleware/requestLogger.js';
 import { ServiceRepository } from './repositories/ServiceRepository.js';
 import { ContactRepository } from './repositories/ContactRepository.js';
 import { RegistrationStepRepository } from './repositories/RegistrationStepRepository.js';
+import { UserProfileRepository } from './repositories/UserProfileRepository.js';
+import { SessionRepository } from './repositories/SessionRepository.js';
+import { FaqRepository } from './repositories/FaqRepository.js';
+import { SettlementRepository } from './repositories/SettlementRepository.js';
+import { SafeguardingRepository } from './repositories/SafeguardingRepository.js';
+import { HandoffRepository } from './repositories/HandoffRepository.js';
+import { TranscriptRepository } from './repositories/TranscriptRepository.js';
+import { UnansweredQuestionRepository } from './repositories/UnansweredQuestionRepository.js';
+import { FeedbackRepository } from './repositories/FeedbackRepository.js';
+import { ReplyJobRepository } from './repositories/ReplyJobRepository.js';
+import { ProcessedWebhookRepository } from './repositories/ProcessedWebhookRepository.js';
+import { BlocklistRepository } from './repositories/BlocklistRepository.js';
+import { AdminUserRepository } from './repositories/AdminUserRepository.js';
+import { AdminSessionRepository } from './repositories/AdminSessionRepository.js';
+import { AuditLogRepository } from './repositories/AuditLogRepository.js';
 
 // Import services
-import { createDialogflowService } from './services/dialogflowService.js';
+import { DialogflowService, createDialogflowService } from './services/dialogflowService.js';
+import { IntentRegistry } from './services/IntentRegistry.js';
+import { INTENT_DECLARATIONS } from './services/intentDefinitions.js';
 import { MessageService } from './services/MessageService.js';
+import { LanguageService } from './services/LanguageService.js';
+import { SessionService } from './services/SessionService.js';
+import { FaqService } from './services/FaqService.js';
+import { LocationService } from './services/LocationService.js';
+import { SafeguardingService } from './services/SafeguardingService.js';
+import { HandoffService } from './services/HandoffService.js';
+import { TranscriptService } from './services/TranscriptService.js';
+import { UnansweredQuestionService } from './services/UnansweredQuestionService.js';
+import { FeedbackService } from './services/FeedbackService.js';
+import { ReplyQueueService } from './services/ReplyQueueService.js';
+import { WebhookDedupService } from './services/WebhookDedupService.js';
+import { AbuseProtectionService } from './services/AbuseProtectionService.js';
+import { ServiceDirectoryService } from './services/ServiceDirectoryService.js';
+import { ContactDirectoryService } from './services/ContactDirectoryService.js';
+import { RegistrationContentService } from './services/RegistrationContentService.js';
+import { FaqDirectoryService } from './services/FaqDirectoryService.js';
+import { AuditLogService } from './services/AuditLogService.js';
+import { AdminAuthService } from './services/AdminAuthService.js';
+import { AdminUserService } from './services/AdminUserService.js';
 import { createTwilioService } from './services/TwilioService.js';
 
 // Import controllers and routes
 import { WebhookController } from './controllers/WebhookController.js';
+import { HandoffController } from './controllers/HandoffController.js';
+import { UnansweredQuestionController } from './controllers/UnansweredQuestionController.js';
+import { FeedbackController } from './controllers/FeedbackController.js';
+import { BlocklistController } from './controllers/BlocklistController.js';
+import { SafeguardingController } from './controllers/SafeguardingController.js';
+import { ServiceController } from './controllers/ServiceController.js';
+import { ContactController } from './controllers/ContactController.js';
+import { RegistrationController } from './controllers/RegistrationController.js';
+import { FaqController } from './controllers/FaqController.js';
+import { AuditLogController } from './controllers/AuditLogController.js';
+import { AdminAuthController } from './controllers/AdminAuthController.js';
+import { AdminUserController } from './controllers/AdminUserController.js';
+import { DialogflowWebhookController } from './controllers/DialogflowWebhookController.js';
 import { createRoutes } from './routes/index.js';
 
 class Application {
   public app: express.Application;
   private server: Server | null = null;
+  private transcriptService: TranscriptService | null = null;
+  private unansweredQuestionService: UnansweredQuestionService | null = null;
+  private dialogflowService: DialogflowService | null = null;
+  private replyQueueService: ReplyQueueService | null = null;
+  private webhookDedupService: WebhookDedupService | null = null;
 
   constructor() {
     this.app = express();
@@ -75,7 +129,7 @@ class Application {
       },
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Twilio-Signature'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Twilio-Signature'],
       maxAge: 86400, // 24 hours
     };
 
@@ -105,8 +159,13 @@ class Application {
 
     // Health check endpoint (early, before auth)
     this.app.get('/health', (req: express.Request, res: express.Response) => {
+      // Routes are set up after this handler, so the service may not exist yet
+      const dialogflowCircuit = EnvironmentConfig.dialogflowEnabled
+        ? this.dialogflowService?.getCircuitStatus() ?? null
+        : null;
+
       const healthStatus = {
-        status: 'OK',
+        status: dialogflowCircuit?.state === 'open' ? 'DEGRADED' : 'OK',
         service: 'Refugee WhatsApp Bot Backend',
         timestamp: new Date().toISOString(),
         environment: EnvironmentConfig.nodeEnv,
@@ -114,6 +173,7 @@ class Application {
         supabase: EnvironmentConfig.supabaseUrl ? 'Connected' : 'Not Configured',
         twilio: EnvironmentConfig.twilioAccountSid ? 'Connected' : 'Not Configured',
         dialogflow: EnvironmentConfig.dialogflowEnabled ? 'Enabled' : 'Disabled',
+        dialogflowCircuit,
       };
 
       res.json(healthStatus);
@@ -128,14 +188,82 @@ class Application {
       const serviceRepo = new ServiceRepository();
       const contactRepo = new ContactRepository();
       const registrationRepo = new RegistrationStepRepository();
+      const profileRepo = new UserProfileRepository();
+      const sessionRepo = new SessionRepository();
+      const faqRepo = new FaqRepository();
+      const settlementRepo = new SettlementRepository();
+      const safeguardingRepo = new SafeguardingRepository();
+      const handoffRepo = new HandoffRepository();
+      const transcriptRepo = new TranscriptRepository();
+      const unansweredQuestionRepo = new UnansweredQuestionRepository();
+      const feedbackRepo = new FeedbackRepository();
+      const replyJobRepo = new ReplyJobRepository();
+      const processedWebhookRepo = new ProcessedWebhookRepository();
+      const blocklistRepo = new BlocklistRepository();
+      const adminUserRepo = new AdminUserRepository();
+      const adminSessionRepo = new AdminSessionRepository();
+      const auditLogRepo = new AuditLogRepository();
       AppLogger.info('✅ Repositories initialized');
 
       // Initialize services
-      const dialogflowService = createDialogflowService(serviceRepo, contactRepo, registrationRepo);
-      const messageService = new MessageService(dialogflowService);
+      const faqService = new FaqService(faqRepo);
+      const locationService = new LocationService(serviceRepo, settlementRepo, profileRepo);
+      const intentRegistry = new IntentRegistry(INTENT_DECLARATIONS);
+      const dialogflowService = createDialogflowService(
+        serviceRepo,
+        contactRepo,
+        registrationRepo,
+        faqService,
+        locationService,
+        intentRegistry
+      );
+      const safeguardingService = new SafeguardingService(contactRepo, safeguardingRepo, locationService);
       const twilioService = createTwilioService();
+      const transcriptService = new TranscriptService(transcriptRepo);
+      const handoffService = new HandoffService(handoffRepo, contactRepo, twilioService, transcriptService);
+      const unansweredQuestionService = new UnansweredQuestionService(unansweredQuestionRepo, faqRepo, intentRegistry);
+      const feedbackService = new FeedbackService(feedbackRepo);
+      const languageService = new LanguageService(profileRepo);
+      const sessionService = new SessionService(sessionRepo);
+      const messageService = new MessageService(
+        dialogflowService,
+        languageService,
+        sessionService,
+        locationService,
+        safeguardingService,
+        handoffService,
+        transcriptService,
+        unansweredQuestionService,
+        feedbackService
+      );
+      const replyQueueService = new ReplyQueueService(replyJobRepo, messageService, twilioService);
+      const webhookDedupService = new WebhookDedupService(processedWebhookRepo);
+      const abuseProtectionService = new AbuseProtectionService(blocklistRepo, languageService);
+      const auditLogService = new AuditLogService(auditLogRepo, registrationRepo, faqService);
+      const serviceDirectoryService = new ServiceDirectoryService(serviceRepo, auditLogService);
+      const contactDirectoryService = new ContactDirectoryService(contactRepo, auditLogService);
+      const registrationContentService = new RegistrationContentService(registrationRepo, auditLogService);
+      const faqDirectoryService = new FaqDirectoryService(faqRepo, faqService, auditLogService);
+      const adminAuthService = new AdminAuthService(adminUserRepo, adminSessionRepo);
+      const adminUserService = new AdminUserService(adminUserRepo, adminSessionRepo);
       AppLogger.info('✅ Services initialized');
 
+      transcriptService.startRetentionJob();
+      this.transcriptService = transcriptService;
+
+      unansweredQuestionService.startRetentionJob();
+      this.unansweredQuestionService = unansweredQuestionService;
+      this.dialogflowService = dialogflowService;
+
+      webhookDedupService.startPurgeJob();
+      this.webhookDedupService = webhookDedupService;
+
+      replyQueueService.startRetentionJob();
+      this.replyQueueService = replyQueueService;
+      if (EnvironmentConfig.asyncReplies) {
+        replyQueueService.startWorker();
+      }
+
       // Test Twilio connection if configured
       if (EnvironmentConfig.twilioAccountSid) {
         try {
@@ -146,12 +274,49 @@ class Application {
         }
       }
 
-      // Initialize controller
-      const webhookController = new WebhookController(messageService);
-      AppLogger.info('✅ Controller initialized');
+      // Initialize controllers
+      const webhookController = new WebhookController(
+        messageService,
+        transcriptService,
+        replyQueueService,
+        webhookDedupService,
+        abuseProtectionService,
+        dialogflowService,
+        safeguardingService
+      );
+      const dialogflowWebhookController = new DialogflowWebhookController(dialogflowService, locationService);
+      const handoffController = new HandoffController(handoffService);
+      const unansweredQuestionController = new UnansweredQuestionController(unansweredQuestionService);
+      const feedbackController = new FeedbackController(feedbackService);
+      const blocklistController = new BlocklistController(abuseProtectionService);
+      const safeguardingController = new SafeguardingController(safeguardingService);
+      const serviceController = new ServiceController(serviceDirectoryService);
+      const contactController = new ContactController(contactDirectoryService);
+      const registrationController = new RegistrationController(registrationContentService);
+      const faqController = new FaqController(faqDirectoryService);
+      const auditLogController = new AuditLogController(auditLogService);
+      const adminAuthController = new AdminAuthController(adminAuthService);
+      const adminUserController = new AdminUserController(adminUserService);
+      AppLogger.info('✅ Controllers initialized');
 
       // Setup routes
-      const routes = createRoutes(webhookController);
+      const routes = createRoutes(
+        webhookController,
+        dialogflowWebhookController,
+        handoffController,
+        unansweredQuestionController,
+        feedbackController,
+        blocklistController,
+        safeguardingController,
+        serviceController,
+        contactController,
+        registrationController,
+        adminAuthService,
+        adminAuthController,
+        adminUserController,
+        faqController,
+        auditLogController
+      );
       this.app.use(routes);
       AppLogger.info('✅ Routes configured');
 
@@ -226,6 +391,12 @@ class Application {
 
       forceShutdownTimeout.unref();
 
+      this.transcriptService?.stopRetentionJob();
+      this.unansweredQuestionService?.stopRetentionJob();
+      this.replyQueueService?.stopWorker();
+      this.replyQueueService?.stopRetentionJob();
+      this.webhookDedupService?.stopPurgeJob();
+
       if (this.server) {
         this.server.close((err) => {
           clearTimeout(forceShutdownTimeout);
@@ -281,6 +452,11 @@ class Application {
    * Stop the server (for testing)
    */
   public async stop(): Promise<void> {
+    this.transcriptService?.stopRetentionJob();
+    this.unansweredQuestionService?.stopRetentionJob();
+    this.replyQueueService?.stopWorker();
+    this.replyQueueService?.stopRetentionJob();
+
     if (this.server) {
       return new Promise((resolve) => {
         this.server!.close(() => {
@@ -0,0 +1,114 @@
+// src/middleware/adminAuth.ts
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { rateLimit, RateLimitInfo } from 'express-rate-limit';
+import { EnvironmentConfig } from '../config/env.js';
+import { AppLogger } from '../config/logger.js';
+import { AdminRole, AuditActor, AuthenticatedAdmin } from '../types/index.js';
+import { ForbiddenError, RateLimitError, UnauthorizedError } from '../types/errors.js';
+import { AdminAuthService } from '../services/AdminAuthService.js';
+import { SlidingWindowStore } from '../utils/slidingWindow.js';
+
+// Set by the session guard
+type AuthenticatedRequest = Request & { admin?: AuthenticatedAdmin };
+
+/**
+ * Turns every admin request away while ADMIN_SESSION_SECRET is unset
+ */
+export const requireAdminApiEnabled = (req: Request, res: Response, next: NextFunction): void => {
+  if (!EnvironmentConfig.adminSessionSecret) {
+    res.status(503).json({
+      error: {
+        message: 'Admin API is not configured',
+        code: 'ADMIN_API_DISABLED',
+        timestamp: new Date().toISOString()
+      }
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Requires a session token in `Authorization: Bearer <token>` and puts the
+ * signed-in admin on the request
+ */
+export const createAdminSessionGuard = (adminAuthService: AdminAuthService): RequestHandler =>
+  async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') || '');
+    if (!match) {
+      next(new UnauthorizedError());
+      return;
+    }
+
+    try {
+      (req as AuthenticatedRequest).admin = await adminAuthService.authenticate(match[1]);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * Allows only the given roles; mount after the session guard
+ */
+export const requireAdminRole = (...roles: AdminRole[]): RequestHandler =>
+  (req: Request, _res: Response, next: NextFunction): void => {
+    const admin = (req as AuthenticatedRequest).admin;
+    if (!admin) {
+      next(new UnauthorizedError());
+      return;
+    }
+
+    if (!roles.includes(admin.user.role)) {
+      AppLogger.warn('Admin role not allowed', { path: req.path, id: admin.user.id, role: admin.user.role });
+      next(new ForbiddenError());
+      return;
+    }
+
+    next();
+  };
+
+/**
+ * The signed-in admin, for handlers behind the session guard
+ */
+export function getAuthenticatedAdmin(req: Request): AuthenticatedAdmin {
+  const admin = (req as AuthenticatedRequest).admin;
+  if (!admin) {
+    throw new UnauthorizedError();
+  }
+  return admin;
+}
+
+/**
+ * The signed-in admin and this request's id, for the audit log
+ */
+export function getAuditActor(req: Request): AuditActor {
+  const { user } = getAuthenticatedAdmin(req);
+  return {
+    adminUserId: user.id,
+    adminUsername: user.username,
+    requestId: req.requestId ?? null
+  };
+}
+
+/**
+ * Limits failed logins per username and IP, to slow password guessing.
+ * Successful logins are not counted.
+ */
+export const adminLoginRateLimit = rateLimit({
+  windowMs: EnvironmentConfig.adminLoginWindowMinutes * 60 * 1000,
+  limit: EnvironmentConfig.adminLoginRateLimit,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+  store: new SlidingWindowStore(),
+  keyGenerator: (req: Request) => `${req.ip}|${String(req.body?.username ?? '').toLowerCase()}`,
+  handler: (req: Request, _res: Response, next: NextFunction) => {
+    const { resetTime } = (req as Request & { rateLimit: RateLimitInfo }).rateLimit;
+    const retryAfter = resetTime ? Math.max(1, Math.ceil((resetTime.getTime() - Date.now()) / 1000)) : undefined;
+
+    AppLogger.warn('Admin login rate limit exceeded', { ip: req.ip, retryAfter });
+    next(new RateLimitError(retryAfter));
+  }
+});
@@ -0,0 +1,61 @@
+// src/middleware/dialogflowAuth.ts
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { EnvironmentConfig } from '../config/env.js';
+import { AppLogger } from '../config/logger.js';
+
+const safeEqual = (provided: string, expected: string): boolean => {
+  const providedBuffer = Buffer.from(provided);
+  const expectedBuffer = Buffer.from(expected);
+  return providedBuffer.length === expectedBuffer.length && timingSafeEqual(providedBuffer, expectedBuffer);
+};
+
+/**
+ * Requires the credentials set for the agent's fulfillment webhook: the
+ * DIALOGFLOW_WEBHOOK_SECRET as an X-Webhook-Secret header, or basic auth
+ * with DIALOGFLOW_WEBHOOK_USERNAME and DIALOGFLOW_WEBHOOK_PASSWORD
+ */
+export const requireDialogflowWebhookAuth = (req: Request, res: Response, next: NextFunction): void => {
+  const secret = EnvironmentConfig.dialogflowWebhookSecret;
+  const username = EnvironmentConfig.dialogflowWebhookUsername;
+  const password = EnvironmentConfig.dialogflowWebhookPassword;
+  const basicAuthConfigured = Boolean(username && password);
+
+  if (!secret && !basicAuthConfigured) {
+    res.status(503).json({
+      error: {
+        message: 'Dialogflow webhook is not configured',
+        code: 'DIALOGFLOW_WEBHOOK_DISABLED',
+        timestamp: new Date().toISOString()
+      }
+    });
+    return;
+  }
+
+  if (secret && safeEqual(req.get('X-Webhook-Secret') || '', secret)) {
+    next();
+    return;
+  }
+
+  const authorization = req.get('Authorization') || '';
+  if (basicAuthConfigured && authorization.startsWith('Basic ')) {
+    const credentials = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf8');
+    if (safeEqual(credentials, `${username}:${password}`)) {
+      next();
+      return;
+    }
+  }
+
+  AppLogger.warn('Rejected Dialogflow webhook request', { path: req.path, ip: req.ip });
+
+  if (basicAuthConfigured) {
+    res.set('WWW-Authenticate', 'Basic realm="dialogflow"');
+  }
+  res.status(401).json({
+    error: {
+      message: 'Invalid or missing webhook credentials',
+      code: 'UNAUTHORIZED',
+      timestamp: new Date().toISOString()
+    }
+  });
+};
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
-import { ValidationError } from '../types/index.js';
+import { NotFoundError, TwilioError, ValidationError } from '../types/index.js';
+import { ForbiddenError, RateLimitError, UnauthorizedError } from '../types/errors.js';
 import { AppLogger } from '../config/logger.js';
 
 export const validateTwilioWebhook = (req: Request, res: Response, next: NextFunction): void => {
@@ -34,6 +35,23 @@ export const errorHandler = (err: Error, req: Request, res: Response, next: Next
   if (err instanceof ValidationError) {
     AppLogger.error('Validation error occurred', err, { path: req.path });
     res.status(400).json({ error: err.message });
+  } else if (err instanceof NotFoundError) {
+    AppLogger.warn('Resource not found', { path: req.path, message: err.message });
+    res.status(404).json({ error: err.message });
+  } else if (err instanceof UnauthorizedError) {
+    AppLogger.warn('Unauthenticated request', { path: req.path, ip: req.ip, message: err.message });
+    res.status(401).json({ error: err.message });
+  } else if (err instanceof ForbiddenError) {
+    AppLogger.warn('Forbidden request', { path: req.path, message: err.message });
+    res.status(403).json({ error: err.message });
+  } else if (err instanceof RateLimitError) {
+    if (err.retryAfter) {
+      res.set('Retry-After', String(err.retryAfter));
+    }
+    res.status(429).json({ error: err.message });
+  } else if (err instanceof TwilioError) {
+    AppLogger.error('Twilio error occurred', err, { path: req.path });
+    res.status(502).json({ error: err.message });
   } else {
     AppLogger.error('Unexpected error occurred', err, { path: req.path });
     res.status(500).json({ error: 'Internal Server Error' });
@@ -2,6 +2,16 @@
 import { Request, Response, NextFunction } from 'express';
 import { AppLogger } from '../config/logger.js';
 
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      // Set by requestLogger, for log lines and response metadata
+      requestId?: string;
+    }
+  }
+}
+
 export const requestLogger = (req: Request, res: Response, next: NextFunction): void => {
   const startTime = Date.now();
   
@@ -9,7 +19,7 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction):
   const requestId = generateRequestId();
 
   // Attach request ID to request object for use in other middleware
-  (req as any).requestId = requestId;
+  req.requestId = requestId;
 
   // Log incoming request
   AppLogger.info('Incoming request', {
@@ -70,7 +80,7 @@ export const detailedRequestLogger = (req: Request, res: Response, next: NextFun
   const startTime = process.hrtime();
   const requestId = generateRequestId();
   
-  (req as any).requestId = requestId;
+  req.requestId = requestId;
 
   // Log detailed request information
   AppLogger.debug('Request details', {
@@ -1,6 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { rateLimit, RateLimitInfo } from 'express-rate-limit';
 import { ValidationError } from '../types/index.js';
+import { RateLimitError } from '../types/errors.js';
 import { AppLogger } from '../config/logger.js';
+import { EnvironmentConfig } from '../config/env.js';
+import { parseCoordinates } from '../utils/geo.js';
+import { SlidingWindowStore } from '../utils/slidingWindow.js';
 
 /**
  * Validation schemas and rules for different request types
@@ -10,7 +16,14 @@ export class RequestValidator {
    * Validates Twilio webhook payload structure
    */
   public static validateTwilioWebhookPayload(payload: any): void {
-    const requiredFields = ['From', 'Body'];
+    // A shared location pin arrives with Latitude/Longitude and an empty Body
+    const hasLocation = payload.Latitude !== undefined || payload.Longitude !== undefined;
+
+    const requiredFields = hasLocation ? ['From'] : ['From', 'Body'];
+    // Retried deliveries are recognised by MessageSid, so production requires it
+    if (EnvironmentConfig.isProduction()) {
+      requiredFields.push('MessageSid');
+    }
     const missingFields = requiredFields.filter(field => !payload[field]);
 
     if (missingFields.length > 0) {
@@ -23,16 +36,20 @@ export class RequestValidator {
       throw new ValidationError('Invalid phone number format. Expected format: whatsapp:+1234567890');
     }
 
+    if (hasLocation && !parseCoordinates(payload.Latitude, payload.Longitude)) {
+      throw new ValidationError('Latitude and Longitude must be valid coordinates');
+    }
+
     // Validate message body length and content
-    if (typeof payload.Body !== 'string') {
+    if (payload.Body !== undefined && typeof payload.Body !== 'string') {
       throw new ValidationError('Message body must be a string');
     }
 
-    if (payload.Body.trim().length === 0) {
+    if (!hasLocation && payload.Body.trim().length === 0) {
       throw new ValidationError('Message body cannot be empty');
     }
 
-    if (payload.Body.length > 1000) {
+    if (payload.Body && payload.Body.length > 1000) {
       throw new ValidationError('Message body too long. Maximum 1000 characters allowed');
     }
 
@@ -46,6 +63,36 @@ export class RequestValidator {
     }
   }
 
+  /**
+   * Validates a Dialogflow ES fulfillment request
+   */
+  public static validateDialogflowWebhookPayload(payload: any): void {
+    if (!payload || typeof payload.session !== 'string' || payload.session.length === 0) {
+      throw new ValidationError('Missing required field: session');
+    }
+
+    const queryResult = payload.queryResult;
+    if (!queryResult || typeof queryResult !== 'object') {
+      throw new ValidationError('Missing required field: queryResult');
+    }
+
+    if (typeof queryResult.queryText !== 'string') {
+      throw new ValidationError('queryResult.queryText must be a string');
+    }
+
+    if (typeof queryResult.languageCode !== 'string') {
+      throw new ValidationError('queryResult.languageCode must be a string');
+    }
+
+    if (queryResult.intent !== undefined && typeof queryResult.intent?.displayName !== 'string') {
+      throw new ValidationError('queryResult.intent.displayName must be a string');
+    }
+
+    if (queryResult.outputContexts !== undefined && !Array.isArray(queryResult.outputContexts)) {
+      throw new ValidationError('queryResult.outputContexts must be an array');
+    }
+  }
+
   /**
    * Validates health check request parameters
    */
@@ -94,16 +141,38 @@ export class RequestValidator {
       throw new ValidationError('Organization must be a string');
     }
 
-    // Validate email format if present
+    // Validate email format if present (services use contact_email, contacts use email)
     if (payload.contact_email && !this.isValidEmail(payload.contact_email)) {
       throw new ValidationError('Invalid email format');
     }
 
-    // Validate phone number format if present
+    if (payload.email && !this.isValidEmail(payload.email)) {
+      throw new ValidationError('Invalid email format');
+    }
+
+    // Validate phone number format if present (services use contact_phone, contacts use phone)
     if (payload.contact_phone && !this.isValidPhoneNumber(payload.contact_phone)) {
       throw new ValidationError('Invalid phone number format');
     }
 
+    if (payload.phone && !this.isValidPhoneNumber(payload.phone)) {
+      throw new ValidationError('Invalid phone number format');
+    }
+
+    // Validate coordinates and settlement reference if present
+    if (payload.latitude !== undefined && payload.latitude !== null && !this.isInRange(payload.latitude, 90)) {
+      throw new ValidationError('Latitude must be a number between -90 and 90');
+    }
+
+    if (payload.longitude !== undefined && payload.longitude !== null && !this.isInRange(payload.longitude, 180)) {
+      throw new ValidationError('Longitude must be a number between -180 and 180');
+    }
+
+    if (payload.settlement_id !== undefined && payload.settlement_id !== null &&
+        (!Number.isInteger(payload.settlement_id) || payload.settlement_id <= 0)) {
+      throw new ValidationError('settlement_id must be a positive integer');
+    }
+
     // Validate boolean fields
     const booleanFields = ['is_urgent', 'is_essential', 'is_active'];
     booleanFields.forEach(field => {
@@ -147,6 +216,13 @@ export class RequestValidator {
     return emailRegex.test(email);
   }
 
+  /**
+   * Coordinate validation helper
+   */
+  private static isInRange(value: unknown, limit: number): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+  }
+
   /**
    * Phone number validation helper
    */
@@ -200,6 +276,32 @@ export const validateTwilioWebhook = (req: Request, res: Response, next: NextFun
   }
 };
 
+export const validateDialogflowWebhook = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    RequestValidator.validateDialogflowWebhookPayload(req.body);
+
+    AppLogger.debug('Dialogflow webhook validation passed');
+    next();
+  } catch (error) {
+    AppLogger.warn('Dialogflow webhook validation failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ip: req.ip
+    });
+
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        error: {
+          message: error.message,
+          code: 'VALIDATION_ERROR',
+          timestamp: new Date().toISOString()
+        }
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
 export const validateHealthCheck = (req: Request, res: Response, next: NextFunction): void => {
   try {
     RequestValidator.validateHealthCheckRequest(req.query);
@@ -383,24 +485,30 @@ export const validateContentType = (expectedType: string = 'application/json') =
 };
 
 /**
- * Rate limiting validation (basic implementation)
+ * Sliding-window limit on staff and admin API requests, counted per
+ * credential (API key or admin session token) since IPs say little behind
+ * proxies. Mount after the credential has been checked.
  */
-export const validateRateLimit = (req: Request, res: Response, next: NextFunction): void => {
-  // This is a basic implementation. In production, use a proper rate limiting library
-  // like express-rate-limit
-  
-  const clientIP = req.ip;
-  const path = req.path;
-
-  AppLogger.debug('Rate limit check', { clientIP, path });
-
-  // Add your rate limiting logic here
-  // For now, just pass through
-  next();
-};
+export const validateRateLimit = rateLimit({
+  windowMs: EnvironmentConfig.rateLimitWindowSeconds * 1000,
+  limit: EnvironmentConfig.staffApiRateLimit,
+  standardHeaders: 'draft-7',
+  legacyHeaders: false,
+  store: new SlidingWindowStore(),
+  keyGenerator: (req: Request) =>
+    createHash('sha256').update(req.get('X-API-Key') || req.get('Authorization') || '').digest('hex'),
+  handler: (req: Request, _res: Response, next: NextFunction) => {
+    const { resetTime } = (req as Request & { rateLimit: RateLimitInfo }).rateLimit;
+    const retryAfter = resetTime ? Math.max(1, Math.ceil((resetTime.getTime() - Date.now()) / 1000)) : undefined;
+
+    AppLogger.warn('Staff API rate limit exceeded', { path: req.path, ip: req.ip, retryAfter });
+    next(new RateLimitError(retryAfter));
+  }
+});
 
 export default {
   validateTwilioWebhook,
+  validateDialogflowWebhook,
   validateHealthCheck,
   validateAdminRequest,
   validateListQuery,
@@ -0,0 +1,38 @@
+// src/middleware/staffAuth.ts
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { EnvironmentConfig } from '../config/env.js';
+import { AppLogger } from '../config/logger.js';
+
+/**
+ * Requires the STAFF_API_KEY in the X-API-Key header
+ */
+export const requireStaffApiKey = (req: Request, res: Response, next: NextFunction): void => {
+  if (!EnvironmentConfig.staffApiKey) {
+    res.status(503).json({
+      error: {
+        message: 'Staff API is not configured',
+        code: 'STAFF_API_DISABLED',
+        timestamp: new Date().toISOString()
+      }
+    });
+    return;
+  }
+
+  const provided = Buffer.from(req.get('X-API-Key') || '');
+  const expected = Buffer.from(EnvironmentConfig.staffApiKey);
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    AppLogger.warn('Rejected staff API request', { path: req.path, ip: req.ip });
+    res.status(401).json({
+      error: {
+        message: 'Invalid or missing API key',
+        code: 'UNAUTHORIZED',
+        timestamp: new Date().toISOString()
+      }
+    });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,21 @@
+// src/middleware/webhookRateLimit.ts
+import { Request, RequestHandler } from 'express';
+import { rateLimit, RateLimitRequestHandler } from 'express-rate-limit';
+import { EnvironmentConfig } from '../config/env.js';
+import { SlidingWindowStore } from '../utils/slidingWindow.js';
+
+/**
+ * Sliding-window limit on messages per WhatsApp number. Every request
+ * comes from Twilio, so the IP says nothing about the sender. Messages
+ * over the limit go to `onLimited`, which answers Twilio with TwiML.
+ */
+export const createWebhookRateLimiter = (onLimited: RequestHandler): RateLimitRequestHandler =>
+  rateLimit({
+    windowMs: EnvironmentConfig.rateLimitWindowSeconds * 1000,
+    limit: EnvironmentConfig.webhookRateLimit,
+    standardHeaders: false,
+    legacyHeaders: false,
+    store: new SlidingWindowStore(),
+    keyGenerator: (req: Request) => req.body.From,
+    handler: (req, res, next) => onLimited(req, res, next)
+  });
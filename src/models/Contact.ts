@@ -5,11 +5,14 @@ export class ContactModel implements Contact {
     public id: number,
     public entity: string,
     public description: string,
-    public type: 'Emergency' | 'General' | 'Fraud' | 'Hospital',
+    public type: 'Emergency' | 'General' | 'Fraud' | 'Hospital' | 'Settlement',
     public is_urgent: boolean,
     public phone: string | null = null,
     public email: string | null = null,
     public notes: string | null = null,
+    public latitude: number | null = null,
+    public longitude: number | null = null,
+    public settlement_id: number | null = null,
     public created_at: string = new Date().toISOString(),
     public updated_at: string = new Date().toISOString()
   ) {}
@@ -24,6 +27,9 @@ export class ContactModel implements Contact {
       row.phone ?? null,
       row.email ?? null,
       row.notes ?? null,
+      row.latitude ?? null,
+      row.longitude ?? null,
+      row.settlement_id ?? null,
       row.created_at,
       row.updated_at
     );
@@ -39,6 +45,9 @@ export class ContactModel implements Contact {
       phone: this.phone,
       email: this.email,
       notes: this.notes,
+      latitude: this.latitude,
+      longitude: this.longitude,
+      settlement_id: this.settlement_id,
       created_at: this.created_at,
       updated_at: this.updated_at
     };
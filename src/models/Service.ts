@@ -1,15 +1,19 @@
 import { Service } from '../types/index.js';
+import { ServiceCategory } from '../utils/constants.js';
 
 export class ServiceModel implements Service {
   constructor(
     public id: number,
-    public category: 'Food' | 'Health' | 'Shelter' | 'Protection' | 'Livelihoods',
+    public category: ServiceCategory,
     public organization: string,
     public services: string,
     public location: string,
     public contact_phone: string | null = null,
     public contact_email: string | null = null,
     public notes: string | null = null,
+    public latitude: number | null = null,
+    public longitude: number | null = null,
+    public settlement_id: number | null = null,
     public created_at: string = new Date().toISOString(),
     public updated_at: string = new Date().toISOString()
   ) {}
@@ -24,6 +28,9 @@ export class ServiceModel implements Service {
       row.contact_phone ?? null,
       row.contact_email ?? null,
       row.notes ?? null,
+      row.latitude ?? null,
+      row.longitude ?? null,
+      row.settlement_id ?? null,
       row.created_at,
       row.updated_at
     );
@@ -39,6 +46,9 @@ export class ServiceModel implements Service {
       contact_phone: this.contact_phone,
       contact_email: this.contact_email,
       notes: this.notes,
+      latitude: this.latitude,
+      longitude: this.longitude,
+      settlement_id: this.settlement_id,
       created_at: this.created_at,
       updated_at: this.updated_at
     };
@@ -0,0 +1,101 @@
+// src/repositories/AdminSessionRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { AdminSession } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+import { NotFoundError } from '../types/index.js';
+
+export class AdminSessionRepository {
+  constructor() {}
+
+  public async createSession(
+    session: Pick<AdminSession, 'id' | 'admin_user_id' | 'expires_at'>
+  ): Promise<AdminSession> {
+    const { data, error } = await supabase
+      .from('admin_sessions')
+      .insert(session)
+      .select()
+      .single();
+
+    if (error) {
+      AppLogger.error('Failed to create admin session', error, { adminUserId: session.admin_user_id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('Admin session');
+    }
+
+    return data;
+  }
+
+  public async getSession(id: string): Promise<AdminSession | null> {
+    const { data, error } = await supabase
+      .from('admin_sessions')
+      .select('*')
+      .eq('id', id)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch admin session', error);
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async revokeSession(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('admin_sessions')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('revoked_at', null);
+
+    if (error) {
+      AppLogger.error('Failed to revoke admin session', error);
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Sign a user out everywhere, optionally keeping the session making the change
+   */
+  public async revokeUserSessions(adminUserId: number, exceptSessionId?: string): Promise<void> {
+    let query = supabase
+      .from('admin_sessions')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('admin_user_id', adminUserId)
+      .is('revoked_at', null);
+
+    if (exceptSessionId) {
+      query = query.neq('id', exceptSessionId);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      AppLogger.error('Failed to revoke admin user sessions', error, { adminUserId });
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Forget a user's sessions that have expired, so the table does not grow with every sign-in
+   */
+  public async deleteExpiredSessions(adminUserId: number): Promise<void> {
+    const { error } = await supabase
+      .from('admin_sessions')
+      .delete()
+      .eq('admin_user_id', adminUserId)
+      .lt('expires_at', new Date().toISOString());
+
+    if (error) {
+      AppLogger.error('Failed to delete expired admin sessions', error, { adminUserId });
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+}
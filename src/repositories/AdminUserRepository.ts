@@ -0,0 +1,200 @@
+// src/repositories/AdminUserRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { AdminUser } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+import { AdminProfile, NotFoundError, ValidationError } from '../types/index.js';
+import { ForbiddenError } from '../types/errors.js';
+
+// Everything but the password hash, for rows that leave the server
+const PROFILE_COLUMNS = 'id, username, email, role, is_active, created_at, last_login';
+
+// Postgres unique_violation: the username or email is taken
+const UNIQUE_VIOLATION = '23505';
+// Raised by create_first_admin_user once an admin user exists
+const INSUFFICIENT_PRIVILEGE = '42501';
+
+export class AdminUserRepository {
+  constructor() {}
+
+  public async getUserById(id: number): Promise<AdminUser | null> {
+    const { data, error } = await supabase
+      .from('admin_users')
+      .select('*')
+      .eq('id', id)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch admin user by ID', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async getUserByUsername(username: string): Promise<AdminUser | null> {
+    const { data, error } = await supabase
+      .from('admin_users')
+      .select('*')
+      .eq('username', username)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch admin user by username', error, { username });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async countUsers(): Promise<number> {
+    const { count, error } = await supabase
+      .from('admin_users')
+      .select('id', { count: 'exact', head: true });
+
+    if (error) {
+      AppLogger.error('Failed to count admin users', error);
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+
+  public async listUsers(): Promise<AdminProfile[]> {
+    const { data, error } = await supabase
+      .from('admin_users')
+      .select(PROFILE_COLUMNS)
+      .order('username', { ascending: true });
+
+    if (error) {
+      AppLogger.error('Failed to fetch admin users', error);
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const users = data || [];
+    AppLogger.debug(`Fetched ${users.length} admin users`);
+    return users;
+  }
+
+  public async createUser(
+    user: Pick<AdminUser, 'username' | 'email' | 'password_hash' | 'role'>
+  ): Promise<AdminUser> {
+    const { data, error } = await supabase
+      .from('admin_users')
+      .insert(user)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ValidationError('Username or email is already in use');
+      }
+      AppLogger.error('Failed to create admin user', error, { username: user.username });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('Admin user');
+    }
+
+    AppLogger.info('Created admin user', { id: data.id, username: data.username, role: data.role });
+    return data;
+  }
+
+  /**
+   * Create the first admin, in a transaction that fails once any admin user exists
+   */
+  public async createFirstAdmin(
+    user: Pick<AdminUser, 'username' | 'email' | 'password_hash'>
+  ): Promise<AdminUser> {
+    const { data, error } = await supabase
+      .rpc('create_first_admin_user', {
+        new_username: user.username,
+        new_email: user.email,
+        new_password_hash: user.password_hash
+      })
+      .single<AdminUser>();
+
+    if (error) {
+      if (error.code === INSUFFICIENT_PRIVILEGE) {
+        throw new ForbiddenError('Admin users already exist; ask an admin to add you');
+      }
+      AppLogger.error('Failed to create first admin user', error, { username: user.username });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('Admin user');
+    }
+
+    return data;
+  }
+
+  public async updateUser(
+    id: number,
+    updates: Partial<Pick<AdminUser, 'username' | 'email' | 'password_hash' | 'role' | 'is_active'>>
+  ): Promise<AdminUser> {
+    const { data, error } = await supabase
+      .from('admin_users')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError('Admin user');
+      }
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ValidationError('Username or email is already in use');
+      }
+      AppLogger.error('Failed to update admin user', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    // Never log the hash itself
+    AppLogger.info('Updated admin user', { id, fields: Object.keys(updates) });
+    return data;
+  }
+
+  public async recordLogin(id: number): Promise<void> {
+    const { error } = await supabase
+      .from('admin_users')
+      .update({ last_login: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      AppLogger.error('Failed to record admin login', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  public async deleteUser(id: number): Promise<AdminUser> {
+    const { data, error } = await supabase
+      .from('admin_users')
+      .delete()
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError('Admin user');
+      }
+      AppLogger.error('Failed to delete admin user', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    AppLogger.info('Deleted admin user', { id, username: data.username });
+    return data;
+  }
+}
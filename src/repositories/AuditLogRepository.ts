@@ -0,0 +1,107 @@
+// src/repositories/AuditLogRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { AuditLogEntry, AuditedTable } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+import { AuditActor, AuditedChange, PaginationParams, ValidationError } from '../types/index.js';
+
+export class AuditLogRepository {
+  constructor() {}
+
+  public async getEntryById(id: number): Promise<AuditLogEntry | null> {
+    const { data, error } = await supabase
+      .from('audit_log')
+      .select('*')
+      .eq('id', id)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch audit log entry', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Entries for a table, or for one record of it, newest first
+   */
+  public async listEntries(
+    table: AuditedTable,
+    recordId: number | undefined,
+    pagination: Required<PaginationParams>
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    let query = supabase
+      .from('audit_log')
+      .select('*', { count: 'exact' })
+      .eq('table_name', table);
+
+    if (recordId !== undefined) {
+      query = query.eq('record_id', recordId);
+    }
+
+    const from = (pagination.page - 1) * pagination.limit;
+    const { data, count, error } = await query
+      .order(pagination.sort, { ascending: pagination.order === 'asc' })
+      .order('id', { ascending: pagination.order === 'asc' })
+      .range(from, from + pagination.limit - 1);
+
+    if (error) {
+      AppLogger.error('Failed to list audit log entries', error, { table, recordId });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const entries = data || [];
+    AppLogger.debug(`Fetched ${entries.length} of ${count ?? 0} audit log entries`, { table, recordId });
+    return { entries, total: count ?? 0 };
+  }
+
+  /**
+   * Create, update, delete or restore a content record and write its audit
+   * entry in one transaction (`apply_audited_change` in schema.sql), so a
+   * change is never saved unaudited. Returns the record after the change, or
+   * as it was before a delete; null when the record to change does not exist.
+   */
+  public async applyChange(
+    actor: AuditActor,
+    change: AuditedChange
+  ): Promise<Record<string, unknown> | null> {
+    const { data, error } = await supabase
+      .rpc('apply_audited_change', {
+        target_table: change.table,
+        change_action: change.action,
+        target_id: change.recordId,
+        fields: change.fields,
+        actor,
+        source_entry_id: change.restoredFrom ?? null
+      });
+
+    if (error) {
+      // Raised by the function when the record to change does not exist
+      if (error.code === 'P0002') {
+        return null;
+      }
+      if (error.code === '22023') {
+        throw new ValidationError(error.message);
+      }
+      AppLogger.error('Failed to apply audited change', error, {
+        table: change.table,
+        recordId: change.recordId,
+        action: change.action
+      });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    AppLogger.info('Applied audited change', {
+      table: change.table,
+      recordId: data?.id ?? change.recordId,
+      action: change.action,
+      by: actor.adminUsername
+    });
+    return data;
+  }
+}
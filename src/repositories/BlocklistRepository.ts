@@ -0,0 +1,92 @@
+// src/repositories/BlocklistRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { BlockedUser } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+import { NotFoundError } from '../types/index.js';
+
+export class BlocklistRepository {
+  constructor() {}
+
+  /**
+   * The user's block if it has not expired
+   */
+  public async getActiveBlock(userId: string): Promise<BlockedUser | null> {
+    const { data, error } = await supabase
+      .from('blocked_users')
+      .select('*')
+      .eq('user_id', userId)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch user block', error, { userId });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async getBlocks(): Promise<BlockedUser[]> {
+    const { data, error } = await supabase
+      .from('blocked_users')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      AppLogger.error('Failed to fetch blocked users', error);
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const blocks = data || [];
+    AppLogger.debug(`Fetched ${blocks.length} blocked users`);
+    return blocks;
+  }
+
+  /**
+   * Block a user, replacing any earlier block of theirs
+   */
+  public async upsertBlock(
+    block: Pick<BlockedUser, 'user_id' | 'reason' | 'blocked_by' | 'expires_at'>
+  ): Promise<BlockedUser> {
+    const { data, error } = await supabase
+      .from('blocked_users')
+      .upsert({ ...block, created_at: new Date().toISOString() }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      AppLogger.error('Failed to block user', error, { userId: block.user_id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('Blocked user');
+    }
+
+    return data;
+  }
+
+  public async deleteBlock(id: number): Promise<BlockedUser> {
+    const { data, error } = await supabase
+      .from('blocked_users')
+      .delete()
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError('Blocked user');
+      }
+      AppLogger.error('Failed to unblock user', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+}
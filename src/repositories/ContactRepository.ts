@@ -2,7 +2,7 @@
 import { supabase } from '../config/database/supabaseClient.js';
 import { Contact } from '../types/database.js';
 import { AppLogger } from '../config/logger.js';
-import { NotFoundError } from '../types/index.js';
+import { ContactFilters, PaginationParams } from '../types/index.js';
 
 export class ContactRepository {
   constructor() {}
@@ -43,16 +43,22 @@ export class ContactRepository {
     return contacts;
   }
 
-  public async getAllContacts(): Promise<Contact[]> {
-    const { data, error } = await supabase
+  public async getAllContacts(entity?: string): Promise<Contact[]> {
+    let query = supabase
       .from('contacts')
-      .select('*')
+      .select('*');
+
+    if (entity) {
+      query = query.ilike('entity', `%${entity}%`);
+    }
+
+    const { data, error } = await query
       .order('is_urgent', { ascending: false })
       .order('type', { ascending: true })
       .order('entity', { ascending: true });
 
     if (error) {
-      AppLogger.error('Failed to fetch all contacts', error);
+      AppLogger.error('Failed to fetch all contacts', error, { entity });
       throw new Error(`Database error: ${error.message}`);
     }
 
@@ -82,34 +88,44 @@ export class ContactRepository {
     return data;
   }
 
-  public async createContact(contactData: Omit<Contact, 'id' | 'created_at' | 'updated_at'>): Promise<Contact> {
-    const { entity, phone, email, description, type, is_urgent, notes } = contactData;
-    const payload = {
-      entity,
-      phone,
-      email,
-      description,
-      type,
-      is_urgent,
-      notes,
-    };
-
-    const { data, error } = await supabase
+  public async listContacts(
+    filters: ContactFilters,
+    pagination: Required<PaginationParams>
+  ): Promise<{ contacts: Contact[]; total: number }> {
+    let query = supabase
       .from('contacts')
-      .insert(payload)
-      .select()
-      .single();
+      .select('*', { count: 'exact' });
 
-    if (error) {
-      AppLogger.error('Failed to create contact', error, { entity, type });
-      throw new Error(`Database error: ${error.message}`);
+    if (filters.type) {
+      query = query.eq('type', filters.type);
     }
 
-    if (!data) {
-      throw new NotFoundError('Contact');
+    if (filters.is_urgent !== undefined) {
+      query = query.eq('is_urgent', filters.is_urgent);
     }
 
-    AppLogger.info('Created new contact', { id: data.id, entity });
-    return data;
+    if (filters.settlement_id) {
+      query = query.eq('settlement_id', filters.settlement_id);
+    }
+
+    if (filters.search) {
+      // Commas and parentheses would break the or() filter syntax
+      const term = filters.search.replace(/[,()]/g, ' ');
+      query = query.or(`entity.ilike.%${term}%,description.ilike.%${term}%`);
+    }
+
+    const from = (pagination.page - 1) * pagination.limit;
+    const { data, count, error } = await query
+      .order(pagination.sort, { ascending: pagination.order === 'asc' })
+      .range(from, from + pagination.limit - 1);
+
+    if (error) {
+      AppLogger.error('Failed to list contacts', error, { filters, pagination });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const contacts = data || [];
+    AppLogger.debug(`Fetched ${contacts.length} of ${count ?? 0} contacts`, { filters });
+    return { contacts, total: count ?? 0 };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,79 @@
+// src/repositories/FaqRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { Faq } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+
+export class FaqRepository {
+  constructor() {}
+
+  public async getAllFaqs(): Promise<Faq[]> {
+    const { data, error } = await supabase
+      .from('faqs')
+      .select('*')
+      .order('category', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (error) {
+      AppLogger.error('Failed to fetch all FAQs', error);
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const faqs = data || [];
+    AppLogger.debug(`Fetched ${faqs.length} total FAQs`);
+    return faqs;
+  }
+
+  public async getFaqById(id: number): Promise<Faq | null> {
+    const { data, error } = await supabase
+      .from('faqs')
+      .select('*')
+      .eq('id', id)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch FAQ', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async getFaqsByCategory(category: string): Promise<Faq[]> {
+    const { data, error } = await supabase
+      .from('faqs')
+      .select('*')
+      .eq('category', category)
+      .order('id', { ascending: true });
+
+    if (error) {
+      AppLogger.error('Failed to fetch FAQs by category', error, { category });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const faqs = data || [];
+    AppLogger.debug(`Fetched ${faqs.length} FAQs for category: ${category}`);
+    return faqs;
+  }
+
+  public async getFaqsByIntent(intentReference: string): Promise<Faq[]> {
+    const { data, error } = await supabase
+      .from('faqs')
+      .select('*')
+      .eq('intent_reference', intentReference)
+      .order('id', { ascending: true });
+
+    if (error) {
+      AppLogger.error('Failed to fetch FAQs by intent', error, { intentReference });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const faqs = data || [];
+    AppLogger.debug(`Fetched ${faqs.length} FAQs for intent: ${intentReference}`);
+    return faqs;
+  }
+}
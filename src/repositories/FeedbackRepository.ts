@@ -0,0 +1,99 @@
+// src/repositories/FeedbackRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { AnswerFeedback, FeedbackGrouping, FeedbackSummaryRow } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+import { NotFoundError, PaginationParams } from '../types/index.js';
+
+export class FeedbackRepository {
+  constructor() {}
+
+  /**
+   * One page of feedback, newest first unless sorted otherwise
+   */
+  public async getFeedback(
+    filters: { intent?: string; since?: string },
+    pagination: Required<PaginationParams>
+  ): Promise<{ feedback: AnswerFeedback[]; total: number }> {
+    let query = supabase
+      .from('answer_feedback')
+      .select('*', { count: 'exact' });
+
+    if (filters.intent) {
+      query = query.eq('intent', filters.intent);
+    }
+
+    if (filters.since) {
+      query = query.gte('created_at', filters.since);
+    }
+
+    const from = (pagination.page - 1) * pagination.limit;
+    const { data, count, error } = await query
+      .order(pagination.sort, { ascending: pagination.order === 'asc' })
+      .order('id', { ascending: pagination.order === 'asc' })
+      .range(from, from + pagination.limit - 1);
+
+    if (error) {
+      AppLogger.error('Failed to fetch answer feedback', error, filters);
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const feedback = data || [];
+    AppLogger.debug(`Fetched ${feedback.length} of ${count ?? 0} feedback entries`);
+    return { feedback, total: count ?? 0 };
+  }
+
+  /**
+   * Feedback counted per intent or per organization by the
+   * `summarise_feedback_by_*` functions, largest group first
+   */
+  public async summariseFeedback(groupBy: FeedbackGrouping, since?: string): Promise<FeedbackSummaryRow[]> {
+    const { data, error } = await supabase
+      .rpc(`summarise_feedback_by_${groupBy}`, { since: since ?? null });
+
+    if (error) {
+      AppLogger.error('Failed to summarise answer feedback', error, { groupBy, since });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  public async createFeedback(feedback: Omit<AnswerFeedback, 'id' | 'comment' | 'created_at'>): Promise<AnswerFeedback> {
+    const { data, error } = await supabase
+      .from('answer_feedback')
+      .insert(feedback)
+      .select()
+      .single();
+
+    if (error) {
+      AppLogger.error('Failed to save answer feedback', error, { intent: feedback.intent });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('Answer feedback');
+    }
+
+    return data;
+  }
+
+  public async addComment(id: number, comment: string): Promise<AnswerFeedback> {
+    const { data, error } = await supabase
+      .from('answer_feedback')
+      .update({ comment })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      AppLogger.error('Failed to save feedback comment', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('Answer feedback');
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,170 @@
+// src/repositories/HandoffRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { HandoffMessage, HandoffTicket } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+import { NotFoundError } from '../types/index.js';
+
+export class HandoffRepository {
+  constructor() {}
+
+  public async getOpenTicketForUser(userId: string): Promise<HandoffTicket | null> {
+    const { data, error } = await supabase
+      .from('handoff_tickets')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'open')
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch open handoff ticket', error, { userId });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async getTicketById(id: number): Promise<HandoffTicket | null> {
+    const { data, error } = await supabase
+      .from('handoff_tickets')
+      .select('*')
+      .eq('id', id)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch handoff ticket', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async getTickets(status?: HandoffTicket['status']): Promise<HandoffTicket[]> {
+    let query = supabase
+      .from('handoff_tickets')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      AppLogger.error('Failed to fetch handoff tickets', error, { status });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const tickets = data || [];
+    AppLogger.debug(`Fetched ${tickets.length} handoff tickets`);
+    return tickets;
+  }
+
+  public async createTicket(
+    ticket: Pick<HandoffTicket, 'user_id' | 'phone' | 'language' | 'settlement_id' | 'last_intent'>
+  ): Promise<HandoffTicket> {
+    const { data, error } = await supabase
+      .from('handoff_tickets')
+      .insert(ticket)
+      .select()
+      .single();
+
+    if (error) {
+      AppLogger.error('Failed to create handoff ticket', error, { userId: ticket.user_id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('Handoff ticket');
+    }
+
+    return data;
+  }
+
+  /**
+   * Close an open ticket. Null when it was already closed, so a user leaving
+   * and staff closing at the same moment keep whoever closed it first.
+   */
+  public async closeTicket(id: number, closedBy: string): Promise<HandoffTicket | null> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('handoff_tickets')
+      .update({
+        status: 'closed',
+        closed_by: closedBy,
+        closed_at: now,
+        updated_at: now,
+        // The phone number is only kept while staff may need to reply
+        phone: null,
+      })
+      .eq('id', id)
+      .eq('status', 'open')
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to close handoff ticket', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async getMessages(ticketId: number): Promise<HandoffMessage[]> {
+    const { data, error } = await supabase
+      .from('handoff_messages')
+      .select('*')
+      .eq('ticket_id', ticketId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      AppLogger.error('Failed to fetch handoff messages', error, { ticketId });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const messages = data || [];
+    AppLogger.debug(`Fetched ${messages.length} handoff messages`);
+    return messages;
+  }
+
+  public async addMessage(
+    message: Pick<HandoffMessage, 'ticket_id' | 'sender' | 'body' | 'staff_name'>
+  ): Promise<HandoffMessage> {
+    const { data, error } = await supabase
+      .from('handoff_messages')
+      .insert(message)
+      .select()
+      .single();
+
+    if (error) {
+      AppLogger.error('Failed to save handoff message', error, { ticketId: message.ticket_id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('Handoff message');
+    }
+
+    // updated_at records the latest activity on the ticket
+    await supabase
+      .from('handoff_tickets')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', message.ticket_id);
+
+    return data;
+  }
+}
@@ -0,0 +1,129 @@
+// src/repositories/ProcessedWebhookRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { ProcessedWebhook } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+
+export class ProcessedWebhookRepository {
+  constructor() {}
+
+  public async getBySid(messageSid: string): Promise<ProcessedWebhook | null> {
+    const { data, error } = await supabase
+      .from('processed_webhooks')
+      .select('*')
+      .eq('message_sid', messageSid)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch processed webhook', error, { messageSid });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Record a MessageSid as being handled. Returns false when it is already
+   * recorded, so only one of two concurrent deliveries goes ahead.
+   */
+  public async claim(messageSid: string, expiresAt: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('processed_webhooks')
+      .upsert({ message_sid: messageSid, expires_at: expiresAt }, { onConflict: 'message_sid', ignoreDuplicates: true })
+      .select();
+
+    if (error) {
+      AppLogger.error('Failed to record processed webhook', error, { messageSid });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Take over a record whose TTL has passed but which has not been purged yet
+   */
+  public async reclaimExpired(messageSid: string, expiresAt: string): Promise<boolean> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('processed_webhooks')
+      .update({ response: null, locked_at: now, expires_at: expiresAt, created_at: now })
+      .eq('message_sid', messageSid)
+      .lte('expires_at', now)
+      .select();
+
+    if (error) {
+      AppLogger.error('Failed to reclaim processed webhook', error, { messageSid });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Take over a record that is still unanswered after its lease, left by a
+   * delivery that crashed or outlasted Twilio's timeout
+   */
+  public async reclaimStale(messageSid: string, lockedBefore: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('processed_webhooks')
+      .update({ locked_at: new Date().toISOString() })
+      .eq('message_sid', messageSid)
+      .is('response', null)
+      .lt('locked_at', lockedBefore)
+      .select();
+
+    if (error) {
+      AppLogger.error('Failed to reclaim stale processed webhook', error, { messageSid });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  public async saveResponse(messageSid: string, response: string): Promise<void> {
+    const { error } = await supabase
+      .from('processed_webhooks')
+      .update({ response })
+      .eq('message_sid', messageSid);
+
+    if (error) {
+      AppLogger.error('Failed to save processed webhook response', error, { messageSid });
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  public async delete(messageSid: string): Promise<void> {
+    const { error } = await supabase
+      .from('processed_webhooks')
+      .delete()
+      .eq('message_sid', messageSid);
+
+    if (error) {
+      AppLogger.error('Failed to delete processed webhook', error, { messageSid });
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete every record past its TTL, returning how many were removed
+   */
+  public async deleteExpired(): Promise<number> {
+    const { count, error } = await supabase
+      .from('processed_webhooks')
+      .delete({ count: 'exact' })
+      .lt('expires_at', new Date().toISOString());
+
+    if (error) {
+      AppLogger.error('Failed to purge processed webhooks', error);
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+}
@@ -2,6 +2,7 @@
 import { supabase } from '../config/database/supabaseClient.js';
 import { RegistrationStep, RequiredDocument } from '../types/database.js';
 import { AppLogger } from '../config/logger.js';
+import { AuditActor, ValidationError } from '../types/index.js';
 
 export class RegistrationStepRepository {
   constructor() {}
@@ -43,6 +44,76 @@ export class RegistrationStepRepository {
     return data;
   }
 
+  public async getStepById(id: number): Promise<RegistrationStep | null> {
+    const { data, error } = await supabase
+      .from('registration_steps')
+      .select('*')
+      .eq('id', id)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch registration step by ID', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    AppLogger.debug(`Fetched registration step by ID: ${id}`);
+    return data;
+  }
+
+  /**
+   * Insert a step at `position` (last when null) and move the later steps
+   * down, audited, in one transaction. Returns every step; the new one is at `position`.
+   */
+  public async createStep(
+    step: Omit<RegistrationStep, 'id' | 'step_number' | 'created_at' | 'updated_at'>,
+    position: number | null,
+    actor: AuditActor
+  ): Promise<RegistrationStep[]> {
+    const { data, error } = await supabase
+      .rpc('create_registration_step', { step, actor, target_position: position });
+
+    if (error) {
+      // Raised by the function when the position is out of range
+      if (error.code === '22023') {
+        throw new ValidationError(error.message);
+      }
+      AppLogger.error('Failed to create registration step', error, { title: step.title });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const steps: RegistrationStep[] = data || [];
+    AppLogger.info('Created registration step', { position, count: steps.length });
+    return steps;
+  }
+
+  /**
+   * Number the steps 1..n in the order of stepIds and audit each step that
+   * moved, in one transaction (reorder_registration_steps in schema.sql).
+   * stepIds must list every step exactly once.
+   */
+  public async reorderSteps(stepIds: number[], actor: AuditActor): Promise<RegistrationStep[]> {
+    const { data, error } = await supabase
+      .rpc('reorder_registration_steps', { step_ids: stepIds, actor });
+
+    if (error) {
+      // Raised by the function when the list does not match the table
+      if (error.code === '22023') {
+        throw new ValidationError(error.message);
+      }
+      AppLogger.error('Failed to reorder registration steps', error, { stepIds });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const steps: RegistrationStep[] = data || [];
+    AppLogger.info('Reordered registration steps', { count: steps.length });
+    return steps;
+  }
+
   public async getRequiredDocuments(): Promise<RequiredDocument[]> {
     const { data, error } = await supabase
       .from('required_documents')
@@ -76,4 +147,24 @@ export class RegistrationStepRepository {
     AppLogger.debug(`Fetched ${docs.length} essential documents`);
     return docs;
   }
-}
\ No newline at end of file
+  public async getDocumentById(id: number): Promise<RequiredDocument | null> {
+    const { data, error } = await supabase
+      .from('required_documents')
+      .select('*')
+      .eq('id', id)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch required document by ID', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    AppLogger.debug(`Fetched required document by ID: ${id}`);
+    return data;
+  }
+}
@@ -0,0 +1,166 @@
+// src/repositories/ReplyJobRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { ReplyJob } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+import { NotFoundError } from '../types/index.js';
+
+export class ReplyJobRepository {
+  constructor() {}
+
+  public async createJob(
+    job: Pick<ReplyJob, 'phone' | 'body' | 'latitude' | 'longitude' | 'message_sid'>
+  ): Promise<ReplyJob> {
+    const { data, error } = await supabase
+      .from('reply_jobs')
+      .insert(job)
+      .select()
+      .single();
+
+    if (error) {
+      AppLogger.error('Failed to queue reply job', error, { messageSid: job.message_sid });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('Reply job');
+    }
+
+    return data;
+  }
+
+  /**
+   * Pending jobs whose time has come, and jobs left processing by a worker
+   * that stopped before finishing them
+   */
+  public async getDueJobs(staleBefore: string, limit: number): Promise<ReplyJob[]> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('reply_jobs')
+      .select('*')
+      .or(`and(status.eq.pending,run_at.lte.${now}),and(status.eq.processing,locked_at.lt.${staleBefore})`)
+      .order('run_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      AppLogger.error('Failed to fetch due reply jobs', error);
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const jobs = data || [];
+    AppLogger.debug(`Fetched ${jobs.length} due reply jobs`);
+    return jobs;
+  }
+
+  /**
+   * Mark a job as taken, counting the attempt. Returns null when another
+   * worker claimed it first (its attempt count no longer matches).
+   */
+  public async claimJob(job: ReplyJob): Promise<ReplyJob | null> {
+    const { data, error } = await supabase
+      .from('reply_jobs')
+      .update({
+        status: 'processing',
+        attempts: job.attempts + 1,
+        locked_at: new Date().toISOString()
+      })
+      .eq('id', job.id)
+      .eq('attempts', job.attempts)
+      .select();
+
+    if (error) {
+      AppLogger.error('Failed to claim reply job', error, { id: job.id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data?.[0] ?? null;
+  }
+
+  public async saveReply(id: number, reply: string): Promise<void> {
+    const { error } = await supabase
+      .from('reply_jobs')
+      .update({ reply })
+      .eq('id', id);
+
+    if (error) {
+      AppLogger.error('Failed to save reply job reply', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Put a failed job back in the queue, with its reply if one was computed
+   * so the retry only sends it
+   */
+  public async scheduleRetry(id: number, runAt: string, lastError: string, reply: string | null): Promise<void> {
+    const { error } = await supabase
+      .from('reply_jobs')
+      .update({
+        status: 'pending',
+        run_at: runAt,
+        locked_at: null,
+        last_error: lastError,
+        reply
+      })
+      .eq('id', id);
+
+    if (error) {
+      AppLogger.error('Failed to reschedule reply job', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  public async deleteJob(id: number): Promise<void> {
+    const { error } = await supabase
+      .from('reply_jobs')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      AppLogger.error('Failed to delete reply job', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Copy a job that ran out of attempts into the dead-letter table and
+   * remove it from the queue
+   */
+  public async moveToDeadLetters(job: ReplyJob, lastError: string): Promise<void> {
+    const { error } = await supabase
+      .from('reply_job_dead_letters')
+      .insert({
+        job_id: job.id,
+        phone: job.phone,
+        body: job.body,
+        latitude: job.latitude,
+        longitude: job.longitude,
+        message_sid: job.message_sid,
+        attempts: job.attempts,
+        reply: job.reply,
+        last_error: lastError,
+        job_created_at: job.created_at
+      });
+
+    if (error) {
+      AppLogger.error('Failed to dead-letter reply job', error, { id: job.id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    await this.deleteJob(job.id);
+  }
+
+  public async deleteDeadLettersBefore(cutoff: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('reply_job_dead_letters')
+      .delete({ count: 'exact' })
+      .lt('created_at', cutoff);
+
+    if (error) {
+      AppLogger.error('Failed to purge reply job dead letters', error, { cutoff });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+}
@@ -0,0 +1,103 @@
+// src/repositories/SafeguardingRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { SafeguardingFlag } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+import { NotFoundError } from '../types/index.js';
+
+export class SafeguardingRepository {
+  constructor() {}
+
+  /**
+   * Flags with the given status, oldest first so none waits longest
+   */
+  public async getFlags(status?: SafeguardingFlag['status']): Promise<SafeguardingFlag[]> {
+    let query = supabase
+      .from('safeguarding_flags')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      AppLogger.error('Failed to fetch safeguarding flags', error, { status });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const flags = data || [];
+    AppLogger.debug(`Fetched ${flags.length} safeguarding flags`);
+    return flags;
+  }
+
+  public async getFlagById(id: number): Promise<SafeguardingFlag | null> {
+    const { data, error } = await supabase
+      .from('safeguarding_flags')
+      .select('*')
+      .eq('id', id)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch safeguarding flag', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async createFlag(
+    flag: Omit<SafeguardingFlag, 'id' | 'status' | 'resolved_by' | 'created_at' | 'resolved_at'>
+  ): Promise<SafeguardingFlag> {
+    const { data, error } = await supabase
+      .from('safeguarding_flags')
+      .insert(flag)
+      .select()
+      .single();
+
+    if (error) {
+      AppLogger.error('Failed to create safeguarding flag', error, { userId: flag.user_id, crisisType: flag.crisis_type });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('Safeguarding flag');
+    }
+
+    return data;
+  }
+
+  /**
+   * Mark an open flag resolved. Null when the flag is missing or was
+   * already resolved, so two staff resolving at once keep the first name.
+   */
+  public async resolveFlag(id: number, resolvedBy: string): Promise<SafeguardingFlag | null> {
+    const { data, error } = await supabase
+      .from('safeguarding_flags')
+      .update({
+        status: 'resolved',
+        resolved_by: resolvedBy,
+        resolved_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('status', 'open')
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to resolve safeguarding flag', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+}
@@ -2,20 +2,26 @@
 import { supabase } from '../config/database/supabaseClient.js';
 import { Service } from '../types/database.js';
 import { AppLogger } from '../config/logger.js';
-import { NotFoundError } from '../types/index.js';
+import { PaginationParams, ServiceFilters } from '../types/index.js';
+import { ServiceCategory } from '../utils/constants.js';
 
 export class ServiceRepository {
   constructor() {}
 
-  public async getServicesByCategory(category: string): Promise<Service[]> {
-    const { data, error } = await supabase
+  public async getServicesByCategory(category: ServiceCategory, organization?: string): Promise<Service[]> {
+    let query = supabase
       .from('services')
       .select('*')
-      .eq('category', category)
-      .order('organization', { ascending: true });
+      .eq('category', category);
+
+    if (organization) {
+      query = query.ilike('organization', `%${organization}%`);
+    }
+
+    const { data, error } = await query.order('organization', { ascending: true });
 
     if (error) {
-      AppLogger.error('Failed to fetch services by category', error, { category });
+      AppLogger.error('Failed to fetch services by category', error, { category, organization });
       throw new Error(`Database error: ${error.message}`);
     }
 
@@ -41,6 +47,32 @@ export class ServiceRepository {
     return services;
   }
 
+  /**
+   * Services that have coordinates, optionally limited to one category
+   */
+  public async getServicesWithCoordinates(category?: ServiceCategory): Promise<Service[]> {
+    let query = supabase
+      .from('services')
+      .select('*')
+      .not('latitude', 'is', null)
+      .not('longitude', 'is', null);
+
+    if (category) {
+      query = query.eq('category', category);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      AppLogger.error('Failed to fetch services with coordinates', error, { category });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const services = data || [];
+    AppLogger.debug(`Fetched ${services.length} services with coordinates`, { category });
+    return services;
+  }
+
   public async getServiceById(id: number): Promise<Service | null> {
     const { data, error } = await supabase
       .from('services')
@@ -79,34 +111,47 @@ export class ServiceRepository {
     return services;
   }
 
-  public async createService(serviceData: Omit<Service, 'id' | 'created_at' | 'updated_at'>): Promise<Service> {
-    const { category, organization, services, contact_phone, contact_email, location, notes } = serviceData;
-    const payload = {
-      category,
-      organization,
-      services,
-      contact_phone,
-      contact_email,
-      location,
-      notes,
-    };
-
-    const { data, error } = await supabase
+  /**
+   * One page of services matching the filters, with the total number of matches
+   */
+  public async listServices(
+    filters: ServiceFilters,
+    pagination: Required<PaginationParams>
+  ): Promise<{ services: Service[]; total: number }> {
+    let query = supabase
       .from('services')
-      .insert(payload)
-      .select()
-      .single();
+      .select('*', { count: 'exact' });
 
-    if (error) {
-      AppLogger.error('Failed to create service', error, { organization, category });
-      throw new Error(`Database error: ${error.message}`);
+    if (filters.category) {
+      query = query.eq('category', filters.category);
     }
 
-    if (!data) {
-      throw new NotFoundError('Service');
+    if (filters.organization) {
+      query = query.ilike('organization', `%${filters.organization}%`);
     }
 
-    AppLogger.info('Created new service', { id: data.id, organization });
-    return data;
+    if (filters.settlement_id) {
+      query = query.eq('settlement_id', filters.settlement_id);
+    }
+
+    if (filters.search) {
+      // Commas and parentheses would break the or() filter syntax
+      const term = filters.search.replace(/[,()]/g, ' ');
+      query = query.or(`organization.ilike.%${term}%,services.ilike.%${term}%`);
+    }
+
+    const from = (pagination.page - 1) * pagination.limit;
+    const { data, count, error } = await query
+      .order(pagination.sort, { ascending: pagination.order === 'asc' })
+      .range(from, from + pagination.limit - 1);
+
+    if (error) {
+      AppLogger.error('Failed to list services', error, { filters, pagination });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const services = data || [];
+    AppLogger.debug(`Fetched ${services.length} of ${count ?? 0} services`, { filters });
+    return { services, total: count ?? 0 };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,55 @@
+// src/repositories/SessionRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { ConversationSession } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+import { NotFoundError } from '../types/index.js';
+
+export class SessionRepository {
+  constructor() {}
+
+  public async getSession(userId: string): Promise<ConversationSession | null> {
+    const { data, error } = await supabase
+      .from('conversation_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch conversation session', error, { userId });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async saveSession(
+    session: Omit<ConversationSession, 'created_at' | 'updated_at'>
+  ): Promise<ConversationSession> {
+    const payload = {
+      ...session,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data, error } = await supabase
+      .from('conversation_sessions')
+      .upsert(payload, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      AppLogger.error('Failed to save conversation session', error, { userId: session.user_id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('Conversation session');
+    }
+
+    return data;
+  }
+}
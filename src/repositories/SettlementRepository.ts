@@ -0,0 +1,45 @@
+// src/repositories/SettlementRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { Settlement } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+
+export class SettlementRepository {
+  constructor() {}
+
+  public async getAllSettlements(): Promise<Settlement[]> {
+    const { data, error } = await supabase
+      .from('settlements')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      AppLogger.error('Failed to fetch settlements', error);
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const settlements = data || [];
+    AppLogger.debug(`Fetched ${settlements.length} settlements`);
+    return settlements;
+  }
+
+  public async getSettlementById(id: number): Promise<Settlement | null> {
+    const { data, error } = await supabase
+      .from('settlements')
+      .select('*')
+      .eq('id', id)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch settlement by ID', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    AppLogger.debug(`Fetched settlement by ID: ${id}`);
+    return data;
+  }
+}
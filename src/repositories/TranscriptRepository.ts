@@ -0,0 +1,36 @@
+// src/repositories/TranscriptRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { TranscriptMessage } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+
+export class TranscriptRepository {
+  constructor() {}
+
+  public async saveMessage(message: Omit<TranscriptMessage, 'id' | 'created_at'>): Promise<void> {
+    const { error } = await supabase
+      .from('messages')
+      .insert(message);
+
+    if (error) {
+      AppLogger.error('Failed to save transcript message', error, { userId: message.user_id, direction: message.direction });
+      throw new Error(`Database error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete every message older than the cutoff, returning how many were removed
+   */
+  public async deleteMessagesBefore(cutoff: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('messages')
+      .delete({ count: 'exact' })
+      .lt('created_at', cutoff);
+
+    if (error) {
+      AppLogger.error('Failed to purge transcript messages', error, { cutoff });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+}
@@ -0,0 +1,162 @@
+// src/repositories/UnansweredQuestionRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { Database, UnansweredQuestion, UnansweredStatus } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+import { NotFoundError } from '../types/index.js';
+
+type UnansweredQuestionUpdate = Database['public']['Tables']['unanswered_questions']['Update'];
+
+// How many example messages a cluster keeps besides its first question
+const MAX_EXAMPLES = 5;
+
+export class UnansweredQuestionRepository {
+  constructor() {}
+
+  /**
+   * Questions with the given status, most frequent first
+   */
+  public async getQuestions(status?: UnansweredStatus): Promise<UnansweredQuestion[]> {
+    let query = supabase
+      .from('unanswered_questions')
+      .select('*')
+      .order('occurrences', { ascending: false })
+      .order('last_seen_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      AppLogger.error('Failed to fetch unanswered questions', error, { status });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const questions = data || [];
+    AppLogger.debug(`Fetched ${questions.length} unanswered questions`);
+    return questions;
+  }
+
+  /**
+   * Open clusters in a language, most recently seen first, for matching a new message against
+   */
+  public async getRecentOpenQuestions(language: string, limit: number): Promise<UnansweredQuestion[]> {
+    const { data, error } = await supabase
+      .from('unanswered_questions')
+      .select('*')
+      .eq('status', 'open')
+      .eq('language', language)
+      .order('last_seen_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      AppLogger.error('Failed to fetch recent unanswered questions', error, { language });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  public async getQuestionById(id: number): Promise<UnansweredQuestion | null> {
+    const { data, error } = await supabase
+      .from('unanswered_questions')
+      .select('*')
+      .eq('id', id)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch unanswered question', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async createQuestion(question: string, language: string): Promise<UnansweredQuestion> {
+    const { data, error } = await supabase
+      .from('unanswered_questions')
+      .insert({ question, language })
+      .select()
+      .single();
+
+    if (error) {
+      AppLogger.error('Failed to create unanswered question', error);
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('Unanswered question');
+    }
+
+    return data;
+  }
+
+  /**
+   * Count another message in an existing cluster, keeping it as an example
+   * while there is room. The `record_unanswered_occurrence` function
+   * increments in SQL, so concurrent fallbacks all count.
+   */
+  public async recordOccurrence(questionId: number, message: string): Promise<UnansweredQuestion> {
+    const { data, error } = await supabase
+      .rpc('record_unanswered_occurrence', {
+        question_id: questionId,
+        example: message,
+        max_examples: MAX_EXAMPLES
+      });
+
+    if (error) {
+      AppLogger.error('Failed to record unanswered question occurrence', error, { id: questionId });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const question: UnansweredQuestion | undefined = data?.[0];
+    if (!question) {
+      throw new NotFoundError('Unanswered question');
+    }
+
+    return question;
+  }
+
+  public async updateQuestion(id: number, update: UnansweredQuestionUpdate): Promise<UnansweredQuestion> {
+    const { data, error } = await supabase
+      .from('unanswered_questions')
+      .update(update)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      AppLogger.error('Failed to update unanswered question', error, { id });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('Unanswered question');
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete clusters not seen since the cutoff, whatever their status
+   */
+  public async deleteQuestionsLastSeenBefore(cutoff: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('unanswered_questions')
+      .delete({ count: 'exact' })
+      .lt('last_seen_at', cutoff);
+
+    if (error) {
+      AppLogger.error('Failed to purge unanswered questions', error, { cutoff });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+}
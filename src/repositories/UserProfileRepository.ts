@@ -0,0 +1,59 @@
+// src/repositories/UserProfileRepository.ts
+import { supabase } from '../config/database/supabaseClient.js';
+import { UserProfile } from '../types/database.js';
+import { AppLogger } from '../config/logger.js';
+import { NotFoundError } from '../types/index.js';
+
+export class UserProfileRepository {
+  constructor() {}
+
+  public async getProfile(userId: string): Promise<UserProfile | null> {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .limit(1)
+      .single();
+
+    if (error) {
+      // Handle "not found" gracefully
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      AppLogger.error('Failed to fetch user profile', error, { userId });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    AppLogger.debug(`Fetched user profile: ${userId}`);
+    return data;
+  }
+
+  public async upsertProfile(
+    userId: string,
+    fields: Partial<Omit<UserProfile, 'user_id' | 'created_at' | 'updated_at'>>
+  ): Promise<UserProfile> {
+    const payload = {
+      user_id: userId,
+      ...fields,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .upsert(payload, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      AppLogger.error('Failed to save user profile', error, { userId });
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new NotFoundError('User profile');
+    }
+
+    AppLogger.debug('Saved user profile', { userId, fields: Object.keys(fields) });
+    return data;
+  }
+}
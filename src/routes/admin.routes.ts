@@ -0,0 +1,143 @@
+// src/routes/admin.routes.ts
+import { Router } from 'express';
+import { ServiceController } from '../controllers/ServiceController.js';
+import { ContactController } from '../controllers/ContactController.js';
+import { RegistrationController } from '../controllers/RegistrationController.js';
+import { AdminAuthController } from '../controllers/AdminAuthController.js';
+import { AdminUserController } from '../controllers/AdminUserController.js';
+import { FaqController } from '../controllers/FaqController.js';
+import { AuditLogController } from '../controllers/AuditLogController.js';
+import { AdminAuthService } from '../services/AdminAuthService.js';
+import { requireStaffApiKey } from '../middleware/staffAuth.js';
+import {
+  adminLoginRateLimit,
+  createAdminSessionGuard,
+  requireAdminApiEnabled,
+  requireAdminRole
+} from '../middleware/adminAuth.js';
+import {
+  validateAdminRequest,
+  validateContentType,
+  validateListQuery,
+  validateRateLimit
+} from '../middleware/requestValidator.js';
+
+export const createAdminRoutes = (
+  adminAuthService: AdminAuthService,
+  adminAuthController: AdminAuthController,
+  adminUserController: AdminUserController,
+  serviceController: ServiceController,
+  contactController: ContactController,
+  registrationController: RegistrationController,
+  faqController: FaqController,
+  auditLogController: AuditLogController
+): Router => {
+  const router = Router();
+
+  router.use(requireAdminApiEnabled);
+
+  // Sign-in, and the first admin of a fresh install (needs the STAFF_API_KEY)
+  router.post('/auth/login', adminLoginRateLimit, validateContentType(), adminAuthController.login);
+  router.post(
+    '/auth/setup',
+    requireStaffApiKey,
+    validateContentType(),
+    validateAdminRequest(['username', 'email', 'password']),
+    adminUserController.createFirstAdmin
+  );
+
+  // Everything below needs a session token
+  router.use(createAdminSessionGuard(adminAuthService));
+  router.use(validateRateLimit);
+
+  router.get('/auth/me', adminAuthController.me);
+  router.post('/auth/logout', adminAuthController.logout);
+  router.put('/auth/password', validateContentType(), adminAuthController.changePassword);
+
+  // Editors manage content; only admins manage admin users
+  router.use(
+    ['/services', '/contacts', '/registration-steps', '/required-documents', '/faqs', '/audit'],
+    requireAdminRole('admin', 'editor')
+  );
+  router.use('/users', requireAdminRole('admin'));
+
+  // Admin users
+  router.get('/users', adminUserController.listUsers);
+  router.get('/users/:id', adminUserController.getUser);
+  router.post(
+    '/users',
+    validateContentType(),
+    validateAdminRequest(['username', 'email', 'password']),
+    adminUserController.createUser
+  );
+  router.put('/users/:id', validateContentType(), validateAdminRequest(), adminUserController.updateUser);
+  router.delete('/users/:id', adminUserController.deleteUser);
+
+  // Services directory
+  router.get('/services', validateListQuery(['category', 'organization', 'settlement_id', 'search']), serviceController.listServices);
+  router.get('/services/:id', serviceController.getService);
+  router.post(
+    '/services',
+    validateContentType(),
+    validateAdminRequest(['category', 'organization', 'services', 'location']),
+    serviceController.createService
+  );
+  router.put('/services/:id', validateContentType(), validateAdminRequest(), serviceController.updateService);
+  router.delete('/services/:id', serviceController.deleteService);
+
+  // Contacts
+  router.get('/contacts', validateListQuery(['type', 'is_urgent', 'settlement_id', 'search']), contactController.listContacts);
+  router.get('/contacts/:id', contactController.getContact);
+  router.post(
+    '/contacts',
+    validateContentType(),
+    validateAdminRequest(['entity', 'type', 'description']),
+    contactController.createContact
+  );
+  router.put('/contacts/:id', validateContentType(), validateAdminRequest(), contactController.updateContact);
+  router.delete('/contacts/:id', contactController.deleteContact);
+
+  // Registration steps; reorder is declared before /:id so it is not taken for an ID
+  router.get('/registration-steps', registrationController.listSteps);
+  router.put('/registration-steps/reorder', validateContentType(), registrationController.reorderSteps);
+  router.get('/registration-steps/:id', registrationController.getStep);
+  router.post(
+    '/registration-steps',
+    validateContentType(),
+    validateAdminRequest(['title', 'description']),
+    registrationController.createStep
+  );
+  router.put('/registration-steps/:id', validateContentType(), validateAdminRequest(), registrationController.updateStep);
+  router.delete('/registration-steps/:id', registrationController.deleteStep);
+
+  // Required documents
+  router.get('/required-documents', registrationController.listDocuments);
+  router.get('/required-documents/:id', registrationController.getDocument);
+  router.post(
+    '/required-documents',
+    validateContentType(),
+    validateAdminRequest(['document_name']),
+    registrationController.createDocument
+  );
+  router.put('/required-documents/:id', validateContentType(), validateAdminRequest(), registrationController.updateDocument);
+  router.delete('/required-documents/:id', registrationController.deleteDocument);
+
+  // FAQs
+  router.get('/faqs', validateListQuery(['category']), faqController.listFaqs);
+  router.get('/faqs/:id', faqController.getFaq);
+  router.post(
+    '/faqs',
+    validateContentType(),
+    validateAdminRequest(['question', 'answer', 'category']),
+    faqController.createFaq
+  );
+  router.put('/faqs/:id', validateContentType(), validateAdminRequest(), faqController.updateFaq);
+  router.delete('/faqs/:id', faqController.deleteFaq);
+
+  // Audit log of content changes
+  router.get('/audit', validateListQuery(['table', 'record_id']), auditLogController.listEntries);
+  router.get('/audit/:id', auditLogController.getEntry);
+  router.post('/audit/:id/restore', auditLogController.restore);
+
+  return router;
+};
@@ -1,14 +1,68 @@
 import { Router, Request, Response } from 'express';
 import { createWebhookRoutes } from './webhook.routes.js';
+import { createStaffRoutes } from './staff.routes.js';
+import { createAdminRoutes } from './admin.routes.js';
 import { WebhookController } from '../controllers/WebhookController.js';
+import { DialogflowWebhookController } from '../controllers/DialogflowWebhookController.js';
+import { HandoffController } from '../controllers/HandoffController.js';
+import { UnansweredQuestionController } from '../controllers/UnansweredQuestionController.js';
+import { FeedbackController } from '../controllers/FeedbackController.js';
+import { BlocklistController } from '../controllers/BlocklistController.js';
+import { SafeguardingController } from '../controllers/SafeguardingController.js';
+import { ServiceController } from '../controllers/ServiceController.js';
+import { ContactController } from '../controllers/ContactController.js';
+import { RegistrationController } from '../controllers/RegistrationController.js';
+import { AdminAuthController } from '../controllers/AdminAuthController.js';
+import { AdminUserController } from '../controllers/AdminUserController.js';
+import { FaqController } from '../controllers/FaqController.js';
+import { AuditLogController } from '../controllers/AuditLogController.js';
+import { AdminAuthService } from '../services/AdminAuthService.js';
 
-export const createRoutes = (webhookController: WebhookController): Router => {
+export const createRoutes = (
+  webhookController: WebhookController,
+  dialogflowWebhookController: DialogflowWebhookController,
+  handoffController: HandoffController,
+  unansweredQuestionController: UnansweredQuestionController,
+  feedbackController: FeedbackController,
+  blocklistController: BlocklistController,
+  safeguardingController: SafeguardingController,
+  serviceController: ServiceController,
+  contactController: ContactController,
+  registrationController: RegistrationController,
+  adminAuthService: AdminAuthService,
+  adminAuthController: AdminAuthController,
+  adminUserController: AdminUserController,
+  faqController: FaqController,
+  auditLogController: AuditLogController
+): Router => {
   const router = Router();
 
   // Mount webhook routes
-  const webhookRoutes = createWebhookRoutes(webhookController);
+  const webhookRoutes = createWebhookRoutes(webhookController, dialogflowWebhookController);
   router.use('/webhook', webhookRoutes);
 
+  // Mount staff routes
+  router.use('/staff', createStaffRoutes(
+    handoffController,
+    unansweredQuestionController,
+    feedbackController,
+    blocklistController,
+    safeguardingController,
+    adminAuthService
+  ));
+
+  // Mount admin routes
+  router.use('/admin', createAdminRoutes(
+    adminAuthService,
+    adminAuthController,
+    adminUserController,
+    serviceController,
+    contactController,
+    registrationController,
+    faqController,
+    auditLogController
+  ));
+
   // Root endpoint
   router.get('/', (_req: Request, res: Response) => {
     res.json({
@@ -16,7 +70,10 @@ export const createRoutes = (webhookController: WebhookController): Router => {
       version: '1.0.0',
       endpoints: {
         webhook: '/webhook/twilio/whatsapp',
-        health: '/webhook/health'
+        dialogflow: '/webhook/dialogflow',
+        health: '/webhook/health',
+        staff: ['/staff/handoffs', '/staff/unanswered', '/staff/feedback', '/staff/blocklist', '/staff/safeguarding'],
+        admin: ['/admin/auth', '/admin/users', '/admin/services', '/admin/contacts', '/admin/registration-steps', '/admin/required-documents', '/admin/faqs', '/admin/audit']
       }
     });
   });
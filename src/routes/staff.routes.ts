@@ -0,0 +1,59 @@
+// src/routes/staff.routes.ts
+import { Router } from 'express';
+import { HandoffController } from '../controllers/HandoffController.js';
+import { UnansweredQuestionController } from '../controllers/UnansweredQuestionController.js';
+import { FeedbackController } from '../controllers/FeedbackController.js';
+import { BlocklistController } from '../controllers/BlocklistController.js';
+import { SafeguardingController } from '../controllers/SafeguardingController.js';
+import { AdminAuthService } from '../services/AdminAuthService.js';
+import { requireStaffApiKey } from '../middleware/staffAuth.js';
+import { createAdminSessionGuard, requireAdminApiEnabled, requireAdminRole } from '../middleware/adminAuth.js';
+import { validateContentType, validateListQuery, validateRateLimit } from '../middleware/requestValidator.js';
+
+export const createStaffRoutes = (
+  handoffController: HandoffController,
+  unansweredQuestionController: UnansweredQuestionController,
+  feedbackController: FeedbackController,
+  blocklistController: BlocklistController,
+  safeguardingController: SafeguardingController,
+  adminAuthService: AdminAuthService
+): Router => {
+  const router = Router();
+
+  router.use(requireStaffApiKey);
+  router.use(validateRateLimit);
+
+  // Changes to what the bot answers also need a session token: editors may change
+  // content, as in the admin API, but only admins decide whom the bot ignores
+  const sessionGuard = createAdminSessionGuard(adminAuthService);
+  const contentEditors = [requireAdminApiEnabled, sessionGuard, requireAdminRole('admin', 'editor')];
+  const adminOnly = [requireAdminApiEnabled, sessionGuard, requireAdminRole('admin')];
+
+  // Handoff inbox
+  router.get('/handoffs', handoffController.listTickets);
+  router.get('/handoffs/:id', handoffController.getConversation);
+  router.post('/handoffs/:id/messages', validateContentType(), handoffController.reply);
+  router.post('/handoffs/:id/close', handoffController.closeTicket);
+
+  // Unanswered question review queue
+  router.get('/unanswered', unansweredQuestionController.listQuestions);
+  router.get('/unanswered/:id', unansweredQuestionController.getQuestion);
+  router.post('/unanswered/:id/resolve', contentEditors, validateContentType(), unansweredQuestionController.resolveQuestion);
+  router.post('/unanswered/:id/dismiss', contentEditors, unansweredQuestionController.dismissQuestion);
+
+  // Answer feedback
+  router.get('/feedback', validateListQuery(['intent', 'since']), feedbackController.listFeedback);
+  router.get('/feedback/intents', feedbackController.summariseByIntent);
+  router.get('/feedback/organizations', feedbackController.summariseByOrganization);
+
+  // Blocked numbers
+  router.get('/blocklist', blocklistController.listBlocks);
+  router.post('/blocklist', adminOnly, validateContentType(), blocklistController.blockNumber);
+  router.delete('/blocklist/:id', adminOnly, blocklistController.unblock);
+
+  // Crisis messages awaiting follow-up
+  router.get('/safeguarding', safeguardingController.listFlags);
+  router.post('/safeguarding/:id/resolve', safeguardingController.resolveFlag);
+
+  return router;
+};
@@ -1,13 +1,21 @@
 // src/routes/webhook.routes.ts
 import { Router } from 'express';
 import { WebhookController } from '../controllers/WebhookController.js';
+import { DialogflowWebhookController } from '../controllers/DialogflowWebhookController.js';
 import { 
   validateTwilioWebhook, 
-  validateHealthCheck 
+  validateDialogflowWebhook,
+  validateHealthCheck,
+  validateContentType
 } from '../middleware/requestValidator.js';
 import { twilioWebhookValidator } from '../middleware/twilioValidator.js';
+import { requireDialogflowWebhookAuth } from '../middleware/dialogflowAuth.js';
+import { createWebhookRateLimiter } from '../middleware/webhookRateLimit.js';
 
-export const createWebhookRoutes = (webhookController: WebhookController): Router => {
+export const createWebhookRoutes = (
+  webhookController: WebhookController,
+  dialogflowWebhookController: DialogflowWebhookController
+): Router => {
   const router = Router();
 
   // Twilio WhatsApp webhook endpoint
@@ -15,9 +23,20 @@ export const createWebhookRoutes = (webhookController: WebhookController): Route
     '/twilio/whatsapp',
     twilioWebhookValidator,        // Signature validation first
     validateTwilioWebhook,         // Then payload validation
+    webhookController.screenMessage, // Blocklist and retries before the rate limit
+    createWebhookRateLimiter(webhookController.handleRateLimited),
     webhookController.handleWhatsAppWebhook
   );
 
+  // Dialogflow ES fulfillment endpoint
+  router.post(
+    '/dialogflow',
+    requireDialogflowWebhookAuth,  // Shared secret or basic auth first
+    validateContentType(),
+    validateDialogflowWebhook,
+    dialogflowWebhookController.handleFulfillment
+  );
+
   // Health check endpoint
   router.get(
     '/health',
@@ -0,0 +1,102 @@
+// src/services/AbuseProtectionService.ts
+import { EnvironmentConfig } from '../config/env.js';
+import { AppLogger } from '../config/logger.js';
+import { BlockedUser, BotResponse } from '../types/index.js';
+import { BlocklistRepository } from '../repositories/BlocklistRepository.js';
+import { LanguageService } from './LanguageService.js';
+import { ResponseFormatter } from '../utils/responseFormatter.js';
+import { SlidingWindowCounter } from '../utils/slidingWindow.js';
+import { pseudonymizeUserId } from '../utils/userIdentity.js';
+
+/**
+ * Cooldown replies for numbers over the message rate limit, and the
+ * blocklist of numbers the bot ignores. A number that keeps hitting the
+ * limit is blocked automatically; staff can block and unblock numbers too.
+ */
+export class AbuseProtectionService {
+  // Rate limit violations per user, counted over ABUSE_VIOLATION_WINDOW_HOURS
+  private violations = new SlidingWindowCounter(EnvironmentConfig.abuseViolationWindowHours * 60 * 60 * 1000);
+
+  constructor(
+    private blocklistRepo: BlocklistRepository,
+    private languageService: LanguageService
+  ) {}
+
+  public async isBlocked(userPhone: string): Promise<boolean> {
+    try {
+      return (await this.blocklistRepo.getActiveBlock(pseudonymizeUserId(userPhone))) !== null;
+    } catch (error) {
+      // Better to answer a blocked number than to ignore everyone
+      AppLogger.error('Blocklist check failed, allowing the message', error as Error);
+      return false;
+    }
+  }
+
+  /**
+   * Reply to a message over the rate limit. Only the first message over the
+   * limit gets the cooldown reply and counts as a violation; the rest of the
+   * burst is dropped without a reply.
+   */
+  public async handleRateLimited(userPhone: string, isFirstOverLimit: boolean): Promise<BotResponse | null> {
+    if (!isFirstOverLimit) return null;
+
+    const userId = pseudonymizeUserId(userPhone);
+    this.violations.prune();
+    const violations = this.violations.hit(userId).length;
+
+    if (violations >= EnvironmentConfig.abuseBlockAfterViolations) {
+      const expiresAt = new Date(Date.now() + EnvironmentConfig.abuseBlockHours * 60 * 60 * 1000).toISOString();
+      try {
+        await this.blocklistRepo.upsertBlock({
+          user_id: userId,
+          reason: `Went over the message rate limit ${violations} times`,
+          blocked_by: 'system',
+          expires_at: expiresAt
+        });
+        this.violations.reset(userId);
+        AppLogger.warn('Blocked repeat rate limit offender', { userId, violations, expiresAt });
+        return null;
+      } catch (error) {
+        AppLogger.error('Failed to block repeat rate limit offender', error as Error, { userId });
+      }
+    }
+
+    AppLogger.info('Message rate limit reached', { userId, violations });
+
+    const language = await this.languageService.getPreferredLanguage(userId);
+    return ResponseFormatter.formatTextResponse('RATE_LIMITED', language);
+  }
+
+  public async listBlocks(): Promise<BlockedUser[]> {
+    return await this.blocklistRepo.getBlocks();
+  }
+
+  /**
+   * Block a WhatsApp number on behalf of staff; without an expiry the block
+   * stays until it is removed
+   */
+  public async blockNumber(
+    phone: string,
+    reason: string,
+    blockedBy: string,
+    expiresAt: string | null
+  ): Promise<BlockedUser> {
+    const block = await this.blocklistRepo.upsertBlock({
+      user_id: pseudonymizeUserId(phone),
+      reason,
+      blocked_by: blockedBy,
+      expires_at: expiresAt
+    });
+
+    AppLogger.info('Number blocked by staff', { userId: block.user_id, blockedBy, expiresAt });
+    return block;
+  }
+
+  public async unblock(id: number): Promise<BlockedUser> {
+    const block = await this.blocklistRepo.deleteBlock(id);
+    this.violations.reset(block.user_id);
+
+    AppLogger.info('User unblocked', { userId: block.user_id });
+    return block;
+  }
+}
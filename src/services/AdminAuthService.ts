@@ -0,0 +1,109 @@
+// src/services/AdminAuthService.ts
+import { randomBytes } from 'crypto';
+import { EnvironmentConfig } from '../config/env.js';
+import { AppLogger } from '../config/logger.js';
+import { AdminLoginResult, AuthenticatedAdmin, ValidationError } from '../types/index.js';
+import { UnauthorizedError } from '../types/errors.js';
+import { AdminUserRepository } from '../repositories/AdminUserRepository.js';
+import { AdminSessionRepository } from '../repositories/AdminSessionRepository.js';
+import { toAdminProfile } from './AdminUserService.js';
+import { checkPasswordStrength, hashPassword, verifyPassword } from '../utils/passwordHash.js';
+import { signSessionToken, verifySessionToken } from '../utils/sessionToken.js';
+
+/**
+ * Admin sign-in. A login opens a row in admin_sessions and returns a signed
+ * token naming it; each request checks the token, then that the session is
+ * still open and its user still active.
+ */
+export class AdminAuthService {
+  // Checked against when the username is unknown, so both cases take as long
+  private decoyHash: Promise<string> | null = null;
+
+  constructor(
+    private adminUserRepo: AdminUserRepository,
+    private adminSessionRepo: AdminSessionRepository
+  ) {}
+
+  public async login(username: string, password: string): Promise<AdminLoginResult> {
+    const user = await this.adminUserRepo.getUserByUsername(username);
+    const passwordMatches = await verifyPassword(password, user?.password_hash ?? await this.getDecoyHash());
+
+    if (!user || !passwordMatches || !user.is_active) {
+      AppLogger.warn('Admin login failed', { username, reason: !user ? 'unknown user' : !passwordMatches ? 'wrong password' : 'inactive' });
+      throw new UnauthorizedError('Invalid username or password');
+    }
+
+    const expiresAt = new Date(Date.now() + EnvironmentConfig.adminSessionTtlHours * 60 * 60 * 1000);
+    const session = await this.adminSessionRepo.createSession({
+      id: randomBytes(24).toString('base64url'),
+      admin_user_id: user.id,
+      expires_at: expiresAt.toISOString()
+    });
+
+    await this.adminUserRepo.recordLogin(user.id);
+
+    try {
+      await this.adminSessionRepo.deleteExpiredSessions(user.id);
+    } catch (error) {
+      AppLogger.warn('Could not clear expired admin sessions', { id: user.id, error: (error as Error).message });
+    }
+
+    AppLogger.info('Admin signed in', { id: user.id, username: user.username, role: user.role });
+    return {
+      token: signSessionToken({ sid: session.id, exp: expiresAt.getTime() }, EnvironmentConfig.adminSessionSecret),
+      expiresAt: session.expires_at,
+      user: toAdminProfile({ ...user, last_login: new Date().toISOString() })
+    };
+  }
+
+  /**
+   * The admin a bearer token belongs to. Throws UnauthorizedError for forged,
+   * expired or revoked tokens and for deactivated users.
+   */
+  public async authenticate(token: string): Promise<AuthenticatedAdmin> {
+    const payload = verifySessionToken(token, EnvironmentConfig.adminSessionSecret);
+    if (!payload) {
+      throw new UnauthorizedError('Invalid or expired session');
+    }
+
+    const session = await this.adminSessionRepo.getSession(payload.sid);
+    if (!session || session.revoked_at || new Date(session.expires_at).getTime() <= Date.now()) {
+      throw new UnauthorizedError('Invalid or expired session');
+    }
+
+    const user = await this.adminUserRepo.getUserById(session.admin_user_id);
+    if (!user || !user.is_active) {
+      throw new UnauthorizedError('Invalid or expired session');
+    }
+
+    return { user: toAdminProfile(user), sessionId: session.id };
+  }
+
+  public async logout(admin: AuthenticatedAdmin): Promise<void> {
+    await this.adminSessionRepo.revokeSession(admin.sessionId);
+    AppLogger.info('Admin signed out', { id: admin.user.id });
+  }
+
+  /**
+   * Change the signed-in admin's password. Their other sessions are signed out.
+   */
+  public async changePassword(admin: AuthenticatedAdmin, currentPassword: string, newPassword: string): Promise<void> {
+    checkPasswordStrength(newPassword);
+
+    const user = await this.adminUserRepo.getUserById(admin.user.id);
+    if (!user || !(await verifyPassword(currentPassword, user.password_hash))) {
+      throw new ValidationError('Current password is incorrect');
+    }
+
+    await this.adminUserRepo.updateUser(user.id, { password_hash: await hashPassword(newPassword) });
+    await this.adminSessionRepo.revokeUserSessions(user.id, admin.sessionId);
+    AppLogger.info('Admin changed their password', { id: user.id });
+  }
+
+  private getDecoyHash(): Promise<string> {
+    if (!this.decoyHash) {
+      this.decoyHash = hashPassword(randomBytes(16).toString('hex'));
+    }
+    return this.decoyHash;
+  }
+}
@@ -0,0 +1,112 @@
+// src/services/AdminUserService.ts
+import { AppLogger } from '../config/logger.js';
+import {
+  AdminProfile,
+  AdminUser,
+  AdminUserCreate,
+  AdminUserUpdate,
+  AuthenticatedAdmin,
+  NotFoundError,
+  ValidationError
+} from '../types/index.js';
+import { ForbiddenError } from '../types/errors.js';
+import { AdminUserRepository } from '../repositories/AdminUserRepository.js';
+import { AdminSessionRepository } from '../repositories/AdminSessionRepository.js';
+import { checkPasswordStrength, hashPassword } from '../utils/passwordHash.js';
+
+export function toAdminProfile(user: AdminUser): AdminProfile {
+  const { password_hash: _passwordHash, ...profile } = user;
+  return profile;
+}
+
+/**
+ * Admin-only management of the people who can sign in to the admin API
+ */
+export class AdminUserService {
+  constructor(
+    private adminUserRepo: AdminUserRepository,
+    private adminSessionRepo: AdminSessionRepository
+  ) {}
+
+  public async listUsers(): Promise<AdminProfile[]> {
+    return await this.adminUserRepo.listUsers();
+  }
+
+  public async getUser(id: number): Promise<AdminProfile> {
+    const user = await this.adminUserRepo.getUserById(id);
+    if (!user) {
+      throw new NotFoundError('Admin user');
+    }
+    return toAdminProfile(user);
+  }
+
+  public async createUser(input: AdminUserCreate): Promise<AdminProfile> {
+    checkPasswordStrength(input.password);
+
+    const user = await this.adminUserRepo.createUser({
+      username: input.username,
+      email: input.email,
+      password_hash: await hashPassword(input.password),
+      role: input.role ?? 'editor'
+    });
+
+    return toAdminProfile(user);
+  }
+
+  /**
+   * Create the first admin of a fresh install. Refused once any admin user exists.
+   */
+  public async createFirstAdmin(input: AdminUserCreate): Promise<AdminProfile> {
+    // Checked here for a quick answer; create_first_admin_user checks again under a lock
+    if (await this.adminUserRepo.countUsers() > 0) {
+      throw new ForbiddenError('Admin users already exist; ask an admin to add you');
+    }
+
+    checkPasswordStrength(input.password);
+
+    const user = await this.adminUserRepo.createFirstAdmin({
+      username: input.username,
+      email: input.email,
+      password_hash: await hashPassword(input.password)
+    });
+
+    AppLogger.info('Created first admin user', { id: user.id, username: user.username });
+    return toAdminProfile(user);
+  }
+
+  /**
+   * Edit a user. Deactivating them or setting their password signs them out everywhere.
+   * Admins cannot change their own role or deactivate themselves, so one admin always remains.
+   */
+  public async updateUser(actor: AuthenticatedAdmin, id: number, updates: AdminUserUpdate): Promise<AdminProfile> {
+    const { password, ...fields } = updates;
+
+    if (id === actor.user.id &&
+        ((fields.role !== undefined && fields.role !== actor.user.role) || fields.is_active === false)) {
+      throw new ValidationError('You cannot change your own role or deactivate yourself');
+    }
+
+    const changes: Parameters<AdminUserRepository['updateUser']>[1] = { ...fields };
+    if (password !== undefined) {
+      checkPasswordStrength(password);
+      changes.password_hash = await hashPassword(password);
+    }
+
+    const user = await this.adminUserRepo.updateUser(id, changes);
+
+    if (password !== undefined || fields.is_active === false) {
+      await this.adminSessionRepo.revokeUserSessions(id);
+    }
+
+    return toAdminProfile(user);
+  }
+
+  public async deleteUser(actor: AuthenticatedAdmin, id: number): Promise<AdminProfile> {
+    if (id === actor.user.id) {
+      throw new ValidationError('You cannot delete yourself');
+    }
+
+    // Their sessions go with them (ON DELETE CASCADE)
+    return toAdminProfile(await this.adminUserRepo.deleteUser(id));
+  }
+}
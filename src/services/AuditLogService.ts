@@ -0,0 +1,121 @@
+// src/services/AuditLogService.ts
+import { AppLogger } from '../config/logger.js';
+import {
+  AuditActor,
+  AuditedChange,
+  AuditedTable,
+  AuditLogEntry,
+  NotFoundError,
+  PaginationParams,
+  RegistrationStep,
+  ValidationError
+} from '../types/index.js';
+import { AuditLogRepository } from '../repositories/AuditLogRepository.js';
+import { RegistrationStepRepository } from '../repositories/RegistrationStepRepository.js';
+import { FaqService } from './FaqService.js';
+
+export const AUDITED_TABLES: readonly AuditedTable[] = [
+  'services',
+  'contacts',
+  'registration_steps',
+  'required_documents',
+  'faqs'
+];
+
+/**
+ * Admin changes to the content the bot answers from, each saved with its
+ * audit entry; their history, and restoring a record to an earlier version
+ */
+export class AuditLogService {
+  constructor(
+    private auditLogRepo: AuditLogRepository,
+    private registrationRepo: RegistrationStepRepository,
+    private faqService: FaqService
+  ) {}
+
+  /**
+   * Save a content change together with its audit entry; neither is kept
+   * without the other. `resource` names the record in a not-found error.
+   */
+  public async applyChange<T>(actor: AuditActor, change: AuditedChange, resource: string): Promise<T> {
+    const record = await this.auditLogRepo.applyChange(actor, change);
+    if (!record) {
+      throw new NotFoundError(resource);
+    }
+    return record as T;
+  }
+
+  public async listEntries(
+    table: AuditedTable,
+    recordId: number | undefined,
+    pagination: Required<PaginationParams>
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    return await this.auditLogRepo.listEntries(table, recordId, pagination);
+  }
+
+  public async getEntry(id: number): Promise<AuditLogEntry> {
+    const entry = await this.auditLogRepo.getEntryById(id);
+    if (!entry) {
+      throw new NotFoundError('Audit log entry');
+    }
+    return entry;
+  }
+
+  /**
+   * Put a record back as it was after the given entry; a delete entry brings
+   * the deleted record back. The restore is itself audited.
+   */
+  public async restore(actor: AuditActor, entryId: number): Promise<Record<string, unknown>> {
+    const entry = await this.getEntry(entryId);
+    const version = entry.after ?? entry.before;
+    if (!version) {
+      throw new ValidationError('This entry has no saved version to restore');
+    }
+
+    // The function sets updated_at; created_at is the record's own, so a re-created record keeps it
+    const { updated_at: _updatedAt, ...fields } = version;
+
+    let restored = await this.applyChange<Record<string, unknown>>(actor, {
+      table: entry.table_name,
+      action: 'restore',
+      recordId: entry.record_id,
+      fields: { ...fields, id: entry.record_id },
+      restoredFrom: entry.id
+    }, 'Audited record');
+
+    if (entry.table_name === 'registration_steps') {
+      restored = await this.closeStepNumbering(actor, entry.record_id) ?? restored;
+    }
+
+    if (entry.table_name === 'faqs') {
+      this.faqService.invalidateCache();
+    }
+
+    AppLogger.info('Restored record from audit log', {
+      table: entry.table_name,
+      recordId: entry.record_id,
+      entryId: entry.id,
+      by: actor.adminUsername
+    });
+    return restored;
+  }
+
+  /**
+   * A restored step takes back its old number, which another step may now
+   * hold or which may be past the end. Renumber 1..n, the restored step
+   * ahead of any step sharing its number.
+   */
+  private async closeStepNumbering(actor: AuditActor, restoredId: number): Promise<RegistrationStep | null> {
+    const steps = await this.registrationRepo.getAllSteps();
+    const ordered = [...steps].sort((a, b) =>
+      a.step_number - b.step_number || Number(b.id === restoredId) - Number(a.id === restoredId)
+    );
+
+    if (ordered.every((step, index) => step.step_number === index + 1)) {
+      return null;
+    }
+
+    const renumbered = await this.registrationRepo.reorderSteps(ordered.map(step => step.id), actor);
+    return renumbered.find(step => step.id === restoredId) ?? null;
+  }
+}
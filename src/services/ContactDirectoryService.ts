@@ -0,0 +1,70 @@
+// src/services/ContactDirectoryService.ts
+import {
+  AuditActor,
+  Contact,
+  ContactCreate,
+  ContactFilters,
+  ContactUpdate,
+  NotFoundError,
+  PaginationParams
+} from '../types/index.js';
+import { ContactRepository } from '../repositories/ContactRepository.js';
+import { AuditLogService } from './AuditLogService.js';
+
+/**
+ * Staff maintenance of the contacts the bot shares (emergency lines, hospitals,
+ * offices). Every change is written to the audit log.
+ */
+export class ContactDirectoryService {
+  constructor(
+    private contactRepo: ContactRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  public async listContacts(
+    filters: ContactFilters,
+    pagination: Required<PaginationParams>
+  ): Promise<{ contacts: Contact[]; total: number }> {
+    return await this.contactRepo.listContacts(filters, pagination);
+  }
+
+  public async getContact(id: number): Promise<Contact> {
+    const contact = await this.contactRepo.getContactById(id);
+    if (!contact) {
+      throw new NotFoundError('Contact');
+    }
+    return contact;
+  }
+
+  public async createContact(actor: AuditActor, input: ContactCreate): Promise<Contact> {
+    return await this.auditLogService.applyChange<Contact>(actor, {
+      table: 'contacts',
+      action: 'create',
+      recordId: null,
+      fields: {
+        entity: input.entity,
+        phone: input.phone ?? null,
+        email: input.email ?? null,
+        description: input.description ?? null,
+        type: input.type,
+        is_urgent: input.is_urgent ?? false,
+        notes: input.notes ?? null,
+        latitude: input.latitude ?? null,
+        longitude: input.longitude ?? null,
+        settlement_id: input.settlement_id ?? null
+      }
+    }, 'Contact');
+  }
+
+  public async updateContact(actor: AuditActor, id: number, updates: ContactUpdate): Promise<Contact> {
+    return await this.auditLogService.applyChange<Contact>(actor, {
+      table: 'contacts', action: 'update', recordId: id, fields: { ...updates }
+    }, 'Contact');
+  }
+
+  public async deleteContact(actor: AuditActor, id: number): Promise<Contact> {
+    return await this.auditLogService.applyChange<Contact>(actor, {
+      table: 'contacts', action: 'delete', recordId: id, fields: {}
+    }, 'Contact');
+  }
+}
@@ -0,0 +1,63 @@
+// src/services/FaqDirectoryService.ts
+import { AuditActor, Faq, FaqCreate, FaqUpdate, NotFoundError } from '../types/index.js';
+import { FaqRepository } from '../repositories/FaqRepository.js';
+import { AuditLogService } from './AuditLogService.js';
+import { FaqService } from './FaqService.js';
+
+/**
+ * Staff maintenance of the FAQs the bot answers free-text questions from.
+ * Every change is written to the audit log and reaches the bot at once.
+ */
+export class FaqDirectoryService {
+  constructor(
+    private faqRepo: FaqRepository,
+    private faqService: FaqService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  public async listFaqs(category?: string): Promise<Faq[]> {
+    return category
+      ? await this.faqRepo.getFaqsByCategory(category)
+      : await this.faqRepo.getAllFaqs();
+  }
+
+  public async getFaq(id: number): Promise<Faq> {
+    const faq = await this.faqRepo.getFaqById(id);
+    if (!faq) {
+      throw new NotFoundError('FAQ');
+    }
+    return faq;
+  }
+
+  public async createFaq(actor: AuditActor, input: FaqCreate): Promise<Faq> {
+    const faq = await this.auditLogService.applyChange<Faq>(actor, {
+      table: 'faqs',
+      action: 'create',
+      recordId: null,
+      fields: {
+        question: input.question,
+        answer: input.answer,
+        category: input.category,
+        intent_reference: input.intent_reference ?? null
+      }
+    }, 'FAQ');
+    this.faqService.invalidateCache();
+    return faq;
+  }
+
+  public async updateFaq(actor: AuditActor, id: number, updates: FaqUpdate): Promise<Faq> {
+    const faq = await this.auditLogService.applyChange<Faq>(actor, {
+      table: 'faqs', action: 'update', recordId: id, fields: { ...updates }
+    }, 'FAQ');
+    this.faqService.invalidateCache();
+    return faq;
+  }
+
+  public async deleteFaq(actor: AuditActor, id: number): Promise<Faq> {
+    const faq = await this.auditLogService.applyChange<Faq>(actor, {
+      table: 'faqs', action: 'delete', recordId: id, fields: {}
+    }, 'FAQ');
+    this.faqService.invalidateCache();
+    return faq;
+  }
+}
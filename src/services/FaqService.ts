@@ -0,0 +1,85 @@
+// src/services/FaqService.ts
+import { AppLogger } from '../config/logger.js';
+import { Faq } from '../types/index.js';
+import { FaqRepository } from '../repositories/FaqRepository.js';
+import { contentWords, wordOverlap } from '../utils/textMatching.js';
+
+export interface FaqMatch {
+  faq: Faq;
+  score: number;
+}
+
+// Minimum score for an FAQ to be offered as the answer
+export const FAQ_MATCH_THRESHOLD = 0.5;
+
+// A match this close to the stored question beats a general topic answer
+export const FAQ_STRONG_MATCH = 0.8;
+
+// FAQs change rarely, so they are reloaded at most this often
+const FAQ_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Answers free-text questions from the faqs table, ranking entries by how
+ * many of their words the message shares
+ */
+export class FaqService {
+  private faqs: Faq[] = [];
+  private loadedAt = 0;
+
+  constructor(private faqRepo: FaqRepository) {}
+
+  /**
+   * The best FAQ for a message, or null when none is close enough
+   */
+  public async findAnswer(message: string): Promise<FaqMatch | null> {
+    const messageWords = contentWords(message);
+    if (messageWords.length === 0) return null;
+
+    const faqs = await this.getFaqs();
+    let best: FaqMatch | null = null;
+
+    for (const faq of faqs) {
+      const score = wordOverlap(messageWords, contentWords(faq.question));
+      if (score >= FAQ_MATCH_THRESHOLD && (!best || score > best.score)) {
+        best = { faq, score: Number(score.toFixed(2)) };
+      }
+    }
+
+    if (best) {
+      AppLogger.debug('Matched FAQ', { faqId: best.faq.id, score: best.score });
+    }
+
+    return best;
+  }
+
+  /**
+   * The FAQ linked to an intent through intent_reference, if any
+   */
+  public async getAnswerForIntent(intent: string): Promise<Faq | null> {
+    const faqs = await this.getFaqs();
+    return faqs.find(faq => faq.intent_reference === intent) ?? null;
+  }
+
+  /**
+   * Reload the FAQs on the next question, after staff change them
+   */
+  public invalidateCache(): void {
+    this.loadedAt = 0;
+  }
+
+  private async getFaqs(): Promise<Faq[]> {
+    if (Date.now() - this.loadedAt < FAQ_CACHE_TTL_MS) {
+      return this.faqs;
+    }
+
+    try {
+      this.faqs = await this.faqRepo.getAllFaqs();
+      this.loadedAt = Date.now();
+    } catch (error) {
+      // Keep answering from the last copy rather than failing the message
+      AppLogger.error('Failed to load FAQs', error as Error);
+    }
+
+    return this.faqs;
+  }
+}
@@ -0,0 +1,177 @@
+// src/services/FeedbackService.ts
+import { EnvironmentConfig } from '../config/env.js';
+import { AppLogger } from '../config/logger.js';
+import { AnswerFeedback, BotResponse, PaginationParams, PendingFeedback } from '../types/index.js';
+import { FeedbackSummaryRow } from '../types/database.js';
+import { FeedbackRepository } from '../repositories/FeedbackRepository.js';
+import { CATEGORY_INTENTS, INTENT_NAMES } from '../utils/constants.js';
+import { LanguageCode } from '../utils/languages.js';
+import { ResponseFormatter } from '../utils/responseFormatter.js';
+import { translate } from '../utils/translations.js';
+
+export interface FeedbackRating {
+  // 1 to 5 for star ratings, null for thumbs
+  rating: number | null;
+  // Unknown for a middling rating of 3
+  helpful: boolean | null;
+}
+
+export interface FeedbackSummary {
+  // The intent or organization the ratings are grouped by
+  key: string;
+  responses: number;
+  helpful: number;
+  notHelpful: number;
+  // Share of thumbs and ratings that were helpful, ignoring middling ones
+  helpfulRate: number | null;
+  averageRating: number | null;
+  comments: number;
+}
+
+// Answers that point the user to services, contacts or steps; their ratings say something about the content
+const FEEDBACK_INTENTS: string[] = [
+  ...Object.keys(CATEGORY_INTENTS),
+  INTENT_NAMES.FIND_REGISTRATION,
+  INTENT_NAMES.REGISTRATION_STEP,
+  INTENT_NAMES.REGISTRATION_DOCUMENTS,
+  INTENT_NAMES.FIND_EMERGENCY_CONTACTS,
+  INTENT_NAMES.NEAREST_SERVICES,
+  INTENT_NAMES.FAQ
+];
+
+// Skin tones and the emoji variation selector, so every 👍 looks alike
+const EMOJI_MODIFIERS = /[\u{1F3FB}-\u{1F3FF}\u{FE0F}]/gu;
+
+/**
+ * "Was this helpful?" after some answers. The rating is the user's next
+ * message and an optional comment the one after, unless that is a question
+ * the bot can answer; both are only looked for right after the bot asked,
+ * so numbered menu replies are never mistaken for ratings.
+ */
+export class FeedbackService {
+  constructor(
+    private feedbackRepo: FeedbackRepository,
+    private promptRate: number = EnvironmentConfig.feedbackPromptRate
+  ) {}
+
+  /**
+   * Ask for a rating after a share of the answers that show content
+   */
+  public withPrompt(response: BotResponse, language: LanguageCode): BotResponse {
+    const metadata = response.metadata;
+    if (!metadata?.intent || metadata.unanswered) {
+      return response;
+    }
+
+    const eligible = FEEDBACK_INTENTS.includes(metadata.intent) || metadata.faqId !== undefined;
+    if (!eligible || Math.random() >= this.promptRate) {
+      return response;
+    }
+
+    return {
+      ...response,
+      message: `${response.message}\n\n${translate('FEEDBACK_PROMPT', language)}`,
+      metadata: {
+        ...metadata,
+        feedback: {
+          stage: 'rating',
+          intent: metadata.intent,
+          serviceIds: metadata.serviceIds ?? [],
+          contactIds: metadata.contactIds ?? [],
+          faqId: metadata.faqId ?? null
+        }
+      }
+    };
+  }
+
+  /**
+   * Read 👍, 👎, "4/5", "4 stars" or ⭐⭐⭐⭐ as a rating. Bare numbers are
+   * left alone because they pick menu options.
+   */
+  public parseRating(message: string): FeedbackRating | null {
+    const text = message.replace(EMOJI_MODIFIERS, '').trim().toLowerCase();
+
+    if (/^👍+$/u.test(text)) return { rating: null, helpful: true };
+    if (/^👎+$/u.test(text)) return { rating: null, helpful: false };
+
+    let rating: number | null = null;
+    const score = text.match(/^([1-5])\s*(?:\/\s*5|stars?)$/);
+
+    if (score) {
+      rating = parseInt(score[1], 10);
+    } else if (/^⭐{1,5}$/u.test(text)) {
+      rating = [...text].length;
+    }
+
+    if (rating === null) return null;
+
+    return { rating, helpful: rating >= 4 ? true : rating <= 2 ? false : null };
+  }
+
+  public async recordRating(
+    userId: string,
+    pending: Extract<PendingFeedback, { stage: 'rating' }>,
+    rating: FeedbackRating,
+    language: LanguageCode
+  ): Promise<BotResponse> {
+    const feedback = await this.feedbackRepo.createFeedback({
+      user_id: userId,
+      intent: pending.intent,
+      rating: rating.rating,
+      helpful: rating.helpful,
+      service_ids: pending.serviceIds,
+      contact_ids: pending.contactIds,
+      faq_id: pending.faqId,
+      language
+    });
+
+    AppLogger.info('Answer feedback recorded', { feedbackId: feedback.id, intent: feedback.intent });
+
+    return {
+      message: translate('FEEDBACK_THANKS', language),
+      metadata: { feedback: { stage: 'comment', feedbackId: feedback.id } }
+    };
+  }
+
+  public async recordComment(
+    pending: Extract<PendingFeedback, { stage: 'comment' }>,
+    comment: string,
+    language: LanguageCode
+  ): Promise<BotResponse> {
+    await this.feedbackRepo.addComment(pending.feedbackId, comment.trim());
+    return ResponseFormatter.formatTextResponse('FEEDBACK_COMMENT_THANKS', language);
+  }
+
+  public async listFeedback(
+    filters: { intent?: string; since?: string },
+    pagination: Required<PaginationParams>
+  ): Promise<{ feedback: AnswerFeedback[]; total: number }> {
+    return await this.feedbackRepo.getFeedback(filters, pagination);
+  }
+
+  public async summariseByIntent(since?: string): Promise<FeedbackSummary[]> {
+    return this.toSummaries(await this.feedbackRepo.summariseFeedback('intent', since));
+  }
+
+  /**
+   * Ratings count towards every organization whose services or contacts
+   * the rated answer listed
+   */
+  public async summariseByOrganization(since?: string): Promise<FeedbackSummary[]> {
+    return this.toSummaries(await this.feedbackRepo.summariseFeedback('organization', since));
+  }
+
+  private toSummaries(rows: FeedbackSummaryRow[]): FeedbackSummary[] {
+    return rows.map(row => ({
+      key: row.key,
+      responses: row.responses,
+      helpful: row.helpful_count,
+      notHelpful: row.not_helpful_count,
+      helpfulRate: row.helpful_count + row.not_helpful_count > 0
+        ? Math.round((row.helpful_count / (row.helpful_count + row.not_helpful_count)) * 100) / 100
+        : null,
+      averageRating: row.average_rating,
+      comments: row.comment_count
+    }));
+  }
+}
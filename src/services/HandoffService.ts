@@ -0,0 +1,263 @@
+// src/services/HandoffService.ts
+import { AppLogger } from '../config/logger.js';
+import {
+  BotResponse,
+  HandoffMessage,
+  HandoffTicket,
+  NotFoundError,
+  Settlement,
+  ValidationError
+} from '../types/index.js';
+import { ContactRepository } from '../repositories/ContactRepository.js';
+import { HandoffRepository } from '../repositories/HandoffRepository.js';
+import { TranscriptService } from './TranscriptService.js';
+import { TwilioService } from './TwilioService.js';
+import { CONTACT_TYPES, HANDOFF_KEYWORDS, INTENT_NAMES, RESPONSE_SOURCES } from '../utils/constants.js';
+import { Coordinates, openStreetMapLink } from '../utils/geo.js';
+import { DEFAULT_LANGUAGE, LanguageCode, isSupportedLanguage } from '../utils/languages.js';
+import { ResponseFormatter } from '../utils/responseFormatter.js';
+import { translate } from '../utils/translations.js';
+import { tokenize } from '../utils/textMatching.js';
+
+export interface HandoffConversation {
+  ticket: HandoffTicket;
+  messages: HandoffMessage[];
+}
+
+/**
+ * Passes a conversation to a caseworker. While a ticket is open the bot
+ * stays quiet: user messages are stored for staff, and staff replies go
+ * out through Twilio until the ticket is closed.
+ */
+export class HandoffService {
+  private commands: Set<string>;
+  private exitCommands: Set<string>;
+  private phrases: string[];
+
+  constructor(
+    private handoffRepo: HandoffRepository,
+    private contactRepo: ContactRepository,
+    private twilioService: TwilioService,
+    private transcriptService: TranscriptService
+  ) {
+    this.commands = new Set(HANDOFF_KEYWORDS.COMMANDS.map(command => tokenize(command).join(' ')));
+    this.exitCommands = new Set(HANDOFF_KEYWORDS.EXIT_COMMANDS);
+    this.phrases = HANDOFF_KEYWORDS.PHRASES.map(phrase => tokenize(phrase).join(' '));
+  }
+
+  /**
+   * Whether the message asks for a person, e.g. "AGENT" or "can I talk to someone"
+   */
+  public isHandoffRequest(message: string): boolean {
+    const text = tokenize(message).join(' ');
+    if (this.commands.has(text)) return true;
+
+    const paddedText = ` ${text} `;
+    return this.phrases.some(phrase => paddedText.includes(` ${phrase} `));
+  }
+
+  /**
+   * Whether a message sent during a handoff asks for the bot back, e.g. "BOT"
+   */
+  public isExitRequest(message: string): boolean {
+    return this.exitCommands.has(tokenize(message).join(' '));
+  }
+
+  /**
+   * The user's open ticket. A failed lookup lets the bot answer rather than
+   * leaving the user with no reply at all.
+   */
+  public async getOpenTicket(userId: string): Promise<HandoffTicket | null> {
+    try {
+      return await this.handoffRepo.getOpenTicketForUser(userId);
+    } catch (error) {
+      AppLogger.error('Failed to check for an open handoff ticket', error as Error, { userId });
+      return null;
+    }
+  }
+
+  public async openTicket(
+    userId: string,
+    userPhone: string,
+    language: LanguageCode,
+    settlement: Settlement | null,
+    lastIntent: string | null
+  ): Promise<BotResponse> {
+    // Without Twilio staff could read but never answer, so point to an organization instead
+    if (!this.canReply()) {
+      return await this.formatEscalation(language);
+    }
+
+    try {
+      const existing = await this.handoffRepo.getOpenTicketForUser(userId);
+      if (existing) {
+        return this.withHandoffIntent(ResponseFormatter.formatTextResponse('HANDOFF_ALREADY_OPEN', language));
+      }
+
+      const ticket = await this.handoffRepo.createTicket({
+        user_id: userId,
+        phone: userPhone.replace('whatsapp:', '').trim(),
+        language,
+        settlement_id: settlement?.id ?? null,
+        last_intent: lastIntent
+      });
+
+      AppLogger.info('Handoff ticket opened', { userId, ticketId: ticket.id });
+      return this.withHandoffIntent(ResponseFormatter.formatTextResponse('HANDOFF_OPENED', language));
+    } catch (error) {
+      AppLogger.error('Failed to open handoff ticket', error as Error, { userId });
+      return await this.formatEscalation(language);
+    }
+  }
+
+  /**
+   * Store a message sent while a caseworker has the conversation. The bot
+   * sends nothing back, so the reply is empty. A failed insert is thrown,
+   * so the user is never silently cut off from their caseworker.
+   */
+  public async relayUserMessage(
+    ticket: HandoffTicket,
+    message: string,
+    location: Coordinates | null = null
+  ): Promise<BotResponse> {
+    const body = location ? `📍 ${openStreetMapLink(location)}` : message;
+
+    try {
+      await this.handoffRepo.addMessage({ ticket_id: ticket.id, sender: 'user', body, staff_name: null });
+      AppLogger.info('Relayed message to handoff ticket', { ticketId: ticket.id });
+    } catch (error) {
+      AppLogger.error('Failed to relay message to handoff ticket', error as Error, { ticketId: ticket.id });
+      throw error;
+    }
+
+    return { message: '' };
+  }
+
+  /**
+   * Close the ticket at the user's request, so they are never left waiting
+   * on a caseworker with no way back to the bot
+   */
+  public async leaveTicket(ticket: HandoffTicket): Promise<BotResponse> {
+    const language = isSupportedLanguage(ticket.language) ? ticket.language : DEFAULT_LANGUAGE;
+
+    await this.handoffRepo.closeTicket(ticket.id, 'user');
+    AppLogger.info('Handoff ticket closed by the user', { ticketId: ticket.id });
+
+    return this.withHandoffIntent({
+      message: translate('HANDOFF_LEFT', language),
+      quickReplies: ResponseFormatter.formatWelcomeResponse(language).quickReplies
+    });
+  }
+
+  public async listTickets(status?: HandoffTicket['status']): Promise<HandoffTicket[]> {
+    return await this.handoffRepo.getTickets(status);
+  }
+
+  public async getConversation(ticketId: number): Promise<HandoffConversation> {
+    const ticket = await this.requireTicket(ticketId);
+    const messages = await this.handoffRepo.getMessages(ticketId);
+    return { ticket, messages };
+  }
+
+  /**
+   * Send a caseworker's reply to the user and keep it in the conversation
+   */
+  public async sendStaffReply(ticketId: number, body: string, staffName: string | null): Promise<HandoffMessage> {
+    const ticket = await this.requireTicket(ticketId);
+
+    if (ticket.status !== 'open' || !ticket.phone) {
+      throw new ValidationError('Handoff ticket is closed');
+    }
+
+    await this.twilioService.sendWhatsAppMessage(ticket.phone, body);
+    void this.transcriptService.recordStaffMessage(ticket.user_id, body, ticket.language);
+
+    return await this.handoffRepo.addMessage({
+      ticket_id: ticket.id,
+      sender: 'staff',
+      body,
+      staff_name: staffName
+    });
+  }
+
+  /**
+   * Close the ticket and tell the user the bot is back
+   */
+  public async closeTicket(ticketId: number, closedBy: string): Promise<HandoffTicket> {
+    const ticket = await this.requireTicket(ticketId);
+
+    if (ticket.status !== 'open') {
+      throw new ValidationError('Handoff ticket is already closed');
+    }
+
+    // Closed first, so a user who has just left is not told the caseworker closed it
+    const closed = await this.handoffRepo.closeTicket(ticketId, closedBy);
+    if (!closed) {
+      throw new ValidationError('Handoff ticket is already closed');
+    }
+
+    // The closed row no longer has the phone number, so the one read above is used
+    if (ticket.phone) {
+      const language = isSupportedLanguage(ticket.language) ? ticket.language : DEFAULT_LANGUAGE;
+      const notice = translate('HANDOFF_CLOSED', language);
+      try {
+        await this.twilioService.sendWhatsAppMessage(ticket.phone, notice);
+        void this.transcriptService.recordStaffMessage(ticket.user_id, notice, language);
+      } catch (error) {
+        // The user finds out when the bot answers their next message
+        AppLogger.error('Failed to notify user of closed handoff', error as Error, { ticketId });
+      }
+    }
+
+    AppLogger.info('Handoff ticket closed', { ticketId, closedBy });
+    return closed;
+  }
+
+  private async requireTicket(ticketId: number): Promise<HandoffTicket> {
+    const ticket = await this.handoffRepo.getTicketById(ticketId);
+    if (!ticket) {
+      throw new NotFoundError('Handoff ticket');
+    }
+    return ticket;
+  }
+
+  private canReply(): boolean {
+    const status = this.twilioService.getStatus();
+    return status.configured && status.hasWhatsAppNumber;
+  }
+
+  /**
+   * ESCALATION names an organization to contact directly, for when no
+   * caseworker can take the conversation
+   */
+  private async formatEscalation(language: LanguageCode): Promise<BotResponse> {
+    try {
+      const [general, urgent] = await Promise.all([
+        this.contactRepo.getContactsByType(CONTACT_TYPES.GENERAL),
+        this.contactRepo.getUrgentContacts()
+      ]);
+      const contact = general[0] ?? urgent[0];
+
+      if (contact) {
+        return {
+          message: translate('ESCALATION', language, {
+            organization: contact.entity,
+            contact: contact.phone || contact.email || ''
+          }),
+          quickReplies: ResponseFormatter.formatWelcomeResponse(language).quickReplies
+        };
+      }
+    } catch (error) {
+      AppLogger.error('Failed to load escalation contact', error as Error);
+    }
+
+    return ResponseFormatter.formatTextResponse('HELP_TOPICS', language);
+  }
+
+  private withHandoffIntent(response: BotResponse): BotResponse {
+    return {
+      ...response,
+      metadata: { ...response.metadata, intent: INTENT_NAMES.HUMAN_HANDOFF, source: RESPONSE_SOURCES.HANDOFF }
+    };
+  }
+}
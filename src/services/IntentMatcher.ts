@@ -0,0 +1,148 @@
+// src/services/IntentMatcher.ts
+import { STEP_KEYWORDS } from '../utils/constants.js';
+import { normalizeText, tokenize, wordSimilarity } from '../utils/textMatching.js';
+
+export interface IntentDefinition {
+  intent: string;
+  // English quick reply label offered when the bot asks which topic was meant
+  label: string;
+  // Single words that point strongly at the intent, in every supported language
+  synonyms: string[];
+  // Common words that only hint at the intent, e.g. "help"
+  weakSynonyms?: string[];
+  // Multiword phrases, matched as whole words
+  phrases?: string[];
+  // Secondary intents (greetings) only win when nothing else matches
+  secondary?: boolean;
+}
+
+export interface IntentCandidate {
+  intent: string;
+  label: string;
+  score: number;
+}
+
+export interface IntentMatch {
+  // null when nothing matched or the message is ambiguous
+  intent: string | null;
+  confidence: number;
+  candidates: IntentCandidate[];
+  isAmbiguous: boolean;
+}
+
+// Below this confidence, and with competing candidates, ask a clarifying question
+export const MATCH_CONFIDENCE_THRESHOLD = 0.6;
+
+const PHRASE_SCORE = 1.5;
+const WEAK_SYNONYM_FACTOR = 0.5;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10
+};
+
+/**
+ * Scores a message against intent definitions word by word, so "this"
+ * no longer matches "hi" while "regstration" still finds registration
+ */
+export class IntentMatcher {
+  private definitions: IntentDefinition[];
+
+  constructor(definitions: IntentDefinition[]) {
+    // Normalise once so accents and case never affect matching
+    this.definitions = definitions.map(definition => ({
+      ...definition,
+      synonyms: definition.synonyms.map(normalizeText),
+      weakSynonyms: (definition.weakSynonyms || []).map(normalizeText),
+      phrases: (definition.phrases || []).map(phrase => tokenize(phrase).join(' '))
+    }));
+  }
+
+  public match(message: string): IntentMatch {
+    const tokens = tokenize(message);
+    const paddedText = ` ${tokens.join(' ')} `;
+
+    const scored = this.definitions
+      .map(definition => ({
+        definition,
+        score: this.scoreDefinition(definition, tokens, paddedText)
+      }))
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    // Greetings only count when no topic was mentioned
+    const primary = scored.filter(entry => !entry.definition.secondary);
+    const ranked = primary.length > 0 ? primary : scored;
+
+    if (ranked.length === 0) {
+      return { intent: null, confidence: 0, candidates: [], isAmbiguous: false };
+    }
+
+    const [best, second] = ranked;
+    const strength = Math.min(1, best.score);
+    const separation = second ? (best.score - second.score) / best.score : 1;
+    const confidence = Number((strength * (0.5 + 0.5 * separation)).toFixed(2));
+    const isAmbiguous = confidence < MATCH_CONFIDENCE_THRESHOLD && ranked.length > 1;
+
+    return {
+      intent: isAmbiguous ? null : best.definition.intent,
+      confidence,
+      candidates: ranked.map(entry => ({
+        intent: entry.definition.intent,
+        label: entry.definition.label,
+        score: Number(entry.score.toFixed(2))
+      })),
+      isAmbiguous
+    };
+  }
+
+  /**
+   * The step number in messages such as "step 3" or "what happens at step two",
+   * or null when the message does not name a step
+   */
+  public extractStepNumber(message: string): number | null {
+    const tokens = tokenize(message);
+    const mentionsStep = tokens.some(token =>
+      STEP_KEYWORDS.some(keyword => wordSimilarity(token, keyword) >= 0.9)
+    );
+
+    if (!mentionsStep) return null;
+
+    for (const token of tokens) {
+      if (/^\d{1,2}$/.test(token)) return parseInt(token, 10);
+      if (NUMBER_WORDS[token]) return NUMBER_WORDS[token];
+    }
+
+    return null;
+  }
+
+  private scoreDefinition(definition: IntentDefinition, tokens: string[], paddedText: string): number {
+    let score = 0;
+
+    for (const phrase of definition.phrases || []) {
+      if (paddedText.includes(` ${phrase} `)) {
+        score += PHRASE_SCORE;
+      }
+    }
+
+    for (const token of tokens) {
+      score += Math.max(
+        this.scoreToken(token, definition.synonyms),
+        this.scoreToken(token, definition.weakSynonyms || []) * WEAK_SYNONYM_FACTOR
+      );
+    }
+
+    return score;
+  }
+
+  private scoreToken(token: string, synonyms: string[]): number {
+    let best = 0;
+
+    for (const synonym of synonyms) {
+      best = Math.max(best, wordSimilarity(token, synonym));
+      if (best === 1) break;
+    }
+
+    return best;
+  }
+}
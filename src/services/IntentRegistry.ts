@@ -0,0 +1,131 @@
+// src/services/IntentRegistry.ts
+import { BotResponse, Settlement } from '../types/index.js';
+import { ContactRepository } from '../repositories/ContactRepository.js';
+import { RegistrationStepRepository } from '../repositories/RegistrationStepRepository.js';
+import { ServiceRepository } from '../repositories/ServiceRepository.js';
+import { LocationService } from './LocationService.js';
+import { IntentDefinition } from './IntentMatcher.js';
+import { ServiceCategory } from '../utils/constants.js';
+import { LanguageCode } from '../utils/languages.js';
+import { ResponseFormatter } from '../utils/responseFormatter.js';
+import { MessageKey } from '../utils/translations.js';
+
+// Details picked out of the message that some intents need, e.g. which step
+export interface IntentOptions {
+  stepNumber?: number;
+  // The user's settlement, whose services are listed first
+  settlement?: Settlement | null;
+  // From the agent's parameters: the category a general question is about, and whose services to list
+  category?: ServiceCategory;
+  organization?: string;
+}
+
+// Where intent handlers read their answers from
+export interface IntentDataSources {
+  serviceRepo: ServiceRepository;
+  contactRepo: ContactRepository;
+  registrationRepo: RegistrationStepRepository;
+  locationService: LocationService;
+}
+
+export interface IntentContext {
+  language: LanguageCode;
+  options: IntentOptions;
+  data: IntentDataSources;
+}
+
+export type IntentHandler = (context: IntentContext) => Promise<BotResponse>;
+
+export interface RequiredParameter {
+  name: keyof IntentOptions;
+  // Asked instead of answering when the parameter is missing
+  prompt: MessageKey;
+}
+
+export interface IntentDeclaration {
+  name: string;
+  // Other names the same intent arrives under, e.g. older Dialogflow display names
+  aliases?: string[];
+  // English quick reply label offered when the bot asks which topic was meant
+  label?: string;
+  // Built-in matcher triggers; intents without synonyms or phrases are never matched from text
+  synonyms?: string[];
+  weakSynonyms?: string[];
+  phrases?: string[];
+  secondary?: boolean;
+  requiredParameters?: RequiredParameter[];
+  handler: IntentHandler;
+}
+
+/**
+ * Every intent the bot answers itself, looked up by name or alias. The
+ * Dialogflow path, the fulfillment webhook, menu options and the built-in
+ * matcher all dispatch through it.
+ */
+export class IntentRegistry {
+  private byName = new Map<string, IntentDeclaration>();
+
+  constructor(private declarations: IntentDeclaration[]) {
+    for (const declaration of declarations) {
+      for (const name of [declaration.name, ...(declaration.aliases || [])]) {
+        if (this.byName.has(name)) {
+          throw new Error(`Intent name registered twice: ${name}`);
+        }
+        this.byName.set(name, declaration);
+      }
+    }
+  }
+
+  public get(name: string): IntentDeclaration | null {
+    return this.byName.get(name) ?? null;
+  }
+
+  public has(name: string): boolean {
+    return this.byName.has(name);
+  }
+
+  /**
+   * The menu label of an intent, for offering it as a choice
+   */
+  public getLabel(name: string): string | null {
+    return this.get(name)?.label ?? null;
+  }
+
+  /**
+   * Declarations with triggers, in the form the built-in matcher scores
+   */
+  public getTriggerDefinitions(): IntentDefinition[] {
+    return this.declarations
+      .filter(declaration => declaration.label && (declaration.synonyms?.length || declaration.phrases?.length))
+      .map(declaration => ({
+        intent: declaration.name,
+        label: declaration.label!,
+        synonyms: declaration.synonyms || [],
+        weakSynonyms: declaration.weakSynonyms,
+        phrases: declaration.phrases,
+        secondary: declaration.secondary
+      }));
+  }
+
+  /**
+   * Answer a registered intent, or ask for its first missing required parameter.
+   * The response is tagged with the canonical intent name.
+   */
+  public async dispatch(name: string, context: IntentContext): Promise<BotResponse | null> {
+    const declaration = this.get(name);
+    if (!declaration) return null;
+
+    const missing = (declaration.requiredParameters || []).find(parameter =>
+      context.options[parameter.name] === undefined || context.options[parameter.name] === null
+    );
+
+    const response = missing
+      ? ResponseFormatter.formatTextResponse(missing.prompt, context.language)
+      : await declaration.handler(context);
+
+    return {
+      ...response,
+      metadata: { ...response.metadata, intent: declaration.name }
+    };
+  }
+}
@@ -0,0 +1,135 @@
+// src/services/LanguageService.ts
+import { AppLogger } from '../config/logger.js';
+import { BotResponse } from '../types/index.js';
+import { UserProfileRepository } from '../repositories/UserProfileRepository.js';
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGE_COMMANDS,
+  LanguageCode,
+  SUPPORTED_LANGUAGES,
+  detectLanguage,
+  findLanguage,
+  getLanguageName,
+  isSupportedLanguage
+} from '../utils/languages.js';
+import { translate } from '../utils/translations.js';
+import { INTENT_NAMES } from '../utils/constants.js';
+import { ResponseFormatter } from '../utils/responseFormatter.js';
+
+// Detected languages below this confidence never replace a stored preference
+const DETECTION_CONFIDENCE_THRESHOLD = 0.4;
+
+export class LanguageService {
+  constructor(private profileRepo: UserProfileRepository) {}
+
+  /**
+   * Get the stored language for a user without looking at the message
+   */
+  public async getPreferredLanguage(userId: string): Promise<LanguageCode> {
+    try {
+      const profile = await this.profileRepo.getProfile(userId);
+      if (profile && isSupportedLanguage(profile.language)) {
+        return profile.language;
+      }
+    } catch (error) {
+      AppLogger.error('Failed to load language preference', error as Error, { userId });
+    }
+    return DEFAULT_LANGUAGE;
+  }
+
+  /**
+   * Decide which language to reply in. An explicit choice made with the
+   * LANGUAGE command always wins; otherwise a confident detection updates
+   * the stored preference.
+   */
+  public async resolveLanguage(userId: string, message: string): Promise<LanguageCode> {
+    let stored: LanguageCode | null = null;
+    let isExplicit = false;
+
+    try {
+      const profile = await this.profileRepo.getProfile(userId);
+      if (profile && isSupportedLanguage(profile.language)) {
+        stored = profile.language;
+        isExplicit = profile.language_source === 'explicit';
+      }
+    } catch (error) {
+      AppLogger.error('Failed to load language preference', error as Error, { userId });
+    }
+
+    if (stored && isExplicit) {
+      return stored;
+    }
+
+    const detection = detectLanguage(message);
+    if (!detection || detection.confidence < DETECTION_CONFIDENCE_THRESHOLD) {
+      return stored ?? DEFAULT_LANGUAGE;
+    }
+
+    if (detection.language !== stored) {
+      AppLogger.debug('Detected message language', { userId, ...detection });
+      await this.savePreference(userId, detection.language, 'detected');
+    }
+
+    return detection.language;
+  }
+
+  /**
+   * Returns the command argument when the message is a LANGUAGE command, otherwise null
+   */
+  public parseLanguageCommand(message: string): string | null {
+    const [command, ...rest] = message.trim().split(/\s+/);
+    if (!command || !LANGUAGE_COMMANDS.includes(command.toLowerCase())) {
+      return null;
+    }
+    return rest.join(' ');
+  }
+
+  /**
+   * Handle a LANGUAGE command: show the menu, or switch to the requested language
+   */
+  public async handleLanguageCommand(userId: string, argument: string, currentLanguage: LanguageCode): Promise<BotResponse> {
+    if (!argument) {
+      return this.formatLanguageMenu(currentLanguage);
+    }
+
+    const language = findLanguage(argument);
+    if (!language) {
+      const menu = this.formatLanguageMenu(currentLanguage);
+      return {
+        ...menu,
+        message: `${translate('LANGUAGE_UNKNOWN', currentLanguage)}\n\n${menu.message}`
+      };
+    }
+
+    await this.savePreference(userId, language, 'explicit');
+    AppLogger.info('User changed language', { userId, language });
+
+    const welcome = ResponseFormatter.formatWelcomeResponse(language);
+    return {
+      ...welcome,
+      message: `${translate('LANGUAGE_CHANGED', language, { language: getLanguageName(language) })}\n\n${welcome.message}`,
+      metadata: { intent: INTENT_NAMES.WELCOME, language }
+    };
+  }
+
+  private formatLanguageMenu(language: LanguageCode): BotResponse {
+    const options = SUPPORTED_LANGUAGES
+      .map(l => `• ${l.nativeName} (${l.code})`)
+      .join('\n');
+
+    return {
+      message: `${translate('LANGUAGE_MENU', language)}\n\n${options}`,
+      quickReplies: SUPPORTED_LANGUAGES.map(l => l.nativeName),
+      metadata: { intent: INTENT_NAMES.SET_LANGUAGE }
+    };
+  }
+
+  private async savePreference(userId: string, language: LanguageCode, source: 'detected' | 'explicit'): Promise<void> {
+    try {
+      await this.profileRepo.upsertProfile(userId, { language, language_source: source });
+    } catch (error) {
+      // A failed write should never stop the user getting an answer
+      AppLogger.error('Failed to save language preference', error as Error, { userId, language });
+    }
+  }
+}
@@ -0,0 +1,156 @@
+// src/services/LocationService.ts
+import { AppLogger } from '../config/logger.js';
+import { Service, Settlement } from '../types/index.js';
+import { ServiceRepository } from '../repositories/ServiceRepository.js';
+import { SettlementRepository } from '../repositories/SettlementRepository.js';
+import { UserProfileRepository } from '../repositories/UserProfileRepository.js';
+import { ServiceCategory } from '../utils/constants.js';
+import { Coordinates, distanceKm } from '../utils/geo.js';
+import { normalizeText, tokenize, wordSimilarity } from '../utils/textMatching.js';
+
+export interface NearbyService {
+  service: Service;
+  distanceKm: number;
+}
+
+// How many services a nearest-service answer lists at most, across all MORE pages
+const NEAREST_SERVICES_LIMIT = 15;
+
+// A shared pin further than this from every settlement does not set one
+const SETTLEMENT_RADIUS_KM = 20;
+
+// Settlements change rarely, so they are reloaded at most this often
+const SETTLEMENT_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Knows where users and services are: named settlements, shared pins and
+ * the settlement each user lives in. Distances are computed here, so no
+ * geocoding service is involved.
+ */
+export class LocationService {
+  private settlements: Settlement[] = [];
+  private loadedAt = 0;
+
+  constructor(
+    private serviceRepo: ServiceRepository,
+    private settlementRepo: SettlementRepository,
+    private profileRepo: UserProfileRepository
+  ) {}
+
+  /**
+   * A settlement named in the message, tolerating small typos
+   */
+  public async findNamedSettlement(message: string): Promise<Settlement | null> {
+    const tokens = tokenize(message);
+    const paddedText = ` ${tokens.join(' ')} `;
+    const settlements = await this.getSettlements();
+
+    return settlements.find(settlement =>
+      [settlement.name, ...(settlement.aliases || [])].some(name => {
+        const nameTokens = tokenize(name);
+        if (nameTokens.length > 1) {
+          return paddedText.includes(` ${nameTokens.join(' ')} `);
+        }
+        return tokens.some(token => wordSimilarity(token, normalizeText(name)) >= 0.7);
+      })
+    ) ?? null;
+  }
+
+  public async findNearestSettlement(origin: Coordinates): Promise<Settlement | null> {
+    const settlements = await this.getSettlements();
+    let nearest: Settlement | null = null;
+    let nearestKm = SETTLEMENT_RADIUS_KM;
+
+    for (const settlement of settlements) {
+      const km = distanceKm(origin, settlement);
+      if (km <= nearestKm) {
+        nearest = settlement;
+        nearestKm = km;
+      }
+    }
+
+    return nearest;
+  }
+
+  public async findNearestServices(origin: Coordinates, category?: ServiceCategory): Promise<NearbyService[]> {
+    const services = await this.serviceRepo.getServicesWithCoordinates(category);
+
+    return services
+      .map(service => ({
+        service,
+        distanceKm: distanceKm(origin, { latitude: service.latitude!, longitude: service.longitude! })
+      }))
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .slice(0, NEAREST_SERVICES_LIMIT);
+  }
+
+  /**
+   * The settlement named in this message, which becomes the user's settlement,
+   * or else the one remembered from earlier
+   */
+  public async resolveUserSettlement(userId: string, message: string): Promise<Settlement | null> {
+    const named = await this.findNamedSettlement(message);
+    if (named) {
+      await this.rememberSettlement(userId, named);
+      return named;
+    }
+
+    return await this.getUserSettlement(userId);
+  }
+
+  public async getUserSettlement(userId: string): Promise<Settlement | null> {
+    try {
+      const profile = await this.profileRepo.getProfile(userId);
+      if (!profile?.settlement_id) return null;
+
+      const settlements = await this.getSettlements();
+      return settlements.find(settlement => settlement.id === profile.settlement_id) ??
+        await this.settlementRepo.getSettlementById(profile.settlement_id);
+    } catch (error) {
+      AppLogger.error('Failed to load user settlement', error as Error, { userId });
+      return null;
+    }
+  }
+
+  public async rememberSettlement(userId: string, settlement: Settlement): Promise<void> {
+    try {
+      await this.profileRepo.upsertProfile(userId, { settlement_id: settlement.id });
+    } catch (error) {
+      // Not knowing the settlement only makes answers less local
+      AppLogger.error('Failed to save user settlement', error as Error, { userId, settlementId: settlement.id });
+    }
+  }
+
+  /**
+   * Items in the user's settlement first, then region-wide ones (no settlement).
+   * Items tied to other settlements are left out unless nothing else matches.
+   */
+  public prioritiseSettlement<T extends { settlement_id: number | null }>(
+    items: T[],
+    settlement: Settlement | null
+  ): T[] {
+    if (!settlement) return items;
+
+    const local = items.filter(item => item.settlement_id === settlement.id);
+    const regionWide = items.filter(item => item.settlement_id === null);
+    const prioritised = [...local, ...regionWide];
+
+    return prioritised.length > 0 ? prioritised : items;
+  }
+
+  private async getSettlements(): Promise<Settlement[]> {
+    if (Date.now() - this.loadedAt < SETTLEMENT_CACHE_TTL_MS) {
+      return this.settlements;
+    }
+
+    try {
+      this.settlements = await this.settlementRepo.getAllSettlements();
+      this.loadedAt = Date.now();
+    } catch (error) {
+      // Keep the last copy rather than failing the message
+      AppLogger.error('Failed to load settlements', error as Error);
+    }
+
+    return this.settlements;
+  }
+}
@@ -1,58 +1,274 @@
-import { BotResponse } from '../types/index.js';
+import { BotResponse, ConversationSession } from '../types/index.js';
 import { DialogflowService } from './dialogflowService.js';
+import { IntentOptions } from './IntentRegistry.js';
+import { LanguageService } from './LanguageService.js';
+import { LocationService } from './LocationService.js';
+import { SafeguardingService } from './SafeguardingService.js';
+import { HandoffService } from './HandoffService.js';
+import { TranscriptService } from './TranscriptService.js';
+import { UnansweredQuestionService } from './UnansweredQuestionService.js';
+import { FeedbackService } from './FeedbackService.js';
+import { SessionAction, SessionService } from './SessionService.js';
 import { AppLogger } from '../config/logger.js';
+import { ResponseFormatter } from '../utils/responseFormatter.js';
+import { CATEGORY_INTENTS, INTENT_NAMES } from '../utils/constants.js';
+import { Coordinates } from '../utils/geo.js';
+import { DEFAULT_LANGUAGE, LanguageCode } from '../utils/languages.js';
+import { pseudonymizeUserId } from '../utils/userIdentity.js';
 
 export class MessageService {
-  constructor(private dialogflowService: DialogflowService) {}
+  constructor(
+    private dialogflowService: DialogflowService,
+    private languageService: LanguageService,
+    private sessionService: SessionService,
+    private locationService: LocationService,
+    private safeguardingService: SafeguardingService,
+    private handoffService: HandoffService,
+    private transcriptService: TranscriptService,
+    private unansweredQuestionService: UnansweredQuestionService,
+    private feedbackService: FeedbackService
+  ) {}
+
+  public async processMessage(
+    userMessage: string,
+    userPhone: string,
+    location: Coordinates | null = null
+  ): Promise<BotResponse> {
+    return await this.process(userMessage, userPhone, location, false);
+  }
+
+  /**
+   * For the reply queue: a failure is thrown instead of answered with an
+   * apology, so the job is retried and finally dead-lettered
+   */
+  public async processQueuedMessage(
+    userMessage: string,
+    userPhone: string,
+    location: Coordinates | null
+  ): Promise<BotResponse> {
+    return await this.process(userMessage, userPhone, location, true);
+  }
+
+  private async process(
+    userMessage: string,
+    userPhone: string,
+    location: Coordinates | null,
+    throwOnFailure: boolean
+  ): Promise<BotResponse> {
+    const startedAt = Date.now();
+    const response = await this.buildResponse(userMessage, userPhone, location, throwOnFailure);
+
+    // The transcript is written in the background so the reply is not delayed
+    void this.transcriptService.recordOutbound(pseudonymizeUserId(userPhone), response, Date.now() - startedAt);
+
+    return response;
+  }
+
+  private async buildResponse(
+    userMessage: string,
+    userPhone: string,
+    location: Coordinates | null,
+    throwOnFailure: boolean
+  ): Promise<BotResponse> {
+    let language: LanguageCode = DEFAULT_LANGUAGE;
 
-  public async processMessage(userMessage: string, userPhone: string): Promise<BotResponse> {
     try {
-      AppLogger.info('Processing user message', { 
-        userPhone: this.maskPhoneNumber(userPhone), 
-        messageLength: userMessage.length 
+      AppLogger.info('Processing user message', {
+        userPhone: this.maskPhoneNumber(userPhone),
+        messageLength: userMessage.length
       });
 
-      // Basic message validation
-      if (!userMessage || userMessage.trim().length === 0) {
+      const userId = pseudonymizeUserId(userPhone);
+
+      // Crisis messages are answered before anything else, however long the message is
+      const crisis = this.safeguardingService.detectCrisis(userMessage);
+
+      // While a caseworker has the conversation, everything goes to them instead of the bot.
+      // A crisis is still answered with urgent contacts, and BOT hands the conversation back.
+      const ticket = await this.handoffService.getOpenTicket(userId);
+      if (ticket) {
+        if (this.handoffService.isExitRequest(userMessage)) {
+          return await this.handoffService.leaveTicket(ticket);
+        }
+
+        if (!crisis) {
+          return await this.handoffService.relayUserMessage(ticket, userMessage, location);
+        }
+
+        // A failed relay is already logged and must not hold back the urgent contacts
+        await this.handoffService.relayUserMessage(ticket, userMessage, location).catch(() => undefined);
+
+        language = await this.languageService.getPreferredLanguage(userId);
+        const settlement = await this.locationService.getUserSettlement(userId);
+        const response = await this.safeguardingService.handleCrisis(userId, crisis, userMessage, language, settlement);
         return {
-          message: 'Please send a message with your question. I can help with registration, food, shelter, healthcare, and emergency contacts.'
+          ...response,
+          metadata: { language, ...response.metadata }
         };
       }
 
-      if (userMessage.length > 500) {
-        return {
-          message: 'Your message is too long. Please keep your questions brief and focused on one topic at a time.'
-        };
+      if (location && !crisis) {
+        return await this.processLocation(location, userId);
+      }
+
+      // Basic message validation
+      if (!userMessage || userMessage.trim().length === 0) {
+        language = await this.languageService.getPreferredLanguage(userId);
+        return ResponseFormatter.formatTextResponse('EMPTY_MESSAGE', language);
+      }
+
+      if (userMessage.length > 500 && !crisis) {
+        language = await this.languageService.getPreferredLanguage(userId);
+        return ResponseFormatter.formatTextResponse('MESSAGE_TOO_LONG', language);
       }
 
-      // Generate session ID from user phone number for context
-      const sessionId = this.generateSessionId(userPhone);
-      
-      // Get response from Dialogflow
-      const response = await this.dialogflowService.getResponse(userMessage, sessionId);
+      const session = await this.sessionService.getActiveSession(userId);
+      const action = this.sessionService.resolveAction(userMessage, session);
+
+      // LANGUAGE command switches the stored preference
+      const languageArgument = this.languageService.parseLanguageCommand(userMessage);
+      let response: BotResponse;
+
+      if (languageArgument !== null && !crisis) {
+        language = await this.languageService.getPreferredLanguage(userId);
+        response = await this.languageService.handleLanguageCommand(userId, languageArgument, language);
+      } else {
+        language = action
+          ? await this.languageService.getPreferredLanguage(userId)
+          : await this.languageService.resolveLanguage(userId, userMessage);
+        // Naming a settlement moves the user there; otherwise the stored one applies
+        const settlement = await this.locationService.resolveUserSettlement(userId, userMessage);
+
+        const wantsPerson = (action?.type === 'option' && action.intent === INTENT_NAMES.HUMAN_HANDOFF) ||
+          this.handoffService.isHandoffRequest(userMessage);
+
+        // A rating or comment, if the previous answer asked for one
+        const pendingFeedback = session?.pending_feedback ?? null;
+        const rating = pendingFeedback?.stage === 'rating' ? this.feedbackService.parseRating(userMessage) : null;
+
+        if (crisis) {
+          response = await this.safeguardingService.handleCrisis(userId, crisis, userMessage, language, settlement);
+        } else if (wantsPerson) {
+          response = await this.handoffService.openTicket(userId, userPhone, language, settlement, session?.last_intent ?? null);
+        } else if (pendingFeedback?.stage === 'rating' && rating) {
+          response = await this.feedbackService.recordRating(userId, pendingFeedback, rating, language);
+        } else {
+          const answer = await this.respond(userMessage, userId, language, session, action, { settlement });
+
+          // After a rating, text the bot has no answer for is taken as a comment; a question it
+          // can answer is answered, and the comment offer lapses
+          response = pendingFeedback?.stage === 'comment' && !action && answer.metadata?.unanswered
+            ? await this.feedbackService.recordComment(pendingFeedback, userMessage, language)
+            : this.feedbackService.withPrompt(answer, language);
+        }
+
+        if (response.metadata?.unanswered) {
+          void this.unansweredQuestionService.capture(userMessage, language);
+        }
+      }
+
+      await this.sessionService.recordResponse(userId, session, response, action);
 
       AppLogger.info('Message processed successfully', {
         userPhone: this.maskPhoneNumber(userPhone),
+        language,
+        action: action?.type,
         responseLength: response.message.length
       });
 
-      return response;
+      return {
+        ...response,
+        metadata: { language, ...response.metadata }
+      };
 
     } catch (error) {
-      AppLogger.error('Message processing failed', error as Error, { 
+      AppLogger.error('Message processing failed', error as Error, {
         userPhone: this.maskPhoneNumber(userPhone),
-        message: userMessage 
+        message: userMessage
       });
-      
-      return {
-        message: 'Sorry, I encountered an error while processing your message. Please try again in a moment.'
-      };
+
+      if (throwOnFailure) throw error;
+      return ResponseFormatter.formatTextResponse('PROCESSING_ERROR', language);
     }
   }
 
-  private generateSessionId(userPhone: string): string {
-    // Create a consistent session ID from phone number for context maintenance
-    return `user-${Buffer.from(userPhone).toString('base64').slice(0, 16)}`;
+  /**
+   * A shared location pin lists the nearest services, limited to the
+   * category the user was last looking at, and sets the user's settlement
+   * when the pin is inside one
+   */
+  private async processLocation(location: Coordinates, userId: string): Promise<BotResponse> {
+    const [language, session, settlement] = await Promise.all([
+      this.languageService.getPreferredLanguage(userId),
+      this.sessionService.getActiveSession(userId),
+      this.locationService.findNearestSettlement(location)
+    ]);
+
+    if (settlement) {
+      await this.locationService.rememberSettlement(userId, settlement);
+    }
+
+    const category = session?.last_intent ? CATEGORY_INTENTS[session.last_intent] : undefined;
+    const response = this.feedbackService.withPrompt(
+      await this.dialogflowService.handleNearestServices(location, null, category, language),
+      language
+    );
+
+    await this.sessionService.recordResponse(userId, session, response, null);
+
+    return {
+      ...response,
+      metadata: { language, ...response.metadata }
+    };
+  }
+
+  /**
+   * Answer a menu navigation in the context of the session, or send the
+   * message to intent detection when it is not one
+   */
+  private async respond(
+    userMessage: string,
+    userId: string,
+    language: LanguageCode,
+    session: ConversationSession | null,
+    action: SessionAction | null,
+    options: IntentOptions = {}
+  ): Promise<BotResponse> {
+    switch (action?.type) {
+      case 'more':
+        return ResponseFormatter.formatMoreItems(session?.last_items || [], session?.item_offset ?? 0, language);
+
+      case 'back': {
+        const previousIntent = this.sessionService.getPreviousIntent(session);
+        return await this.dialogflowService.handleIntent(previousIntent ?? INTENT_NAMES.WELCOME, language, options);
+      }
+
+      case 'menu':
+        return await this.dialogflowService.handleIntent(INTENT_NAMES.WELCOME, language);
+
+      case 'invalid':
+        return {
+          message: ResponseFormatter.formatTextResponse('INVALID_OPTION', language).message,
+          quickReplies: session?.menu_options || []
+        };
+
+      case 'option':
+        if (session?.current_menu === INTENT_NAMES.SET_LANGUAGE) {
+          return await this.languageService.handleLanguageCommand(userId, action.label, language);
+        }
+        if (action.intent === 'more') {
+          return ResponseFormatter.formatMoreItems(session?.last_items || [], session?.item_offset ?? 0, language);
+        }
+        if (action.intent) {
+          return await this.dialogflowService.handleIntent(action.intent, language, options);
+        }
+        // Options without a mapped intent are answered as if the user typed the label
+        return await this.dialogflowService.getResponse(action.label, userId, language, options);
+
+      default:
+        // Get response from Dialogflow, using the pseudonymous id as the session for context
+        return await this.dialogflowService.getResponse(userMessage, userId, language, options);
+    }
   }
 
   private maskPhoneNumber(phone: string): string {
@@ -60,4 +276,4 @@ export class MessageService {
     if (phone.length < 4) return '***';
     return `${phone.slice(0, 2)}***${phone.slice(-2)}`;
   }
-}
\ No newline at end of file
+}
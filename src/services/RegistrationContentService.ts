@@ -0,0 +1,169 @@
+// src/services/RegistrationContentService.ts
+import {
+  AuditActor,
+  NotFoundError,
+  RegistrationStep,
+  RegistrationStepCreate,
+  RegistrationStepUpdate,
+  RequiredDocument,
+  RequiredDocumentCreate,
+  RequiredDocumentUpdate,
+  ValidationError
+} from '../types/index.js';
+import { RegistrationStepRepository } from '../repositories/RegistrationStepRepository.js';
+import { AuditLogService } from './AuditLogService.js';
+
+/**
+ * Staff maintenance of the registration walkthrough and the documents it asks for.
+ * Steps stay numbered 1..n: adding, moving or removing one renumbers the rest.
+ * Every change, renumbering included, is saved together with its audit entries.
+ */
+export class RegistrationContentService {
+  constructor(
+    private registrationRepo: RegistrationStepRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  public async listSteps(): Promise<RegistrationStep[]> {
+    return await this.registrationRepo.getAllSteps();
+  }
+
+  public async getStep(id: number): Promise<RegistrationStep> {
+    const step = await this.registrationRepo.getStepById(id);
+    if (!step) {
+      throw new NotFoundError('Registration step');
+    }
+    return step;
+  }
+
+  public async createStep(actor: AuditActor, input: RegistrationStepCreate): Promise<RegistrationStep> {
+    const position = input.step_number ?? null;
+
+    const created = await this.registrationRepo.createStep({
+      title: input.title,
+      description: input.description,
+      location: input.location ?? null,
+      contact_reference: input.contact_reference ?? null,
+      requirements: input.requirements ?? null,
+      estimated_duration: input.estimated_duration ?? null
+    }, position, actor);
+
+    return created[(position ?? created.length) - 1];
+  }
+
+  /**
+   * Save the content change, then move the step if its number changed. Each
+   * is one transaction with its audit entries.
+   */
+  public async updateStep(actor: AuditActor, id: number, updates: RegistrationStepUpdate): Promise<RegistrationStep> {
+    const { step_number: position, ...content } = updates;
+    let step = await this.getStep(id);
+
+    const steps = position !== undefined ? await this.registrationRepo.getAllSteps() : [];
+    if (position !== undefined) {
+      this.checkPosition(position, steps.length);
+    }
+
+    if (Object.keys(content).length > 0) {
+      step = await this.auditLogService.applyChange<RegistrationStep>(actor, {
+        table: 'registration_steps', action: 'update', recordId: id, fields: { ...content }
+      }, 'Registration step');
+    }
+
+    if (position !== undefined && position !== step.step_number) {
+      const reordered = await this.moveStep(actor, steps, id, position);
+      step = this.findStep(reordered, id);
+    }
+
+    return step;
+  }
+
+  /**
+   * Remove a step and close the gap it leaves
+   */
+  public async deleteStep(actor: AuditActor, id: number): Promise<RegistrationStep> {
+    const step = await this.auditLogService.applyChange<RegistrationStep>(actor, {
+      table: 'registration_steps', action: 'delete', recordId: id, fields: {}
+    }, 'Registration step');
+
+    const remaining = await this.registrationRepo.getAllSteps();
+    if (remaining.some((other, index) => other.step_number !== index + 1)) {
+      await this.registrationRepo.reorderSteps(remaining.map(other => other.id), actor);
+    }
+
+    return step;
+  }
+
+  /**
+   * Put every step in the given order, numbered from 1
+   */
+  public async reorderSteps(actor: AuditActor, stepIds: number[]): Promise<RegistrationStep[]> {
+    return await this.registrationRepo.reorderSteps(stepIds, actor);
+  }
+
+  public async listDocuments(): Promise<RequiredDocument[]> {
+    return await this.registrationRepo.getRequiredDocuments();
+  }
+
+  public async getDocument(id: number): Promise<RequiredDocument> {
+    const document = await this.registrationRepo.getDocumentById(id);
+    if (!document) {
+      throw new NotFoundError('Required document');
+    }
+    return document;
+  }
+
+  public async createDocument(actor: AuditActor, input: RequiredDocumentCreate): Promise<RequiredDocument> {
+    return await this.auditLogService.applyChange<RequiredDocument>(actor, {
+      table: 'required_documents',
+      action: 'create',
+      recordId: null,
+      fields: {
+        document_name: input.document_name,
+        description: input.description ?? null,
+        is_essential: input.is_essential ?? false,
+        notes: input.notes ?? null
+      }
+    }, 'Required document');
+  }
+
+  public async updateDocument(actor: AuditActor, id: number, updates: RequiredDocumentUpdate): Promise<RequiredDocument> {
+    return await this.auditLogService.applyChange<RequiredDocument>(actor, {
+      table: 'required_documents', action: 'update', recordId: id, fields: { ...updates }
+    }, 'Required document');
+  }
+
+  public async deleteDocument(actor: AuditActor, id: number): Promise<RequiredDocument> {
+    return await this.auditLogService.applyChange<RequiredDocument>(actor, {
+      table: 'required_documents', action: 'delete', recordId: id, fields: {}
+    }, 'Required document');
+  }
+
+  /**
+   * Renumber with one step moved to `position`; returns every step
+   */
+  private async moveStep(
+    actor: AuditActor,
+    steps: RegistrationStep[],
+    id: number,
+    position: number
+  ): Promise<RegistrationStep[]> {
+    const order = steps.map(step => step.id).filter(stepId => stepId !== id);
+    order.splice(position - 1, 0, id);
+    return await this.registrationRepo.reorderSteps(order, actor);
+  }
+
+  private findStep(steps: RegistrationStep[], id: number): RegistrationStep {
+    const step = steps.find(other => other.id === id);
+    if (!step) {
+      throw new NotFoundError('Registration step');
+    }
+    return step;
+  }
+
+  private checkPosition(position: number, lastPosition: number): void {
+    if (position < 1 || position > lastPosition) {
+      throw new ValidationError(`step_number must be between 1 and ${lastPosition}`);
+    }
+  }
+}
@@ -0,0 +1,209 @@
+// src/services/ReplyQueueService.ts
+import { EnvironmentConfig } from '../config/env.js';
+import { AppLogger } from '../config/logger.js';
+import { ReplyJob } from '../types/index.js';
+import { ReplyJobRepository } from '../repositories/ReplyJobRepository.js';
+import { MessageService } from './MessageService.js';
+import { TwilioService } from './TwilioService.js';
+import { ResponseFormatter } from '../utils/responseFormatter.js';
+import { Coordinates } from '../utils/geo.js';
+
+// Jobs taken per run, and how long a job may stay taken before another worker picks it up
+const BATCH_SIZE = 10;
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * With ASYNC_REPLIES on, the webhook only queues the message. Jobs are
+ * answered here and the reply is sent through the Twilio API; failed jobs
+ * are retried with exponential backoff and dead-lettered after
+ * REPLY_JOB_MAX_ATTEMPTS. Dead letters hold the raw number and message, so
+ * they are purged after REPLY_DEAD_LETTER_RETENTION_DAYS.
+ */
+export class ReplyQueueService {
+  private pollTimer: NodeJS.Timeout | null = null;
+  private purgeTimer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private runRequested = false;
+
+  constructor(
+    private replyJobRepo: ReplyJobRepository,
+    private messageService: MessageService,
+    private twilioService: TwilioService
+  ) {}
+
+  public async enqueue(
+    userPhone: string,
+    userMessage: string,
+    location: Coordinates | null,
+    messageSid: string | null
+  ): Promise<void> {
+    const job = await this.replyJobRepo.createJob({
+      phone: userPhone.replace('whatsapp:', '').trim(),
+      body: userMessage,
+      latitude: location?.latitude ?? null,
+      longitude: location?.longitude ?? null,
+      message_sid: messageSid
+    });
+
+    AppLogger.debug('Queued reply job', { id: job.id, messageSid });
+
+    // Answer now rather than on the next poll
+    void this.processDueJobs();
+  }
+
+  /**
+   * Run every due job. A call made while a run is in progress makes that
+   * run look again once it finishes, so a new job never waits for the poll.
+   */
+  public async processDueJobs(): Promise<number> {
+    if (this.isRunning) {
+      this.runRequested = true;
+      return 0;
+    }
+
+    this.isRunning = true;
+    let processed = 0;
+
+    try {
+      do {
+        this.runRequested = false;
+        const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString();
+        const jobs = await this.replyJobRepo.getDueJobs(staleBefore, BATCH_SIZE);
+
+        for (const job of jobs) {
+          const claimed = await this.replyJobRepo.claimJob(job);
+          if (!claimed) continue;
+
+          await this.runJob(claimed);
+          processed++;
+        }
+
+        // A full batch may mean more jobs are waiting
+        if (jobs.length === BATCH_SIZE) this.runRequested = true;
+      } while (this.runRequested);
+    } catch (error) {
+      AppLogger.error('Reply queue run failed', error as Error);
+    } finally {
+      this.isRunning = false;
+    }
+
+    return processed;
+  }
+
+  public startWorker(): void {
+    if (this.pollTimer) return;
+
+    const intervalMs = EnvironmentConfig.replyJobPollIntervalSeconds * 1000;
+    void this.processDueJobs();
+
+    this.pollTimer = setInterval(() => void this.processDueJobs(), intervalMs);
+    this.pollTimer.unref();
+
+    AppLogger.info('Reply queue worker started', {
+      pollIntervalSeconds: EnvironmentConfig.replyJobPollIntervalSeconds,
+      maxAttempts: EnvironmentConfig.replyJobMaxAttempts
+    });
+  }
+
+  public stopWorker(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Delete dead letters older than the retention period
+   */
+  public async purgeExpiredDeadLetters(): Promise<number> {
+    const cutoff = new Date(Date.now() - EnvironmentConfig.replyDeadLetterRetentionDays * 24 * 60 * 60 * 1000);
+
+    try {
+      const deleted = await this.replyJobRepo.deleteDeadLettersBefore(cutoff.toISOString());
+      AppLogger.info('Purged expired reply job dead letters', { deleted, cutoff: cutoff.toISOString() });
+      return deleted;
+    } catch (error) {
+      AppLogger.error('Dead letter retention purge failed', error as Error);
+      return 0;
+    }
+  }
+
+  /**
+   * Purge now and then daily until stopped. Runs whether or not replies are
+   * queued, so dead letters left from an earlier setting still expire.
+   */
+  public startRetentionJob(): void {
+    if (this.purgeTimer) return;
+
+    void this.purgeExpiredDeadLetters();
+    this.purgeTimer = setInterval(() => void this.purgeExpiredDeadLetters(), PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+
+    AppLogger.info('Dead letter retention job started', {
+      retentionDays: EnvironmentConfig.replyDeadLetterRetentionDays
+    });
+  }
+
+  public stopRetentionJob(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+
+  private async runJob(job: ReplyJob): Promise<void> {
+    // A retry after a failed save or send resends the reply instead of answering twice
+    let reply = job.reply;
+
+    try {
+      if (reply === null) {
+        const location = job.latitude !== null && job.longitude !== null
+          ? { latitude: job.latitude, longitude: job.longitude }
+          : null;
+        const response = await this.messageService.processQueuedMessage(job.body, `whatsapp:${job.phone}`, location);
+
+        // An empty response (a caseworker has the conversation) sends nothing
+        reply = response.message ? ResponseFormatter.formatForWhatsApp(response) : '';
+        await this.replyJobRepo.saveReply(job.id, reply);
+      }
+
+      if (reply) {
+        await this.twilioService.sendWhatsAppMessage(job.phone, reply);
+      }
+
+      await this.replyJobRepo.deleteJob(job.id);
+      AppLogger.debug('Reply job completed', { id: job.id, attempts: job.attempts });
+    } catch (error) {
+      // Kept with the retry or dead letter even when saving it was what failed
+      await this.handleFailure({ ...job, reply }, error as Error);
+    }
+  }
+
+  private async handleFailure(job: ReplyJob, error: Error): Promise<void> {
+    try {
+      if (job.attempts >= EnvironmentConfig.replyJobMaxAttempts) {
+        AppLogger.error('Reply job failed on its last attempt, moving it to dead letters', error, {
+          id: job.id,
+          attempts: job.attempts
+        });
+        await this.replyJobRepo.moveToDeadLetters(job, error.message);
+        return;
+      }
+
+      // 1x, 2x, 4x ... the base delay
+      const delayMs = EnvironmentConfig.replyJobRetryBaseSeconds * 1000 * 2 ** (job.attempts - 1);
+      AppLogger.warn('Reply job failed, retrying', {
+        id: job.id,
+        attempts: job.attempts,
+        retryInMs: delayMs,
+        error: error.message
+      });
+      await this.replyJobRepo.scheduleRetry(job.id, new Date(Date.now() + delayMs).toISOString(), error.message, job.reply);
+    } catch (updateError) {
+      // The job stays processing and is picked up again once it goes stale
+      AppLogger.error('Failed to record reply job failure', updateError as Error, { id: job.id });
+    }
+  }
+}
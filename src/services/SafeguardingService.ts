@@ -0,0 +1,137 @@
+// src/services/SafeguardingService.ts
+import { AppLogger } from '../config/logger.js';
+import { BotResponse, Contact, NotFoundError, SafeguardingFlag, Settlement, ValidationError } from '../types/index.js';
+import { ContactRepository } from '../repositories/ContactRepository.js';
+import { SafeguardingRepository } from '../repositories/SafeguardingRepository.js';
+import { LocationService } from './LocationService.js';
+import { CRISIS_DEFINITIONS, CrisisDefinition } from '../utils/crisisDefinitions.js';
+import { INTENT_NAMES, RESPONSE_SOURCES } from '../utils/constants.js';
+import { LanguageCode } from '../utils/languages.js';
+import { ResponseFormatter } from '../utils/responseFormatter.js';
+import { normalizeText, tokenize, wordSimilarity } from '../utils/textMatching.js';
+
+/**
+ * Spots messages about violence, abuse, self-harm or medical emergencies
+ * before intent detection, answers them with urgent contacts and flags
+ * them for staff follow-up
+ */
+export class SafeguardingService {
+  private definitions: CrisisDefinition[];
+
+  constructor(
+    private contactRepo: ContactRepository,
+    private safeguardingRepo: SafeguardingRepository,
+    private locationService: LocationService,
+    definitions: CrisisDefinition[] = CRISIS_DEFINITIONS
+  ) {
+    // Normalise once so accents and case never affect matching
+    this.definitions = definitions.map(definition => ({
+      ...definition,
+      keywords: definition.keywords.map(normalizeText),
+      phrases: definition.phrases.map(phrase => tokenize(phrase).join(' '))
+    }));
+  }
+
+  /**
+   * The crisis a message describes, or null for an ordinary message
+   */
+  public detectCrisis(message: string): CrisisDefinition | null {
+    const tokens = tokenize(message);
+    if (tokens.length === 0) return null;
+
+    const paddedText = ` ${tokens.join(' ')} `;
+
+    return this.definitions.find(definition =>
+      definition.phrases.some(phrase => paddedText.includes(` ${phrase} `)) ||
+      tokens.some(token => definition.keywords.some(keyword => wordSimilarity(token, keyword) >= 0.9))
+    ) ?? null;
+  }
+
+  /**
+   * Reply with urgent contacts and record the message for staff. Neither
+   * failure may stop the reply going out.
+   */
+  public async handleCrisis(
+    userId: string,
+    crisis: CrisisDefinition,
+    message: string,
+    language: LanguageCode,
+    settlement: Settlement | null = null
+  ): Promise<BotResponse> {
+    AppLogger.warn('Safeguarding crisis detected', { userId, crisisType: crisis.type });
+
+    const [contacts] = await Promise.all([
+      this.getUrgentContacts(crisis, settlement),
+      this.flagConversation(userId, crisis, message, language, settlement)
+    ]);
+
+    const response = ResponseFormatter.formatCrisisResponse(crisis.messageKey, contacts, language);
+
+    return {
+      ...response,
+      metadata: { ...response.metadata, intent: INTENT_NAMES.SAFEGUARDING, source: RESPONSE_SOURCES.SAFEGUARDING }
+    };
+  }
+
+  public async listFlags(status?: SafeguardingFlag['status']): Promise<SafeguardingFlag[]> {
+    return await this.safeguardingRepo.getFlags(status);
+  }
+
+  /**
+   * Record that staff have followed up a flagged conversation
+   */
+  public async resolveFlag(flagId: number, resolvedBy: string): Promise<SafeguardingFlag> {
+    const resolved = await this.safeguardingRepo.resolveFlag(flagId, resolvedBy);
+
+    if (!resolved) {
+      if (!(await this.safeguardingRepo.getFlagById(flagId))) {
+        throw new NotFoundError('Safeguarding flag');
+      }
+      throw new ValidationError('Safeguarding flag is already resolved');
+    }
+
+    AppLogger.info('Safeguarding flag resolved', { flagId, resolvedBy });
+    return resolved;
+  }
+
+  private async getUrgentContacts(crisis: CrisisDefinition, settlement: Settlement | null): Promise<Contact[]> {
+    try {
+      const contacts = this.locationService.prioritiseSettlement(
+        await this.contactRepo.getUrgentContacts(),
+        settlement
+      );
+
+      // Contacts suited to this crisis first; the sort is stable, so settlement order is kept
+      const rank = (contact: Contact) => {
+        const index = crisis.contactTypes.indexOf(contact.type);
+        return index === -1 ? crisis.contactTypes.length : index;
+      };
+
+      return [...contacts].sort((a, b) => rank(a) - rank(b));
+    } catch (error) {
+      AppLogger.error('Failed to load urgent contacts for crisis reply', error as Error, { crisisType: crisis.type });
+      return [];
+    }
+  }
+
+  private async flagConversation(
+    userId: string,
+    crisis: CrisisDefinition,
+    message: string,
+    language: LanguageCode,
+    settlement: Settlement | null
+  ): Promise<void> {
+    try {
+      const flag = await this.safeguardingRepo.createFlag({
+        user_id: userId,
+        crisis_type: crisis.type,
+        message,
+        language,
+        settlement_id: settlement?.id ?? null
+      });
+      AppLogger.warn('Conversation flagged for safeguarding follow-up', { userId, flagId: flag.id, crisisType: crisis.type });
+    } catch (error) {
+      AppLogger.error('Failed to flag conversation for safeguarding', error as Error, { userId, crisisType: crisis.type });
+    }
+  }
+}
@@ -0,0 +1,70 @@
+// src/services/ServiceDirectoryService.ts
+import {
+  AuditActor,
+  NotFoundError,
+  PaginationParams,
+  Service,
+  ServiceCreate,
+  ServiceFilters,
+  ServiceUpdate
+} from '../types/index.js';
+import { ServiceRepository } from '../repositories/ServiceRepository.js';
+import { AuditLogService } from './AuditLogService.js';
+
+/**
+ * Staff maintenance of the services directory the bot answers from. Every
+ * change is written to the audit log.
+ */
+export class ServiceDirectoryService {
+  constructor(
+    private serviceRepo: ServiceRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  public async listServices(
+    filters: ServiceFilters,
+    pagination: Required<PaginationParams>
+  ): Promise<{ services: Service[]; total: number }> {
+    return await this.serviceRepo.listServices(filters, pagination);
+  }
+
+  public async getService(id: number): Promise<Service> {
+    const service = await this.serviceRepo.getServiceById(id);
+    if (!service) {
+      throw new NotFoundError('Service');
+    }
+    return service;
+  }
+
+  public async createService(actor: AuditActor, input: ServiceCreate): Promise<Service> {
+    return await this.auditLogService.applyChange<Service>(actor, {
+      table: 'services',
+      action: 'create',
+      recordId: null,
+      fields: {
+        category: input.category,
+        organization: input.organization,
+        services: input.services,
+        contact_phone: input.contact_phone ?? null,
+        contact_email: input.contact_email ?? null,
+        location: input.location ?? null,
+        notes: input.notes ?? null,
+        latitude: input.latitude ?? null,
+        longitude: input.longitude ?? null,
+        settlement_id: input.settlement_id ?? null
+      }
+    }, 'Service');
+  }
+
+  public async updateService(actor: AuditActor, id: number, updates: ServiceUpdate): Promise<Service> {
+    return await this.auditLogService.applyChange<Service>(actor, {
+      table: 'services', action: 'update', recordId: id, fields: { ...updates }
+    }, 'Service');
+  }
+
+  public async deleteService(actor: AuditActor, id: number): Promise<Service> {
+    return await this.auditLogService.applyChange<Service>(actor, {
+      table: 'services', action: 'delete', recordId: id, fields: {}
+    }, 'Service');
+  }
+}
@@ -0,0 +1,151 @@
+// src/services/SessionService.ts
+import { EnvironmentConfig } from '../config/env.js';
+import { AppLogger } from '../config/logger.js';
+import { BotResponse, ConversationSession } from '../types/index.js';
+import { SessionRepository } from '../repositories/SessionRepository.js';
+import { INTENT_NAMES, MENU_OPTION_INTENTS, NAVIGATION_KEYWORDS } from '../utils/constants.js';
+import { toEnglishQuickReply } from '../utils/translations.js';
+
+// How many previous menus BACK can return through
+const MAX_MENU_HISTORY = 10;
+
+// Menus that only make sense once and are never returned to with BACK
+const TRANSIENT_MENUS: string[] = [
+  INTENT_NAMES.SET_LANGUAGE,
+  INTENT_NAMES.CLARIFY,
+  INTENT_NAMES.FAQ,
+  INTENT_NAMES.NEAREST_SERVICES,
+  INTENT_NAMES.SAFEGUARDING,
+  INTENT_NAMES.HUMAN_HANDOFF
+];
+
+export type SessionAction =
+  | { type: 'option'; label: string; intent: string | null }
+  | { type: 'back' }
+  | { type: 'more' }
+  | { type: 'menu' }
+  | { type: 'invalid' };
+
+export class SessionService {
+  constructor(private sessionRepo: SessionRepository) {}
+
+  /**
+   * Load the user's session, ignoring it once it has expired
+   */
+  public async getActiveSession(userId: string): Promise<ConversationSession | null> {
+    try {
+      const session = await this.sessionRepo.getSession(userId);
+      if (!session || new Date(session.expires_at).getTime() < Date.now()) {
+        return null;
+      }
+      return session;
+    } catch (error) {
+      AppLogger.error('Failed to load conversation session', error as Error, { userId });
+      return null;
+    }
+  }
+
+  /**
+   * Work out whether the message navigates the current menu rather than asking something new
+   */
+  public resolveAction(message: string, session: ConversationSession | null): SessionAction | null {
+    const text = message.trim().toLowerCase();
+
+    if (this.isKeyword(text, NAVIGATION_KEYWORDS.BACK)) return { type: 'back' };
+    if (this.isKeyword(text, NAVIGATION_KEYWORDS.MORE)) return { type: 'more' };
+    if (this.isKeyword(text, NAVIGATION_KEYWORDS.MENU)) return { type: 'menu' };
+
+    const options = session?.menu_options || [];
+
+    if (/^\d{1,2}$/.test(text) && session) {
+      const index = parseInt(text, 10) - 1;
+
+      if (index < 0 || index >= options.length) {
+        return { type: 'invalid' };
+      }
+
+      const label = options[index];
+      return { type: 'option', label, intent: this.getOptionIntent(label) };
+    }
+
+    // Replying with the text of an option shown in the current menu
+    const matchingOption = options.find(option => option.toLowerCase() === text);
+    if (matchingOption) {
+      return { type: 'option', label: matchingOption, intent: this.getOptionIntent(matchingOption) };
+    }
+
+    // A quick reply label from an earlier menu, in any language
+    const intent = this.getOptionIntent(message.trim());
+    if (intent) {
+      return { type: 'option', label: message.trim(), intent };
+    }
+
+    return null;
+  }
+
+  /**
+   * The menu BACK should return to, if any
+   */
+  public getPreviousIntent(session: ConversationSession | null): string | null {
+    const history = session?.menu_history || [];
+    return history.length > 0 ? history[history.length - 1] : null;
+  }
+
+  /**
+   * Store the menu shown in a response so the user's next reply can refer to it
+   */
+  public async recordResponse(
+    userId: string,
+    session: ConversationSession | null,
+    response: BotResponse,
+    action: SessionAction | null
+  ): Promise<void> {
+    const intent = response.metadata?.intent ?? null;
+    const keepMenu = action?.type === 'more' || action?.type === 'invalid' || !intent;
+    const keepItems = action?.type === 'invalid';
+
+    let history = session?.menu_history || [];
+    if (action?.type === 'back') {
+      history = history.slice(0, -1);
+    } else if (action?.type === 'menu') {
+      history = [];
+    } else if (
+      !keepMenu &&
+      session?.current_menu &&
+      session.current_menu !== intent &&
+      !TRANSIENT_MENUS.includes(session.current_menu)
+    ) {
+      history = [...history, session.current_menu].slice(-MAX_MENU_HISTORY);
+    }
+
+    const expiresAt = new Date(Date.now() + EnvironmentConfig.sessionTtlMinutes * 60 * 1000);
+
+    try {
+      await this.sessionRepo.saveSession({
+        user_id: userId,
+        current_menu: keepMenu ? session?.current_menu ?? null : intent,
+        last_intent: intent ?? session?.last_intent ?? null,
+        menu_options: keepMenu ? session?.menu_options || [] : response.quickReplies || [],
+        menu_history: history,
+        last_items: keepItems ? session?.last_items || [] : response.metadata?.items || [],
+        item_offset: keepItems ? session?.item_offset ?? 0 : response.metadata?.itemOffset ?? 0,
+        // Feedback is only taken on the message right after the bot asked for it
+        pending_feedback: response.metadata?.feedback ?? null,
+        expires_at: expiresAt.toISOString(),
+      });
+    } catch (error) {
+      // Losing menu state only degrades numbered replies; the answer still goes out
+      AppLogger.error('Failed to save conversation session', error as Error, { userId });
+    }
+  }
+
+  private getOptionIntent(label: string): string | null {
+    const english = toEnglishQuickReply(label) ??
+      Object.keys(MENU_OPTION_INTENTS).find(option => option.toLowerCase() === label.toLowerCase());
+    return english ? MENU_OPTION_INTENTS[english] ?? null : null;
+  }
+
+  private isKeyword(text: string, keywords: readonly string[]): boolean {
+    return keywords.includes(text);
+  }
+}
@@ -0,0 +1,125 @@
+// src/services/TranscriptService.ts
+import { EnvironmentConfig } from '../config/env.js';
+import { AppLogger } from '../config/logger.js';
+import { BotResponse } from '../types/index.js';
+import { TranscriptRepository } from '../repositories/TranscriptRepository.js';
+import { RESPONSE_SOURCES } from '../utils/constants.js';
+import { ResponseFormatter } from '../utils/responseFormatter.js';
+
+/**
+ * Keeps a transcript of every message received and sent, and purges it
+ * once rows pass the retention period. Recording never holds up a reply.
+ */
+export class TranscriptService {
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  constructor(private transcriptRepo: TranscriptRepository) {}
+
+  public async recordInbound(userId: string, body: string, messageSid: string | null): Promise<void> {
+    try {
+      await this.transcriptRepo.saveMessage({
+        user_id: userId,
+        direction: 'inbound',
+        body,
+        message_sid: messageSid,
+        language: null,
+        intent: null,
+        confidence: null,
+        source: null,
+        latency_ms: null
+      });
+    } catch (error) {
+      AppLogger.error('Failed to record inbound message', error as Error, { userId });
+    }
+  }
+
+  /**
+   * Record a reply with how it was produced and how long it took
+   */
+  public async recordOutbound(userId: string, response: BotResponse, latencyMs: number): Promise<void> {
+    // Nothing is sent while a caseworker has the conversation
+    if (!response.message) return;
+
+    const metadata = response.metadata || {};
+
+    try {
+      await this.transcriptRepo.saveMessage({
+        user_id: userId,
+        direction: 'outbound',
+        body: ResponseFormatter.formatForWhatsApp(response),
+        message_sid: null,
+        language: metadata.language ?? null,
+        intent: metadata.intent ?? null,
+        confidence: typeof metadata.confidence === 'number' ? metadata.confidence : null,
+        source: metadata.source ?? RESPONSE_SOURCES.BUILT_IN,
+        latency_ms: Math.round(latencyMs)
+      });
+    } catch (error) {
+      AppLogger.error('Failed to record outbound message', error as Error, { userId });
+    }
+  }
+
+  /**
+   * Record a message sent from the staff inbox rather than by the bot: a
+   * caseworker's reply, or the notice that their ticket was closed
+   */
+  public async recordStaffMessage(userId: string, body: string, language: string | null): Promise<void> {
+    try {
+      await this.transcriptRepo.saveMessage({
+        user_id: userId,
+        direction: 'outbound',
+        body,
+        message_sid: null,
+        language,
+        intent: null,
+        confidence: null,
+        source: RESPONSE_SOURCES.HANDOFF,
+        latency_ms: null
+      });
+    } catch (error) {
+      AppLogger.error('Failed to record staff message', error as Error, { userId });
+    }
+  }
+
+  /**
+   * Delete transcript rows older than the retention period
+   */
+  public async purgeExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - EnvironmentConfig.transcriptRetentionDays * 24 * 60 * 60 * 1000);
+
+    try {
+      const deleted = await this.transcriptRepo.deleteMessagesBefore(cutoff.toISOString());
+      AppLogger.info('Purged expired transcript messages', { deleted, cutoff: cutoff.toISOString() });
+      return deleted;
+    } catch (error) {
+      AppLogger.error('Transcript retention purge failed', error as Error);
+      return 0;
+    }
+  }
+
+  /**
+   * Purge now and then on every interval until stopped
+   */
+  public startRetentionJob(): void {
+    if (this.purgeTimer) return;
+
+    const intervalMs = EnvironmentConfig.transcriptPurgeIntervalHours * 60 * 60 * 1000;
+    void this.purgeExpired();
+
+    this.purgeTimer = setInterval(() => void this.purgeExpired(), intervalMs);
+    // The purge job alone must not keep the process running
+    this.purgeTimer.unref();
+
+    AppLogger.info('Transcript retention job started', {
+      retentionDays: EnvironmentConfig.transcriptRetentionDays,
+      intervalHours: EnvironmentConfig.transcriptPurgeIntervalHours
+    });
+  }
+
+  public stopRetentionJob(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+}
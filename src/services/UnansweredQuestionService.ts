@@ -0,0 +1,173 @@
+// src/services/UnansweredQuestionService.ts
+import { EnvironmentConfig } from '../config/env.js';
+import { AppLogger } from '../config/logger.js';
+import { NotFoundError, UnansweredQuestion, ValidationError } from '../types/index.js';
+import { UnansweredStatus } from '../types/database.js';
+import { FaqRepository } from '../repositories/FaqRepository.js';
+import { UnansweredQuestionRepository } from '../repositories/UnansweredQuestionRepository.js';
+import { IntentRegistry } from './IntentRegistry.js';
+import { ServiceCategory } from '../utils/constants.js';
+import { LanguageCode } from '../utils/languages.js';
+import { contentWords, wordOverlap } from '../utils/textMatching.js';
+
+export type UnansweredResolution =
+  | { type: 'faq'; faqId: number }
+  | { type: 'category'; category: ServiceCategory }
+  | { type: 'training_phrase'; intent: string; phrase: string | null };
+
+// A message this close to a cluster's question joins the cluster
+export const CLUSTER_SIMILARITY = 0.6;
+
+// Clusters a new message is compared against: the most recently seen open ones in its language
+const MAX_CANDIDATES = 200;
+
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Collects messages the bot could not answer, grouping similar ones, so
+ * editors can see which FAQs, categories or training phrases are missing.
+ * Clusters not seen for UNANSWERED_RETENTION_DAYS are purged with the user text they hold.
+ */
+export class UnansweredQuestionService {
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private questionRepo: UnansweredQuestionRepository,
+    private faqRepo: FaqRepository,
+    private intentRegistry: IntentRegistry
+  ) {}
+
+  /**
+   * Add a message to the closest open cluster, or start a new one.
+   * Failures are logged only; the user already has their reply.
+   */
+  public async capture(message: string, language: LanguageCode): Promise<void> {
+    const words = contentWords(message);
+    if (words.length === 0) return;
+
+    try {
+      const openQuestions = await this.questionRepo.getRecentOpenQuestions(language, MAX_CANDIDATES);
+      let best: { question: UnansweredQuestion; score: number } | null = null;
+
+      for (const question of openQuestions) {
+        const score = wordOverlap(words, contentWords(question.question));
+        if (score >= CLUSTER_SIMILARITY && (!best || score > best.score)) {
+          best = { question, score };
+        }
+      }
+
+      if (best) {
+        await this.questionRepo.recordOccurrence(best.question.id, message.trim());
+        AppLogger.debug('Clustered unanswered question', { questionId: best.question.id, score: best.score });
+      } else {
+        const created = await this.questionRepo.createQuestion(message.trim(), language);
+        AppLogger.info('New unanswered question', { questionId: created.id });
+      }
+    } catch (error) {
+      AppLogger.error('Failed to capture unanswered question', error as Error);
+    }
+  }
+
+  public async listQuestions(status?: UnansweredStatus): Promise<UnansweredQuestion[]> {
+    return await this.questionRepo.getQuestions(status);
+  }
+
+  public async getQuestion(id: number): Promise<UnansweredQuestion> {
+    const question = await this.questionRepo.getQuestionById(id);
+    if (!question) {
+      throw new NotFoundError('Unanswered question');
+    }
+    return question;
+  }
+
+  /**
+   * Close a cluster by recording the content that now answers it
+   */
+  public async resolve(id: number, resolution: UnansweredResolution, resolvedBy: string): Promise<UnansweredQuestion> {
+    const question = await this.getQuestion(id);
+
+    const base = {
+      status: 'resolved' as const,
+      resolution_type: resolution.type,
+      resolved_by: resolvedBy,
+      resolved_at: new Date().toISOString(),
+    };
+
+    switch (resolution.type) {
+      case 'faq': {
+        const faq = await this.faqRepo.getFaqById(resolution.faqId);
+        if (!faq) {
+          throw new NotFoundError('FAQ');
+        }
+        return await this.questionRepo.updateQuestion(question.id, { ...base, faq_id: faq.id });
+      }
+
+      case 'category':
+        return await this.questionRepo.updateQuestion(question.id, { ...base, category: resolution.category });
+
+      case 'training_phrase': {
+        const intent = this.intentRegistry.get(resolution.intent);
+        if (!intent) {
+          throw new ValidationError(`Unknown intent: ${resolution.intent}`);
+        }
+        return await this.questionRepo.updateQuestion(question.id, {
+          ...base,
+          intent: intent.name,
+          // Without an edited phrase, the question itself becomes the training phrase
+          training_phrase: resolution.phrase ?? question.question,
+        });
+      }
+    }
+  }
+
+  /**
+   * Close a cluster that needs no new content, e.g. spam or small talk
+   */
+  public async dismiss(id: number, dismissedBy: string): Promise<UnansweredQuestion> {
+    const question = await this.getQuestion(id);
+
+    return await this.questionRepo.updateQuestion(question.id, {
+      status: 'dismissed',
+      resolved_by: dismissedBy,
+      resolved_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Delete clusters last seen before the retention period
+   */
+  public async purgeExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - EnvironmentConfig.unansweredRetentionDays * 24 * 60 * 60 * 1000);
+
+    try {
+      const deleted = await this.questionRepo.deleteQuestionsLastSeenBefore(cutoff.toISOString());
+      AppLogger.info('Purged expired unanswered questions', { deleted, cutoff: cutoff.toISOString() });
+      return deleted;
+    } catch (error) {
+      AppLogger.error('Unanswered question retention purge failed', error as Error);
+      return 0;
+    }
+  }
+
+  /**
+   * Purge now and then daily until stopped
+   */
+  public startRetentionJob(): void {
+    if (this.purgeTimer) return;
+
+    void this.purgeExpired();
+    this.purgeTimer = setInterval(() => void this.purgeExpired(), PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+
+    AppLogger.info('Unanswered question retention job started', {
+      retentionDays: EnvironmentConfig.unansweredRetentionDays
+    });
+  }
+
+  public stopRetentionJob(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+// src/services/WebhookDedupService.ts
+import { EnvironmentConfig } from '../config/env.js';
+import { AppLogger } from '../config/logger.js';
+import { ProcessedWebhook } from '../types/index.js';
+import { ProcessedWebhookRepository } from '../repositories/ProcessedWebhookRepository.js';
+
+// Expired records are removed this often
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Remembers each Twilio MessageSid for MESSAGE_DEDUP_TTL_HOURS so a retried
+ * webhook is answered with the original TwiML instead of being processed
+ * again. A delivery still unanswered after MESSAGE_DEDUP_LEASE_SECONDS is
+ * presumed lost and the next retry processes the message. If the store is
+ * unavailable messages are processed as usual.
+ */
+export class WebhookDedupService {
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  constructor(private processedWebhookRepo: ProcessedWebhookRepository) {}
+
+  /**
+   * Start handling a delivery. Returns the earlier record when the
+   * MessageSid was already seen, or null when this delivery should be processed.
+   */
+  public async begin(messageSid: string): Promise<ProcessedWebhook | null> {
+    const expiresAt = new Date(Date.now() + EnvironmentConfig.messageDedupTtlHours * 60 * 60 * 1000).toISOString();
+
+    try {
+      if (await this.processedWebhookRepo.claim(messageSid, expiresAt)) {
+        return null;
+      }
+
+      const earlier = await this.processedWebhookRepo.getBySid(messageSid);
+      if (earlier && new Date(earlier.expires_at).getTime() > Date.now()) {
+        const lockedBefore = new Date(Date.now() - EnvironmentConfig.messageDedupLeaseSeconds * 1000);
+        const isStale = earlier.response === null && new Date(earlier.locked_at) < lockedBefore;
+
+        if (isStale && await this.processedWebhookRepo.reclaimStale(messageSid, lockedBefore.toISOString())) {
+          AppLogger.warn('Earlier delivery never answered, processing the retry', { messageSid });
+          return null;
+        }
+        return isStale ? await this.processedWebhookRepo.getBySid(messageSid) : earlier;
+      }
+
+      // Seen so long ago that it counts as new; a concurrent delivery may take it first
+      if (await this.processedWebhookRepo.reclaimExpired(messageSid, expiresAt)) {
+        return null;
+      }
+      return await this.processedWebhookRepo.getBySid(messageSid);
+    } catch (error) {
+      AppLogger.error('Webhook deduplication check failed, processing the message', error as Error, { messageSid });
+      return null;
+    }
+  }
+
+  /**
+   * Keep the TwiML returned for a delivery, for any retry of it
+   */
+  public async complete(messageSid: string, response: string): Promise<void> {
+    try {
+      await this.processedWebhookRepo.saveResponse(messageSid, response);
+    } catch (error) {
+      AppLogger.error('Failed to save webhook response for deduplication', error as Error, { messageSid });
+    }
+  }
+
+  /**
+   * Forget a delivery that failed, so Twilio's retry is processed
+   */
+  public async release(messageSid: string): Promise<void> {
+    try {
+      await this.processedWebhookRepo.delete(messageSid);
+    } catch (error) {
+      AppLogger.error('Failed to release webhook for retry', error as Error, { messageSid });
+    }
+  }
+
+  public async purgeExpired(): Promise<number> {
+    try {
+      const deleted = await this.processedWebhookRepo.deleteExpired();
+      AppLogger.debug('Purged expired processed webhooks', { deleted });
+      return deleted;
+    } catch (error) {
+      AppLogger.error('Processed webhook purge failed', error as Error);
+      return 0;
+    }
+  }
+
+  public startPurgeJob(): void {
+    if (this.purgeTimer) return;
+
+    this.purgeTimer = setInterval(() => void this.purgeExpired(), PURGE_INTERVAL_MS);
+    // The purge job alone must not keep the process running
+    this.purgeTimer.unref();
+  }
+
+  public stopPurgeJob(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+}
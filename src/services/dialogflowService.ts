@@ -1,29 +1,79 @@
 import { SessionsClient } from '@google-cloud/dialogflow';
 import { EnvironmentConfig } from '../config/env.js';
 import { AppLogger } from '../config/logger.js';
-import { BotResponse } from '../types/index.js';
+import { BotResponse, DialogflowResponse } from '../types/index.js';
+import { CircuitOpenError } from '../types/errors.js';
 import { ResponseFormatter } from '../utils/responseFormatter.js';
 import { ServiceRepository } from '../repositories/ServiceRepository.js';
 import { ContactRepository } from '../repositories/ContactRepository.js';
 import { RegistrationStepRepository } from '../repositories/RegistrationStepRepository.js';
-import { INTENT_NAMES } from '../utils/constants.js';
+import { IntentMatcher } from './IntentMatcher.js';
+import { IntentDataSources, IntentOptions, IntentRegistry } from './IntentRegistry.js';
+import { listNearestServices } from './intentHandlers.js';
+import { FAQ_STRONG_MATCH, FaqService } from './FaqService.js';
+import { LocationService } from './LocationService.js';
+import {
+  CATEGORY_INTENTS,
+  DIALOGFLOW_PARAMETERS,
+  INTENT_NAMES,
+  RESPONSE_SOURCES,
+  ResponseSource,
+  ServiceCategory
+} from '../utils/constants.js';
+import { DEFAULT_LANGUAGE, LanguageCode } from '../utils/languages.js';
+import { Coordinates } from '../utils/geo.js';
+import { CircuitBreaker, CircuitBreakerStatus, withTimeout } from '../utils/circuitBreaker.js';
+import { parameterCategory, parameterNumber, parameterText, structToObject } from '../utils/dialogflowParameters.js';
+
+// detectIntent rejects longer text; such messages are answered by the built-in logic
+const DIALOGFLOW_MAX_TEXT_LENGTH = 256;
+
+// gRPC codes for requests Dialogflow turned down (INVALID_ARGUMENT, NOT_FOUND, ALREADY_EXISTS,
+// FAILED_PRECONDITION, OUT_OF_RANGE). They say nothing about its health, so they never open the circuit.
+const CLIENT_ERROR_CODES = new Set([3, 5, 6, 9, 11]);
+
+function isClientError(error: Error): boolean {
+  const code = (error as Error & { code?: number }).code;
+  return code !== undefined && CLIENT_ERROR_CODES.has(code);
+}
+
+// What the Dialogflow agent made of a message, from detectIntent or a fulfillment call
+export interface AgentIntentMatch {
+  intent: string | null;
+  isFallback: boolean;
+  queryText: string;
+  parameters: Record<string, unknown>;
+}
 
 export class DialogflowService {
   private sessionsClient: SessionsClient | null = null;
   private projectId: string | null = null;
-  private serviceRepo: ServiceRepository;
-  private contactRepo: ContactRepository;
-  private registrationRepo: RegistrationStepRepository;
+  private data: IntentDataSources;
+  private faqService: FaqService;
+  private locationService: LocationService;
+  private registry: IntentRegistry;
+  private intentMatcher: IntentMatcher;
+  private circuitBreaker: CircuitBreaker;
   private isEnabled: boolean;
 
   constructor(
     serviceRepo: ServiceRepository,
     contactRepo: ContactRepository,
-    registrationRepo: RegistrationStepRepository
+    registrationRepo: RegistrationStepRepository,
+    faqService: FaqService,
+    locationService: LocationService,
+    registry: IntentRegistry
   ) {
-    this.serviceRepo = serviceRepo;
-    this.contactRepo = contactRepo;
-    this.registrationRepo = registrationRepo;
+    this.data = { serviceRepo, contactRepo, registrationRepo, locationService };
+    this.faqService = faqService;
+    this.locationService = locationService;
+    this.registry = registry;
+    this.intentMatcher = new IntentMatcher(this.registry.getTriggerDefinitions());
+    this.circuitBreaker = new CircuitBreaker('Dialogflow', {
+      failureThreshold: EnvironmentConfig.dialogflowCircuitFailureThreshold,
+      resetTimeoutMs: EnvironmentConfig.dialogflowCircuitResetSeconds * 1000,
+      isFailure: error => !isClientError(error)
+    });
     this.isEnabled = EnvironmentConfig.dialogflowEnabled;
 
     if (this.isEnabled && EnvironmentConfig.dialogflowProjectId) {
@@ -41,25 +91,64 @@ export class DialogflowService {
     }
   }
 
-  public async getResponse(message: string, sessionId: string = 'default-session'): Promise<BotResponse> {
+  public async getResponse(
+    message: string,
+    sessionId: string = 'default-session',
+    language: LanguageCode = DEFAULT_LANGUAGE,
+    options: IntentOptions = {}
+  ): Promise<BotResponse> {
     try {
-      // If Dialogflow is disabled, use built-in logic
-      if (!this.isEnabled) {
-        return await this.handleMessageWithBuiltInLogic(message);
+      // "step 3" is unambiguous in any language, so it never needs intent detection
+      const stepNumber = this.intentMatcher.extractStepNumber(message);
+      if (stepNumber !== null) {
+        return await this.handleIntent(INTENT_NAMES.REGISTRATION_STEP, language, { ...options, stepNumber });
+      }
+
+      // A named settlement with no other topic, or with a service category, asks what is nearby
+      const place = await this.locationService.findNamedSettlement(message);
+      if (place) {
+        const match = this.intentMatcher.match(message);
+        const category = match.intent ? CATEGORY_INTENTS[match.intent] : undefined;
+        if (!match.intent || category) {
+          return await this.handleNearestServices(place, place.name, category, language);
+        }
+      }
+
+      // If Dialogflow is disabled, the agent is not trained in this language or the message
+      // is longer than detectIntent accepts, use built-in logic
+      if (
+        !this.isEnabled ||
+        !EnvironmentConfig.dialogflowLanguages.includes(language) ||
+        message.length > DIALOGFLOW_MAX_TEXT_LENGTH
+      ) {
+        return await this.handleMessageWithBuiltInLogic(message, language, options);
       }
 
       // Use Dialogflow for intent detection
-      return await this.handleMessageWithDialogflow(message, sessionId);
+      return this.withSource(
+        await this.handleMessageWithDialogflow(message, sessionId, language, options),
+        RESPONSE_SOURCES.DIALOGFLOW
+      );
 
     } catch (error) {
-      AppLogger.error('Error in getResponse', error as Error, { message, sessionId });
-      
+      // While the circuit is open every message lands here; the breaker logged why it opened
+      if (error instanceof CircuitOpenError) {
+        AppLogger.debug('Dialogflow circuit open, using built-in logic', { sessionId });
+      } else {
+        AppLogger.error('Error in getResponse', error as Error, { message, sessionId });
+      }
+
       // Fallback to built-in logic on error
-      return await this.handleMessageWithBuiltInLogic(message);
+      return await this.handleMessageWithBuiltInLogic(message, language, options);
     }
   }
 
-  private async handleMessageWithDialogflow(message: string, sessionId: string): Promise<BotResponse> {
+  private async handleMessageWithDialogflow(
+    message: string,
+    sessionId: string,
+    language: LanguageCode,
+    options: IntentOptions
+  ): Promise<BotResponse> {
     if (!this.sessionsClient || !this.projectId) {
       throw new Error('Dialogflow client not initialized');
     }
@@ -71,150 +160,285 @@ export class DialogflowService {
       queryInput: {
         text: {
           text: message,
-          languageCode: 'en',
+          languageCode: language,
         },
       },
     };
 
     AppLogger.debug('Sending request to Dialogflow', { message, sessionId });
 
-    const [response] = await this.sessionsClient.detectIntent(request);
+    const sessionsClient = this.sessionsClient;
+    const timeoutMs = EnvironmentConfig.dialogflowTimeoutMs;
+    const [response] = await this.circuitBreaker.execute(() =>
+      withTimeout(sessionsClient.detectIntent(request, { timeout: timeoutMs }), timeoutMs, 'Dialogflow')
+    );
     
     if (!response.queryResult) {
       throw new Error('No response from Dialogflow');
     }
 
-    const intent = response.queryResult.intent?.displayName;
-    const parameters = response.queryResult.parameters;
-    const fulfillmentText = response.queryResult.fulfillmentText;
+    const queryResult = response.queryResult;
+    const result: DialogflowResponse = {
+      intent: queryResult.intent?.displayName || '',
+      confidence: queryResult.intentDetectionConfidence ?? 0,
+      fulfillmentText: queryResult.fulfillmentText || '',
+      parameters: structToObject(queryResult.parameters),
+      allRequiredParamsPresent: queryResult.allRequiredParamsPresent ?? true
+    };
 
     AppLogger.debug('Received Dialogflow response', { 
-      intent, 
-      parameters: JSON.stringify(parameters),
-      fulfillmentText 
+      intent: result.intent,
+      confidence: result.confidence,
+      parameters: JSON.stringify(result.parameters),
+      fulfillmentText: result.fulfillmentText
     });
 
-    // Handle specific intents with custom logic
-    if (intent && this.shouldUseCustomLogic(intent)) {
-      return await this.handleIntentWithCustomLogic(intent, parameters);
+    const intent = result.intent || null;
+    const isFallback = !intent || Boolean(queryResult.intent?.isFallback);
+
+    // A weak match is not trusted on its own
+    if (intent && !isFallback && result.confidence < EnvironmentConfig.dialogflowConfidenceThreshold) {
+      return await this.handleLowConfidence(message, result, language, options);
+    }
+
+    // The agent is still collecting a required parameter, and its prompt asks for it
+    if (intent && !result.allRequiredParamsPresent && result.fulfillmentText) {
+      return this.withIntent(intent, { message: result.fulfillmentText, metadata: { confidence: result.confidence } });
+    }
+
+    const answer = await this.answerAgentIntent(
+      { intent, isFallback, queryText: message, parameters: result.parameters },
+      language,
+      options
+    );
+    if (answer) {
+      return { ...answer, metadata: { ...answer.metadata, confidence: result.confidence } };
     }
 
     // Use Dialogflow's default response
-    return {
-      message: fulfillmentText || 'I apologize, but I could not process your request.'
-    };
+    let defaultResponse = result.fulfillmentText
+      ? { message: result.fulfillmentText }
+      : ResponseFormatter.formatTextResponse('DIALOGFLOW_NO_RESPONSE', language);
+
+    if (isFallback) {
+      defaultResponse = this.markUnanswered(ResponseFormatter.withHandoffOffer(defaultResponse, language));
+    }
+
+    return intent ? this.withIntent(intent, defaultResponse) : defaultResponse;
   }
 
-  private async handleMessageWithBuiltInLogic(message: string): Promise<BotResponse> {
-    const lowerMessage = message.toLowerCase().trim();
-
-    // Simple keyword-based intent detection
-    if (lowerMessage.includes('register') || lowerMessage.includes('registration') || lowerMessage.includes('opm')) {
-      return await this.handleRegistrationIntent();
-    } else if (lowerMessage.includes('food') || lowerMessage.includes('hungry') || lowerMessage.includes('eat')) {
-      return await this.handleFoodIntent();
-    } else if (lowerMessage.includes('shelter') || lowerMessage.includes('place to stay') || lowerMessage.includes('sleep')) {
-      return await this.handleShelterIntent();
-    } else if (lowerMessage.includes('health') || lowerMessage.includes('hospital') || lowerMessage.includes('doctor') || lowerMessage.includes('sick')) {
-      return await this.handleHealthcareIntent();
-    } else if (lowerMessage.includes('emergency') || lowerMessage.includes('help') || lowerMessage.includes('contact')) {
-      return await this.handleEmergencyContactsIntent();
-    } else if (lowerMessage.includes('hello') || lowerMessage.includes('hi') || lowerMessage.includes('start')) {
-      return ResponseFormatter.formatWelcomeResponse();
-    } else {
-      return {
-        message: "I'm here to help with registration, food, shelter, healthcare, and emergency contacts for refugees in Mbarara. What specific information do you need?"
-      };
+  /**
+   * A clear built-in match answers instead of a weak Dialogflow one;
+   * otherwise the user picks between the guesses
+   */
+  private async handleLowConfidence(
+    message: string,
+    result: DialogflowResponse,
+    language: LanguageCode,
+    options: IntentOptions
+  ): Promise<BotResponse> {
+    const match = this.intentMatcher.match(message);
+    if (match.intent) {
+      return await this.handleMessageWithBuiltInLogic(message, language, options);
+    }
+
+    const labels = [...new Set(
+      [this.registry.getLabel(result.intent), ...match.candidates.map(candidate => candidate.label)]
+        .filter((label): label is string => Boolean(label))
+    )].slice(0, 3);
+
+    // Nothing to choose between: FAQs, then the fallback
+    if (labels.length === 0) {
+      return await this.handleMessageWithBuiltInLogic(message, language, options);
     }
+
+    return this.withIntent(INTENT_NAMES.CLARIFY, {
+      ...ResponseFormatter.formatClarifyingQuestion(labels.length > 1 ? labels : [...labels, 'Main Menu'], language),
+      metadata: { confidence: result.confidence }
+    });
   }
 
-  private shouldUseCustomLogic(intent: string): boolean {
-    const customIntents: string[] = [
-      INTENT_NAMES.FIND_REGISTRATION,
-      INTENT_NAMES.FIND_FOOD,
-      INTENT_NAMES.FIND_SHELTER,
-      INTENT_NAMES.FIND_HEALTHCARE,
-      INTENT_NAMES.FIND_EMERGENCY_CONTACTS
-    ];
-    return customIntents.includes(intent);
+  /**
+   * State of the breaker around detectIntent, for the health check
+   */
+  public getCircuitStatus(): CircuitBreakerStatus {
+    return this.circuitBreaker.getStatus();
   }
 
-  private async handleIntentWithCustomLogic(intent: string, parameters: any): Promise<BotResponse> {
-    try {
-      switch (intent) {
-        case INTENT_NAMES.FIND_REGISTRATION:
-          return await this.handleRegistrationIntent();
-        
-        case INTENT_NAMES.FIND_FOOD:
-          return await this.handleFoodIntent();
-        
-        case INTENT_NAMES.FIND_SHELTER:
-          return await this.handleShelterIntent();
-        
-        case INTENT_NAMES.FIND_HEALTHCARE:
-          return await this.handleHealthcareIntent();
-        
-        case INTENT_NAMES.FIND_EMERGENCY_CONTACTS:
-          return await this.handleEmergencyContactsIntent();
-        
-        default:
-          return {
-            message: 'I can help you with registration, food, shelter, healthcare, and emergency contacts. What specific information do you need?'
-          };
+  /**
+   * Answer what the agent matched from the database: our own intents,
+   * intents linked to an FAQ, and FAQ matches ahead of the agent's fallback.
+   * Null leaves the agent's own response in place.
+   */
+  public async answerAgentIntent(
+    match: AgentIntentMatch,
+    language: LanguageCode = DEFAULT_LANGUAGE,
+    options: IntentOptions = {}
+  ): Promise<BotResponse | null> {
+    const { intent, isFallback, queryText, parameters } = match;
+
+    // Intents the bot answers itself, from the registry
+    if (intent && this.registry.has(intent)) {
+      const intentOptions = await this.applyParameters(parameters, options);
+      return await this.handleIntentWithCustomLogic(intent, parameters, language, intentOptions);
+    }
+
+    // Intents linked to an FAQ through intent_reference answer from the database
+    if (intent && !isFallback) {
+      const linkedFaq = await this.faqService.getAnswerForIntent(intent);
+      if (linkedFaq) {
+        return this.withIntent(intent, ResponseFormatter.formatFaqResponse(linkedFaq, language));
       }
-    } catch (error) {
-      AppLogger.error('Error in custom intent handling', error as Error, { intent, parameters });
-      return ResponseFormatter.formatErrorResponse(error as Error);
     }
-  }
 
-  private async handleRegistrationIntent(): Promise<BotResponse> {
-    const [steps, documents, contacts] = await Promise.all([
-      this.registrationRepo.getAllSteps(),
-      this.registrationRepo.getRequiredDocuments(),
-      this.contactRepo.getContactsByType('General')
-    ]);
+    // Before the agent's generic fallback, see whether an FAQ answers the question
+    if (isFallback) {
+      const faqMatch = await this.faqService.findAnswer(queryText);
+      if (faqMatch) {
+        return this.withIntent(INTENT_NAMES.FAQ, ResponseFormatter.formatFaqResponse(faqMatch.faq, language));
+      }
+    }
 
-    return ResponseFormatter.formatRegistrationResponse(steps, documents, contacts);
+    return null;
   }
 
-  private async handleFoodIntent(): Promise<BotResponse> {
-    const services = await this.serviceRepo.getServicesByCategory('Food');
-    return ResponseFormatter.formatFoodResponse(services);
+  /**
+   * Answer a known intent directly, e.g. when the user picks a numbered menu option
+   */
+  public async handleIntent(
+    intent: string,
+    language: LanguageCode = DEFAULT_LANGUAGE,
+    options: IntentOptions = {}
+  ): Promise<BotResponse> {
+    return await this.handleIntentWithCustomLogic(intent, {}, language, options);
   }
 
-  private async handleShelterIntent(): Promise<BotResponse> {
-    const services = await this.serviceRepo.getServicesByCategory('Shelter');
-    
-    if (services.length === 0) {
-      return {
-        message: 'Shelter assistance is arranged through the official registration process with OPM. You need to report to the OPM Refugee Desk to be assigned a place in a settlement. Would you like their contact information?',
-        quickReplies: ['OPM Contact', 'Registration Info', 'Main Menu']
-      };
+  /**
+   * List services closest to a shared pin or a named place
+   */
+  public async handleNearestServices(
+    origin: Coordinates,
+    placeName: string | null,
+    category: ServiceCategory | undefined,
+    language: LanguageCode = DEFAULT_LANGUAGE
+  ): Promise<BotResponse> {
+    try {
+      return this.withIntent(
+        INTENT_NAMES.NEAREST_SERVICES,
+        await listNearestServices(origin, placeName, category, { language, options: {}, data: this.data })
+      );
+    } catch (error) {
+      AppLogger.error('Error finding nearest services', error as Error, { placeName, category });
+      return ResponseFormatter.formatErrorResponse(error as Error, language);
+    }
+  }
+
+  private async handleMessageWithBuiltInLogic(
+    message: string,
+    language: LanguageCode,
+    options: IntentOptions = {}
+  ): Promise<BotResponse> {
+    const match = this.intentMatcher.match(message);
+    const faqMatch = await this.faqService.findAnswer(message);
+
+    AppLogger.debug('Built-in intent match', {
+      intent: match.intent,
+      confidence: match.confidence,
+      candidates: match.candidates
+    });
+
+    // A specific stored question beats a topic overview, and any FAQ beats the fallback
+    if (faqMatch && (!match.intent || faqMatch.score >= FAQ_STRONG_MATCH)) {
+      const faqResponse = ResponseFormatter.formatFaqResponse(faqMatch.faq, language);
+      return this.withIntent(INTENT_NAMES.FAQ, {
+        ...faqResponse,
+        metadata: { ...faqResponse.metadata, confidence: faqMatch.score }
+      });
+    }
+
+    // Competing topics with no clear winner: ask rather than guess
+    if (match.isAmbiguous) {
+      const labels = match.candidates.slice(0, 3).map(candidate => candidate.label);
+      return this.withIntent(INTENT_NAMES.CLARIFY, {
+        ...ResponseFormatter.formatClarifyingQuestion(labels, language),
+        metadata: { confidence: match.confidence }
+      });
     }
 
-    const serviceInfo = services
-      .map(service => `• ${service.organization}: ${service.services}${service.location ? ` (${service.location})` : ''}`)
-      .join('\n');
+    if (!match.intent) {
+      return this.withIntent(
+        INTENT_NAMES.FALLBACK,
+        this.markUnanswered(
+          ResponseFormatter.withHandoffOffer(ResponseFormatter.formatTextResponse('HELP_TOPICS', language), language)
+        )
+      );
+    }
+
+    const response = await this.handleIntent(match.intent, language, options);
+    return {
+      ...response,
+      metadata: { ...response.metadata, confidence: match.confidence }
+    };
+  }
+
+  /**
+   * Details the agent extracted narrow the answer: the category of a general
+   * services question, a settlement or organization to filter by, a step
+   */
+  private async applyParameters(parameters: Record<string, unknown>, options: IntentOptions): Promise<IntentOptions> {
+    const settlementName = parameterText(parameters, DIALOGFLOW_PARAMETERS.SETTLEMENT);
+    const settlement = settlementName ? await this.locationService.findNamedSettlement(settlementName) : null;
 
     return {
-      message: `Shelter assistance options:\n\n${serviceInfo}\n\nNote: Most shelter assistance requires official registration with OPM.`,
-      quickReplies: ['OPM Contact', 'Registration Steps', 'More Info']
+      ...options,
+      category: parameterCategory(parameters, DIALOGFLOW_PARAMETERS.CATEGORY) ?? options.category,
+      organization: parameterText(parameters, DIALOGFLOW_PARAMETERS.ORGANIZATION) ?? options.organization,
+      stepNumber: parameterNumber(parameters, DIALOGFLOW_PARAMETERS.STEP_NUMBER) ?? options.stepNumber,
+      settlement: settlement ?? options.settlement
     };
   }
 
-  private async handleHealthcareIntent(): Promise<BotResponse> {
-    const [services, contacts] = await Promise.all([
-      this.serviceRepo.getServicesByCategory('Health'),
-      this.contactRepo.getContactsByType('Hospital')
-    ]);
+  private async handleIntentWithCustomLogic(
+    intent: string,
+    parameters: Record<string, unknown>,
+    language: LanguageCode,
+    options: IntentOptions = {}
+  ): Promise<BotResponse> {
+    try {
+      const response = await this.registry.dispatch(intent, { language, options, data: this.data });
+      if (response) return response;
+
+      const linkedFaq = await this.faqService.getAnswerForIntent(intent);
+      return this.withIntent(intent, linkedFaq
+        ? ResponseFormatter.formatFaqResponse(linkedFaq, language)
+        : ResponseFormatter.formatTextResponse('INTENT_DEFAULT', language));
+    } catch (error) {
+      AppLogger.error('Error in custom intent handling', error as Error, { intent, parameters });
+      return ResponseFormatter.formatErrorResponse(error as Error, language);
+    }
+  }
+
+  private withIntent(intent: string, response: BotResponse): BotResponse {
+    return {
+      ...response,
+      metadata: { ...response.metadata, intent }
+    };
+  }
 
-    return ResponseFormatter.formatHealthcareResponse(services, contacts);
+  // Fallback replies are collected for content review
+  private markUnanswered(response: BotResponse): BotResponse {
+    return {
+      ...response,
+      metadata: { ...response.metadata, unanswered: true }
+    };
   }
 
-  private async handleEmergencyContactsIntent(): Promise<BotResponse> {
-    const contacts = await this.contactRepo.getAllContacts();
-    return ResponseFormatter.formatEmergencyContacts(contacts);
+  // FAQ answers keep their own source
+  private withSource(response: BotResponse, source: ResponseSource): BotResponse {
+    return {
+      ...response,
+      metadata: { ...response.metadata, source: response.metadata?.source ?? source }
+    };
   }
 }
 
@@ -224,10 +448,20 @@ let dialogflowServiceInstance: DialogflowService | null = null;
 export const createDialogflowService = (
   serviceRepo: ServiceRepository,
   contactRepo: ContactRepository,
-  registrationRepo: RegistrationStepRepository
+  registrationRepo: RegistrationStepRepository,
+  faqService: FaqService,
+  locationService: LocationService,
+  registry: IntentRegistry
 ): DialogflowService => {
   if (!dialogflowServiceInstance) {
-    dialogflowServiceInstance = new DialogflowService(serviceRepo, contactRepo, registrationRepo);
+    dialogflowServiceInstance = new DialogflowService(
+      serviceRepo,
+      contactRepo,
+      registrationRepo,
+      faqService,
+      locationService,
+      registry
+    );
   }
   return dialogflowServiceInstance;
 };
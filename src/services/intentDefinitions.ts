@@ -0,0 +1,261 @@
+// src/services/intentDefinitions.ts
+import { IntentDeclaration } from './IntentRegistry.js';
+import {
+  listNearbyServices,
+  listServices,
+  showEmergencyContacts,
+  showMoreServices,
+  showRegistration,
+  showRegistrationStep,
+  showRequiredDocuments,
+  showWelcome
+} from './intentHandlers.js';
+import { CATEGORIES, INTENT_NAMES } from '../utils/constants.js';
+
+/**
+ * Every intent the bot answers from its own data. To add one, declare it
+ * here with its name, any aliases it arrives under from Dialogflow, the
+ * words that trigger it in the built-in matcher and its handler.
+ */
+export const INTENT_DECLARATIONS: IntentDeclaration[] = [
+  {
+    name: INTENT_NAMES.FIND_REGISTRATION,
+    aliases: ['find.registration'],
+    label: 'Registration',
+    handler: showRegistration,
+    synonyms: [
+      'register', 'registration', 'registered', 'opm', 'asylum',
+      'usajili', 'kujiandikisha', 'kusajili', 'jisajili',
+      'inscription', 'enregistrement', 'enregistrer', 'asile',
+      'kwiyandikisha', 'iyandikwa',
+      'تسجيل', 'لجوء',
+      'diiwaangelin', 'diiwaangelinta',
+      'kwehandiika', 'okwehandiika'
+    ],
+    phrases: ['refugee status', 'refugee card', 'attestation card']
+  },
+  {
+    // Reached with a step number ("step 3") or from the Registration Steps option
+    name: INTENT_NAMES.REGISTRATION_STEP,
+    label: 'Registration Steps',
+    handler: showRegistrationStep
+  },
+  {
+    name: INTENT_NAMES.REGISTRATION_DOCUMENTS,
+    label: 'Required Documents',
+    handler: showRequiredDocuments,
+    synonyms: [
+      'document', 'documents', 'papers', 'passport', 'essential',
+      'nyaraka', 'hati', 'cheti',
+      'papiers', 'pièces', 'passeport',
+      'ibyangombwa', 'impapuro',
+      'وثائق', 'مستندات', 'جواز',
+      'dukumenti', 'waraaqo', 'baasaboor',
+      'ebiwandiiko', 'empapura'
+    ],
+    phrases: ['what to bring', 'documents needed', 'required documents', 'essential documents']
+  },
+  {
+    name: INTENT_NAMES.FIND_FOOD,
+    aliases: ['find.food'],
+    label: 'Food',
+    handler: listServices(CATEGORIES.FOOD),
+    synonyms: [
+      'food', 'hungry', 'hunger', 'eat', 'meal', 'ration', 'wfp',
+      'chakula', 'njaa', 'kula',
+      'nourriture', 'faim', 'manger',
+      'ibiryo', 'inzara', 'kurya',
+      'طعام', 'جوع', 'أكل',
+      'cunto', 'gaajo',
+      'eby\'okurya', 'enjara'
+    ],
+    phrases: ['food distribution', 'cash transfer']
+  },
+  {
+    name: INTENT_NAMES.FIND_SHELTER,
+    aliases: ['find.shelter'],
+    label: 'Shelter',
+    handler: listServices(CATEGORIES.SHELTER),
+    synonyms: [
+      'shelter', 'housing', 'house', 'sleep', 'accommodation', 'tent',
+      'makazi', 'malazi', 'nyumba', 'kulala',
+      'abri', 'logement', 'dormir',
+      'icumbi', 'kuryama',
+      'مأوى', 'سكن',
+      'hoy', 'guri', 'seexasho',
+      'obwikaro', 'enju', 'kubyama'
+    ],
+    phrases: ['place to stay', 'where to sleep', 'aho kuba', 'aho kurara']
+  },
+  {
+    name: INTENT_NAMES.FIND_HEALTHCARE,
+    aliases: ['find.healthcare'],
+    label: 'Healthcare',
+    handler: listServices(CATEGORIES.HEALTH),
+    synonyms: [
+      'health', 'hospital', 'doctor', 'sick', 'clinic', 'medicine', 'nurse',
+      'afya', 'hospitali', 'daktari', 'mgonjwa', 'zahanati', 'dawa',
+      'santé', 'hôpital', 'médecin', 'malade', 'clinique',
+      'ubuzima', 'ibitaro', 'muganga', 'ndarwaye',
+      'صحة', 'مستشفى', 'طبيب', 'مريض',
+      'caafimaad', 'isbitaal', 'dhakhtar', 'buka',
+      'amagara', 'omushaho', 'omurwaire'
+    ]
+  },
+  {
+    name: INTENT_NAMES.FIND_EMERGENCY_CONTACTS,
+    aliases: ['find.emergency.contacts'],
+    label: 'Emergency Contacts',
+    handler: showEmergencyContacts,
+    synonyms: [
+      'emergency', 'urgent', 'police', 'danger',
+      'dharura', 'polisi',
+      'urgence',
+      'ubutabazi', 'byihutirwa',
+      'طوارئ', 'شرطة',
+      'degdeg', 'booliis',
+      'obutabaazi'
+    ],
+    weakSynonyms: [
+      'help', 'contact', 'contacts', 'phone',
+      'msaada', 'aide', 'ubufasha', 'مساعدة', 'caawimaad', 'gargaar', 'obuyambi'
+    ],
+    phrases: ['emergency contacts', 'phone number']
+  },
+  {
+    name: INTENT_NAMES.FIND_PROTECTION,
+    label: 'Protection',
+    handler: listServices(CATEGORIES.PROTECTION),
+    synonyms: [
+      'protection', 'abuse', 'violence', 'gbv', 'harassment', 'unsafe', 'threatened',
+      'ulinzi', 'unyanyasaji', 'ukatili',
+      'violences', 'abus',
+      'kurindwa', 'ihohoterwa',
+      'حماية', 'عنف', 'تحرش',
+      'ilaalin', 'xadgudub', 'rabshad',
+      'okurindwa', 'obusingye'
+    ],
+    phrases: ['child protection', 'domestic violence', 'not safe']
+  },
+  {
+    name: INTENT_NAMES.FIND_LIVELIHOODS,
+    label: 'Livelihoods',
+    handler: listServices(CATEGORIES.LIVELIHOODS),
+    synonyms: [
+      'livelihood', 'livelihoods', 'job', 'jobs', 'work', 'employment', 'income', 'business', 'loan',
+      'kazi', 'ajira', 'biashara', 'mkopo',
+      'travail', 'emploi', 'commerce', 'prêt',
+      'akazi', 'ubucuruzi', 'inguzanyo',
+      'عمل', 'وظيفة', 'تجارة', 'قرض',
+      'shaqo', 'ganacsi', 'amaah',
+      'omurimo', 'obusuubuzi', 'eibanja'
+    ],
+    phrases: ['earn money', 'vocational training', 'start a business']
+  },
+  {
+    name: INTENT_NAMES.FIND_EDUCATION,
+    label: 'Education',
+    handler: listServices(CATEGORIES.EDUCATION),
+    synonyms: [
+      'education', 'school', 'schools', 'study', 'teacher', 'scholarship', 'university', 'class',
+      'shule', 'elimu', 'masomo', 'mwalimu',
+      'école', 'éducation', 'études', 'bourse', 'université',
+      'ishuri', 'amashuri', 'uburezi', 'kwiga',
+      'مدرسة', 'تعليم', 'دراسة', 'منحة',
+      'dugsi', 'waxbarasho', 'jaamacad',
+      'eishomero', 'okushoma', 'omushomesa'
+    ]
+  },
+  {
+    name: INTENT_NAMES.FIND_LEGAL,
+    label: 'Legal Aid',
+    handler: listServices(CATEGORIES.LEGAL),
+    synonyms: [
+      'legal', 'lawyer', 'court', 'law', 'rights', 'justice', 'arrested', 'detained',
+      'kisheria', 'wakili', 'mahakama', 'sheria', 'haki',
+      'juridique', 'avocat', 'tribunal', 'droits',
+      'amategeko', 'umunyamategeko', 'urukiko', 'uburenganzira',
+      'قانوني', 'محامي', 'محكمة', 'حقوق',
+      'sharci', 'qareen', 'maxkamad', 'xuquuq',
+      'ebiragiro', 'orukiiko', 'obugabe'
+    ],
+    phrases: ['legal aid', 'legal advice']
+  },
+  {
+    name: INTENT_NAMES.FIND_WASH,
+    label: 'Water & Sanitation',
+    handler: listServices(CATEGORIES.WASH),
+    synonyms: [
+      'water', 'sanitation', 'hygiene', 'toilet', 'latrine', 'borehole', 'soap', 'wash',
+      'maji', 'choo', 'usafi', 'sabuni',
+      'eau', 'toilettes', 'latrines', 'hygiène', 'assainissement', 'savon',
+      'amazi', 'umusarani', 'isuku', 'isabune',
+      'ماء', 'مياه', 'مرحاض', 'نظافة', 'صابون',
+      'biyo', 'musqul', 'nadaafad', 'saabuun',
+      'amaizi', 'kaabuyonjo', 'isabuuni'
+    ],
+    phrases: ['clean water', 'drinking water']
+  },
+  {
+    name: INTENT_NAMES.FIND_DATA,
+    label: 'Data & Records',
+    handler: listServices(CATEGORIES.DATA),
+    synonyms: [
+      'data', 'records', 'verification', 'biometric', 'biometrics',
+      'takwimu', 'kumbukumbu',
+      'données', 'dossier',
+      'inyandiko',
+      'بيانات', 'سجلات',
+      'xog', 'diiwaan',
+      'ebihandiiko'
+    ],
+    phrases: ['update my details', 'personal data', 'change my details']
+  },
+  {
+    name: INTENT_NAMES.FIND_GENERAL,
+    label: 'General Support',
+    handler: listServices(CATEGORIES.GENERAL),
+    synonyms: [
+      'ngo', 'ngos', 'organisation', 'organisations', 'organization', 'organizations', 'agency', 'agencies',
+      'shirika', 'mashirika',
+      'ong', 'organismes',
+      'imiryango', 'ibigo',
+      'منظمة', 'منظمات',
+      'hay\'ad', 'hay\'adaha',
+      'ebitongore'
+    ],
+    weakSynonyms: ['services', 'support', 'huduma', 'serivisi', 'خدمات', 'adeegyo', 'obuheereza']
+  },
+  {
+    name: INTENT_NAMES.MORE_SERVICES,
+    label: 'More Services',
+    handler: showMoreServices,
+    synonyms: [],
+    phrases: [
+      'more services', 'other services', 'all services',
+      'huduma nyingine', 'autres services', 'izindi serivisi', 'خدمات أخرى', 'adeegyo kale', 'obundi buheereza'
+    ]
+  },
+  {
+    // Reached from Dialogflow; a shared pin or a named settlement is answered before intent detection
+    name: INTENT_NAMES.NEAREST_SERVICES,
+    requiredParameters: [{ name: 'settlement', prompt: 'NEAREST_ASK_LOCATION' }],
+    handler: listNearbyServices
+  },
+  {
+    name: INTENT_NAMES.WELCOME,
+    label: 'Main Menu',
+    handler: showWelcome,
+    synonyms: [
+      'hello', 'hi', 'hey', 'start',
+      'habari', 'jambo', 'hujambo', 'mambo',
+      'bonjour', 'salut',
+      'muraho', 'mwaramutse',
+      'مرحبا', 'اهلا',
+      'salaan', 'nabad',
+      'agandi'
+    ],
+    phrases: ['good morning', 'السلام عليكم', 'oraire ota', 'osiibire ota'],
+    secondary: true
+  }
+];
@@ -0,0 +1,133 @@
+// src/services/intentHandlers.ts
+import { BotResponse, Contact, Service } from '../types/index.js';
+import { IntentContext, IntentHandler } from './IntentRegistry.js';
+import { CATEGORIES, CONTACT_TYPES, ServiceCategory } from '../utils/constants.js';
+import { Coordinates } from '../utils/geo.js';
+import { ResponseFormatter } from '../utils/responseFormatter.js';
+
+// Answers for the intents declared in intentDefinitions.ts, read from the database
+
+// Content rows listed in the answer, so ratings can be traced back to them
+function withContent(response: BotResponse, services: Service[], contacts: Contact[] = []): BotResponse {
+  return {
+    ...response,
+    metadata: {
+      ...response.metadata,
+      serviceIds: services.map(service => service.id),
+      contactIds: contacts.map(contact => contact.id)
+    }
+  };
+}
+
+export const showWelcome: IntentHandler = async ({ language }) =>
+  ResponseFormatter.formatWelcomeResponse(language);
+
+export const showRegistration: IntentHandler = async ({ language, data }) => {
+  const [steps, documents, contacts] = await Promise.all([
+    data.registrationRepo.getAllSteps(),
+    data.registrationRepo.getEssentialDocuments(),
+    data.contactRepo.getContactsByType(CONTACT_TYPES.GENERAL)
+  ]);
+
+  return ResponseFormatter.formatRegistrationResponse(steps, documents, contacts, language);
+};
+
+export const showRegistrationStep: IntentHandler = async ({ language, options, data }) => {
+  // "Registration Steps" without a number starts the walkthrough
+  const stepNumber = options.stepNumber ?? 1;
+  const [step, steps] = await Promise.all([
+    data.registrationRepo.getStepByNumber(stepNumber),
+    data.registrationRepo.getAllSteps()
+  ]);
+
+  if (!step) {
+    return ResponseFormatter.formatStepNotFound(stepNumber, steps, language);
+  }
+
+  return ResponseFormatter.formatRegistrationStep(step, steps, language);
+};
+
+export const showRequiredDocuments: IntentHandler = async ({ language, data }) => {
+  const documents = await data.registrationRepo.getRequiredDocuments();
+  return ResponseFormatter.formatRequiredDocuments(documents, language);
+};
+
+export const showEmergencyContacts: IntentHandler = async ({ language, options, data }) => {
+  const contacts = await data.contactRepo.getAllContacts(options.organization);
+  return withContent(ResponseFormatter.formatEmergencyContacts(contacts, language), [], contacts);
+};
+
+/**
+ * The More Services menu, unless the agent already extracted the category
+ */
+export const showMoreServices: IntentHandler = async context =>
+  context.options.category
+    ? await listCategory(context.options.category, context)
+    : ResponseFormatter.formatMoreServicesMenu(context.language);
+
+export const listServices = (category: ServiceCategory): IntentHandler =>
+  async context => await listCategory(category, context);
+
+/**
+ * Services near the settlement the user named or lives in
+ */
+export const listNearbyServices: IntentHandler = async context => {
+  const settlement = context.options.settlement!;
+  return await listNearestServices(settlement, settlement.name, context.options.category, context);
+};
+
+/**
+ * Services sorted by distance from a shared pin or a settlement
+ */
+export async function listNearestServices(
+  origin: Coordinates,
+  placeName: string | null,
+  category: ServiceCategory | undefined,
+  { language, data }: IntentContext
+): Promise<BotResponse> {
+  const results = await data.locationService.findNearestServices(origin, category);
+  return withContent(
+    ResponseFormatter.formatNearestServices(results, placeName, category ?? null, language),
+    results.map(result => result.service)
+  );
+}
+
+async function listCategory(category: ServiceCategory, { language, options, data }: IntentContext): Promise<BotResponse> {
+  const settlement = options.settlement ?? null;
+  const services = data.locationService.prioritiseSettlement(
+    await data.serviceRepo.getServicesByCategory(category, options.organization),
+    settlement
+  );
+
+  let response: BotResponse;
+  switch (category) {
+    case CATEGORIES.FOOD:
+      response = withContent(ResponseFormatter.formatFoodResponse(services, language), services);
+      break;
+
+    case CATEGORIES.SHELTER:
+      response = withContent(ResponseFormatter.formatShelterResponse(services, language), services);
+      break;
+
+    case CATEGORIES.HEALTH: {
+      const contacts = data.locationService.prioritiseSettlement(
+        await data.contactRepo.getContactsByType(CONTACT_TYPES.HOSPITAL),
+        settlement
+      );
+      response = withContent(
+        ResponseFormatter.formatHealthcareResponse(services, contacts, language),
+        services,
+        contacts
+      );
+      break;
+    }
+
+    default:
+      response = withContent(ResponseFormatter.formatCategoryResponse(category, services, language), services);
+  }
+
+  const hasLocalServices = settlement && services.some(service => service.settlement_id === settlement.id);
+  return hasLocalServices
+    ? ResponseFormatter.withSettlementNote(response, settlement.name, language)
+    : response;
+}
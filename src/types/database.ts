@@ -1,4 +1,19 @@
 // src/types/database.ts
+import type { CrisisType, ResponseSource, ServiceCategory } from '../utils/constants.js';
+
+export type UnansweredStatus = 'open' | 'resolved' | 'dismissed';
+export type UnansweredResolutionType = 'faq' | 'category' | 'training_phrase';
+// Editors manage content; admins also manage admin users
+export type AdminRole = 'admin' | 'editor';
+export type AuditedTable = 'services' | 'contacts' | 'registration_steps' | 'required_documents' | 'faqs';
+export type AuditAction = 'create' | 'update' | 'delete';
+export type FeedbackGrouping = 'intent' | 'organization';
+
+// What the user's next message may be feedback on
+export type PendingFeedback =
+  | { stage: 'rating'; intent: string; serviceIds: number[]; contactIds: number[]; faqId: number | null }
+  | { stage: 'comment'; feedbackId: number };
+
 export interface Database {
   public: {
     Tables: {
@@ -7,25 +22,31 @@ export interface Database {
           id: number
           username: string
           email: string
-          role: string
+          password_hash: string
+          role: AdminRole
+          is_active: boolean
           created_at: string
-          updated_at: string
+          last_login: string | null
         }
         Insert: {
           id?: number
           username: string
           email: string
-          role?: string
+          password_hash: string
+          role?: AdminRole
+          is_active?: boolean
           created_at?: string
-          updated_at?: string
+          last_login?: string | null
         }
         Update: {
           id?: number
           username?: string
           email?: string
-          role?: string
+          password_hash?: string
+          role?: AdminRole
+          is_active?: boolean
           created_at?: string
-          updated_at?: string
+          last_login?: string | null
         }
       }
       contacts: {
@@ -38,6 +59,9 @@ export interface Database {
           type: string
           is_urgent: boolean
           notes: string | null
+          latitude: number | null
+          longitude: number | null
+          settlement_id: number | null
           created_at: string
           updated_at: string
         }
@@ -50,6 +74,9 @@ export interface Database {
           type: string
           is_urgent?: boolean
           notes?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          settlement_id?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -62,6 +89,41 @@ export interface Database {
           type?: string
           is_urgent?: boolean
           notes?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          settlement_id?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      settlements: {
+        Row: {
+          id: number
+          name: string
+          district: string | null
+          aliases: string[]
+          latitude: number
+          longitude: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          name: string
+          district?: string | null
+          aliases?: string[]
+          latitude: number
+          longitude: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          name?: string
+          district?: string | null
+          aliases?: string[]
+          latitude?: number
+          longitude?: number
           created_at?: string
           updated_at?: string
         }
@@ -69,37 +131,46 @@ export interface Database {
       services: {
         Row: {
           id: number
-          category: string
+          category: ServiceCategory
           organization: string
           services: string
           contact_phone: string | null
           contact_email: string | null
           location: string | null
           notes: string | null
+          latitude: number | null
+          longitude: number | null
+          settlement_id: number | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: number
-          category: string
+          category: ServiceCategory
           organization: string
           services: string
           contact_phone?: string | null
           contact_email?: string | null
           location?: string | null
           notes?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          settlement_id?: number | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: number
-          category?: string
+          category?: ServiceCategory
           organization?: string
           services?: string
           contact_phone?: string | null
           contact_email?: string | null
           location?: string | null
           notes?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          settlement_id?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -110,6 +181,8 @@ export interface Database {
           step_number: number
           title: string
           description: string
+          location: string | null
+          contact_reference: string | null
           requirements: string | null
           estimated_duration: string | null
           created_at: string
@@ -120,6 +193,8 @@ export interface Database {
           step_number: number
           title: string
           description: string
+          location?: string | null
+          contact_reference?: string | null
           requirements?: string | null
           estimated_duration?: string | null
           created_at?: string
@@ -130,6 +205,8 @@ export interface Database {
           step_number?: number
           title?: string
           description?: string
+          location?: string | null
+          contact_reference?: string | null
           requirements?: string | null
           estimated_duration?: string | null
           created_at?: string
@@ -165,6 +242,546 @@ export interface Database {
           updated_at?: string
         }
       }
+      faqs: {
+        Row: {
+          id: number
+          question: string
+          answer: string
+          category: string
+          intent_reference: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          question: string
+          answer: string
+          category: string
+          intent_reference?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          question?: string
+          answer?: string
+          category?: string
+          intent_reference?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      user_profiles: {
+        Row: {
+          user_id: string
+          language: string
+          language_source: string
+          settlement_id: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          language?: string
+          language_source?: string
+          settlement_id?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          language?: string
+          language_source?: string
+          settlement_id?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      conversation_sessions: {
+        Row: {
+          user_id: string
+          current_menu: string | null
+          last_intent: string | null
+          menu_options: string[]
+          menu_history: string[]
+          last_items: string[]
+          item_offset: number
+          pending_feedback: PendingFeedback | null
+          expires_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          current_menu?: string | null
+          last_intent?: string | null
+          menu_options?: string[]
+          menu_history?: string[]
+          last_items?: string[]
+          item_offset?: number
+          pending_feedback?: PendingFeedback | null
+          expires_at: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          current_menu?: string | null
+          last_intent?: string | null
+          menu_options?: string[]
+          menu_history?: string[]
+          last_items?: string[]
+          item_offset?: number
+          pending_feedback?: PendingFeedback | null
+          expires_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      safeguarding_flags: {
+        Row: {
+          id: number
+          user_id: string
+          crisis_type: CrisisType
+          message: string
+          language: string
+          settlement_id: number | null
+          status: 'open' | 'resolved'
+          resolved_by: string | null
+          created_at: string
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          crisis_type: CrisisType
+          message: string
+          language: string
+          settlement_id?: number | null
+          status?: 'open' | 'resolved'
+          resolved_by?: string | null
+          created_at?: string
+          resolved_at?: string | null
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          crisis_type?: CrisisType
+          message?: string
+          language?: string
+          settlement_id?: number | null
+          status?: 'open' | 'resolved'
+          resolved_by?: string | null
+          created_at?: string
+          resolved_at?: string | null
+        }
+      }
+      handoff_tickets: {
+        Row: {
+          id: number
+          user_id: string
+          phone: string | null
+          language: string
+          settlement_id: number | null
+          last_intent: string | null
+          status: 'open' | 'closed'
+          closed_by: string | null
+          created_at: string
+          updated_at: string
+          closed_at: string | null
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          phone?: string | null
+          language?: string
+          settlement_id?: number | null
+          last_intent?: string | null
+          status?: 'open' | 'closed'
+          closed_by?: string | null
+          created_at?: string
+          updated_at?: string
+          closed_at?: string | null
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          phone?: string | null
+          language?: string
+          settlement_id?: number | null
+          last_intent?: string | null
+          status?: 'open' | 'closed'
+          closed_by?: string | null
+          created_at?: string
+          updated_at?: string
+          closed_at?: string | null
+        }
+      }
+      handoff_messages: {
+        Row: {
+          id: number
+          ticket_id: number
+          sender: 'user' | 'staff'
+          body: string
+          staff_name: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          ticket_id: number
+          sender: 'user' | 'staff'
+          body: string
+          staff_name?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          ticket_id?: number
+          sender?: 'user' | 'staff'
+          body?: string
+          staff_name?: string | null
+          created_at?: string
+        }
+      }
+      messages: {
+        Row: {
+          id: number
+          user_id: string
+          direction: 'inbound' | 'outbound'
+          body: string
+          message_sid: string | null
+          language: string | null
+          intent: string | null
+          confidence: number | null
+          source: ResponseSource | null
+          latency_ms: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          direction: 'inbound' | 'outbound'
+          body: string
+          message_sid?: string | null
+          language?: string | null
+          intent?: string | null
+          confidence?: number | null
+          source?: ResponseSource | null
+          latency_ms?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          direction?: 'inbound' | 'outbound'
+          body?: string
+          message_sid?: string | null
+          language?: string | null
+          intent?: string | null
+          confidence?: number | null
+          source?: ResponseSource | null
+          latency_ms?: number | null
+          created_at?: string
+        }
+      }
+      unanswered_questions: {
+        Row: {
+          id: number
+          question: string
+          examples: string[]
+          occurrences: number
+          language: string | null
+          status: UnansweredStatus
+          resolution_type: UnansweredResolutionType | null
+          faq_id: number | null
+          category: ServiceCategory | null
+          intent: string | null
+          training_phrase: string | null
+          resolved_by: string | null
+          first_seen_at: string
+          last_seen_at: string
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: number
+          question: string
+          examples?: string[]
+          occurrences?: number
+          language?: string | null
+          status?: UnansweredStatus
+          resolution_type?: UnansweredResolutionType | null
+          faq_id?: number | null
+          category?: ServiceCategory | null
+          intent?: string | null
+          training_phrase?: string | null
+          resolved_by?: string | null
+          first_seen_at?: string
+          last_seen_at?: string
+          resolved_at?: string | null
+        }
+        Update: {
+          id?: number
+          question?: string
+          examples?: string[]
+          occurrences?: number
+          language?: string | null
+          status?: UnansweredStatus
+          resolution_type?: UnansweredResolutionType | null
+          faq_id?: number | null
+          category?: ServiceCategory | null
+          intent?: string | null
+          training_phrase?: string | null
+          resolved_by?: string | null
+          first_seen_at?: string
+          last_seen_at?: string
+          resolved_at?: string | null
+        }
+      }
+      answer_feedback: {
+        Row: {
+          id: number
+          user_id: string
+          intent: string
+          rating: number | null
+          helpful: boolean | null
+          service_ids: number[]
+          contact_ids: number[]
+          faq_id: number | null
+          comment: string | null
+          language: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          intent: string
+          rating?: number | null
+          helpful?: boolean | null
+          service_ids?: number[]
+          contact_ids?: number[]
+          faq_id?: number | null
+          comment?: string | null
+          language?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          intent?: string
+          rating?: number | null
+          helpful?: boolean | null
+          service_ids?: number[]
+          contact_ids?: number[]
+          faq_id?: number | null
+          comment?: string | null
+          language?: string | null
+          created_at?: string
+        }
+      }
+      reply_jobs: {
+        Row: {
+          id: number
+          phone: string
+          body: string
+          latitude: number | null
+          longitude: number | null
+          message_sid: string | null
+          status: 'pending' | 'processing'
+          attempts: number
+          reply: string | null
+          last_error: string | null
+          run_at: string
+          locked_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          phone: string
+          body?: string
+          latitude?: number | null
+          longitude?: number | null
+          message_sid?: string | null
+          status?: 'pending' | 'processing'
+          attempts?: number
+          reply?: string | null
+          last_error?: string | null
+          run_at?: string
+          locked_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          phone?: string
+          body?: string
+          latitude?: number | null
+          longitude?: number | null
+          message_sid?: string | null
+          status?: 'pending' | 'processing'
+          attempts?: number
+          reply?: string | null
+          last_error?: string | null
+          run_at?: string
+          locked_at?: string | null
+          created_at?: string
+        }
+      }
+      reply_job_dead_letters: {
+        Row: {
+          id: number
+          job_id: number
+          phone: string
+          body: string
+          latitude: number | null
+          longitude: number | null
+          message_sid: string | null
+          attempts: number
+          reply: string | null
+          last_error: string | null
+          job_created_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          job_id: number
+          phone: string
+          body: string
+          latitude?: number | null
+          longitude?: number | null
+          message_sid?: string | null
+          attempts: number
+          reply?: string | null
+          last_error?: string | null
+          job_created_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          job_id?: number
+          phone?: string
+          body?: string
+          latitude?: number | null
+          longitude?: number | null
+          message_sid?: string | null
+          attempts?: number
+          reply?: string | null
+          last_error?: string | null
+          job_created_at?: string | null
+          created_at?: string
+        }
+      }
+      processed_webhooks: {
+        Row: {
+          message_sid: string
+          response: string | null
+          locked_at: string
+          expires_at: string
+          created_at: string
+        }
+        Insert: {
+          message_sid: string
+          response?: string | null
+          locked_at?: string
+          expires_at: string
+          created_at?: string
+        }
+        Update: {
+          message_sid?: string
+          response?: string | null
+          locked_at?: string
+          expires_at?: string
+          created_at?: string
+        }
+      }
+      blocked_users: {
+        Row: {
+          id: number
+          user_id: string
+          reason: string
+          blocked_by: string
+          expires_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          reason: string
+          blocked_by?: string
+          expires_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          reason?: string
+          blocked_by?: string
+          expires_at?: string | null
+          created_at?: string
+        }
+      }
+      admin_sessions: {
+        Row: {
+          id: string
+          admin_user_id: number
+          expires_at: string
+          revoked_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id: string
+          admin_user_id: number
+          expires_at: string
+          revoked_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          admin_user_id?: number
+          expires_at?: string
+          revoked_at?: string | null
+          created_at?: string
+        }
+      }
+      audit_log: {
+        Row: {
+          id: number
+          table_name: AuditedTable
+          record_id: number
+          action: AuditAction
+          admin_user_id: number | null
+          admin_username: string
+          request_id: string | null
+          before: Record<string, unknown> | null
+          after: Record<string, unknown> | null
+          restored_from: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          table_name: AuditedTable
+          record_id: number
+          action: AuditAction
+          admin_user_id?: number | null
+          admin_username: string
+          request_id?: string | null
+          before?: Record<string, unknown> | null
+          after?: Record<string, unknown> | null
+          restored_from?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          table_name?: AuditedTable
+          record_id?: number
+          action?: AuditAction
+          admin_user_id?: number | null
+          admin_username?: string
+          request_id?: string | null
+          before?: Record<string, unknown> | null
+          after?: Record<string, unknown> | null
+          restored_from?: number | null
+          created_at?: string
+        }
+      }
     }
   }
 }
@@ -172,6 +789,32 @@ export interface Database {
 // Export type aliases for easier use
 export type Contact = Database['public']['Tables']['contacts']['Row'];
 export type Service = Database['public']['Tables']['services']['Row'];
+export type Settlement = Database['public']['Tables']['settlements']['Row'];
 export type RegistrationStep = Database['public']['Tables']['registration_steps']['Row'];
 export type RequiredDocument = Database['public']['Tables']['required_documents']['Row'];
-export type AdminUser = Database['public']['Tables']['admin_users']['Row'];
\ No newline at end of file
+export type AdminUser = Database['public']['Tables']['admin_users']['Row'];
+export type Faq = Database['public']['Tables']['faqs']['Row'];
+export type UserProfile = Database['public']['Tables']['user_profiles']['Row'];
+export type ConversationSession = Database['public']['Tables']['conversation_sessions']['Row'];
+export type SafeguardingFlag = Database['public']['Tables']['safeguarding_flags']['Row'];
+export type HandoffTicket = Database['public']['Tables']['handoff_tickets']['Row'];
+export type HandoffMessage = Database['public']['Tables']['handoff_messages']['Row'];
+export type TranscriptMessage = Database['public']['Tables']['messages']['Row'];
+export type UnansweredQuestion = Database['public']['Tables']['unanswered_questions']['Row'];
+export type AnswerFeedback = Database['public']['Tables']['answer_feedback']['Row'];
+export type ReplyJob = Database['public']['Tables']['reply_jobs']['Row'];
+export type DeadLetterReplyJob = Database['public']['Tables']['reply_job_dead_letters']['Row'];
+export type ProcessedWebhook = Database['public']['Tables']['processed_webhooks']['Row'];
+export type BlockedUser = Database['public']['Tables']['blocked_users']['Row'];
+export type AdminSession = Database['public']['Tables']['admin_sessions']['Row'];
+export type AuditLogEntry = Database['public']['Tables']['audit_log']['Row'];
+
+// A row of the `summarise_feedback_by_intent` and `summarise_feedback_by_organization` functions
+export interface FeedbackSummaryRow {
+  key: string
+  responses: number
+  helpful_count: number
+  not_helpful_count: number
+  average_rating: number | null
+  comment_count: number
+}
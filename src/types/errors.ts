@@ -26,4 +26,25 @@ export class RateLimitError extends AppError {
     super('Too many requests', 429);
     this.name = 'RateLimitError';
   }
-}
\ No newline at end of file
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'Authentication required') {
+    super(message, 401);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Not allowed for your role') {
+    super(message, 403);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class CircuitOpenError extends ExternalServiceError {
+  constructor(service: string) {
+    super(service, 'circuit open, call skipped');
+    this.name = 'CircuitOpenError';
+  }
+}
@@ -3,6 +3,10 @@
 // Re-export types from database for backward compatibility
 export * from './database.js';
 
+import type { LanguageCode } from '../utils/languages.js';
+import type { ResponseSource, ServiceCategory } from '../utils/constants.js';
+import type { AdminRole, AdminUser, AuditAction, AuditedTable, PendingFeedback } from './database.js';
+
 // Custom error classes
 export class ValidationError extends Error {
   constructor(message: string) {
@@ -39,7 +43,25 @@ export class TwilioError extends Error {
 export interface BotResponse {
   message: string;
   quickReplies?: string[];
-  metadata?: Record<string, any>;
+  metadata?: BotResponseMetadata;
+}
+
+export interface BotResponseMetadata {
+  intent?: string;
+  language?: LanguageCode;
+  // Every line of a paginated list, and how many of them have been shown
+  items?: string[];
+  itemOffset?: number;
+  // What produced the answer, for the transcript
+  source?: ResponseSource;
+  // Set on fallback replies, whose questions go to the review queue
+  unanswered?: boolean;
+  // Content rows the answer listed, so feedback can be traced back to them
+  serviceIds?: number[];
+  contactIds?: number[];
+  // Set when the answer asks for a rating or a comment
+  feedback?: PendingFeedback;
+  [key: string]: any;
 }
 
 export interface WebhookPayload {
@@ -48,6 +70,11 @@ export interface WebhookPayload {
   MessageSid?: string;
   AccountSid?: string;
   NumMedia?: string;
+  // Sent instead of a text body when the user shares a location pin
+  Latitude?: string;
+  Longitude?: string;
+  Address?: string;
+  Label?: string;
 }
 
 export interface HealthCheckResponse {
@@ -78,37 +105,91 @@ export interface ListResponse<T> {
 }
 
 // Admin types
+// Admin users as returned by the API, never with the password hash
+export type AdminProfile = Omit<AdminUser, 'password_hash'>;
+
+// The signed-in admin user and the session their token belongs to
+export interface AuthenticatedAdmin {
+  user: AdminProfile;
+  sessionId: string;
+}
+
+export interface AdminLoginResult {
+  token: string;
+  expiresAt: string;
+  user: AdminProfile;
+}
+
+// Who made a content change, for the audit log
+export interface AuditActor {
+  adminUserId: number;
+  adminUsername: string;
+  // From requestLogger
+  requestId: string | null;
+}
+
+// A content change, saved together with its audit entry
+export interface AuditedChange {
+  table: AuditedTable;
+  // A restore writes back a saved version, re-creating the record if it was deleted
+  action: AuditAction | 'restore';
+  // Null when creating
+  recordId: number | null;
+  fields: Record<string, unknown>;
+  // The entry whose version is put back
+  restoredFrom?: number;
+}
+
 export interface AdminUserCreate {
   username: string;
   email: string;
-  role?: string;
+  password: string;
+  role?: AdminRole;
 }
 
 export interface AdminUserUpdate {
   username?: string;
   email?: string;
-  role?: string;
+  role?: AdminRole;
+  is_active?: boolean;
+  // Sets a new password and signs the user out everywhere
+  password?: string;
 }
 
 // Service types (already defined in database.ts, but adding specific ones if needed)
 export interface ServiceCreate {
-  category: string;
+  category: ServiceCategory;
   organization: string;
   services: string;
   contact_phone?: string | null;
   contact_email?: string | null;
   location?: string | null;
   notes?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  settlement_id?: number | null;
 }
 
 export interface ServiceUpdate {
-  category?: string;
+  category?: ServiceCategory;
   organization?: string;
   services?: string;
   contact_phone?: string | null;
   contact_email?: string | null;
   location?: string | null;
   notes?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  settlement_id?: number | null;
+}
+
+export interface ServiceFilters {
+  category?: ServiceCategory;
+  // Partial, case-insensitive match
+  organization?: string;
+  settlement_id?: number;
+  // Matched against the organization and the services offered
+  search?: string;
 }
 
 // Contact types
@@ -120,6 +201,9 @@ export interface ContactCreate {
   type: string;
   is_urgent?: boolean;
   notes?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  settlement_id?: number | null;
 }
 
 export interface ContactUpdate {
@@ -130,25 +214,39 @@ export interface ContactUpdate {
   type?: string;
   is_urgent?: boolean;
   notes?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  settlement_id?: number | null;
+}
+
+export interface ContactFilters {
+  type?: string;
+  is_urgent?: boolean;
+  settlement_id?: number;
+  // Matched against the entity and the description
+  search?: string;
 }
 
 // Registration step types
 export interface RegistrationStepCreate {
-  step_number: number;
+  // Where the step goes; later steps move down. Added as the last step when omitted.
+  step_number?: number;
   title: string;
   description: string;
+  location?: string | null;
+  contact_reference?: string | null;
   requirements?: string | null;
   estimated_duration?: string | null;
-  
 }
 
 export interface RegistrationStepUpdate {
   step_number?: number;
   title?: string;
   description?: string;
+  location?: string | null;
+  contact_reference?: string | null;
   requirements?: string | null;
   estimated_duration?: string | null;
-  
 }
 
 // Required document types
@@ -166,6 +264,21 @@ export interface RequiredDocumentUpdate {
   notes?: string | null;
 }
 
+// FAQ types
+export interface FaqCreate {
+  question: string;
+  answer: string;
+  category: string;
+  intent_reference?: string | null;
+}
+
+export interface FaqUpdate {
+  question?: string;
+  answer?: string;
+  category?: string;
+  intent_reference?: string | null;
+}
+
 // Dialogflow types
 export interface DialogflowConfig {
   enabled: boolean;
@@ -181,6 +294,49 @@ export interface DialogflowResponse {
   allRequiredParamsPresent: boolean;
 }
 
+// Dialogflow ES fulfillment webhook (v2 WebhookRequest and WebhookResponse), the fields used here
+export interface DialogflowContext {
+  // projects/<project>/agent/sessions/<session>/contexts/<context>
+  name: string;
+  lifespanCount?: number;
+  parameters?: Record<string, any>;
+}
+
+export interface DialogflowWebhookRequest {
+  responseId: string;
+  // projects/<project>/agent/sessions/<session>
+  session: string;
+  queryResult: {
+    queryText: string;
+    languageCode: string;
+    parameters?: Record<string, any>;
+    allRequiredParamsPresent?: boolean;
+    fulfillmentText?: string;
+    outputContexts?: DialogflowContext[];
+    intent?: {
+      name: string;
+      displayName: string;
+      isFallback?: boolean;
+    };
+    intentDetectionConfidence?: number;
+  };
+  originalDetectIntentRequest?: {
+    source?: string;
+    payload?: Record<string, any>;
+  };
+}
+
+export type DialogflowFulfillmentMessage =
+  | { text: { text: string[] } }
+  | { quickReplies: { title?: string; quickReplies: string[] } };
+
+export interface DialogflowWebhookResponse {
+  fulfillmentText?: string;
+  fulfillmentMessages?: DialogflowFulfillmentMessage[];
+  outputContexts?: DialogflowContext[];
+  source?: string;
+}
+
 // Twilio types
 export interface TwilioMessage {
   body: string;
@@ -249,17 +405,6 @@ export interface RequestWithId extends Request {
   requestId?: string;
 }
 
-// Constants for intent names (used in DialogflowService)
-export const INTENT_NAMES = {
-  FIND_REGISTRATION: 'find.registration',
-  FIND_FOOD: 'find.food', 
-  FIND_SHELTER: 'find.shelter',
-  FIND_HEALTHCARE: 'find.healthcare',
-  FIND_EMERGENCY_CONTACTS: 'find.emergency.contacts',
-  WELCOME: 'welcome',
-  FALLBACK: 'default.fallback'
-} as const;
-
 // Utility types
 export type PartialBy<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
 export type RequireFields<T, K extends keyof T> = T & Required<Pick<T, K>>;
@@ -292,7 +437,26 @@ export interface FormattedResponse {
 export type {
   Contact,
   Service, 
+  Settlement,
   RegistrationStep,
   RequiredDocument,
-  AdminUser
+  AdminUser,
+  Faq,
+  UserProfile,
+  ConversationSession,
+  SafeguardingFlag,
+  HandoffTicket,
+  HandoffMessage,
+  TranscriptMessage,
+  UnansweredQuestion,
+  AnswerFeedback,
+  ReplyJob,
+  DeadLetterReplyJob,
+  ProcessedWebhook,
+  BlockedUser,
+  AdminSession,
+  AdminRole,
+  AuditLogEntry,
+  AuditedTable,
+  AuditAction
 } from './database.js';
\ No newline at end of file
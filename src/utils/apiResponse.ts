@@ -0,0 +1,63 @@
+// src/utils/apiResponse.ts
+import { Request } from 'express';
+import { ApiResponse, ListResponse, PaginationParams, ValidationError } from '../types/index.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Wrap API data in the standard ApiResponse envelope
+ */
+export function successResponse<T>(req: Request, data: T): ApiResponse<T> {
+  return {
+    success: true,
+    data,
+    metadata: {
+      timestamp: new Date().toISOString(),
+      version: process.env.npm_package_version || '1.0.0',
+      requestId: req.requestId
+    }
+  };
+}
+
+/**
+ * Wrap one page of a list in the ApiResponse envelope
+ */
+export function listResponse<T>(
+  req: Request,
+  items: T[],
+  pagination: Required<PaginationParams>,
+  total: number
+): ApiResponse<ListResponse<T>> {
+  return successResponse(req, {
+    data: items,
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit)
+    }
+  });
+}
+
+/**
+ * Page, page size and sort from a list query already checked by
+ * validateListQuery; only the given columns can be sorted on
+ */
+export function parsePagination(
+  query: Request['query'],
+  sortableFields: string[],
+  defaultSort: string,
+  defaultOrder: 'asc' | 'desc' = 'asc'
+): Required<PaginationParams> {
+  const sort = typeof query.sort === 'string' ? query.sort : defaultSort;
+  if (!sortableFields.includes(sort)) {
+    throw new ValidationError(`Sort must be one of: ${sortableFields.join(', ')}`);
+  }
+
+  return {
+    page: query.page ? Number(query.page) : 1,
+    limit: query.limit ? Number(query.limit) : DEFAULT_PAGE_SIZE,
+    sort,
+    order: typeof query.order === 'string' ? (query.order.toLowerCase() === 'desc' ? 'desc' : 'asc') : defaultOrder
+  };
+}
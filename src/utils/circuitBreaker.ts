@@ -0,0 +1,124 @@
+// src/utils/circuitBreaker.ts
+import { AppLogger } from '../config/logger.js';
+import { CircuitOpenError, ExternalServiceError } from '../types/errors.js';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a single probe call is let through
+  resetTimeoutMs: number;
+  // Errors that say the request was at fault rather than the dependency; they
+  // are passed on without counting as failures. By default every error counts.
+  isFailure?: (error: Error) => boolean;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  nextProbeAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Reject a call that has not settled within the time limit. The call
+ * itself keeps running; only the caller stops waiting for it.
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, service: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new ExternalServiceError(service, `no response within ${timeoutMs}ms`)),
+      timeoutMs
+    );
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Stops calling a failing dependency. After `failureThreshold` failures in a
+ * row the circuit opens and calls fail at once with CircuitOpenError; after
+ * `resetTimeoutMs` one probe is let through (half-open), which either closes
+ * the circuit again or re-opens it for another period.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+  private lastError: string | null = null;
+
+  constructor(
+    private service: string,
+    private options: CircuitBreakerOptions
+  ) {}
+
+  public async execute<T>(call: () => Promise<T>): Promise<T> {
+    if (this.state === 'open' && this.openedAt !== null && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = 'half_open';
+      AppLogger.info(`${this.service} circuit half-open, probing`);
+    }
+
+    if (this.state === 'open' || (this.state === 'half_open' && this.probeInFlight)) {
+      throw new CircuitOpenError(this.service);
+    }
+
+    const isProbe = this.state === 'half_open';
+    this.probeInFlight = isProbe;
+
+    try {
+      const result = await call();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (this.options.isFailure && !this.options.isFailure(error as Error)) {
+        // The dependency answered, it just turned this request down
+        this.recordSuccess();
+      } else {
+        this.recordFailure(error as Error, isProbe);
+      }
+      throw error;
+    } finally {
+      if (isProbe) this.probeInFlight = false;
+    }
+  }
+
+  public getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      nextProbeAt: this.state === 'open' && this.openedAt !== null
+        ? new Date(this.openedAt + this.options.resetTimeoutMs).toISOString()
+        : null,
+      lastError: this.lastError
+    };
+  }
+
+  private recordSuccess(): void {
+    if (this.state !== 'closed') {
+      AppLogger.info(`${this.service} circuit closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  private recordFailure(error: Error, isProbe: boolean): void {
+    this.consecutiveFailures++;
+    this.lastError = error.message;
+
+    if (isProbe || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      AppLogger.warn(`${this.service} circuit opened`, {
+        consecutiveFailures: this.consecutiveFailures,
+        retryInMs: this.options.resetTimeoutMs,
+        error: error.message
+      });
+    }
+  }
+}
@@ -1,21 +1,93 @@
 export const INTENT_NAMES = {
   FIND_REGISTRATION: 'find_registration',
+  REGISTRATION_STEP: 'registration_step',
+  REGISTRATION_DOCUMENTS: 'registration_documents',
   FIND_FOOD: 'find_food',
   FIND_SHELTER: 'find_shelter',
   FIND_HEALTHCARE: 'find_healthcare',
   FIND_EMERGENCY_CONTACTS: 'find_emergency_contacts',
+  FIND_PROTECTION: 'find_protection',
+  FIND_LIVELIHOODS: 'find_livelihoods',
+  FIND_EDUCATION: 'find_education',
+  FIND_LEGAL: 'find_legal',
+  FIND_WASH: 'find_wash',
+  FIND_DATA: 'find_data',
+  FIND_GENERAL: 'find_general',
+  MORE_SERVICES: 'more_services',
+  NEAREST_SERVICES: 'nearest_services',
   WELCOME: 'welcome',
+  SET_LANGUAGE: 'set_language',
+  CLARIFY: 'clarify',
+  FAQ: 'faq',
+  SAFEGUARDING: 'safeguarding',
+  HUMAN_HANDOFF: 'human_handoff',
   FALLBACK: 'Default Fallback Intent'
 } as const;
 
+/**
+ * Service categories allowed by the services.category CHECK in schema.sql.
+ * This is the only list in the code; keep the schema in step with it.
+ */
 export const CATEGORIES = {
   FOOD: 'Food',
   HEALTH: 'Health',
   SHELTER: 'Shelter',
   PROTECTION: 'Protection',
-  LIVELIHOODS: 'Livelihoods'
+  LIVELIHOODS: 'Livelihoods',
+  DATA: 'Data',
+  GENERAL: 'General',
+  EDUCATION: 'Education',
+  LEGAL: 'Legal',
+  WASH: 'WASH'
 } as const;
 
+export type ServiceCategory = typeof CATEGORIES[keyof typeof CATEGORIES];
+
+export const SERVICE_CATEGORIES: readonly ServiceCategory[] = Object.values(CATEGORIES);
+
+export function isServiceCategory(value: unknown): value is ServiceCategory {
+  return typeof value === 'string' && (SERVICE_CATEGORIES as readonly string[]).includes(value);
+}
+
+// The intent that lists each category's services
+export const CATEGORY_INTENTS: Record<string, ServiceCategory> = {
+  [INTENT_NAMES.FIND_FOOD]: CATEGORIES.FOOD,
+  [INTENT_NAMES.FIND_SHELTER]: CATEGORIES.SHELTER,
+  [INTENT_NAMES.FIND_HEALTHCARE]: CATEGORIES.HEALTH,
+  [INTENT_NAMES.FIND_PROTECTION]: CATEGORIES.PROTECTION,
+  [INTENT_NAMES.FIND_LIVELIHOODS]: CATEGORIES.LIVELIHOODS,
+  [INTENT_NAMES.FIND_EDUCATION]: CATEGORIES.EDUCATION,
+  [INTENT_NAMES.FIND_LEGAL]: CATEGORIES.LEGAL,
+  [INTENT_NAMES.FIND_WASH]: CATEGORIES.WASH,
+  [INTENT_NAMES.FIND_DATA]: CATEGORIES.DATA,
+  [INTENT_NAMES.FIND_GENERAL]: CATEGORIES.GENERAL
+};
+
+// English quick reply label naming each category
+export const CATEGORY_LABELS: Record<ServiceCategory, string> = {
+  [CATEGORIES.FOOD]: 'Food',
+  [CATEGORIES.SHELTER]: 'Shelter',
+  [CATEGORIES.HEALTH]: 'Healthcare',
+  [CATEGORIES.PROTECTION]: 'Protection',
+  [CATEGORIES.LIVELIHOODS]: 'Livelihoods',
+  [CATEGORIES.EDUCATION]: 'Education',
+  [CATEGORIES.LEGAL]: 'Legal Aid',
+  [CATEGORIES.WASH]: 'Water & Sanitation',
+  [CATEGORIES.DATA]: 'Data & Records',
+  [CATEGORIES.GENERAL]: 'General Support'
+};
+
+// Categories reached through the More Services menu rather than the main menu
+export const MORE_SERVICE_CATEGORIES: readonly ServiceCategory[] = [
+  CATEGORIES.PROTECTION,
+  CATEGORIES.LIVELIHOODS,
+  CATEGORIES.EDUCATION,
+  CATEGORIES.LEGAL,
+  CATEGORIES.WASH,
+  CATEGORIES.DATA,
+  CATEGORIES.GENERAL
+];
+
 export const CONTACT_TYPES = {
   EMERGENCY: 'Emergency',
   GENERAL: 'General',
@@ -24,6 +96,36 @@ export const CONTACT_TYPES = {
   SETTLEMENT: 'Settlement'
 } as const;
 
+export type ContactType = typeof CONTACT_TYPES[keyof typeof CONTACT_TYPES];
+
+export const CONTACT_TYPE_VALUES: readonly ContactType[] = Object.values(CONTACT_TYPES);
+
+export function isContactType(value: unknown): value is ContactType {
+  return typeof value === 'string' && (CONTACT_TYPE_VALUES as readonly string[]).includes(value);
+}
+
+// Kinds of crisis the safeguarding check looks for, in the order they are checked
+export const CRISIS_TYPES = {
+  SUICIDE: 'suicide',
+  MEDICAL: 'medical',
+  CHILD_PROTECTION: 'child_protection',
+  GBV: 'gbv',
+  VIOLENCE: 'violence'
+} as const;
+
+export type CrisisType = typeof CRISIS_TYPES[keyof typeof CRISIS_TYPES];
+
+// What produced a reply, as recorded in the messages transcript
+export const RESPONSE_SOURCES = {
+  BUILT_IN: 'built_in',
+  DIALOGFLOW: 'dialogflow',
+  FAQ: 'faq',
+  SAFEGUARDING: 'safeguarding',
+  HANDOFF: 'handoff'
+} as const;
+
+export type ResponseSource = typeof RESPONSE_SOURCES[keyof typeof RESPONSE_SOURCES];
+
 export const BOT_MESSAGES = {
   WELCOME: 'Hello! I\'m here to provide information for refugees and displaced people in Mbarara. I can help you find information about registration, food, shelter, healthcare, and emergency contacts. What do you need help with today?',
   FALLBACK: 'I\'m sorry, I didn\'t quite understand that. I can help you with registration, food, shelter, healthcare, and emergency contacts. Please tell me what you need.',
@@ -46,12 +148,88 @@ export const MESSAGE_TYPES = {
   ERROR: 'error'
 } as const;
 
-export const SERVICE_CATEGORIES = {
-  FOOD: 'Food',
-  SHELTER: 'Shelter',
-  HEALTH: 'Health',
-  REGISTRATION: 'Registration',
-  EMERGENCY: 'Emergency'
+// Number of list items shown per message before the user is asked to reply MORE
+export const LIST_PAGE_SIZE = 5;
+
+// Parameters the agent's intents extract, which narrow the answer
+export const DIALOGFLOW_PARAMETERS = {
+  CATEGORY: 'category',
+  SETTLEMENT: 'settlement',
+  ORGANIZATION: 'organization',
+  STEP_NUMBER: 'step_number'
+} as const;
+
+// Output context set by the fulfillment webhook, so the agent's follow-up intents know which menu was shown
+export const DIALOGFLOW_MENU_CONTEXT = {
+  NAME: 'bot-menu',
+  LIFESPAN: 5
+} as const;
+
+// Session navigation words in every supported language
+export const NAVIGATION_KEYWORDS = {
+  BACK: ['back', 'rudi', 'nyuma', 'retour', 'inyuma', 'subira', 'رجوع', 'dib', 'garuka'],
+  MORE: ['more', 'zaidi', 'plus', 'ibindi', 'المزيد', 'dheeraad', 'ebindi'],
+  MENU: ['menu', 'main menu', 'menyu', 'ahabanza', 'القائمة', 'liiska']
+} as const;
+
+/**
+ * Ways of asking for a person instead of the bot. Commands only count as the
+ * whole message; phrases count anywhere in it.
+ */
+export const HANDOFF_KEYWORDS = {
+  COMMANDS: ['agent', 'human', 'caseworker', 'person', 'mtu', 'wakala', 'umukozi', 'موظف', 'شخص', 'wakiil', 'shaqaale', 'omukozi'],
+  PHRASES: [
+    'talk to a person', 'speak to a person', 'talk to someone', 'speak to someone', 'talk to a human',
+    'real person', 'talk to staff', 'talk to an agent',
+    'kuongea na mtu', 'kuzungumza na mtu',
+    'parler a quelqu\'un', 'parler a une personne', 'parler a un agent',
+    'kuvugana n\'umuntu', 'kuvuga n\'umuntu',
+    'التحدث إلى شخص', 'التحدث مع موظف',
+    'la hadal qof', 'la hadlo qof',
+    'kugamba n\'omuntu'
+  ],
+  // Sent while a caseworker has the conversation, hands it back to the bot. Not MENU,
+  // which other replies (the crisis follow-up) suggest for finding information
+  EXIT_COMMANDS: ['bot']
 } as const;
 
+// Words for "step" in every supported language, as in "step 3" or "hatua 3"
+export const STEP_KEYWORDS = ['step', 'hatua', 'etape', 'intambwe', 'خطوة', 'tallaabo', 'omutendera'];
 
+/**
+ * Maps English quick reply labels to the intent that answers them.
+ * Labels mapped to 'more' page through the last listed items instead.
+ */
+export const MENU_OPTION_INTENTS: Record<string, string> = {
+  'Registration': INTENT_NAMES.FIND_REGISTRATION,
+  'Registration Steps': INTENT_NAMES.REGISTRATION_STEP,
+  'Registration Info': INTENT_NAMES.FIND_REGISTRATION,
+  'Registration Help': INTENT_NAMES.FIND_REGISTRATION,
+  'Contact Details': INTENT_NAMES.FIND_REGISTRATION,
+  'Required Documents': INTENT_NAMES.REGISTRATION_DOCUMENTS,
+  'Food': INTENT_NAMES.FIND_FOOD,
+  'WFP Contacts': INTENT_NAMES.FIND_FOOD,
+  'Distribution Points': INTENT_NAMES.FIND_FOOD,
+  'Shelter': INTENT_NAMES.FIND_SHELTER,
+  'Settlement Info': INTENT_NAMES.FIND_SHELTER,
+  'Healthcare': INTENT_NAMES.FIND_HEALTHCARE,
+  'Hospital Info': INTENT_NAMES.FIND_HEALTHCARE,
+  'Settlement Clinics': INTENT_NAMES.FIND_HEALTHCARE,
+  'Healthcare Info': INTENT_NAMES.FIND_HEALTHCARE,
+  'Emergency Contacts': INTENT_NAMES.FIND_EMERGENCY_CONTACTS,
+  'Emergency Number': INTENT_NAMES.FIND_EMERGENCY_CONTACTS,
+  'OPM Contact': INTENT_NAMES.FIND_EMERGENCY_CONTACTS,
+  'Contact Support': INTENT_NAMES.FIND_EMERGENCY_CONTACTS,
+  'More Services': INTENT_NAMES.MORE_SERVICES,
+  'Protection': INTENT_NAMES.FIND_PROTECTION,
+  'Livelihoods': INTENT_NAMES.FIND_LIVELIHOODS,
+  'Education': INTENT_NAMES.FIND_EDUCATION,
+  'Legal Aid': INTENT_NAMES.FIND_LEGAL,
+  'Water & Sanitation': INTENT_NAMES.FIND_WASH,
+  'Data & Records': INTENT_NAMES.FIND_DATA,
+  'General Support': INTENT_NAMES.FIND_GENERAL,
+  'Talk to a Person': INTENT_NAMES.HUMAN_HANDOFF,
+  'Main Menu': INTENT_NAMES.WELCOME,
+  'More Info': 'more',
+  'More Contacts': 'more'
+};
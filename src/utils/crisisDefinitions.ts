@@ -0,0 +1,141 @@
+// src/utils/crisisDefinitions.ts
+import { CONTACT_TYPES, CRISIS_TYPES, CrisisType } from './constants.js';
+import { MessageKey } from './translations.js';
+
+export interface CrisisDefinition {
+  type: CrisisType;
+  // Opening line of the reply, before the urgent contacts
+  messageKey: MessageKey;
+  // Urgent contacts of these types are listed first
+  contactTypes: string[];
+  // Single words that on their own signal the crisis, in every supported language
+  keywords: string[];
+  // Multiword phrases, matched as whole words
+  phrases: string[];
+}
+
+/**
+ * Phrases that bypass intent detection. Checked in order, so a message
+ * matching several crises gets the most urgent reply. Words are matched
+ * exactly or as simple inflections only, never as typos, to keep false
+ * alarms rare; common misspellings are listed as keywords instead. Verbs
+ * that are also slang ("hit me up", "beaten at football") only count with
+ * a person doing them.
+ */
+export const CRISIS_DEFINITIONS: CrisisDefinition[] = [
+  {
+    type: CRISIS_TYPES.SUICIDE,
+    messageKey: 'CRISIS_SUICIDE',
+    contactTypes: [CONTACT_TYPES.EMERGENCY, CONTACT_TYPES.HOSPITAL],
+    keywords: [
+      'suicide', 'suicidal', 'sucide', 'suicde', 'suiside', 'sucidal',
+      'kujiua',
+      'suicider',
+      'kwiyahura', 'kwiyica',
+      'انتحار', 'أنتحر',
+      'isdil',
+      'kwetta'
+    ],
+    phrases: [
+      'kill myself', 'killing myself', 'end my life', 'take my life', 'want to die', 'wanna die',
+      'hang myself', 'no reason to live', 'better off dead',
+      'nataka kufa', 'kujitoa uhai',
+      'veux me tuer', 'vais me tuer', 'veux mourir', 'envie de mourir',
+      'ndashaka gupfa',
+      'اقتل نفسي', 'أريد أن أموت',
+      'is dilo', 'waan dhiman rabaa',
+      'ninyenda kufa'
+    ]
+  },
+  {
+    type: CRISIS_TYPES.MEDICAL,
+    messageKey: 'CRISIS_MEDICAL',
+    contactTypes: [CONTACT_TYPES.HOSPITAL, CONTACT_TYPES.EMERGENCY],
+    keywords: [
+      'unconscious', 'overdose', 'seizure', 'snakebite', 'fainted', 'collapsed',
+      'hapumui', 'amezimia',
+      'inconscient', 'evanoui',
+      'ntahumeka',
+      'نزيف',
+      'foolxanuun'
+    ],
+    phrases: [
+      'not breathing', 'can\'t breathe', 'cannot breathe', 'heavy bleeding', 'bleeding heavily',
+      'heart attack', 'chest pain', 'snake bite', 'giving birth', 'in labour', 'in labor', 'was poisoned',
+      'kutokwa damu nyingi', 'uchungu wa kuzaa', 'kuumwa na nyoka',
+      'ne respire pas', 'saigne beaucoup', 'crise cardiaque', 'morsure de serpent',
+      'yataye ubwenge', 'kuva amaraso menshi', 'ari kubyara',
+      'لا يتنفس', 'فاقد الوعي', 'نوبة قلبية', 'لدغة ثعبان',
+      'ma neefsanayo', 'miyir beelay', 'dhiig bax', 'mas qaniinyo'
+    ]
+  },
+  {
+    type: CRISIS_TYPES.CHILD_PROTECTION,
+    messageKey: 'CRISIS_CHILD',
+    contactTypes: [CONTACT_TYPES.EMERGENCY],
+    keywords: [
+      'trafficking', 'trafficked', 'unaccompanied',
+      'maltraitance',
+      'الإتجار'
+    ],
+    phrases: [
+      'child abuse', 'abused child', 'abusing my child', 'child marriage', 'child labour', 'child labor',
+      'missing child', 'lost child', 'child is missing', 'abandoned child',
+      'hits my child', 'hits my children', 'beats my child', 'beats my children',
+      'hitting my child', 'hitting my children', 'beating my child', 'beating my children',
+      'ndoa za utotoni', 'mtoto amepotea', 'unyanyasaji wa watoto', 'biashara ya binadamu',
+      'mariage d\'enfant', 'enfant perdu', 'enfant disparu', 'enfant non accompagne',
+      'umwana yabuze', 'gushyingira abana', 'ihohoterwa ry\'abana',
+      'زواج الأطفال', 'طفل مفقود', 'إساءة للأطفال',
+      'ilmo lumay', 'guur carruureed', 'ka ganacsiga dadka',
+      'omwana yaabura'
+    ]
+  },
+  {
+    type: CRISIS_TYPES.GBV,
+    messageKey: 'CRISIS_GBV',
+    contactTypes: [CONTACT_TYPES.EMERGENCY],
+    keywords: [
+      'rape', 'raped', 'rapist', 'gbv',
+      'kubakwa', 'ubakaji', 'alinibaka',
+      'viol', 'violee',
+      'اغتصاب', 'اغتصبني',
+      'kufsi'
+    ],
+    phrases: [
+      'husband beats', 'husband beat', 'husband hits', 'husband hit', 'partner beats', 'partner hits',
+      'wife beats', 'sexual assault', 'sexually assaulted', 'forced marriage', 'forced me to marry',
+      'domestic violence', 'gender based violence',
+      'mume wangu ananipiga', 'ndoa ya kulazimishwa',
+      'mon mari me bat', 'violence conjugale', 'mariage force',
+      'umugabo wanjye arankubita', 'gufatwa ku ngufu',
+      'زوجي يضربني', 'عنف أسري',
+      'la kufsiyey', 'ninkeyga i garaaca', 'guur qasab'
+    ]
+  },
+  {
+    type: CRISIS_TYPES.VIOLENCE,
+    messageKey: 'CRISIS_VIOLENCE',
+    contactTypes: [CONTACT_TYPES.EMERGENCY],
+    keywords: [
+      'attacked', 'assaulted', 'stabbed',
+      'kushambuliwa', 'ananipiga', 'wananipiga',
+      'agresse',
+      'arankubita', 'barankubita',
+      'يضربني', 'اعتداء',
+      'weerar'
+    ],
+    phrases: [
+      'he beats me', 'she beats me', 'they beat me', 'he beat me', 'she beat me',
+      'he hits me', 'she hits me', 'they hit me', 'he hit me', 'she hit me', 'someone hit me',
+      'beat me up', 'beaten up', 'beating me', 'hitting me', 'hurting me',
+      'kill me', 'threatening to kill', 'threatened to kill',
+      'wanataka kuniua',
+      'me frappe', 'veut me tuer', 'menace de mort',
+      'bashaka kunyica',
+      'يريد قتلي',
+      'i garaacay', 'i dili rabaa',
+      'nibenda kunyita'
+    ]
+  }
+];
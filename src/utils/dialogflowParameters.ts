@@ -0,0 +1,65 @@
+// src/utils/dialogflowParameters.ts
+import type { protos } from '@google-cloud/dialogflow';
+import { CATEGORY_LABELS, SERVICE_CATEGORIES, ServiceCategory } from './constants.js';
+import { normalizeText } from './textMatching.js';
+
+type ProtoStruct = protos.google.protobuf.IStruct;
+type ProtoValue = protos.google.protobuf.IValue;
+
+/**
+ * detectIntent returns parameters as a protobuf Struct; the fulfillment
+ * webhook already receives plain JSON. Both end up as a plain object.
+ */
+export function structToObject(struct: ProtoStruct | null | undefined): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(struct?.fields || {})) {
+    result[name] = valueToJson(value);
+  }
+  return result;
+}
+
+function valueToJson(value: ProtoValue): unknown {
+  if (value.structValue) return structToObject(value.structValue);
+  if (value.listValue) return (value.listValue.values || []).map(valueToJson);
+  if (value.stringValue !== undefined && value.stringValue !== null) return value.stringValue;
+  if (value.numberValue !== undefined && value.numberValue !== null) return value.numberValue;
+  if (value.boolValue !== undefined && value.boolValue !== null) return value.boolValue;
+  return null;
+}
+
+/**
+ * A parameter's value as text. Unfilled parameters arrive as "", list
+ * parameters as arrays (the first entry is used) and composite entities
+ * as objects with the resolved value in `name` or `value`.
+ */
+export function parameterText(parameters: Record<string, unknown>, name: string): string | null {
+  let value = parameters[name];
+  if (Array.isArray(value)) value = value[0];
+  if (value && typeof value === 'object') {
+    const entity = value as Record<string, unknown>;
+    value = entity.name ?? entity.value;
+  }
+
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string' || value.trim().length === 0) return null;
+  return value.trim();
+}
+
+/**
+ * A category parameter, given either as the category or its menu label
+ */
+export function parameterCategory(parameters: Record<string, unknown>, name: string): ServiceCategory | undefined {
+  const text = parameterText(parameters, name);
+  if (!text) return undefined;
+
+  const wanted = normalizeText(text);
+  return SERVICE_CATEGORIES.find(category =>
+    normalizeText(category) === wanted || normalizeText(CATEGORY_LABELS[category]) === wanted
+  );
+}
+
+export function parameterNumber(parameters: Record<string, unknown>, name: string): number | undefined {
+  const text = parameterText(parameters, name);
+  const value = text === null ? NaN : Number(text);
+  return Number.isInteger(value) && value > 0 ? value : undefined;
+}
@@ -0,0 +1,51 @@
+// src/utils/geo.ts
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+export function isValidCoordinates(latitude: number, longitude: number): boolean {
+  return Number.isFinite(latitude) && Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+}
+
+/**
+ * Parse Twilio's Latitude/Longitude webhook fields, or null when either is missing or invalid
+ */
+export function parseCoordinates(latitude: unknown, longitude: unknown): Coordinates | null {
+  if (latitude === undefined || latitude === null || latitude === '' ||
+      longitude === undefined || longitude === null || longitude === '') {
+    return null;
+  }
+
+  const lat = Number(latitude);
+  const lon = Number(longitude);
+  return isValidCoordinates(lat, lon) ? { latitude: lat, longitude: lon } : null;
+}
+
+/**
+ * Great-circle distance in kilometres (haversine formula)
+ */
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+export function formatDistance(km: number): string {
+  if (km < 1) return `${Math.round(km * 1000)} m`;
+  if (km < 10) return `${km.toFixed(1)} km`;
+  return `${Math.round(km)} km`;
+}
+
+export function openStreetMapLink({ latitude, longitude }: Coordinates): string {
+  return `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=16/${latitude}/${longitude}`;
+}
@@ -0,0 +1,103 @@
+// src/utils/languages.ts
+
+export const SUPPORTED_LANGUAGES = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'sw', name: 'Swahili', nativeName: 'Kiswahili' },
+  { code: 'rw', name: 'Kinyarwanda', nativeName: 'Ikinyarwanda' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية' },
+  { code: 'so', name: 'Somali', nativeName: 'Soomaali' },
+  { code: 'nyn', name: 'Runyankole', nativeName: 'Runyankore' }
+] as const;
+
+export type LanguageCode = typeof SUPPORTED_LANGUAGES[number]['code'];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+/**
+ * Words used as the LANGUAGE command in each supported language
+ */
+export const LANGUAGE_COMMANDS = ['language', 'lang', 'lugha', 'langue', 'ururimi', 'luqadda', 'orurimi', 'اللغة', 'لغة'];
+
+/**
+ * Common function words per language used for lightweight detection.
+ * Short words shared between languages are deliberately left out.
+ */
+export const LANGUAGE_MARKERS: Record<LanguageCode, string[]> = {
+  en: ['the', 'is', 'are', 'what', 'where', 'how', 'need', 'want', 'please', 'my', 'can', 'help', 'for', 'get', 'find', 'hello', 'thanks'],
+  sw: ['nini', 'wapi', 'nataka', 'ninahitaji', 'habari', 'tafadhali', 'mimi', 'je', 'gani', 'jinsi', 'asante', 'naomba', 'nipate', 'msaada', 'chakula', 'jambo'],
+  rw: ['ndashaka', 'iki', 'muraho', 'mwaramutse', 'nkeneye', 'murakoze', 'cyane', 'ibiryo', 'ubufasha', 'ndi', 'mfite'],
+  fr: ['le', 'la', 'les', 'je', 'vous', 'est', 'où', 'comment', 'besoin', 'bonjour', 'merci', 'pour', 'des', 'une', 'suis', 'aide'],
+  ar: [],
+  so: ['waa', 'maxaa', 'xagee', 'waxaan', 'rabaa', 'fadlan', 'iyo', 'salaan', 'mahadsanid', 'baan', 'caawimaad', 'cunto'],
+  nyn: ['ninyenda', 'nkwenda', 'nkahi', 'agandi', 'webale', 'mwebare', 'ndaba', 'nyowe', 'oraire', 'osiibire', 'obuyambi']
+};
+
+const ARABIC_SCRIPT = /[\u0600-\u06FF]/;
+
+export interface LanguageDetection {
+  language: LanguageCode;
+  confidence: number;
+}
+
+export function isSupportedLanguage(code: string): code is LanguageCode {
+  return SUPPORTED_LANGUAGES.some(language => language.code === code);
+}
+
+/**
+ * Find a supported language by its code, English name or native name
+ */
+export function findLanguage(input: string): LanguageCode | null {
+  const value = input.trim().toLowerCase();
+  if (!value) return null;
+
+  const match = SUPPORTED_LANGUAGES.find(language =>
+    language.code === value ||
+    language.name.toLowerCase() === value ||
+    language.nativeName.toLowerCase() === value
+  );
+
+  return match ? match.code : null;
+}
+
+export function getLanguageName(code: LanguageCode): string {
+  const language = SUPPORTED_LANGUAGES.find(l => l.code === code);
+  return language ? language.nativeName : code;
+}
+
+/**
+ * Detect the language of a message from its script and common words.
+ * Returns null when there is not enough signal to decide.
+ */
+export function detectLanguage(text: string): LanguageDetection | null {
+  if (!text || text.trim().length === 0) return null;
+
+  if (ARABIC_SCRIPT.test(text)) {
+    return { language: 'ar', confidence: 0.95 };
+  }
+
+  const tokens = text
+    .toLowerCase()
+    .split(/[^\p{L}']+/u)
+    .filter(token => token.length > 0);
+
+  if (tokens.length === 0) return null;
+
+  const scores = (Object.keys(LANGUAGE_MARKERS) as LanguageCode[])
+    .map(language => ({
+      language,
+      score: tokens.filter(token => LANGUAGE_MARKERS[language].includes(token)).length
+    }))
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  if (scores.length === 0) return null;
+
+  const [best, second] = scores;
+  if (second && second.score === best.score) return null;
+
+  const margin = best.score - (second?.score ?? 0);
+  const confidence = Math.min(0.95, (margin / tokens.length) + (best.score > 1 ? 0.3 : 0.1));
+
+  return { language: best.language, confidence: Number(confidence.toFixed(2)) };
+}
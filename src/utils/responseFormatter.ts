@@ -1,63 +1,175 @@
-import { BotResponse } from '../types/index.js';
-import { QUICK_REPLIES, INTENT_NAMES } from './constants.js';
+import {
+  BotResponse,
+  BotResponseMetadata,
+  Contact,
+  DialogflowContext,
+  DialogflowFulfillmentMessage,
+  DialogflowWebhookResponse,
+  Faq,
+  RegistrationStep,
+  RequiredDocument
+} from '../types/index.js';
+import { QUICK_REPLIES, DIALOGFLOW_MENU_CONTEXT, INTENT_NAMES, LIST_PAGE_SIZE, RESPONSE_SOURCES, CATEGORY_LABELS, MORE_SERVICE_CATEGORIES, ServiceCategory } from './constants.js';
+import { LanguageCode } from './languages.js';
+import { formatDistance, openStreetMapLink } from './geo.js';
+import { MessageKey, translate, translateQuickReplies } from './translations.js';
 
 export class ResponseFormatter {
-  public static formatRegistrationResponse(steps: any[], documents: any[], contacts: any[]): BotResponse {
-    const stepDescriptions = steps
+  public static formatRegistrationResponse(steps: any[], documents: any[], contacts: any[], language: LanguageCode = 'en'): BotResponse {
+    // Only the step titles here; each step's details are one "step N" reply away
+    const stepTitles = steps
       .sort((a, b) => a.step_number - b.step_number)
-      .map(step => `${step.step_number}. ${step.title}: ${step.description}`)
+      .map(step => `${step.step_number}. ${step.title}`)
       .join('\n');
 
     const documentList = documents
-      .map(doc => `• ${doc.document_name}${doc.is_essential ? ' (Essential)' : ''}`)
+      .map(doc => `• ${doc.document_name}`)
       .join('\n');
 
-    const message = `I can help with refugee registration. Here's the process:\n\n${stepDescriptions}\n\nRequired Documents:\n${documentList}\n\nWould you like more details about any specific step?`;
+    const message = `${translate('REGISTRATION_INTRO', language)}\n\n${stepTitles}\n\n${translate('ESSENTIAL_DOCUMENTS', language)}\n${documentList}\n\n${translate('REGISTRATION_OUTRO', language)}`;
 
     return {
       message,
-      quickReplies: [...QUICK_REPLIES.REGISTRATION] // Spread to create mutable array
+      quickReplies: translateQuickReplies(QUICK_REPLIES.REGISTRATION, language)
     };
   }
 
-  public static formatFoodResponse(services: any[]): BotResponse {
-    const foodServices = services.filter(service => 
+  public static formatRegistrationStep(step: RegistrationStep, steps: RegistrationStep[], language: LanguageCode = 'en'): BotResponse {
+    const ordered = [...steps].sort((a, b) => a.step_number - b.step_number);
+    const position = ordered.findIndex(candidate => candidate.step_number === step.step_number);
+    const previous = position > 0 ? ordered[position - 1] : null;
+    const next = position >= 0 && position < ordered.length - 1 ? ordered[position + 1] : null;
+
+    const heading = translate('STEP_HEADING', language, {
+      number: step.step_number,
+      total: ordered.length,
+      title: step.title
+    });
+
+    const details = [
+      step.location ? `📍 ${translate('STEP_LOCATION', language)}: ${step.location}` : null,
+      step.contact_reference ? `📞 ${translate('STEP_CONTACT', language)}: ${step.contact_reference}` : null,
+      step.requirements ? `📋 ${translate('STEP_REQUIREMENTS', language)}: ${step.requirements}` : null,
+      step.estimated_duration ? `⏱️ ${translate('STEP_DURATION', language)}: ${step.estimated_duration}` : null
+    ].filter(Boolean).join('\n');
+
+    const quickReplies = [
+      ...(previous ? [translate('STEP_PREVIOUS', language, { number: previous.step_number })] : []),
+      ...(next ? [translate('STEP_NEXT', language, { number: next.step_number })] : []),
+      ...translateQuickReplies(['Required Documents', 'Main Menu'], language)
+    ];
+
+    return {
+      message: `*${heading}*\n\n${step.description}${details ? `\n\n${details}` : ''}`,
+      quickReplies,
+      metadata: { stepNumber: step.step_number }
+    };
+  }
+
+  public static formatStepNotFound(stepNumber: number, steps: RegistrationStep[], language: LanguageCode = 'en'): BotResponse {
+    if (steps.length === 0) {
+      return this.formatTextResponse('STEPS_EMPTY', language);
+    }
+
+    const first = Math.min(...steps.map(step => step.step_number));
+
+    return {
+      message: translate('STEP_NOT_FOUND', language, { number: stepNumber, total: steps.length }),
+      quickReplies: [
+        translate('STEP_LABEL', language, { number: first }),
+        ...translateQuickReplies(['Main Menu'], language)
+      ]
+    };
+  }
+
+  public static formatRequiredDocuments(documents: RequiredDocument[], language: LanguageCode = 'en'): BotResponse {
+    if (documents.length === 0) {
+      return this.formatTextResponse('DOCUMENTS_EMPTY', language);
+    }
+
+    const describe = (doc: RequiredDocument) => {
+      const details = [doc.description, doc.notes].filter(Boolean).join(' ');
+      return `• ${doc.document_name}${details ? `: ${details}` : ''}`;
+    };
+
+    const essential = documents.filter(doc => doc.is_essential).map(describe);
+    const other = documents.filter(doc => !doc.is_essential).map(describe);
+
+    const sections = [
+      essential.length > 0 ? `${translate('ESSENTIAL_DOCUMENTS', language)}\n${essential.join('\n')}` : null,
+      other.length > 0 ? `${translate('OTHER_DOCUMENTS', language)}\n${other.join('\n')}` : null
+    ].filter(Boolean);
+
+    return {
+      message: sections.join('\n\n'),
+      quickReplies: translateQuickReplies(['Registration Steps', 'Main Menu'], language)
+    };
+  }
+
+  public static formatFoodResponse(services: any[], language: LanguageCode = 'en'): BotResponse {
+    const foodServices = services.filter(service =>
       service.category === 'Food' || service.organization.includes('WFP')
     );
 
     if (foodServices.length === 0) {
       return {
-        message: 'Food assistance is primarily provided by the World Food Programme (WFP) to registered refugees in settlements. Please ensure you are registered with OPM to access these services.',
-        quickReplies: [...QUICK_REPLIES.FOOD] // Spread to create mutable array
+        message: translate('FOOD_EMPTY', language),
+        quickReplies: translateQuickReplies(QUICK_REPLIES.FOOD, language)
       };
     }
 
-    const serviceInfo = foodServices
-      .map(service => `• ${service.organization}: ${service.services}${service.location ? ` (${service.location})` : ''}`)
-      .join('\n');
+    const serviceInfo = this.paginate(
+      foodServices.map(service => `• ${service.organization}: ${service.services}${service.location ? ` (${service.location})` : ''}`),
+      language
+    );
 
-    const message = `Food assistance options:\n\n${serviceInfo}\n\nNote: Most food aid requires official registration and is distributed through settlements.`;
+    const message = `${translate('FOOD_INTRO', language)}\n\n${serviceInfo.text}\n\n${translate('FOOD_NOTE', language)}`;
 
     return {
       message,
-      quickReplies: [...QUICK_REPLIES.FOOD] // Spread to create mutable array
+      quickReplies: translateQuickReplies(QUICK_REPLIES.FOOD, language),
+      metadata: serviceInfo.metadata
     };
   }
 
-  public static formatHealthcareResponse(services: any[], contacts: any[]): BotResponse {
+  public static formatShelterResponse(services: any[], language: LanguageCode = 'en'): BotResponse {
+    if (services.length === 0) {
+      return {
+        message: translate('SHELTER_EMPTY', language),
+        quickReplies: translateQuickReplies(['OPM Contact', 'Registration Info', 'Main Menu'], language)
+      };
+    }
+
+    const serviceInfo = this.paginate(
+      services.map(service => `• ${service.organization}: ${service.services}${service.location ? ` (${service.location})` : ''}`),
+      language
+    );
+
+    return {
+      message: `${translate('SHELTER_INTRO', language)}\n\n${serviceInfo.text}\n\n${translate('SHELTER_NOTE', language)}`,
+      quickReplies: translateQuickReplies(['OPM Contact', 'Registration Steps', 'More Info'], language),
+      metadata: serviceInfo.metadata
+    };
+  }
+
+  public static formatHealthcareResponse(services: any[], contacts: any[], language: LanguageCode = 'en'): BotResponse {
     const healthServices = services.filter(service => service.category === 'Health');
     const emergencyContacts = contacts.filter(contact => contact.type === 'Emergency' || contact.type === 'Hospital');
 
-    let message = 'Healthcare services available:\n\n';
+    let message = `${translate('HEALTH_INTRO', language)}\n\n`;
+    let metadata: BotResponseMetadata | undefined;
 
     if (healthServices.length > 0) {
-      message += healthServices
-        .map(service => `• ${service.organization}: ${service.services}${service.contact_phone ? ` - ${service.contact_phone}` : ''}`)
-        .join('\n');
+      const serviceInfo = this.paginate(
+        healthServices.map(service => `• ${service.organization}: ${service.services}${service.contact_phone ? ` - ${service.contact_phone}` : ''}`),
+        language
+      );
+      message += serviceInfo.text;
+      metadata = serviceInfo.metadata;
     }
 
     if (emergencyContacts.length > 0) {
-      message += '\n\nEmergency Contacts:\n';
+      message += `\n\n${translate('EMERGENCY_CONTACTS', language)}\n`;
       message += emergencyContacts
         .map(contact => `• ${contact.entity}: ${contact.phone}${contact.description ? ` - ${contact.description}` : ''}`)
         .join('\n');
@@ -65,49 +177,282 @@ export class ResponseFormatter {
 
     return {
       message,
-      quickReplies: [...QUICK_REPLIES.HEALTHCARE] // Spread to create mutable array
+      quickReplies: translateQuickReplies(QUICK_REPLIES.HEALTHCARE, language),
+      metadata
+    };
+  }
+
+  /**
+   * Services of any category without a dedicated layout
+   */
+  public static formatCategoryResponse(category: ServiceCategory, services: any[], language: LanguageCode = 'en'): BotResponse {
+    const [categoryName] = translateQuickReplies([CATEGORY_LABELS[category]], language);
+    const quickReplies = translateQuickReplies(['More Services', 'Emergency Contacts', 'Main Menu'], language);
+
+    if (services.length === 0) {
+      return {
+        message: translate('CATEGORY_EMPTY', language, { category: categoryName }),
+        quickReplies
+      };
+    }
+
+    const serviceInfo = this.paginate(
+      services.map(service =>
+        `• ${service.organization}: ${service.services}${service.location ? ` (${service.location})` : ''}${service.contact_phone ? ` - ${service.contact_phone}` : ''}`
+      ),
+      language
+    );
+
+    return {
+      message: `${translate('CATEGORY_INTRO', language, { category: categoryName })}\n\n${serviceInfo.text}`,
+      quickReplies,
+      metadata: serviceInfo.metadata
+    };
+  }
+
+  /**
+   * Services sorted by distance from a shared pin or named place, each with a map link
+   */
+  public static formatNearestServices(
+    results: { service: any; distanceKm: number }[],
+    placeName: string | null,
+    category: ServiceCategory | null,
+    language: LanguageCode = 'en'
+  ): BotResponse {
+    const place = placeName ?? translate('YOUR_LOCATION', language);
+    const quickReplies = translateQuickReplies(['More Services', 'Emergency Contacts', 'Main Menu'], language);
+
+    if (results.length === 0) {
+      return {
+        message: translate('NEAREST_EMPTY', language, { place }),
+        quickReplies
+      };
+    }
+
+    const intro = category
+      ? translate('NEAREST_CATEGORY_INTRO', language, {
+          category: translateQuickReplies([CATEGORY_LABELS[category]], language)[0],
+          place
+        })
+      : translate('NEAREST_INTRO', language, { place });
+
+    const serviceInfo = this.paginate(
+      results.map(({ service, distanceKm }) =>
+        `• ${service.organization}: ${service.services} (${formatDistance(distanceKm)})\n  ${openStreetMapLink(service)}`
+      ),
+      language
+    );
+
+    return {
+      message: `${intro}\n\n${serviceInfo.text}`,
+      quickReplies,
+      metadata: serviceInfo.metadata
     };
   }
 
-  public static formatEmergencyContacts(contacts: any[]): BotResponse {
+  /**
+   * Tell the user the list starts with their own settlement
+   */
+  public static withSettlementNote(response: BotResponse, settlementName: string, language: LanguageCode = 'en'): BotResponse {
+    return {
+      ...response,
+      message: `📍 ${translate('SETTLEMENT_FIRST', language, { settlement: settlementName })}\n\n${response.message}`
+    };
+  }
+
+  /**
+   * Offer a caseworker when the bot could not answer
+   */
+  public static withHandoffOffer(response: BotResponse, language: LanguageCode = 'en'): BotResponse {
+    return {
+      ...response,
+      message: `${response.message}\n\n${translate('HANDOFF_OFFER', language)}`,
+      quickReplies: translateQuickReplies(['Talk to a Person', 'Main Menu'], language)
+    };
+  }
+
+  public static formatMoreServicesMenu(language: LanguageCode = 'en'): BotResponse {
+    return {
+      message: translate('MORE_SERVICES_MENU', language),
+      quickReplies: translateQuickReplies(
+        [...MORE_SERVICE_CATEGORIES.map(category => CATEGORY_LABELS[category]), 'Main Menu'],
+        language
+      )
+    };
+  }
+
+  public static formatEmergencyContacts(contacts: any[], language: LanguageCode = 'en'): BotResponse {
     const urgentContacts = contacts
       .filter(contact => contact.is_urgent || contact.type === 'Emergency')
       .sort((a, b) => (b.is_urgent ? 1 : 0) - (a.is_urgent ? 1 : 0));
 
     const generalContacts = contacts.filter(contact => !contact.is_urgent && contact.type !== 'Emergency');
 
-    let message = '🚨 **Emergency & Important Contacts**\n\n';
+    let message = `${translate('CONTACTS_TITLE', language)}\n\n`;
 
     if (urgentContacts.length > 0) {
-      message += '**URGENT CONTACTS:**\n';
+      message += `${translate('URGENT_CONTACTS', language)}\n`;
       message += urgentContacts
         .map(contact => `• ${contact.entity}: ${contact.phone || contact.email}${contact.description ? ` - ${contact.description}` : ''}`)
         .join('\n');
     }
 
+    let metadata: BotResponseMetadata | undefined;
+
+    // Urgent contacts are always shown in full; only the rest is paginated
     if (generalContacts.length > 0) {
-      message += '\n\n**OTHER IMPORTANT CONTACTS:**\n';
-      message += generalContacts
-        .map(contact => `• ${contact.entity}: ${contact.phone || contact.email}${contact.description ? ` - ${contact.description}` : ''}`)
-        .join('\n');
+      const contactInfo = this.paginate(
+        generalContacts.map(contact => `• ${contact.entity}: ${contact.phone || contact.email}${contact.description ? ` - ${contact.description}` : ''}`),
+        language
+      );
+      message += `\n\n${translate('OTHER_CONTACTS', language)}\n`;
+      message += contactInfo.text;
+      metadata = contactInfo.metadata;
     }
 
     return {
       message,
-      quickReplies: ['More Contacts', 'Registration Help', 'Healthcare Info']
+      quickReplies: translateQuickReplies(['More Contacts', 'Registration Help', 'Healthcare Info'], language),
+      metadata
     };
   }
 
-  public static formatErrorResponse(error?: Error): BotResponse {
+  /**
+   * Reply to a safeguarding crisis: the opening line, then every urgent
+   * contact in full so nothing is hidden behind MORE
+   */
+  public static formatCrisisResponse(messageKey: MessageKey, contacts: Contact[], language: LanguageCode = 'en'): BotResponse {
+    const contactLines = contacts.map(contact =>
+      `• ${contact.entity}: ${contact.phone || contact.email}${contact.description ? ` - ${contact.description}` : ''}`
+    );
+
+    const contactText = contactLines.length > 0 ? contactLines.join('\n') : translate('CRISIS_NO_CONTACTS', language);
+
+    return {
+      message: `${translate(messageKey, language)}\n\n${contactText}\n\n${translate('CRISIS_FOLLOW_UP', language)}`,
+      quickReplies: translateQuickReplies(['Talk to a Person', 'Emergency Contacts', 'Main Menu'], language)
+    };
+  }
+
+  public static formatErrorResponse(error?: Error, language: LanguageCode = 'en'): BotResponse {
     return {
-      message: 'Sorry, I encountered an error while processing your request. Please try again or contact support if the issue persists.'
+      message: translate('ERROR_SUPPORT', language)
     };
   }
 
-  public static formatWelcomeResponse(): BotResponse {
+  public static formatWelcomeResponse(language: LanguageCode = 'en'): BotResponse {
+    return {
+      message: translate('WELCOME', language),
+      quickReplies: translateQuickReplies(['Registration', 'Food', 'Shelter', 'Healthcare', 'Emergency Contacts', 'More Services'], language)
+    };
+  }
+
+  public static formatClarifyingQuestion(labels: string[], language: LanguageCode = 'en'): BotResponse {
+    return {
+      message: translate('CLARIFY_QUESTION', language),
+      quickReplies: translateQuickReplies(labels, language)
+    };
+  }
+
+  public static formatFaqResponse(faq: Faq, language: LanguageCode = 'en'): BotResponse {
+    return {
+      message: `*${faq.question}*\n\n${faq.answer}`,
+      quickReplies: translateQuickReplies(['Main Menu'], language),
+      metadata: { faqId: faq.id, source: RESPONSE_SOURCES.FAQ }
+    };
+  }
+
+  public static formatTextResponse(key: MessageKey, language: LanguageCode = 'en'): BotResponse {
+    return {
+      message: translate(key, language)
+    };
+  }
+
+  /**
+   * Build the WhatsApp message body, listing quick replies as numbered options
+   * the user can answer by number or by label
+   */
+  public static formatForWhatsApp(response: BotResponse): string {
+    const quickReplies = response.quickReplies || [];
+    if (quickReplies.length === 0) {
+      return response.message;
+    }
+
+    const language = response.metadata?.language ?? 'en';
+    const options = quickReplies
+      .map((label, index) => `${index + 1}. ${label}`)
+      .join('\n');
+
+    return `${response.message}\n\n${translate('QUICK_REPLY_PROMPT', language)}\n${options}`;
+  }
+
+  /**
+   * Fulfillment for the Dialogflow agent: the reply and its quick replies,
+   * and the agent's output contexts plus one carrying the menu shown
+   */
+  public static formatForDialogflow(
+    response: BotResponse,
+    session: string,
+    contexts: DialogflowContext[] = []
+  ): DialogflowWebhookResponse {
+    const quickReplies = response.quickReplies || [];
+    const fulfillmentMessages: DialogflowFulfillmentMessage[] = [{ text: { text: [response.message] } }];
+    if (quickReplies.length > 0) {
+      fulfillmentMessages.push({ quickReplies: { quickReplies } });
+    }
+
+    const menuContext: DialogflowContext = {
+      name: `${session}/contexts/${DIALOGFLOW_MENU_CONTEXT.NAME}`,
+      lifespanCount: DIALOGFLOW_MENU_CONTEXT.LIFESPAN,
+      parameters: {
+        last_intent: response.metadata?.intent ?? null,
+        menu_options: quickReplies
+      }
+    };
+
+    return {
+      // Integrations without rich messages fall back to the text, with numbered options
+      fulfillmentText: this.formatForWhatsApp(response),
+      fulfillmentMessages,
+      outputContexts: [...contexts.filter(context => context.name !== menuContext.name), menuContext],
+      source: 'refugee-whatsapp-bot'
+    };
+  }
+
+  /**
+   * Show the next page of a list the user has already started reading
+   */
+  public static formatMoreItems(items: string[], offset: number, language: LanguageCode = 'en'): BotResponse {
+    if (offset >= items.length) {
+      return this.formatTextResponse('NO_MORE_ITEMS', language);
+    }
+
+    const page = this.paginate(items, language, offset);
+    return {
+      message: page.text,
+      metadata: page.metadata ?? { items, itemOffset: items.length }
+    };
+  }
+
+  /**
+   * Join one page of list lines. When more remain, the full list and the
+   * number shown so far are returned as metadata for the session.
+   */
+  private static paginate(
+    lines: string[],
+    language: LanguageCode,
+    offset: number = 0
+  ): { text: string; metadata?: BotResponseMetadata } {
+    const end = offset + LIST_PAGE_SIZE;
+    const text = lines.slice(offset, end).join('\n');
+
+    if (end >= lines.length) {
+      return { text };
+    }
+
     return {
-      message: 'Hello! I\'m here to provide information for refugees and displaced people in Mbarara. I can help you find information about registration, food, shelter, healthcare, and emergency contacts. What do you need help with today?',
-      quickReplies: ['Registration', 'Food', 'Shelter', 'Healthcare', 'Emergency Contacts']
+      text: `${text}\n\n${translate('MORE_HINT', language, { count: lines.length - end })}`,
+      metadata: { items: lines, itemOffset: end }
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,43 @@
+// src/utils/sessionToken.ts
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface SessionTokenPayload {
+  // admin_sessions.id
+  sid: string;
+  // Expiry, in ms since the epoch
+  exp: number;
+}
+
+/**
+ * <payload>.<signature>, both base64url; the signature is an HMAC-SHA256 of
+ * the payload. The token only names a session: revocation is checked against
+ * admin_sessions, the signature just lets forged tokens be turned away early.
+ */
+export function signSessionToken(payload: SessionTokenPayload, secret: string): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${sign(body, secret)}`;
+}
+
+/**
+ * The payload of a well-signed, unexpired token, otherwise null
+ */
+export function verifySessionToken(token: string, secret: string, now: number = Date.now()): SessionTokenPayload | null {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(body, secret));
+  const provided = Buffer.from(signature);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (typeof payload?.sid !== 'string' || typeof payload?.exp !== 'number') return null;
+    return payload.exp > now ? { sid: payload.sid, exp: payload.exp } : null;
+  } catch {
+    return null;
+  }
+}
+
+function sign(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('base64url');
+}
@@ -0,0 +1,87 @@
+// src/utils/slidingWindow.ts
+import type { ClientRateLimitInfo, Options, Store } from 'express-rate-limit';
+
+/**
+ * Recent hit times per key. A key's count covers exactly the last windowMs,
+ * so a burst straddling a window boundary is still counted as one burst.
+ */
+export class SlidingWindowCounter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private windowMs: number) {}
+
+  /**
+   * Record a hit and return the hit times still inside the window, oldest first
+   */
+  public hit(key: string, now: number = Date.now()): number[] {
+    const recent = this.recent(key, now);
+    recent.push(now);
+    this.hits.set(key, recent);
+    return recent;
+  }
+
+  public removeLatest(key: string): void {
+    const recent = this.hits.get(key);
+    recent?.pop();
+    if (recent && recent.length === 0) this.hits.delete(key);
+  }
+
+  public reset(key: string): void {
+    this.hits.delete(key);
+  }
+
+  /**
+   * Forget keys with no hits left in the window, so idle keys do not pile up
+   */
+  public prune(now: number = Date.now()): void {
+    for (const key of this.hits.keys()) {
+      if (this.recent(key, now).length === 0) this.hits.delete(key);
+    }
+  }
+
+  private recent(key: string, now: number): number[] {
+    return (this.hits.get(key) || []).filter(time => now - time < this.windowMs);
+  }
+}
+
+/**
+ * express-rate-limit store with sliding-window counting, in place of its
+ * fixed-window MemoryStore. Counts are kept per process.
+ */
+export class SlidingWindowStore implements Store {
+  private counter: SlidingWindowCounter | null = null;
+  private windowMs = 0;
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  public init(options: Options): void {
+    this.windowMs = options.windowMs;
+    this.counter = new SlidingWindowCounter(options.windowMs);
+
+    this.pruneTimer = setInterval(() => this.counter?.prune(), options.windowMs);
+    this.pruneTimer.unref();
+  }
+
+  public async increment(key: string): Promise<ClientRateLimitInfo> {
+    const hits = this.getCounter().hit(key);
+    return {
+      totalHits: hits.length,
+      // The count drops once the oldest hit leaves the window
+      resetTime: new Date(hits[0] + this.windowMs)
+    };
+  }
+
+  public async decrement(key: string): Promise<void> {
+    this.getCounter().removeLatest(key);
+  }
+
+  public async resetKey(key: string): Promise<void> {
+    this.getCounter().reset(key);
+  }
+
+  private getCounter(): SlidingWindowCounter {
+    if (!this.counter) {
+      throw new Error('SlidingWindowStore used before init');
+    }
+    return this.counter;
+  }
+}
@@ -0,0 +1,126 @@
+// src/utils/textMatching.ts
+
+/**
+ * Lowercase and strip accents so "Santé" and "sante" compare equal.
+ * Non-Latin scripts are left as they are.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim();
+}
+
+/**
+ * Split text into word tokens, keeping apostrophes inside words (eby'okurya)
+ * and combining marks such as the Arabic hamza
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^\p{L}\p{M}\p{N}']+/u)
+    .map(token => token.replace(/^'+|'+$/g, ''))
+    .filter(token => token.length > 0);
+}
+
+/**
+ * Levenshtein distance, giving up early once maxDistance is exceeded
+ */
+export function editDistance(a: string, b: string, maxDistance: number = Infinity): number {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Typos tolerated for a word of this length: none for short words,
+ * where a single edit usually makes a different word
+ */
+export function allowedTypos(word: string): number {
+  if (word.length >= 9) return 2;
+  if (word.length >= 5) return 1;
+  return 0;
+}
+
+/**
+ * In words of five or six letters a changed first or last letter usually
+ * makes another word ("stars" and "start"), so only typos inside count
+ */
+function keepsEnds(word: string, target: string): boolean {
+  if (Math.min(word.length, target.length) > 6) return true;
+  return word[0] === target[0] && word[word.length - 1] === target[target.length - 1];
+}
+
+const INFLECTION_SUFFIXES = ['s', 'es', 'ed', 'ing', 'er', 'ers'];
+
+/**
+ * How closely one word matches another: 1 for the same word, 0.9 for a simple
+ * inflection ("registering"), 0.7 for a tolerated typo and 0 otherwise
+ */
+export function wordSimilarity(word: string, target: string): number {
+  if (word === target) return 1;
+
+  // Very short stems are skipped so "his" is not read as "hi" + s
+  const isInflection = Math.min(word.length, target.length) >= 3 &&
+    INFLECTION_SUFFIXES.some(suffix => word === target + suffix || target === word + suffix);
+
+  if (isInflection) {
+    return 0.9;
+  }
+
+  const tolerance = Math.min(allowedTypos(word), allowedTypos(target));
+  if (tolerance > 0 && editDistance(word, target, tolerance) <= tolerance && keepsEnds(word, target)) {
+    return 0.7;
+  }
+
+  return 0;
+}
+
+// Words that say nothing about what is being asked
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'am', 'was', 'be', 'do', 'does', 'did', 'i', 'me', 'my', 'we', 'our',
+  'you', 'your', 'it', 'its', 'can', 'could', 'should', 'will', 'would', 'how', 'what', 'where', 'when',
+  'who', 'which', 'why', 'to', 'of', 'for', 'in', 'on', 'at', 'and', 'or', 'with', 'about', 'there',
+  'please', 'get', 'if', 'any', 'this', 'that',
+  'je', 'le', 'la', 'les', 'un', 'une', 'de', 'des', 'du', 'et', 'est', 'pour',
+  'na', 'ya', 'wa', 'kwa', 'ni'
+]);
+
+/**
+ * The distinct words of a text that carry meaning
+ */
+export function contentWords(text: string): string[] {
+  return [...new Set(tokenize(text).filter(word => !STOP_WORDS.has(word)))];
+}
+
+/**
+ * Dice overlap of two word sets, counting near matches (typos, plurals)
+ * as partial matches
+ */
+export function wordOverlap(words: string[], targetWords: string[]): number {
+  if (words.length === 0 || targetWords.length === 0) return 0;
+
+  let matched = 0;
+  for (const targetWord of targetWords) {
+    matched += Math.max(...words.map(word => wordSimilarity(word, targetWord)));
+  }
+
+  return (2 * matched) / (words.length + targetWords.length);
+}
@@ -0,0 +1,684 @@
+// src/utils/translations.ts
+import { BOT_MESSAGES } from './constants.js';
+import { DEFAULT_LANGUAGE, LanguageCode } from './languages.js';
+
+/**
+ * English is the source catalog. Every other language may be partial;
+ * missing keys fall back to English.
+ */
+const ENGLISH_MESSAGES = {
+  ...BOT_MESSAGES,
+  ERROR_SUPPORT: 'Sorry, I encountered an error while processing your request. Please try again or contact support if the issue persists.',
+  EMPTY_MESSAGE: 'Please send a message with your question. I can help with registration, food, shelter, healthcare, and emergency contacts.',
+  MESSAGE_TOO_LONG: 'Your message is too long. Please keep your questions brief and focused on one topic at a time.',
+  PROCESSING_ERROR: 'Sorry, I encountered an error while processing your message. Please try again in a moment.',
+  HELP_TOPICS: 'I\'m here to help with registration, food, shelter, healthcare, and emergency contacts for refugees in Mbarara. What specific information do you need?',
+  INTENT_DEFAULT: 'I can help you with registration, food, shelter, healthcare, and emergency contacts. What specific information do you need?',
+  DIALOGFLOW_NO_RESPONSE: 'I apologize, but I could not process your request.',
+  REGISTRATION_INTRO: 'I can help with refugee registration. Here\'s the process:',
+  REGISTRATION_OUTRO: 'Reply STEP and a number, for example STEP 1, to see the details of that step.',
+  ESSENTIAL: 'Essential',
+  FOOD_EMPTY: 'Food assistance is primarily provided by the World Food Programme (WFP) to registered refugees in settlements. Please ensure you are registered with OPM to access these services.',
+  FOOD_INTRO: 'Food assistance options:',
+  FOOD_NOTE: 'Note: Most food aid requires official registration and is distributed through settlements.',
+  SHELTER_EMPTY: 'Shelter assistance is arranged through the official registration process with OPM. You need to report to the OPM Refugee Desk to be assigned a place in a settlement. Would you like their contact information?',
+  SHELTER_INTRO: 'Shelter assistance options:',
+  SHELTER_NOTE: 'Note: Most shelter assistance requires official registration with OPM.',
+  HEALTH_INTRO: 'Healthcare services available:',
+  EMERGENCY_CONTACTS: 'Emergency Contacts:',
+  CONTACTS_TITLE: '🚨 **Emergency & Important Contacts**',
+  URGENT_CONTACTS: '**URGENT CONTACTS:**',
+  OTHER_CONTACTS: '**OTHER IMPORTANT CONTACTS:**',
+  LANGUAGE_MENU: 'Choose your language. Reply LANGUAGE followed by the code, for example LANGUAGE sw:',
+  LANGUAGE_CHANGED: 'Your language is now {language}.',
+  LANGUAGE_UNKNOWN: 'Sorry, that language is not supported yet.',
+  MORE_HINT: 'Reply MORE to see {count} more.',
+  NO_MORE_ITEMS: 'There is nothing more to show. Reply BACK to go back or MENU for the main menu.',
+  INVALID_OPTION: 'Please reply with one of the numbers shown, or tell me what you need.',
+  QUICK_REPLY_PROMPT: 'Reply with a number:',
+  CLARIFY_QUESTION: 'I\'m not sure which of these you mean. Please choose one:',
+  ESSENTIAL_DOCUMENTS: 'Essential documents:',
+  OTHER_DOCUMENTS: 'Other useful documents:',
+  DOCUMENTS_EMPTY: 'Document details are not available right now. Please ask at the OPM Refugee Desk.',
+  STEPS_EMPTY: 'Registration step details are not available right now. Please ask at the OPM Refugee Desk.',
+  STEP_HEADING: 'Step {number} of {total}: {title}',
+  STEP_LOCATION: 'Where',
+  STEP_CONTACT: 'Who to contact',
+  STEP_REQUIREMENTS: 'What you need',
+  STEP_DURATION: 'How long it takes',
+  STEP_NOT_FOUND: 'There is no step {number}. Registration has {total} steps.',
+  STEP_LABEL: 'Step {number}',
+  STEP_PREVIOUS: 'Previous: step {number}',
+  STEP_NEXT: 'Next: step {number}',
+  CATEGORY_INTRO: '{category} services:',
+  CATEGORY_EMPTY: 'I don\'t have any {category} services listed yet. Reply MENU to see other topics, or ask the OPM Refugee Desk.',
+  MORE_SERVICES_MENU: 'What kind of service are you looking for?',
+  YOUR_LOCATION: 'your location',
+  NEAREST_INTRO: 'Services nearest to {place}:',
+  NEAREST_CATEGORY_INTRO: '{category} services nearest to {place}:',
+  NEAREST_EMPTY: 'I couldn\'t find any mapped services near {place} yet. Reply MENU to browse services by topic.',
+  SETTLEMENT_FIRST: 'Showing {settlement} first, then services for the whole region. Name another settlement to change it.',
+  CRISIS_SUICIDE: '🆘 You are not alone, and what you are feeling matters. Please talk to someone right now. These people can help today:',
+  CRISIS_MEDICAL: '🆘 This sounds like a medical emergency. Get to the nearest health facility or call for help now:',
+  CRISIS_CHILD: '🆘 A child may be at risk. Please report this now so they can be protected:',
+  CRISIS_GBV: '🆘 What is happening to you is not your fault, and you deserve to be safe. Confidential help is available now:',
+  CRISIS_VIOLENCE: '🆘 If you are in danger, move somewhere safe if you can and call for help now:',
+  CRISIS_NO_CONTACTS: 'Call the police on 999 or 112.',
+  CRISIS_FOLLOW_UP: 'A member of staff has been alerted and may follow up with you. Reply MENU at any time for other information.',
+  HANDOFF_OPENED: '👤 I\'ve asked a caseworker to join this chat. They will reply here, usually during working hours. Until this chat is closed the bot is paused and everything you send goes to them. Reply BOT to go back to the bot at any time.',
+  HANDOFF_ALREADY_OPEN: '👤 A caseworker already has your conversation. They will reply here as soon as they can.',
+  HANDOFF_CLOSED: '✅ The caseworker has closed this conversation. You are talking to the bot again. Reply MENU to see what I can help with.',
+  HANDOFF_LEFT: '✅ You are talking to the bot again and the caseworker has been told. Reply AGENT if you need a person later.',
+  HANDOFF_OFFER: 'I couldn\'t answer that. Reply AGENT to talk to a person.',
+  FEEDBACK_PROMPT: 'Was this helpful? Reply 👍 or 👎, or rate it from 1 to 5 like "4/5".',
+  FEEDBACK_THANKS: 'Thank you for your feedback! Reply with a comment if you want to tell us more, or MENU to continue.',
+  FEEDBACK_COMMENT_THANKS: 'Thank you, your comment has been passed to the team.',
+  NEAREST_ASK_LOCATION: 'Share your location pin or tell me which settlement you are in, and I will list the services nearest to you.',
+  RATE_LIMITED: '⏳ You are sending messages faster than I can answer them. Please wait a minute, then send your question again.'
+};
+
+export type MessageKey = keyof typeof ENGLISH_MESSAGES;
+
+const MESSAGES: Record<LanguageCode, Partial<Record<MessageKey, string>>> = {
+  en: ENGLISH_MESSAGES,
+  sw: {
+    WELCOME: 'Habari! Niko hapa kutoa taarifa kwa wakimbizi na watu waliohamishwa huko Mbarara. Ninaweza kukusaidia kupata taarifa kuhusu usajili, chakula, makazi, huduma za afya na mawasiliano ya dharura. Unahitaji msaada gani leo?',
+    FALLBACK: 'Samahani, sikuelewa vizuri. Ninaweza kukusaidia kuhusu usajili, chakula, makazi, huduma za afya na mawasiliano ya dharura. Tafadhali niambie unachohitaji.',
+    ERROR: 'Samahani, kumetokea hitilafu wakati wa kushughulikia ombi lako. Tafadhali jaribu tena.',
+    ESCALATION: 'Kwa msaada zaidi kuhusu suala hili, wasiliana na {organization} moja kwa moja kupitia {contact}.',
+    GOODBYE: 'Asante kwa kutumia huduma yetu. Kaa salama!',
+    ERROR_SUPPORT: 'Samahani, kumetokea hitilafu wakati wa kushughulikia ombi lako. Tafadhali jaribu tena au wasiliana na msaada tatizo likiendelea.',
+    EMPTY_MESSAGE: 'Tafadhali tuma ujumbe wenye swali lako. Ninaweza kusaidia kuhusu usajili, chakula, makazi, afya na mawasiliano ya dharura.',
+    MESSAGE_TOO_LONG: 'Ujumbe wako ni mrefu sana. Tafadhali uliza maswali mafupi kuhusu jambo moja kwa wakati mmoja.',
+    PROCESSING_ERROR: 'Samahani, kumetokea hitilafu wakati wa kushughulikia ujumbe wako. Tafadhali jaribu tena baada ya muda mfupi.',
+    HELP_TOPICS: 'Niko hapa kusaidia kuhusu usajili, chakula, makazi, afya na mawasiliano ya dharura kwa wakimbizi huko Mbarara. Unahitaji taarifa gani hasa?',
+    INTENT_DEFAULT: 'Ninaweza kukusaidia kuhusu usajili, chakula, makazi, afya na mawasiliano ya dharura. Unahitaji taarifa gani hasa?',
+    DIALOGFLOW_NO_RESPONSE: 'Samahani, sikuweza kushughulikia ombi lako.',
+    REGISTRATION_INTRO: 'Ninaweza kusaidia kuhusu usajili wa wakimbizi. Hatua ni hizi:',
+    REGISTRATION_OUTRO: 'Jibu HATUA na namba, kwa mfano HATUA 1, kuona maelezo ya hatua hiyo.',
+    ESSENTIAL: 'Muhimu',
+    FOOD_EMPTY: 'Msaada wa chakula hutolewa hasa na Shirika la Chakula Duniani (WFP) kwa wakimbizi waliosajiliwa kwenye makazi. Hakikisha umesajiliwa na OPM ili kupata huduma hizi.',
+    FOOD_INTRO: 'Njia za kupata msaada wa chakula:',
+    FOOD_NOTE: 'Kumbuka: Msaada mwingi wa chakula unahitaji usajili rasmi na hugawiwa kupitia makazi.',
+    SHELTER_EMPTY: 'Msaada wa makazi hupangwa kupitia usajili rasmi na OPM. Unahitaji kuripoti kwenye Dawati la Wakimbizi la OPM ili kupewa nafasi kwenye makazi. Ungependa mawasiliano yao?',
+    SHELTER_INTRO: 'Njia za kupata msaada wa makazi:',
+    SHELTER_NOTE: 'Kumbuka: Msaada mwingi wa makazi unahitaji usajili rasmi na OPM.',
+    HEALTH_INTRO: 'Huduma za afya zinazopatikana:',
+    EMERGENCY_CONTACTS: 'Mawasiliano ya dharura:',
+    CONTACTS_TITLE: '🚨 **Mawasiliano ya Dharura na Muhimu**',
+    URGENT_CONTACTS: '**MAWASILIANO YA HARAKA:**',
+    OTHER_CONTACTS: '**MAWASILIANO MENGINE MUHIMU:**',
+    LANGUAGE_MENU: 'Chagua lugha yako. Jibu LUGHA ikifuatiwa na msimbo, kwa mfano LUGHA sw:',
+    LANGUAGE_CHANGED: 'Lugha yako sasa ni {language}.',
+    LANGUAGE_UNKNOWN: 'Samahani, lugha hiyo bado haitumiki.',
+    MORE_HINT: 'Jibu ZAIDI kuona {count} zaidi.',
+    NO_MORE_ITEMS: 'Hakuna zaidi ya kuonyesha. Jibu RUDI kurudi nyuma au MENYU kwa menyu kuu.',
+    INVALID_OPTION: 'Tafadhali jibu kwa mojawapo ya namba zilizoonyeshwa, au niambie unachohitaji.',
+    QUICK_REPLY_PROMPT: 'Jibu kwa namba:',
+    CLARIFY_QUESTION: 'Sina uhakika unamaanisha lipi kati ya haya. Tafadhali chagua moja:',
+    ESSENTIAL_DOCUMENTS: 'Nyaraka muhimu:',
+    OTHER_DOCUMENTS: 'Nyaraka nyingine zinazosaidia:',
+    DOCUMENTS_EMPTY: 'Maelezo ya nyaraka hayapatikani kwa sasa. Tafadhali uliza kwenye Dawati la Wakimbizi la OPM.',
+    STEPS_EMPTY: 'Maelezo ya hatua za usajili hayapatikani kwa sasa. Tafadhali uliza kwenye Dawati la Wakimbizi la OPM.',
+    STEP_HEADING: 'Hatua {number} kati ya {total}: {title}',
+    STEP_LOCATION: 'Wapi',
+    STEP_CONTACT: 'Wasiliana na',
+    STEP_REQUIREMENTS: 'Unachohitaji',
+    STEP_DURATION: 'Muda unaochukua',
+    STEP_NOT_FOUND: 'Hakuna hatua {number}. Usajili una hatua {total}.',
+    STEP_LABEL: 'Hatua {number}',
+    STEP_PREVIOUS: 'Iliyopita: hatua {number}',
+    STEP_NEXT: 'Inayofuata: hatua {number}',
+    CATEGORY_INTRO: 'Huduma za {category}:',
+    CATEGORY_EMPTY: 'Bado sina huduma za {category} zilizoorodheshwa. Jibu MENYU kuona mada nyingine, au uliza Dawati la Wakimbizi la OPM.',
+    MORE_SERVICES_MENU: 'Unatafuta huduma ya aina gani?',
+    YOUR_LOCATION: 'mahali ulipo',
+    NEAREST_INTRO: 'Huduma zilizo karibu zaidi na {place}:',
+    NEAREST_CATEGORY_INTRO: 'Huduma za {category} zilizo karibu zaidi na {place}:',
+    NEAREST_EMPTY: 'Bado sijapata huduma zilizo kwenye ramani karibu na {place}. Jibu MENYU kuangalia huduma kwa mada.',
+    SETTLEMENT_FIRST: 'Inaonyesha {settlement} kwanza, kisha huduma za eneo zima. Taja makazi mengine kubadilisha.',
+    CRISIS_SUICIDE: '🆘 Hauko peke yako, na hisia zako ni muhimu. Tafadhali ongea na mtu sasa hivi. Watu hawa wanaweza kusaidia leo:',
+    CRISIS_MEDICAL: '🆘 Hii inaonekana kuwa dharura ya kiafya. Nenda kituo cha afya kilicho karibu au piga simu kuomba msaada sasa:',
+    CRISIS_CHILD: '🆘 Mtoto anaweza kuwa hatarini. Tafadhali ripoti sasa ili alindwe:',
+    CRISIS_GBV: '🆘 Yanayokutokea si kosa lako, na unastahili kuwa salama. Msaada wa siri unapatikana sasa:',
+    CRISIS_VIOLENCE: '🆘 Ukiwa hatarini, nenda mahali salama ukiweza na upige simu kuomba msaada sasa:',
+    CRISIS_NO_CONTACTS: 'Piga simu polisi kwa 999 au 112.',
+    CRISIS_FOLLOW_UP: 'Mfanyakazi amearifiwa na anaweza kuwasiliana nawe. Jibu MENU wakati wowote kwa taarifa nyingine.',
+    HANDOFF_OPENED: '👤 Nimemwomba mfanyakazi wa kesi ajiunge na mazungumzo haya. Atajibu hapa, kwa kawaida wakati wa saa za kazi. Hadi mazungumzo haya yafungwe, boti imesimama na kila unachotuma kinamfikia yeye. Jibu BOT kurudi kwa boti wakati wowote.',
+    HANDOFF_ALREADY_OPEN: '👤 Mfanyakazi wa kesi tayari ana mazungumzo yako. Atajibu hapa haraka iwezekanavyo.',
+    HANDOFF_CLOSED: '✅ Mfanyakazi amefunga mazungumzo haya. Sasa unaongea na boti tena. Jibu MENU kuona ninachoweza kusaidia.',
+    HANDOFF_LEFT: '✅ Sasa unaongea na boti tena na mfanyakazi wa kesi amejulishwa. Jibu AGENT ukihitaji mtu baadaye.',
+    HANDOFF_OFFER: 'Sikuweza kujibu hilo. Jibu AGENT kuongea na mtu.',
+    FEEDBACK_PROMPT: 'Je, hili limesaidia? Jibu 👍 au 👎, au toa alama kutoka 1 hadi 5 kama "4/5".',
+    FEEDBACK_THANKS: 'Asante kwa maoni yako! Jibu na maoni zaidi ukitaka kutueleza zaidi, au MENU kuendelea.',
+    FEEDBACK_COMMENT_THANKS: 'Asante, maoni yako yamepelekwa kwa timu.',
+    NEAREST_ASK_LOCATION: 'Tuma alama ya mahali ulipo au niambie uko makazi gani, nami nitakuorodheshea huduma zilizo karibu nawe.',
+    RATE_LIMITED: '⏳ Unatuma ujumbe haraka kuliko ninavyoweza kujibu. Tafadhali subiri dakika moja, kisha tuma swali lako tena.'
+  },
+  rw: {
+    WELCOME: 'Muraho! Ndi hano kugira ngo mbahe amakuru agenewe impunzi n\'abavanywe mu byabo i Mbarara. Nshobora kubafasha kubona amakuru ku kwiyandikisha, ibiryo, icumbi, ubuvuzi n\'aho mwahamagara mu bihe byihutirwa. Ni iki mukeneye uyu munsi?',
+    FALLBACK: 'Mbabarira, sinumvise neza. Nshobora kugufasha ku kwiyandikisha, ibiryo, icumbi, ubuvuzi n\'aho wahamagara byihutirwa. Mbwira icyo ukeneye.',
+    ERROR: 'Mbabarira, habaye ikibazo mu gusubiza ubusabe bwawe. Ongera ugerageze.',
+    ESCALATION: 'Ku bufasha burambuye kuri iki kibazo, hamagara {organization} kuri {contact}.',
+    GOODBYE: 'Murakoze gukoresha serivisi yacu. Mugire amahoro!',
+    EMPTY_MESSAGE: 'Ohereza ubutumwa burimo ikibazo cyawe. Nshobora kugufasha ku kwiyandikisha, ibiryo, icumbi, ubuvuzi n\'aho wahamagara byihutirwa.',
+    MESSAGE_TOO_LONG: 'Ubutumwa bwawe ni burebure cyane. Baza ibibazo bigufi ku kintu kimwe icyarimwe.',
+    PROCESSING_ERROR: 'Mbabarira, habaye ikibazo mu gusoma ubutumwa bwawe. Ongera ugerageze mu kanya.',
+    HELP_TOPICS: 'Ndi hano kugufasha ku kwiyandikisha, ibiryo, icumbi, ubuvuzi n\'aho wahamagara byihutirwa ku mpunzi z\'i Mbarara. Ni ayahe makuru ukeneye?',
+    INTENT_DEFAULT: 'Nshobora kugufasha ku kwiyandikisha, ibiryo, icumbi, ubuvuzi n\'aho wahamagara byihutirwa. Ni ayahe makuru ukeneye?',
+    REGISTRATION_INTRO: 'Nshobora kugufasha ku kwiyandikisha nk\'impunzi. Dore intambwe:',
+    REGISTRATION_OUTRO: 'Subiza INTAMBWE n\'umubare, urugero INTAMBWE 1, urebe ibisobanuro by\'iyo ntambwe.',
+    ESSENTIAL: 'By\'ingenzi',
+    FOOD_INTRO: 'Aho wabona ubufasha bw\'ibiryo:',
+    SHELTER_INTRO: 'Aho wabona ubufasha bw\'icumbi:',
+    HEALTH_INTRO: 'Serivisi z\'ubuvuzi zihari:',
+    EMERGENCY_CONTACTS: 'Aho wahamagara byihutirwa:',
+    CONTACTS_TITLE: '🚨 **Aho Wahamagara Byihutirwa n\'Ahandi h\'Ingenzi**',
+    URGENT_CONTACTS: '**BYIHUTIRWA:**',
+    OTHER_CONTACTS: '**AHANDI H\'INGENZI:**',
+    LANGUAGE_MENU: 'Hitamo ururimi. Subiza URURIMI ukurikizeho kode, urugero URURIMI rw:',
+    LANGUAGE_CHANGED: 'Ururimi rwawe ubu ni {language}.',
+    LANGUAGE_UNKNOWN: 'Mbabarira, urwo rurimi ntiruraboneka.',
+    MORE_HINT: 'Subiza IBINDI urebe ibindi {count}.',
+    NO_MORE_ITEMS: 'Nta bindi bihari. Subiza INYUMA gusubira inyuma cyangwa AHABANZA.',
+    INVALID_OPTION: 'Subiza ukoresheje imwe mu mibare yerekanwe, cyangwa umbwire icyo ukeneye.',
+    QUICK_REPLY_PROMPT: 'Subiza ukoresheje umubare:',
+    CLARIFY_QUESTION: 'Sinzi neza icyo ushaka muri ibi. Hitamo kimwe:',
+    ESSENTIAL_DOCUMENTS: 'Ibyangombwa by\'ingenzi:',
+    OTHER_DOCUMENTS: 'Ibindi byangombwa bifasha:',
+    STEP_HEADING: 'Intambwe ya {number} muri {total}: {title}',
+    STEP_LOCATION: 'Aho ari',
+    STEP_CONTACT: 'Uwo wabaza',
+    STEP_REQUIREMENTS: 'Ibyo ukeneye',
+    STEP_DURATION: 'Igihe bifata',
+    STEP_NOT_FOUND: 'Nta ntambwe ya {number} ihari. Kwiyandikisha bifite intambwe {total}.',
+    STEP_LABEL: 'Intambwe {number}',
+    STEP_PREVIOUS: 'Ibanziriza: intambwe {number}',
+    STEP_NEXT: 'Ikurikira: intambwe {number}',
+    CATEGORY_INTRO: 'Serivisi za {category}:',
+    CATEGORY_EMPTY: 'Nta serivisi za {category} ziranditswe. Subiza AHABANZA urebe izindi ngingo, cyangwa ubaze ku biro bya OPM.',
+    MORE_SERVICES_MENU: 'Urashaka serivisi y\'ubuhe bwoko?',
+    YOUR_LOCATION: 'aho uri',
+    NEAREST_INTRO: 'Serivisi ziri hafi ya {place}:',
+    NEAREST_CATEGORY_INTRO: 'Serivisi za {category} ziri hafi ya {place}:',
+    NEAREST_EMPTY: 'Nta serivisi zanditswe ku ikarita hafi ya {place}. Subiza AHABANZA urebe serivisi ukurikije ingingo.',
+    SETTLEMENT_FIRST: 'Turabanza {settlement}, hanyuma serivisi z\'akarere kose. Vuga indi nkambi kugira ngo uhindure.',
+    CRISIS_SUICIDE: '🆘 Ntabwo uri wenyine, kandi ibyo wumva bifite agaciro. Nyamuneka vugana n\'umuntu ubu. Aba bantu bashobora kugufasha uyu munsi:',
+    CRISIS_MEDICAL: '🆘 Ibi bisa n\'ikibazo cy\'ubuzima cyihutirwa. Jya ku kigo nderabuzima kiri hafi cyangwa uhamagare ubufasha ubu:',
+    CRISIS_CHILD: '🆘 Umwana ashobora kuba ari mu kaga. Nyamuneka bimenyeshe ubu kugira ngo arindwe:',
+    CRISIS_GBV: '🆘 Ibikubaho si amakosa yawe, kandi ukwiye kuba utekanye. Ubufasha bw\'ibanga burahari ubu:',
+    CRISIS_VIOLENCE: '🆘 Niba uri mu kaga, jya ahantu hatekanye niba bishoboka kandi uhamagare ubufasha ubu:',
+    CRISIS_NO_CONTACTS: 'Hamagara polisi kuri 999 cyangwa 112.',
+    CRISIS_FOLLOW_UP: 'Umukozi yamenyeshejwe kandi ashobora kukuvugisha. Subiza MENU igihe icyo ari cyo cyose ku yandi makuru.',
+    HANDOFF_OPENED: '👤 Nasabye umukozi ushinzwe gukurikirana ibibazo kwinjira muri iki kiganiro. Azagusubiza hano, ubusanzwe mu masaha y\'akazi. Kugeza iki kiganiro gifunzwe, bot irahagaze kandi ibyo wohereje byose bimugeraho. Subiza BOT igihe cyose ushaka gusubira kuri bot.',
+    HANDOFF_ALREADY_OPEN: '👤 Umukozi asanzwe afite ikiganiro cyawe. Azagusubiza hano vuba bishoboka.',
+    HANDOFF_CLOSED: '✅ Umukozi yafunze iki kiganiro. Wongeye kuvugana na bot. Subiza MENU urebe ibyo nagufasha.',
+    HANDOFF_LEFT: '✅ Wongeye kuvugana na bot kandi umukozi yabimenyeshejwe. Subiza AGENT niba ukeneye umuntu nyuma.',
+    HANDOFF_OFFER: 'Sinashoboye gusubiza ibyo. Subiza AGENT kugira ngo uvugane n\'umuntu.',
+    FEEDBACK_PROMPT: 'Ibi byagufashije? Subiza 👍 cyangwa 👎, cyangwa utange amanota kuva kuri 1 kugeza kuri 5 nka "4/5".',
+    FEEDBACK_THANKS: 'Murakoze ku gitekerezo cyanyu! Subiza n\'igitekerezo niba ushaka kutubwira byinshi, cyangwa MENU gukomeza.',
+    FEEDBACK_COMMENT_THANKS: 'Murakoze, igitekerezo cyanyu cyagejejwe ku itsinda.',
+    NEAREST_ASK_LOCATION: 'Ohereza aho uherereye cyangwa umbwire inkambi urimo, nkwereke serivisi ziri hafi yawe.',
+    RATE_LIMITED: '⏳ Urimo kohereza ubutumwa vuba kurusha uko nshobora kubusubiza. Tegereza umunota umwe, hanyuma wongere wohereze ikibazo cyawe.'
+  },
+  fr: {
+    WELCOME: 'Bonjour ! Je suis là pour informer les réfugiés et les personnes déplacées à Mbarara. Je peux vous aider à trouver des informations sur l\'enregistrement, la nourriture, l\'abri, les soins de santé et les contacts d\'urgence. De quoi avez-vous besoin aujourd\'hui ?',
+    FALLBACK: 'Désolé, je n\'ai pas bien compris. Je peux vous aider pour l\'enregistrement, la nourriture, l\'abri, les soins de santé et les contacts d\'urgence. Dites-moi ce dont vous avez besoin.',
+    ERROR: 'Désolé, une erreur s\'est produite lors du traitement de votre demande. Veuillez réessayer.',
+    ESCALATION: 'Pour une aide détaillée sur ce problème, contactez directement {organization} au {contact}.',
+    GOODBYE: 'Merci d\'avoir utilisé notre service. Prenez soin de vous !',
+    ERROR_SUPPORT: 'Désolé, une erreur s\'est produite lors du traitement de votre demande. Veuillez réessayer ou contacter le support si le problème persiste.',
+    EMPTY_MESSAGE: 'Veuillez envoyer un message avec votre question. Je peux vous aider pour l\'enregistrement, la nourriture, l\'abri, la santé et les contacts d\'urgence.',
+    MESSAGE_TOO_LONG: 'Votre message est trop long. Posez des questions courtes, un sujet à la fois.',
+    PROCESSING_ERROR: 'Désolé, une erreur s\'est produite lors du traitement de votre message. Veuillez réessayer dans un instant.',
+    HELP_TOPICS: 'Je suis là pour vous aider pour l\'enregistrement, la nourriture, l\'abri, la santé et les contacts d\'urgence pour les réfugiés à Mbarara. Quelle information vous faut-il ?',
+    INTENT_DEFAULT: 'Je peux vous aider pour l\'enregistrement, la nourriture, l\'abri, la santé et les contacts d\'urgence. Quelle information vous faut-il ?',
+    DIALOGFLOW_NO_RESPONSE: 'Désolé, je n\'ai pas pu traiter votre demande.',
+    REGISTRATION_INTRO: 'Je peux vous aider pour l\'enregistrement des réfugiés. Voici les étapes :',
+    REGISTRATION_OUTRO: 'Répondez ÉTAPE suivi d\'un numéro, par exemple ÉTAPE 1, pour voir le détail de cette étape.',
+    ESSENTIAL: 'Indispensable',
+    FOOD_EMPTY: 'L\'aide alimentaire est principalement fournie par le Programme alimentaire mondial (PAM/WFP) aux réfugiés enregistrés dans les camps. Assurez-vous d\'être enregistré auprès de l\'OPM pour y accéder.',
+    FOOD_INTRO: 'Options d\'aide alimentaire :',
+    FOOD_NOTE: 'Remarque : la plupart de l\'aide alimentaire exige un enregistrement officiel et est distribuée dans les camps.',
+    SHELTER_EMPTY: 'L\'aide au logement est organisée via l\'enregistrement officiel auprès de l\'OPM. Présentez-vous au bureau des réfugiés de l\'OPM pour obtenir une place dans un camp. Voulez-vous leurs coordonnées ?',
+    SHELTER_INTRO: 'Options d\'aide au logement :',
+    SHELTER_NOTE: 'Remarque : la plupart de l\'aide au logement exige un enregistrement officiel auprès de l\'OPM.',
+    HEALTH_INTRO: 'Services de santé disponibles :',
+    EMERGENCY_CONTACTS: 'Contacts d\'urgence :',
+    CONTACTS_TITLE: '🚨 **Contacts d\'urgence et importants**',
+    URGENT_CONTACTS: '**CONTACTS URGENTS :**',
+    OTHER_CONTACTS: '**AUTRES CONTACTS IMPORTANTS :**',
+    LANGUAGE_MENU: 'Choisissez votre langue. Répondez LANGUE suivi du code, par exemple LANGUE fr :',
+    LANGUAGE_CHANGED: 'Votre langue est maintenant : {language}.',
+    LANGUAGE_UNKNOWN: 'Désolé, cette langue n\'est pas encore prise en charge.',
+    MORE_HINT: 'Répondez PLUS pour voir {count} de plus.',
+    NO_MORE_ITEMS: 'Il n\'y a rien d\'autre à afficher. Répondez RETOUR pour revenir ou MENU pour le menu principal.',
+    INVALID_OPTION: 'Veuillez répondre avec l\'un des numéros affichés, ou dites-moi ce dont vous avez besoin.',
+    QUICK_REPLY_PROMPT: 'Répondez avec un numéro :',
+    CLARIFY_QUESTION: 'Je ne suis pas sûr de ce que vous voulez dire. Choisissez une option :',
+    ESSENTIAL_DOCUMENTS: 'Documents indispensables :',
+    OTHER_DOCUMENTS: 'Autres documents utiles :',
+    DOCUMENTS_EMPTY: 'Les informations sur les documents ne sont pas disponibles pour le moment. Renseignez-vous au bureau des réfugiés de l\'OPM.',
+    STEPS_EMPTY: 'Le détail des étapes d\'enregistrement n\'est pas disponible pour le moment. Renseignez-vous au bureau des réfugiés de l\'OPM.',
+    STEP_HEADING: 'Étape {number} sur {total} : {title}',
+    STEP_LOCATION: 'Où',
+    STEP_CONTACT: 'Qui contacter',
+    STEP_REQUIREMENTS: 'Ce qu\'il vous faut',
+    STEP_DURATION: 'Durée',
+    STEP_NOT_FOUND: 'Il n\'y a pas d\'étape {number}. L\'enregistrement compte {total} étapes.',
+    STEP_LABEL: 'Étape {number}',
+    STEP_PREVIOUS: 'Précédente : étape {number}',
+    STEP_NEXT: 'Suivante : étape {number}',
+    CATEGORY_INTRO: 'Services – {category} :',
+    CATEGORY_EMPTY: 'Aucun service « {category} » n\'est encore répertorié. Répondez MENU pour voir d\'autres sujets, ou renseignez-vous au bureau des réfugiés de l\'OPM.',
+    MORE_SERVICES_MENU: 'Quel type de service cherchez-vous ?',
+    YOUR_LOCATION: 'votre position',
+    NEAREST_INTRO: 'Services les plus proches de {place} :',
+    NEAREST_CATEGORY_INTRO: 'Services « {category} » les plus proches de {place} :',
+    NEAREST_EMPTY: 'Je n\'ai trouvé aucun service cartographié près de {place}. Répondez MENU pour parcourir les services par sujet.',
+    SETTLEMENT_FIRST: '{settlement} d\'abord, puis les services de toute la région. Indiquez un autre camp pour changer.',
+    CRISIS_SUICIDE: '🆘 Vous n\'êtes pas seul(e), et ce que vous ressentez compte. Parlez à quelqu\'un maintenant. Ces personnes peuvent vous aider aujourd\'hui :',
+    CRISIS_MEDICAL: '🆘 Cela ressemble à une urgence médicale. Rendez-vous au centre de santé le plus proche ou appelez à l\'aide maintenant :',
+    CRISIS_CHILD: '🆘 Un enfant est peut-être en danger. Signalez-le maintenant pour qu\'il soit protégé :',
+    CRISIS_GBV: '🆘 Ce qui vous arrive n\'est pas de votre faute, et vous avez le droit d\'être en sécurité. Une aide confidentielle est disponible maintenant :',
+    CRISIS_VIOLENCE: '🆘 Si vous êtes en danger, mettez-vous en sécurité si possible et appelez à l\'aide maintenant :',
+    CRISIS_NO_CONTACTS: 'Appelez la police au 999 ou au 112.',
+    CRISIS_FOLLOW_UP: 'Un membre du personnel a été alerté et pourra vous recontacter. Répondez MENU à tout moment pour d\'autres informations.',
+    HANDOFF_OPENED: '👤 J\'ai demandé à un travailleur social de rejoindre cette conversation. Il répondra ici, généralement aux heures de bureau. Tant que la conversation n\'est pas fermée, le bot est en pause et tout ce que vous envoyez lui est transmis. Répondez BOT pour revenir au bot à tout moment.',
+    HANDOFF_ALREADY_OPEN: '👤 Un travailleur social suit déjà votre conversation. Il répondra ici dès que possible.',
+    HANDOFF_CLOSED: '✅ Le travailleur social a fermé cette conversation. Vous parlez de nouveau au bot. Répondez MENU pour voir comment je peux vous aider.',
+    HANDOFF_LEFT: '✅ Vous parlez de nouveau au bot et le travailleur social a été prévenu. Répondez AGENT si vous avez besoin d\'une personne plus tard.',
+    HANDOFF_OFFER: 'Je n\'ai pas pu répondre. Répondez AGENT pour parler à une personne.',
+    FEEDBACK_PROMPT: 'Cette réponse vous a-t-elle aidé ? Répondez 👍 ou 👎, ou notez-la de 1 à 5 comme "4/5".',
+    FEEDBACK_THANKS: 'Merci pour votre avis ! Répondez avec un commentaire si vous voulez en dire plus, ou MENU pour continuer.',
+    FEEDBACK_COMMENT_THANKS: 'Merci, votre commentaire a été transmis à l\'équipe.',
+    NEAREST_ASK_LOCATION: 'Partagez votre position ou dites-moi dans quel site vous êtes, et je vous indiquerai les services les plus proches.',
+    RATE_LIMITED: '⏳ Vous envoyez des messages plus vite que je ne peux y répondre. Veuillez patienter une minute, puis renvoyez votre question.'
+  },
+  ar: {
+    WELCOME: 'مرحباً! أنا هنا لتقديم المعلومات للاجئين والنازحين في مبارارا. يمكنني مساعدتك في العثور على معلومات حول التسجيل والطعام والمأوى والرعاية الصحية وأرقام الطوارئ. بماذا يمكنني مساعدتك اليوم؟',
+    FALLBACK: 'عذراً، لم أفهم ذلك جيداً. يمكنني مساعدتك في التسجيل والطعام والمأوى والرعاية الصحية وأرقام الطوارئ. أخبرني بما تحتاج.',
+    ERROR: 'عذراً، حدث خطأ أثناء معالجة طلبك. يرجى المحاولة مرة أخرى.',
+    ESCALATION: 'للحصول على دعم مفصل بشأن هذه المشكلة، تواصل مباشرة مع {organization} على {contact}.',
+    GOODBYE: 'شكراً لاستخدامك خدمتنا. ابقَ آمناً!',
+    ERROR_SUPPORT: 'عذراً، حدث خطأ أثناء معالجة طلبك. يرجى المحاولة مرة أخرى أو التواصل مع الدعم إذا استمرت المشكلة.',
+    EMPTY_MESSAGE: 'يرجى إرسال رسالة تتضمن سؤالك. يمكنني المساعدة في التسجيل والطعام والمأوى والصحة وأرقام الطوارئ.',
+    MESSAGE_TOO_LONG: 'رسالتك طويلة جداً. يرجى طرح أسئلة قصيرة حول موضوع واحد في كل مرة.',
+    PROCESSING_ERROR: 'عذراً، حدث خطأ أثناء معالجة رسالتك. يرجى المحاولة بعد قليل.',
+    HELP_TOPICS: 'أنا هنا للمساعدة في التسجيل والطعام والمأوى والصحة وأرقام الطوارئ للاجئين في مبارارا. ما المعلومات التي تحتاجها؟',
+    INTENT_DEFAULT: 'يمكنني مساعدتك في التسجيل والطعام والمأوى والصحة وأرقام الطوارئ. ما المعلومات التي تحتاجها؟',
+    DIALOGFLOW_NO_RESPONSE: 'عذراً، لم أتمكن من معالجة طلبك.',
+    REGISTRATION_INTRO: 'يمكنني مساعدتك في تسجيل اللاجئين. هذه هي الخطوات:',
+    REGISTRATION_OUTRO: 'أرسل خطوة ورقمها، مثلاً خطوة 1، لمعرفة تفاصيل تلك الخطوة.',
+    ESSENTIAL: 'أساسي',
+    FOOD_EMPTY: 'يقدّم برنامج الأغذية العالمي (WFP) المساعدات الغذائية أساساً للاجئين المسجلين في المستوطنات. تأكد من تسجيلك لدى مكتب رئيس الوزراء (OPM) للحصول على هذه الخدمات.',
+    FOOD_INTRO: 'خيارات المساعدة الغذائية:',
+    FOOD_NOTE: 'ملاحظة: تتطلب معظم المساعدات الغذائية تسجيلاً رسمياً وتوزَّع عبر المستوطنات.',
+    SHELTER_EMPTY: 'يتم ترتيب المأوى عبر التسجيل الرسمي لدى مكتب رئيس الوزراء (OPM). عليك مراجعة مكتب اللاجئين التابع له للحصول على مكان في مستوطنة. هل تريد معلومات الاتصال بهم؟',
+    SHELTER_INTRO: 'خيارات المساعدة في المأوى:',
+    SHELTER_NOTE: 'ملاحظة: تتطلب معظم مساعدات المأوى تسجيلاً رسمياً لدى OPM.',
+    HEALTH_INTRO: 'الخدمات الصحية المتاحة:',
+    EMERGENCY_CONTACTS: 'أرقام الطوارئ:',
+    CONTACTS_TITLE: '🚨 **أرقام الطوارئ والأرقام المهمة**',
+    URGENT_CONTACTS: '**أرقام عاجلة:**',
+    OTHER_CONTACTS: '**أرقام مهمة أخرى:**',
+    LANGUAGE_MENU: 'اختر لغتك. أرسل كلمة اللغة متبوعة بالرمز، مثلاً: اللغة ar',
+    LANGUAGE_CHANGED: 'لغتك الآن هي {language}.',
+    LANGUAGE_UNKNOWN: 'عذراً، هذه اللغة غير مدعومة بعد.',
+    MORE_HINT: 'أرسل "المزيد" لرؤية {count} أخرى.',
+    NO_MORE_ITEMS: 'لا يوجد المزيد. أرسل "رجوع" للعودة أو "القائمة" للقائمة الرئيسية.',
+    INVALID_OPTION: 'يرجى الرد بأحد الأرقام المعروضة، أو أخبرني بما تحتاج.',
+    QUICK_REPLY_PROMPT: 'أرسل رقماً للاختيار:',
+    CLARIFY_QUESTION: 'لست متأكداً أيّ من هذه تقصد. يرجى اختيار واحد:',
+    ESSENTIAL_DOCUMENTS: 'الوثائق الأساسية:',
+    OTHER_DOCUMENTS: 'وثائق مفيدة أخرى:',
+    STEP_HEADING: 'الخطوة {number} من {total}: {title}',
+    STEP_LOCATION: 'المكان',
+    STEP_CONTACT: 'جهة الاتصال',
+    STEP_REQUIREMENTS: 'ما تحتاجه',
+    STEP_DURATION: 'المدة',
+    STEP_NOT_FOUND: 'لا توجد خطوة {number}. التسجيل يتكون من {total} خطوات.',
+    STEP_LABEL: 'خطوة {number}',
+    STEP_PREVIOUS: 'السابقة: خطوة {number}',
+    STEP_NEXT: 'التالية: خطوة {number}',
+    CATEGORY_INTRO: 'خدمات {category}:',
+    CATEGORY_EMPTY: 'لا توجد خدمات {category} مسجلة بعد. أرسل القائمة لرؤية مواضيع أخرى، أو اسأل مكتب اللاجئين في OPM.',
+    MORE_SERVICES_MENU: 'ما نوع الخدمة التي تبحث عنها؟',
+    YOUR_LOCATION: 'موقعك',
+    NEAREST_INTRO: 'أقرب الخدمات إلى {place}:',
+    NEAREST_CATEGORY_INTRO: 'أقرب خدمات {category} إلى {place}:',
+    NEAREST_EMPTY: 'لم أجد خدمات على الخريطة قرب {place} بعد. أرسل القائمة لتصفح الخدمات حسب الموضوع.',
+    SETTLEMENT_FIRST: 'نعرض {settlement} أولاً، ثم خدمات المنطقة كلها. اذكر مستوطنة أخرى لتغييرها.',
+    CRISIS_SUICIDE: '🆘 لست وحدك، وما تشعر به مهم. أرجوك تحدث إلى أحد الآن. يمكن لهؤلاء مساعدتك اليوم:',
+    CRISIS_MEDICAL: '🆘 يبدو أن هذه حالة طبية طارئة. اذهب إلى أقرب مرفق صحي أو اطلب المساعدة الآن:',
+    CRISIS_CHILD: '🆘 قد يكون طفل في خطر. أرجو الإبلاغ الآن لحمايته:',
+    CRISIS_GBV: '🆘 ما يحدث لك ليس ذنبك، ومن حقك أن تكون في أمان. المساعدة السرية متاحة الآن:',
+    CRISIS_VIOLENCE: '🆘 إذا كنت في خطر، انتقل إلى مكان آمن إن استطعت واطلب المساعدة الآن:',
+    CRISIS_NO_CONTACTS: 'اتصل بالشرطة على 999 أو 112.',
+    CRISIS_FOLLOW_UP: 'تم إبلاغ أحد الموظفين وقد يتواصل معك. أرسل MENU في أي وقت لمعلومات أخرى.',
+    HANDOFF_OPENED: '👤 طلبت من أخصائي الحالات الانضمام إلى هذه المحادثة. سيرد هنا، عادةً خلال ساعات العمل. إلى أن تُغلق المحادثة يتوقف البوت، وكل ما ترسله يصل إليه. أرسل BOT للعودة إلى البوت في أي وقت.',
+    HANDOFF_ALREADY_OPEN: '👤 محادثتك لدى أخصائي الحالات بالفعل. سيرد هنا في أقرب وقت ممكن.',
+    HANDOFF_CLOSED: '✅ أغلق أخصائي الحالات هذه المحادثة. أنت تتحدث مع البوت مرة أخرى. أرسل MENU لترى كيف يمكنني المساعدة.',
+    HANDOFF_LEFT: '✅ أنت تتحدث مع البوت مرة أخرى وتم إبلاغ أخصائي الحالات. أرسل AGENT إذا احتجت إلى شخص لاحقًا.',
+    HANDOFF_OFFER: 'لم أستطع الإجابة على ذلك. أرسل AGENT للتحدث إلى شخص.',
+    FEEDBACK_PROMPT: 'هل كان هذا مفيدًا؟ أرسل 👍 أو 👎، أو قيّمه من 1 إلى 5 مثل "4/5".',
+    FEEDBACK_THANKS: 'شكرًا على رأيك! أرسل تعليقًا إذا أردت إخبارنا بالمزيد، أو MENU للمتابعة.',
+    FEEDBACK_COMMENT_THANKS: 'شكرًا، تم إرسال تعليقك إلى الفريق.',
+    NEAREST_ASK_LOCATION: 'شارك موقعك أو أخبرني في أي مستوطنة أنت، وسأعرض لك أقرب الخدمات إليك.',
+    RATE_LIMITED: '⏳ أنت ترسل الرسائل أسرع مما أستطيع الرد عليها. يرجى الانتظار دقيقة ثم إرسال سؤالك مرة أخرى.'
+  },
+  so: {
+    WELCOME: 'Salaan! Waxaan halkan u joogaa inaan macluumaad siiyo qaxootiga iyo dadka barakacay ee Mbarara. Waxaan kaa caawin karaa macluumaad ku saabsan diiwaangelinta, cuntada, hoyga, daryeelka caafimaadka iyo lambarada degdegga. Maxaad maanta u baahan tahay?',
+    FALLBACK: 'Waan ka xumahay, si fiican uma fahmin. Waxaan kaa caawin karaa diiwaangelinta, cuntada, hoyga, caafimaadka iyo lambarada degdegga. Fadlan ii sheeg waxaad u baahan tahay.',
+    ERROR: 'Waan ka xumahay, qalad ayaa dhacay markii codsigaaga la farsameynayay. Fadlan isku day mar kale.',
+    ESCALATION: 'Caawimaad faahfaahsan oo ku saabsan arrintan, si toos ah ula xiriir {organization} lambarka {contact}.',
+    GOODBYE: 'Waad ku mahadsan tahay isticmaalka adeeggayaga. Nabad ku joog!',
+    EMPTY_MESSAGE: 'Fadlan soo dir fariin ay ku jirto su\'aashaadu. Waxaan kaa caawin karaa diiwaangelinta, cuntada, hoyga, caafimaadka iyo lambarada degdegga.',
+    MESSAGE_TOO_LONG: 'Fariintaadu aad bay u dheer tahay. Fadlan weydii su\'aalo gaagaaban, hal mawduuc mar kasta.',
+    PROCESSING_ERROR: 'Waan ka xumahay, qalad ayaa dhacay markii fariintaada la farsameynayay. Fadlan dib isku day wax yar kadib.',
+    HELP_TOPICS: 'Waxaan halkan u joogaa inaan ka caawiyo qaxootiga Mbarara diiwaangelinta, cuntada, hoyga, caafimaadka iyo lambarada degdegga. Macluumaad noocee ah ayaad u baahan tahay?',
+    INTENT_DEFAULT: 'Waxaan kaa caawin karaa diiwaangelinta, cuntada, hoyga, caafimaadka iyo lambarada degdegga. Macluumaad noocee ah ayaad u baahan tahay?',
+    REGISTRATION_INTRO: 'Waxaan kaa caawin karaa diiwaangelinta qaxootiga. Waa kuwan tallaabooyinka:',
+    REGISTRATION_OUTRO: 'Ku jawaab TALLAABO iyo lambar, tusaale TALLAABO 1, si aad u aragto faahfaahinta tallaabadaas.',
+    ESSENTIAL: 'Muhiim',
+    FOOD_INTRO: 'Fursadaha gargaarka cuntada:',
+    SHELTER_INTRO: 'Fursadaha gargaarka hoyga:',
+    HEALTH_INTRO: 'Adeegyada caafimaadka ee la heli karo:',
+    EMERGENCY_CONTACTS: 'Lambarada degdegga:',
+    CONTACTS_TITLE: '🚨 **Lambarada Degdegga iyo Kuwa Muhiimka ah**',
+    URGENT_CONTACTS: '**LAMBARADA DEGDEGGA:**',
+    OTHER_CONTACTS: '**LAMBARO KALE OO MUHIIM AH:**',
+    LANGUAGE_MENU: 'Dooro luqaddaada. Ku jawaab LUQADDA oo ay ku xigto koodhka, tusaale LUQADDA so:',
+    LANGUAGE_CHANGED: 'Luqaddaadu hadda waa {language}.',
+    LANGUAGE_UNKNOWN: 'Waan ka xumahay, luqaddaas weli lama taageero.',
+    MORE_HINT: 'Ku jawaab DHEERAAD si aad u aragto {count} kale.',
+    NO_MORE_ITEMS: 'Wax kale lama hayo. Ku jawaab DIB si aad dib ugu noqoto ama LIISKA.',
+    INVALID_OPTION: 'Fadlan ku jawaab mid ka mid ah lambarada la muujiyay, ama ii sheeg waxaad u baahan tahay.',
+    QUICK_REPLY_PROMPT: 'Ku jawaab lambar:',
+    CLARIFY_QUESTION: 'Ma hubo midkan aad ula jeeddo. Fadlan dooro mid:',
+    ESSENTIAL_DOCUMENTS: 'Dukumentiyada muhiimka ah:',
+    OTHER_DOCUMENTS: 'Dukumentiyo kale oo faa\'iido leh:',
+    STEP_HEADING: 'Tallaabo {number} ee {total}: {title}',
+    STEP_LOCATION: 'Halkee',
+    STEP_CONTACT: 'La xiriir',
+    STEP_REQUIREMENTS: 'Waxaad u baahan tahay',
+    STEP_DURATION: 'Inta ay qaadato',
+    STEP_NOT_FOUND: 'Ma jirto tallaabo {number}. Diiwaangelintu waxay leedahay {total} tallaabo.',
+    STEP_LABEL: 'Tallaabo {number}',
+    STEP_PREVIOUS: 'Hore: tallaabo {number}',
+    STEP_NEXT: 'Xigta: tallaabo {number}',
+    CATEGORY_INTRO: 'Adeegyada {category}:',
+    CATEGORY_EMPTY: 'Weli ma hayo adeegyo {category} ah oo diiwaangashan. Ku jawaab LIISKA si aad u aragto mowduucyo kale, ama weydii xafiiska qaxootiga ee OPM.',
+    MORE_SERVICES_MENU: 'Adeeg noocee ah ayaad raadinaysaa?',
+    YOUR_LOCATION: 'goobtaada',
+    NEAREST_INTRO: 'Adeegyada ugu dhow {place}:',
+    NEAREST_CATEGORY_INTRO: 'Adeegyada {category} ee ugu dhow {place}:',
+    NEAREST_EMPTY: 'Weli ma helin adeegyo khariidadda ku yaal oo u dhow {place}. Ku jawaab LIISKA si aad adeegyada mowduuc ahaan u eegto.',
+    SETTLEMENT_FIRST: 'Marka hore {settlement}, kadibna adeegyada gobolka oo dhan. Sheeg degsiimo kale si aad u beddesho.',
+    CRISIS_SUICIDE: '🆘 Kaligaa ma tihid, waxa aad dareemaysana waa muhiim. Fadlan hadda la hadal qof. Dadkan ayaa ku caawin kara maanta:',
+    CRISIS_MEDICAL: '🆘 Tani waxay u egtahay xaalad caafimaad oo degdeg ah. Tag xarunta caafimaadka ee kuugu dhow ama hadda caawimaad wac:',
+    CRISIS_CHILD: '🆘 Ilmo ayaa khatar ku jiri kara. Fadlan hadda soo sheeg si loo ilaaliyo:',
+    CRISIS_GBV: '🆘 Waxa kugu dhacaya ma aha qaladkaaga, waxaadna mudan tahay inaad nabad ahaato. Caawimaad qarsoodi ah ayaa hadda diyaar ah:',
+    CRISIS_VIOLENCE: '🆘 Haddii aad khatar ku jirto, u guur meel ammaan ah haddii aad awoodo oo hadda caawimaad wac:',
+    CRISIS_NO_CONTACTS: 'Wac booliska 999 ama 112.',
+    CRISIS_FOLLOW_UP: 'Shaqaale ayaa la ogeysiiyay oo kula soo xiriiri kara. Ku jawaab MENU waqti kasta macluumaad kale.',
+    HANDOFF_OPENED: '👤 Waxaan ka codsaday shaqaale kiisaska inuu ku soo biiro wadahadalkan. Halkan ayuu kaaga jawaabi doonaa, inta badan saacadaha shaqada. Ilaa wadahadalkan la xiro, bot-ku wuu joogsanayaa wax kasta oo aad dirtana isaga ayay gaarayaan. Ku jawaab BOT si aad ugu noqoto bot-ka wakhti kasta.',
+    HANDOFF_ALREADY_OPEN: '👤 Shaqaale ayaa horey u haya wadahadalkaaga. Halkan ayuu kaaga jawaabi doonaa sida ugu dhakhsaha badan.',
+    HANDOFF_CLOSED: '✅ Shaqaaluhu wuu xiray wadahadalkan. Mar kale bot-ka ayaad la hadlaysaa. Ku jawaab MENU si aad u aragto waxa aan kaa caawin karo.',
+    HANDOFF_LEFT: '✅ Mar kale bot-ka ayaad la hadlaysaa, shaqaalahana waa la ogeysiiyay. Ku jawaab AGENT haddii aad qof u baahato mar dambe.',
+    HANDOFF_OFFER: 'Ma aanan ka jawaabi karin taas. Ku jawaab AGENT si aad qof ula hadasho.',
+    FEEDBACK_PROMPT: 'Tani ma ku caawisay? Ku jawaab 👍 ama 👎, ama ku qiimee 1 ilaa 5 sida "4/5".',
+    FEEDBACK_THANKS: 'Waad ku mahadsan tahay fikradaada! Ku jawaab faallo haddii aad rabto inaad wax badan noo sheegto, ama MENU si aad u sii wadato.',
+    FEEDBACK_COMMENT_THANKS: 'Mahadsanid, faalladaada waxaa loo gudbiyay kooxda.',
+    NEAREST_ASK_LOCATION: 'Soo dir goobtaada ama ii sheeg degaanka aad joogto, waxaan kuu soo bandhigi doonaa adeegyada kuugu dhow.',
+    RATE_LIMITED: '⏳ Fariimaha waxaad u soo diraysaa si ka dhakhso badan inta aan ka jawaabi karo. Fadlan sug hal daqiiqo, kadibna mar kale soo dir su\'aashaada.'
+  },
+  nyn: {
+    WELCOME: 'Agandi! Ndi hanu kuha amakuru ahariira empunzi n\'abantu abaabingirwe omu Mbarara. Nimbaasa kukuyamba kuzoora amakuru ahariira okwehandiika, eby\'okurya, obwikaro, amagara n\'enamba z\'obutabaazi. Noyenda buyambi ki erizooba?',
+    FALLBACK: 'Ganyira, tinyetegyereize gye. Nimbaasa kukuyamba ahariira okwehandiika, eby\'okurya, obwikaro, amagara n\'enamba z\'obutabaazi. Ngambira eki orikwenda.',
+    ERROR: 'Ganyira, hariho ensobi omu kukora aha kicweka kyawe. Ongyere oteereho.',
+    GOODBYE: 'Webale kukozesa obuheereza bwaitu. Guma gye!',
+    EMPTY_MESSAGE: 'Ntwarira obutumwa oine ekibuuzo kyawe. Nimbaasa kukuyamba ahariira okwehandiika, eby\'okurya, obwikaro, amagara n\'enamba z\'obutabaazi.',
+    HELP_TOPICS: 'Ndi hanu kukuyamba ahariira okwehandiika, eby\'okurya, obwikaro, amagara n\'enamba z\'obutabaazi ahabw\'empunzi omu Mbarara. Noyenda makuru ki?',
+    INTENT_DEFAULT: 'Nimbaasa kukuyamba ahariira okwehandiika, eby\'okurya, obwikaro, amagara n\'enamba z\'obutabaazi. Noyenda makuru ki?',
+    REGISTRATION_INTRO: 'Nimbaasa kukuyamba ahariira okwehandiika nk\'empunzi. Entambuko niizi:',
+    ESSENTIAL: 'Ekikuru',
+    FOOD_INTRO: 'Ahu orikubaasa kutunga obuyambi bw\'eby\'okurya:',
+    SHELTER_INTRO: 'Ahu orikubaasa kutunga obuyambi bw\'obwikaro:',
+    HEALTH_INTRO: 'Obuheereza bw\'amagara oburiho:',
+    EMERGENCY_CONTACTS: 'Enamba z\'obutabaazi:',
+    LANGUAGE_MENU: 'Torana orurimi rwawe. Garukamu ORURIMI kandi oteeho kodi, nka ORURIMI nyn:',
+    LANGUAGE_CHANGED: 'Orurimi rwawe hati ni {language}.',
+    LANGUAGE_UNKNOWN: 'Ganyira, orurimi orwo tirukakozesebwa.',
+    MORE_HINT: 'Garukamu EBINDI kureeba ebindi {count}.',
+    NO_MORE_ITEMS: 'Tihariho bindi. Garukamu GARUKA kugaruka enyima nari AHABANZA.',
+    QUICK_REPLY_PROMPT: 'Garukamu n\'enamba:',
+    CLARIFY_QUESTION: 'Tinkumanyire eki orikugamba omuri ebi. Torana kimwe:',
+    ESSENTIAL_DOCUMENTS: 'Empapura ez\'omugasho:',
+    STEP_HEADING: 'Omutendera {number} omuri {total}: {title}',
+    STEP_LABEL: 'Omutendera {number}',
+    STEP_PREVIOUS: 'Ogwabanza: omutendera {number}',
+    STEP_NEXT: 'Ogurikukurataho: omutendera {number}',
+    CATEGORY_INTRO: 'Obuheereza bwa {category}:',
+    MORE_SERVICES_MENU: 'Noyenda buheereza ki?',
+    YOUR_LOCATION: 'ahu ori',
+    NEAREST_INTRO: 'Obuheereza oburi haihi na {place}:',
+    SETTLEMENT_FIRST: 'Nitubanza {settlement}, reero obuheereza bw\'ekicweka kyona.',
+    CRISIS_SUICIDE: '🆘 Toli wenka, kandi eki orikuhurira nikikuru. Gamba n\'omuntu hati. Abantu aba nibabaasa kukuyamba erizooba:',
+    CRISIS_MEDICAL: '🆘 Eki nikireebeka nk\'obutabaazi bw\'amagara. Genda aha irwariro eriri haihi nari oteere esimu hati kutunga obuyambi:',
+    CRISIS_CHILD: '🆘 Omwana nabaasa kuba ari omu kabi. Kigambe hati kugira ngu arindwe:',
+    CRISIS_GBV: '🆘 Ebirikukubaho ti nsobi yaawe, kandi oshemereire kuba omu mirembe. Obuyambi bw\'ekyama nibubaasa kutungwa hati:',
+    CRISIS_VIOLENCE: '🆘 Ku oraabe ori omu kabi, ija omu mwanya murungi ku orikubaasa kandi oteere esimu hati kutunga obuyambi:',
+    CRISIS_NO_CONTACTS: 'Teera esimu poliisi aha 999 nari 112.',
+    CRISIS_FOLLOW_UP: 'Omukozi amanyiisiibwe kandi nabaasa kukugarukamu. Garukamu MENU obwire bwona kutunga amakuru agandi.',
+    HANDOFF_OPENED: '👤 Nshabire omukozi w\'ensonga kwegaita aha kugambirana oku. Naija kukugarukamu hanu, munonga omu saaha z\'okukora. Okuhitsya ngu okugambirana oku kwakingwa, bot neyemerera kandi byona ebi orikwohereza nibimuhika. Garukamu BOT kugaruka aha bot obwire bwona.',
+    HANDOFF_ALREADY_OPEN: '👤 Omukozi w\'ensonga naakora aha kugambirana kwawe. Naija kukugarukamu hanu ahonaaho.',
+    HANDOFF_CLOSED: '✅ Omukozi w\'ensonga akingire okugambirana oku. Hati noogamba na bot. Garukamu MENU kureeba ebi ndikubaasa kukuyamba.',
+    HANDOFF_LEFT: '✅ Hati noogamba na bot, kandi omukozi w\'ensonga amanyiisiibwe. Garukamu AGENT ku oraabe nooyenda omuntu bwanyima.',
+    HANDOFF_OFFER: 'Tinabaasize kugarukamu ekyo. Garukamu AGENT kugamba n\'omuntu.',
+    RATE_LIMITED: '⏳ Nooyohereza obutumwa bwangu kukira oku ndikubaasa kugarukamu. Rindaho edakiika emwe, reero oyohereze ekibuuzo kyawe bundi.'
+  }
+};
+
+/**
+ * Quick reply labels are keyed by their English text
+ */
+const QUICK_REPLY_LABELS: Record<Exclude<LanguageCode, 'en'>, Record<string, string>> = {
+  sw: {
+    'Registration': 'Usajili',
+    'Food': 'Chakula',
+    'Shelter': 'Makazi',
+    'Healthcare': 'Huduma za Afya',
+    'Emergency Contacts': 'Mawasiliano ya Dharura',
+    'Contact Details': 'Mawasiliano',
+    'Required Documents': 'Nyaraka Zinazohitajika',
+    'Registration Steps': 'Hatua za Usajili',
+    'Settlement Info': 'Taarifa za Makazi',
+    'WFP Contacts': 'Mawasiliano ya WFP',
+    'Distribution Points': 'Vituo vya Ugawaji',
+    'Emergency Number': 'Namba ya Dharura',
+    'Hospital Info': 'Taarifa za Hospitali',
+    'Settlement Clinics': 'Zahanati za Makazi',
+    'More Info': 'Maelezo Zaidi',
+    'Contact Support': 'Wasiliana na Msaada',
+    'Main Menu': 'Menyu Kuu',
+    'OPM Contact': 'Mawasiliano ya OPM',
+    'Registration Info': 'Taarifa za Usajili',
+    'More Contacts': 'Mawasiliano Zaidi',
+    'Registration Help': 'Msaada wa Usajili',
+    'Healthcare Info': 'Taarifa za Afya',
+    'More Services': 'Huduma Nyingine',
+    'Protection': 'Ulinzi',
+    'Livelihoods': 'Kazi na Kipato',
+    'Education': 'Elimu',
+    'Legal Aid': 'Msaada wa Kisheria',
+    'Water & Sanitation': 'Maji na Usafi',
+    'Data & Records': 'Taarifa na Kumbukumbu',
+    'General Support': 'Msaada wa Jumla',
+    'Talk to a Person': 'Ongea na Mtu'
+  },
+  rw: {
+    'Registration': 'Kwiyandikisha',
+    'Food': 'Ibiryo',
+    'Shelter': 'Icumbi',
+    'Healthcare': 'Ubuvuzi',
+    'Emergency Contacts': 'Aho Wahamagara Byihutirwa',
+    'Contact Details': 'Aho Wabariza',
+    'Required Documents': 'Ibyangombwa Bikenewe',
+    'Registration Steps': 'Intambwe zo Kwiyandikisha',
+    'Main Menu': 'Ahabanza',
+    'More Info': 'Andi Makuru',
+    'Hospital Info': 'Amakuru y\'Ibitaro',
+    'More Services': 'Izindi Serivisi',
+    'Protection': 'Kurindwa',
+    'Livelihoods': 'Imibereho',
+    'Education': 'Uburezi',
+    'Legal Aid': 'Ubufasha mu by\'Amategeko',
+    'Water & Sanitation': 'Amazi n\'Isuku',
+    'Data & Records': 'Amakuru n\'Inyandiko',
+    'General Support': 'Ubufasha Rusange',
+    'Talk to a Person': 'Vugana n\'Umuntu'
+  },
+  fr: {
+    'Registration': 'Enregistrement',
+    'Food': 'Nourriture',
+    'Shelter': 'Abri',
+    'Healthcare': 'Santé',
+    'Emergency Contacts': 'Contacts d\'urgence',
+    'Contact Details': 'Coordonnées',
+    'Required Documents': 'Documents requis',
+    'Registration Steps': 'Étapes d\'enregistrement',
+    'Settlement Info': 'Infos sur les camps',
+    'WFP Contacts': 'Contacts PAM',
+    'Distribution Points': 'Points de distribution',
+    'Emergency Number': 'Numéro d\'urgence',
+    'Hospital Info': 'Infos hôpital',
+    'Settlement Clinics': 'Cliniques des camps',
+    'More Info': 'Plus d\'infos',
+    'Contact Support': 'Contacter le support',
+    'Main Menu': 'Menu principal',
+    'OPM Contact': 'Contact OPM',
+    'Registration Info': 'Infos enregistrement',
+    'More Contacts': 'Plus de contacts',
+    'Registration Help': 'Aide à l\'enregistrement',
+    'Healthcare Info': 'Infos santé',
+    'More Services': 'Autres services',
+    'Protection': 'Protection',
+    'Livelihoods': 'Moyens de subsistance',
+    'Education': 'Éducation',
+    'Legal Aid': 'Aide juridique',
+    'Water & Sanitation': 'Eau et assainissement',
+    'Data & Records': 'Données et dossiers',
+    'General Support': 'Soutien général',
+    'Talk to a Person': 'Parler à une personne'
+  },
+  ar: {
+    'Registration': 'التسجيل',
+    'Food': 'الطعام',
+    'Shelter': 'المأوى',
+    'Healthcare': 'الرعاية الصحية',
+    'Emergency Contacts': 'أرقام الطوارئ',
+    'Contact Details': 'معلومات الاتصال',
+    'Required Documents': 'الوثائق المطلوبة',
+    'Registration Steps': 'خطوات التسجيل',
+    'Settlement Info': 'معلومات المستوطنة',
+    'WFP Contacts': 'اتصال برنامج الأغذية',
+    'Distribution Points': 'نقاط التوزيع',
+    'Emergency Number': 'رقم الطوارئ',
+    'Hospital Info': 'معلومات المستشفى',
+    'Settlement Clinics': 'عيادات المستوطنة',
+    'More Info': 'مزيد من المعلومات',
+    'Contact Support': 'التواصل مع الدعم',
+    'Main Menu': 'القائمة الرئيسية',
+    'OPM Contact': 'اتصال OPM',
+    'Registration Info': 'معلومات التسجيل',
+    'More Contacts': 'أرقام أخرى',
+    'Registration Help': 'مساعدة التسجيل',
+    'Healthcare Info': 'معلومات صحية',
+    'More Services': 'خدمات أخرى',
+    'Protection': 'الحماية',
+    'Livelihoods': 'سبل العيش',
+    'Education': 'التعليم',
+    'Legal Aid': 'المساعدة القانونية',
+    'Water & Sanitation': 'المياه والصرف الصحي',
+    'Data & Records': 'البيانات والسجلات',
+    'General Support': 'دعم عام',
+    'Talk to a Person': 'التحدث إلى شخص'
+  },
+  so: {
+    'Registration': 'Diiwaangelin',
+    'Food': 'Cunto',
+    'Shelter': 'Hoy',
+    'Healthcare': 'Caafimaad',
+    'Emergency Contacts': 'Lambarada Degdegga',
+    'Contact Details': 'Xiriirka',
+    'Required Documents': 'Dukumentiyada',
+    'Registration Steps': 'Tallaabooyinka Diiwaangelinta',
+    'Main Menu': 'Liiska Hore',
+    'More Info': 'Macluumaad Dheeraad ah',
+    'More Services': 'Adeegyo Kale',
+    'Protection': 'Ilaalin',
+    'Livelihoods': 'Nolol-maalmeed',
+    'Education': 'Waxbarasho',
+    'Legal Aid': 'Caawimaad Sharci',
+    'Water & Sanitation': 'Biyo iyo Nadaafad',
+    'Data & Records': 'Xog iyo Diiwaan',
+    'General Support': 'Taageero Guud',
+    'Talk to a Person': 'La hadal Qof'
+  },
+  nyn: {
+    'Registration': 'Okwehandiika',
+    'Food': 'Eby\'okurya',
+    'Shelter': 'Obwikaro',
+    'Healthcare': 'Amagara',
+    'Emergency Contacts': 'Enamba z\'Obutabaazi',
+    'Main Menu': 'Ahabanza',
+    'More Services': 'Obundi Buheereza',
+    'Education': 'Okushoma',
+    'Water & Sanitation': 'Amaizi n\'Obuyonjo',
+    'Talk to a Person': 'Gamba n\'Omuntu'
+  }
+};
+
+/**
+ * Translate a catalog message, falling back to English and
+ * filling {placeholders} from params
+ */
+export function translate(
+  key: MessageKey,
+  language: LanguageCode = DEFAULT_LANGUAGE,
+  params: Record<string, string | number> = {}
+): string {
+  const template = MESSAGES[language]?.[key] ?? ENGLISH_MESSAGES[key];
+
+  return Object.entries(params).reduce(
+    (text, [name, value]) => text.split(`{${name}}`).join(String(value)),
+    template
+  );
+}
+
+/**
+ * Translate quick reply labels, keeping the English label when no translation exists
+ */
+export function translateQuickReplies(labels: readonly string[], language: LanguageCode = DEFAULT_LANGUAGE): string[] {
+  if (language === 'en') return [...labels];
+  const labelsForLanguage = QUICK_REPLY_LABELS[language];
+  return labels.map(label => labelsForLanguage[label] ?? label);
+}
+
+/**
+ * Map a quick reply label in any supported language back to its English label
+ */
+export function toEnglishQuickReply(label: string): string | null {
+  const value = label.trim().toLowerCase();
+
+  for (const labelsForLanguage of Object.values(QUICK_REPLY_LABELS)) {
+    for (const [english, translated] of Object.entries(labelsForLanguage)) {
+      if (english.toLowerCase() === value || translated.toLowerCase() === value) {
+        return english;
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,16 @@
+// src/utils/userIdentity.ts
+import { createHash } from 'crypto';
+import { EnvironmentConfig } from '../config/env.js';
+
+/**
+ * Derive a stable pseudonymous id from a WhatsApp number so that
+ * stored user data never contains the raw phone number
+ */
+export function pseudonymizeUserId(userPhone: string): string {
+  const normalized = userPhone.replace('whatsapp:', '').trim();
+  const hash = createHash('sha256')
+    .update(`${EnvironmentConfig.userIdSalt}:${normalized}`)
+    .digest('hex');
+
+  return `user-${hash.slice(0, 24)}`;
+}
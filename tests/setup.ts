@@ -0,0 +1,16 @@
+// Loaded before every test file
+
+// Settings read on import; the Supabase client is created but tests never reach it
+process.env.Supabase_Url = process.env.Supabase_Url || 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY || 'test-service-key';
+process.env.USER_ID_SALT = process.env.USER_ID_SALT || 'test-user-id-salt';
+
+// Keep test runs out of the console and the log files
+jest.mock('../src/config/logger.js', () => ({
+  AppLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
@@ -0,0 +1,167 @@
+import { AuditLogService } from '../../../src/services/AuditLogService.js';
+import { FaqService } from '../../../src/services/FaqService.js';
+import { AuditLogRepository } from '../../../src/repositories/AuditLogRepository.js';
+import { RegistrationStepRepository } from '../../../src/repositories/RegistrationStepRepository.js';
+import { AuditActor, AuditLogEntry, NotFoundError, RegistrationStep, ValidationError } from '../../../src/types/index.js';
+
+const actor: AuditActor = { adminUserId: 1, adminUsername: 'amina', requestId: 'req-1' };
+
+function entry(overrides: Partial<AuditLogEntry>): AuditLogEntry {
+  return {
+    id: 10,
+    table_name: 'services',
+    record_id: 5,
+    action: 'update',
+    admin_user_id: 2,
+    admin_username: 'joseph',
+    request_id: null,
+    before: null,
+    after: null,
+    restored_from: null,
+    created_at: '2026-01-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+function step(id: number, stepNumber: number): RegistrationStep {
+  return {
+    id,
+    step_number: stepNumber,
+    title: `Step ${id}`,
+    description: 'Description',
+    location: null,
+    contact_reference: null,
+    requirements: null,
+    estimated_duration: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z'
+  };
+}
+
+describe('AuditLogService.restore', () => {
+  let auditLogRepo: jest.Mocked<Pick<AuditLogRepository, 'applyChange' | 'getEntryById'>>;
+  let registrationRepo: jest.Mocked<Pick<RegistrationStepRepository, 'getAllSteps' | 'reorderSteps'>>;
+  let faqService: jest.Mocked<Pick<FaqService, 'invalidateCache'>>;
+  let service: AuditLogService;
+
+  beforeEach(() => {
+    auditLogRepo = {
+      applyChange: jest.fn(async (_actor, change) => change.fields),
+      getEntryById: jest.fn()
+    };
+    registrationRepo = { getAllSteps: jest.fn(), reorderSteps: jest.fn() };
+    faqService = { invalidateCache: jest.fn() };
+    service = new AuditLogService(
+      auditLogRepo as unknown as AuditLogRepository,
+      registrationRepo as unknown as RegistrationStepRepository,
+      faqService as unknown as FaqService
+    );
+  });
+
+  it('writes back the saved version under the record id, linked to the entry', async () => {
+    const version = { id: 5, organization: 'Old name', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-06-01T00:00:00Z' };
+    auditLogRepo.getEntryById.mockResolvedValue(entry({ after: version }));
+
+    await service.restore(actor, 10);
+
+    expect(auditLogRepo.applyChange).toHaveBeenCalledWith(actor, {
+      table: 'services',
+      action: 'restore',
+      recordId: 5,
+      fields: { id: 5, organization: 'Old name', created_at: '2025-01-01T00:00:00Z' },
+      restoredFrom: 10
+    });
+  });
+
+  it('restores a deleted record from the version saved before the delete', async () => {
+    const version = { id: 5, organization: 'Gone' };
+    auditLogRepo.getEntryById.mockResolvedValue(entry({ action: 'delete', before: version }));
+
+    const restored = await service.restore(actor, 10);
+
+    expect(auditLogRepo.applyChange.mock.calls[0][1]).toMatchObject({ action: 'restore', fields: version });
+    expect(restored).toEqual(version);
+  });
+
+  it('renumbers the steps around a restored registration step', async () => {
+    auditLogRepo.getEntryById.mockResolvedValue(entry({ table_name: 'registration_steps', record_id: 3, before: { ...step(3, 1) } }));
+    // The restored step takes back number 1, which step 1 now holds
+    registrationRepo.getAllSteps.mockResolvedValue([step(1, 1), step(3, 1), step(2, 2)]);
+    registrationRepo.reorderSteps.mockResolvedValue([step(3, 1), step(1, 2), step(2, 3)]);
+
+    const restored = await service.restore(actor, 10);
+
+    expect(registrationRepo.reorderSteps).toHaveBeenCalledWith([3, 1, 2], actor);
+    expect(restored).toEqual(step(3, 1));
+  });
+
+  it('leaves the steps alone when the restored step fits the numbering', async () => {
+    auditLogRepo.getEntryById.mockResolvedValue(entry({ table_name: 'registration_steps', record_id: 3, after: { ...step(3, 3) } }));
+    registrationRepo.getAllSteps.mockResolvedValue([step(1, 1), step(2, 2), step(3, 3)]);
+
+    await service.restore(actor, 10);
+
+    expect(registrationRepo.reorderSteps).not.toHaveBeenCalled();
+  });
+
+  it('clears the FAQ cache after restoring a FAQ', async () => {
+    auditLogRepo.getEntryById.mockResolvedValue(entry({ table_name: 'faqs', after: { id: 5, question: 'Q' } }));
+
+    await service.restore(actor, 10);
+
+    expect(faqService.invalidateCache).toHaveBeenCalled();
+  });
+
+  it('refuses an entry with no saved version', async () => {
+    auditLogRepo.getEntryById.mockResolvedValue(entry({}));
+
+    await expect(service.restore(actor, 10)).rejects.toBeInstanceOf(ValidationError);
+    expect(auditLogRepo.applyChange).not.toHaveBeenCalled();
+  });
+
+  it('reports an unknown entry as not found', async () => {
+    auditLogRepo.getEntryById.mockResolvedValue(null);
+
+    await expect(service.restore(actor, 99)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('fails without clearing the cache when the change is not saved', async () => {
+    auditLogRepo.getEntryById.mockResolvedValue(entry({ table_name: 'faqs', after: { id: 5 } }));
+    auditLogRepo.applyChange.mockRejectedValue(new Error('Database error: timeout'));
+
+    await expect(service.restore(actor, 10)).rejects.toThrow('Database error: timeout');
+    expect(faqService.invalidateCache).not.toHaveBeenCalled();
+  });
+});
+
+describe('AuditLogService.applyChange', () => {
+  let auditLogRepo: jest.Mocked<Pick<AuditLogRepository, 'applyChange'>>;
+  let service: AuditLogService;
+
+  beforeEach(() => {
+    auditLogRepo = { applyChange: jest.fn() };
+    service = new AuditLogService(
+      auditLogRepo as unknown as AuditLogRepository,
+      {} as RegistrationStepRepository,
+      {} as FaqService
+    );
+  });
+
+  it('returns the record as saved', async () => {
+    auditLogRepo.applyChange.mockResolvedValue({ id: 5, organization: 'New name' });
+
+    const record = await service.applyChange(actor, {
+      table: 'services', action: 'update', recordId: 5, fields: { organization: 'New name' }
+    }, 'Service');
+
+    expect(record).toEqual({ id: 5, organization: 'New name' });
+  });
+
+  it('names the resource when the record does not exist', async () => {
+    auditLogRepo.applyChange.mockResolvedValue(null);
+
+    await expect(service.applyChange(actor, {
+      table: 'services', action: 'delete', recordId: 99, fields: {}
+    }, 'Service')).rejects.toThrow('Service not found');
+  });
+});
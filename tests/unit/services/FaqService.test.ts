@@ -0,0 +1,97 @@
+import { FAQ_MATCH_THRESHOLD, FaqService } from '../../../src/services/FaqService.js';
+import { FaqRepository } from '../../../src/repositories/FaqRepository.js';
+import { Faq } from '../../../src/types/index.js';
+
+function faq(id: number, question: string, intentReference: string | null = null): Faq {
+  return {
+    id,
+    question,
+    answer: `Answer ${id}`,
+    category: 'General',
+    intent_reference: intentReference,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z'
+  };
+}
+
+const FAQS = [
+  faq(1, 'How do I replace a lost refugee ID card?'),
+  faq(2, 'When is the next food distribution?', 'find_food'),
+  faq(3, 'Can refugees open a bank account?')
+];
+
+describe('FaqService', () => {
+  let repo: jest.Mocked<Pick<FaqRepository, 'getAllFaqs'>>;
+  let service: FaqService;
+
+  beforeEach(() => {
+    repo = { getAllFaqs: jest.fn().mockResolvedValue(FAQS) };
+    service = new FaqService(repo as unknown as FaqRepository);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('findAnswer', () => {
+    it('ranks FAQs by the words they share with the message', async () => {
+      const match = await service.findAnswer('I lost my refugee ID card, how do I replace it?');
+
+      expect(match?.faq.id).toBe(1);
+      expect(match!.score).toBeGreaterThanOrEqual(FAQ_MATCH_THRESHOLD);
+    });
+
+    it('tolerates typos in longer words', async () => {
+      expect((await service.findAnswer('next food distribusion'))?.faq.id).toBe(2);
+    });
+
+    it('picks the closest of several partial matches', async () => {
+      expect((await service.findAnswer('can refugees open an account at a bank'))?.faq.id).toBe(3);
+    });
+
+    it('returns null when nothing is close enough', async () => {
+      await expect(service.findAnswer('where is the clinic in Nakivale')).resolves.toBeNull();
+    });
+
+    it('returns null for a message of only stop words', async () => {
+      await expect(service.findAnswer('what is it?')).resolves.toBeNull();
+      expect(repo.getAllFaqs).not.toHaveBeenCalled();
+    });
+  });
+
+  it('finds the FAQ linked to an intent', async () => {
+    await expect(service.getAnswerForIntent('find_food')).resolves.toBe(FAQS[1]);
+    await expect(service.getAnswerForIntent('find_shelter')).resolves.toBeNull();
+  });
+
+  describe('cache', () => {
+    it('loads the FAQs once until the cache is cleared', async () => {
+      await service.findAnswer('lost refugee ID card');
+      await service.findAnswer('food distribution');
+      expect(repo.getAllFaqs).toHaveBeenCalledTimes(1);
+
+      service.invalidateCache();
+      await service.findAnswer('food distribution');
+      expect(repo.getAllFaqs).toHaveBeenCalledTimes(2);
+    });
+
+    it('reloads after five minutes', async () => {
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await service.findAnswer('food distribution');
+      clock.mockReturnValue(now + 5 * 60 * 1000);
+      await service.findAnswer('food distribution');
+
+      expect(repo.getAllFaqs).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps answering from the last copy when a reload fails', async () => {
+      await service.findAnswer('food distribution');
+      service.invalidateCache();
+      repo.getAllFaqs.mockRejectedValue(new Error('Database error: timeout'));
+
+      expect((await service.findAnswer('next food distribution'))?.faq.id).toBe(2);
+    });
+  });
+});
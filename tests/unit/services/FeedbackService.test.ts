@@ -0,0 +1,74 @@
+import { FeedbackService } from '../../../src/services/FeedbackService.js';
+import { FeedbackRepository } from '../../../src/repositories/FeedbackRepository.js';
+
+describe('FeedbackService.parseRating', () => {
+  const service = new FeedbackService({} as FeedbackRepository, 1);
+
+  it('reads thumbs as helpful or not, without a score', () => {
+    expect(service.parseRating('👍')).toEqual({ rating: null, helpful: true });
+    expect(service.parseRating('👍👍')).toEqual({ rating: null, helpful: true });
+    expect(service.parseRating(' 👎 ')).toEqual({ rating: null, helpful: false });
+  });
+
+  it('ignores skin tone modifiers', () => {
+    expect(service.parseRating('👍🏽')).toEqual({ rating: null, helpful: true });
+  });
+
+  it('reads scores out of five', () => {
+    expect(service.parseRating('4/5')).toEqual({ rating: 4, helpful: true });
+    expect(service.parseRating('2 / 5')).toEqual({ rating: 2, helpful: false });
+    expect(service.parseRating('1 star')).toEqual({ rating: 1, helpful: false });
+    expect(service.parseRating('5 Stars')).toEqual({ rating: 5, helpful: true });
+  });
+
+  it('counts stars', () => {
+    expect(service.parseRating('⭐⭐⭐⭐⭐')).toEqual({ rating: 5, helpful: true });
+    expect(service.parseRating('⭐')).toEqual({ rating: 1, helpful: false });
+  });
+
+  it('leaves a middling rating neither helpful nor unhelpful', () => {
+    expect(service.parseRating('3/5')).toEqual({ rating: 3, helpful: null });
+  });
+
+  it('leaves bare numbers for menu options', () => {
+    expect(service.parseRating('4')).toBeNull();
+  });
+
+  it('rejects anything else', () => {
+    expect(service.parseRating('6/5')).toBeNull();
+    expect(service.parseRating('⭐⭐⭐⭐⭐⭐')).toBeNull();
+    expect(service.parseRating('where is the clinic? 👍')).toBeNull();
+    expect(service.parseRating('')).toBeNull();
+  });
+});
+
+describe('FeedbackService summaries', () => {
+  let repo: jest.Mocked<Pick<FeedbackRepository, 'summariseFeedback'>>;
+  let service: FeedbackService;
+
+  beforeEach(() => {
+    repo = { summariseFeedback: jest.fn() };
+    service = new FeedbackService(repo as unknown as FeedbackRepository, 1);
+  });
+
+  it('turns the counts from SQL into rates', async () => {
+    repo.summariseFeedback.mockResolvedValue([
+      { key: 'UNHCR', responses: 4, helpful_count: 2, not_helpful_count: 1, average_rating: 3.7, comment_count: 1 },
+      { key: 'find_food', responses: 1, helpful_count: 0, not_helpful_count: 0, average_rating: null, comment_count: 0 }
+    ]);
+
+    await expect(service.summariseByOrganization('2026-01-01T00:00:00.000Z')).resolves.toEqual([
+      { key: 'UNHCR', responses: 4, helpful: 2, notHelpful: 1, helpfulRate: 0.67, averageRating: 3.7, comments: 1 },
+      { key: 'find_food', responses: 1, helpful: 0, notHelpful: 0, helpfulRate: null, averageRating: null, comments: 0 }
+    ]);
+    expect(repo.summariseFeedback).toHaveBeenCalledWith('organization', '2026-01-01T00:00:00.000Z');
+  });
+
+  it('groups by intent', async () => {
+    repo.summariseFeedback.mockResolvedValue([]);
+
+    await service.summariseByIntent();
+
+    expect(repo.summariseFeedback).toHaveBeenCalledWith('intent', undefined);
+  });
+});
@@ -0,0 +1,93 @@
+import { HandoffService } from '../../../src/services/HandoffService.js';
+import { HandoffRepository } from '../../../src/repositories/HandoffRepository.js';
+import { ContactRepository } from '../../../src/repositories/ContactRepository.js';
+import { TranscriptService } from '../../../src/services/TranscriptService.js';
+import { TwilioService } from '../../../src/services/TwilioService.js';
+import { HandoffTicket, ValidationError } from '../../../src/types/index.js';
+
+function ticket(overrides: Partial<HandoffTicket> = {}): HandoffTicket {
+  return {
+    id: 3,
+    user_id: 'user-1',
+    phone: '+256700000000',
+    language: 'en',
+    settlement_id: null,
+    last_intent: null,
+    status: 'open',
+    closed_by: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    closed_at: null,
+    ...overrides
+  };
+}
+
+describe('HandoffService', () => {
+  let repo: jest.Mocked<Pick<HandoffRepository, 'addMessage' | 'closeTicket' | 'getTicketById'>>;
+  let twilio: jest.Mocked<Pick<TwilioService, 'sendWhatsAppMessage'>>;
+  let handoff: HandoffService;
+
+  beforeEach(() => {
+    repo = { addMessage: jest.fn(), closeTicket: jest.fn(), getTicketById: jest.fn() };
+    twilio = { sendWhatsAppMessage: jest.fn().mockResolvedValue(undefined) };
+    handoff = new HandoffService(
+      repo as unknown as HandoffRepository,
+      {} as ContactRepository,
+      twilio as unknown as TwilioService,
+      { recordStaffMessage: jest.fn() } as unknown as TranscriptService
+    );
+  });
+
+  it.each([
+    ['BOT', true],
+    ['bot ', true],
+    ['MENU', false],
+    ['back to the bot please', false]
+  ])('reads %p as an exit request: %p', (message, expected) => {
+    expect(handoff.isExitRequest(message)).toBe(expected);
+  });
+
+  describe('relayUserMessage', () => {
+    it('stores the message for the caseworker without replying', async () => {
+      repo.addMessage.mockResolvedValue({} as Awaited<ReturnType<HandoffRepository['addMessage']>>);
+
+      await expect(handoff.relayUserMessage(ticket(), 'hello?')).resolves.toEqual({ message: '' });
+      expect(repo.addMessage).toHaveBeenCalledWith({ ticket_id: 3, sender: 'user', body: 'hello?', staff_name: null });
+    });
+
+    it('fails when the message cannot be stored', async () => {
+      repo.addMessage.mockRejectedValue(new Error('Database error: timeout'));
+
+      await expect(handoff.relayUserMessage(ticket(), 'hello?')).rejects.toThrow('Database error: timeout');
+    });
+  });
+
+  describe('closing', () => {
+    it('tells the user once staff have closed the ticket', async () => {
+      repo.getTicketById.mockResolvedValue(ticket());
+      repo.closeTicket.mockResolvedValue(ticket({ status: 'closed', phone: null, closed_by: 'Amina' }));
+
+      await handoff.closeTicket(3, 'Amina');
+
+      expect(repo.closeTicket).toHaveBeenCalledWith(3, 'Amina');
+      expect(twilio.sendWhatsAppMessage).toHaveBeenCalledWith('+256700000000', expect.stringContaining('closed'));
+    });
+
+    it('does not notify the user when they left first', async () => {
+      repo.getTicketById.mockResolvedValue(ticket());
+      repo.closeTicket.mockResolvedValue(null);
+
+      await expect(handoff.closeTicket(3, 'Amina')).rejects.toThrow(ValidationError);
+      expect(twilio.sendWhatsAppMessage).not.toHaveBeenCalled();
+    });
+
+    it('hands the user back to the bot even if staff closed the ticket first', async () => {
+      repo.closeTicket.mockResolvedValue(null);
+
+      const reply = await handoff.leaveTicket(ticket());
+
+      expect(repo.closeTicket).toHaveBeenCalledWith(3, 'user');
+      expect(reply.message).toContain('talking to the bot again');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { IntentMatcher } from '../../../src/services/IntentMatcher.js';
+import { IntentRegistry } from '../../../src/services/IntentRegistry.js';
+import { INTENT_DECLARATIONS } from '../../../src/services/intentDefinitions.js';
+import { INTENT_NAMES } from '../../../src/utils/constants.js';
+
+describe('IntentMatcher', () => {
+  const matcher = new IntentMatcher(new IntentRegistry(INTENT_DECLARATIONS).getTriggerDefinitions());
+
+  describe('match', () => {
+    it.each([
+      ['I need food', INTENT_NAMES.FIND_FOOD],
+      ['chakula', INTENT_NAMES.FIND_FOOD],
+      ['where is the hospital', INTENT_NAMES.FIND_HEALTHCARE],
+      ['house', INTENT_NAMES.FIND_SHELTER],
+      ['hello', INTENT_NAMES.WELCOME]
+    ])('matches "%s" to %s', (message, intent) => {
+      expect(matcher.match(message).intent).toBe(intent);
+    });
+
+    it('tolerates a typo inside a longer word', () => {
+      expect(matcher.match('regstration')).toMatchObject({ intent: INTENT_NAMES.FIND_REGISTRATION, confidence: 0.7 });
+      expect(matcher.match('helth centre').intent).toBe(INTENT_NAMES.FIND_HEALTHCARE);
+    });
+
+    it('lets a topic win over a greeting', () => {
+      expect(matcher.match('hello I need food').intent).toBe(INTENT_NAMES.FIND_FOOD);
+    });
+
+    it('asks which topic was meant when two score the same', () => {
+      const match = matcher.match('shelter and food');
+
+      expect(match.intent).toBeNull();
+      expect(match.isAmbiguous).toBe(true);
+      expect(match.candidates.map(candidate => candidate.intent).sort())
+        .toEqual([INTENT_NAMES.FIND_FOOD, INTENT_NAMES.FIND_SHELTER].sort());
+    });
+
+    it.each([
+      'give me 5 stars',
+      '5 stars',
+      'stars',
+      '4/5',
+      '⭐⭐⭐',
+      '1',
+      '12',
+      'back',
+      'more',
+      'this'
+    ])('matches nothing for rating or menu input "%s"', message => {
+      expect(matcher.match(message)).toMatchObject({ intent: null, candidates: [] });
+    });
+  });
+
+  describe('extractStepNumber', () => {
+    it.each([
+      ['step 3', 3],
+      ['what happens at step two', 2],
+      ['hatua 4', 4],
+      ['the third step', 3]
+    ])('reads "%s" as step %i', (message, step) => {
+      expect(matcher.extractStepNumber(message)).toBe(step);
+    });
+
+    it('returns null when no step is named', () => {
+      expect(matcher.extractStepNumber('I need 3 things')).toBeNull();
+      expect(matcher.extractStepNumber('next step')).toBeNull();
+    });
+  });
+});
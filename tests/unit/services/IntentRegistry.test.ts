@@ -0,0 +1,71 @@
+import { IntentContext, IntentDataSources, IntentRegistry } from '../../../src/services/IntentRegistry.js';
+import { translate } from '../../../src/utils/translations.js';
+
+function context(options: IntentContext['options'] = {}): IntentContext {
+  return { language: 'en', options, data: {} as IntentDataSources };
+}
+
+describe('IntentRegistry.dispatch', () => {
+  const nearestHandler = jest.fn().mockResolvedValue({ message: 'Nearest services', metadata: { language: 'en' } });
+  const greetingHandler = jest.fn().mockResolvedValue({ message: 'Hello' });
+
+  const registry = new IntentRegistry([
+    {
+      name: 'nearest_services',
+      requiredParameters: [{ name: 'settlement', prompt: 'NEAREST_ASK_LOCATION' }],
+      handler: nearestHandler
+    },
+    { name: 'greeting', aliases: ['Default Welcome Intent'], handler: greetingHandler }
+  ]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('answers a registered intent and tags the response with its name', async () => {
+    const ctx = context();
+
+    await expect(registry.dispatch('greeting', ctx)).resolves.toEqual({
+      message: 'Hello',
+      metadata: { intent: 'greeting' }
+    });
+    expect(greetingHandler).toHaveBeenCalledWith(ctx);
+  });
+
+  it('answers an alias under the canonical name', async () => {
+    const response = await registry.dispatch('Default Welcome Intent', context());
+
+    expect(greetingHandler).toHaveBeenCalledTimes(1);
+    expect(response?.metadata?.intent).toBe('greeting');
+  });
+
+  it('keeps metadata the handler set', async () => {
+    const settlement = { id: 1 } as NonNullable<IntentContext['options']['settlement']>;
+    const response = await registry.dispatch('nearest_services', context({ settlement }));
+
+    expect(response?.metadata).toEqual({ language: 'en', intent: 'nearest_services' });
+  });
+
+  it('asks for a missing required parameter instead of answering', async () => {
+    for (const settlement of [undefined, null]) {
+      const response = await registry.dispatch('nearest_services', context({ settlement }));
+
+      expect(response).toEqual({
+        message: translate('NEAREST_ASK_LOCATION', 'en'),
+        metadata: { intent: 'nearest_services' }
+      });
+    }
+    expect(nearestHandler).not.toHaveBeenCalled();
+  });
+
+  it('returns null for an unknown intent', async () => {
+    await expect(registry.dispatch('unknown', context())).resolves.toBeNull();
+  });
+
+  it('refuses a name registered twice', () => {
+    expect(() => new IntentRegistry([
+      { name: 'greeting', handler: greetingHandler },
+      { name: 'welcome', aliases: ['greeting'], handler: greetingHandler }
+    ])).toThrow('Intent name registered twice: greeting');
+  });
+});
@@ -0,0 +1,99 @@
+import { LocationService } from '../../../src/services/LocationService.js';
+import { ServiceRepository } from '../../../src/repositories/ServiceRepository.js';
+import { SettlementRepository } from '../../../src/repositories/SettlementRepository.js';
+import { UserProfileRepository } from '../../../src/repositories/UserProfileRepository.js';
+import { Service, Settlement } from '../../../src/types/index.js';
+
+function settlement(id: number, name: string, latitude: number, longitude: number, aliases: string[] = []): Settlement {
+  return {
+    id,
+    name,
+    district: null,
+    aliases,
+    latitude,
+    longitude,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z'
+  };
+}
+
+const NAKIVALE = settlement(1, 'Nakivale', -0.7833, 30.95, ['Nakivale Refugee Settlement']);
+const ORUCHINGA = settlement(2, 'Oruchinga', -0.85, 30.69);
+
+function service(id: number, latitude: number, longitude: number): Service {
+  return { id, latitude, longitude, settlement_id: null } as Service;
+}
+
+describe('LocationService', () => {
+  let serviceRepo: jest.Mocked<Pick<ServiceRepository, 'getServicesWithCoordinates'>>;
+  let settlementRepo: jest.Mocked<Pick<SettlementRepository, 'getAllSettlements' | 'getSettlementById'>>;
+  let profileRepo: jest.Mocked<Pick<UserProfileRepository, 'getProfile' | 'upsertProfile'>>;
+  let location: LocationService;
+
+  beforeEach(() => {
+    serviceRepo = { getServicesWithCoordinates: jest.fn() };
+    settlementRepo = {
+      getAllSettlements: jest.fn().mockResolvedValue([NAKIVALE, ORUCHINGA]),
+      getSettlementById: jest.fn()
+    };
+    profileRepo = { getProfile: jest.fn(), upsertProfile: jest.fn() };
+    location = new LocationService(
+      serviceRepo as unknown as ServiceRepository,
+      settlementRepo as unknown as SettlementRepository,
+      profileRepo as unknown as UserProfileRepository
+    );
+  });
+
+  describe('findNamedSettlement', () => {
+    it('finds a settlement by name, alias or a small typo', async () => {
+      await expect(location.findNamedSettlement('I live in Nakivale')).resolves.toBe(NAKIVALE);
+      await expect(location.findNamedSettlement('food in nakivale refugee settlement')).resolves.toBe(NAKIVALE);
+      await expect(location.findNamedSettlement('oruchenga clinic')).resolves.toBe(ORUCHINGA);
+    });
+
+    it('returns null when no settlement is named', async () => {
+      await expect(location.findNamedSettlement('where can I get food')).resolves.toBeNull();
+    });
+  });
+
+  describe('findNearestSettlement', () => {
+    it('picks the closest settlement', async () => {
+      await expect(location.findNearestSettlement({ latitude: -0.84, longitude: 30.7 })).resolves.toBe(ORUCHINGA);
+      await expect(location.findNearestSettlement({ latitude: -0.78, longitude: 30.93 })).resolves.toBe(NAKIVALE);
+    });
+
+    it('sets no settlement for a pin more than 20 km from all of them', async () => {
+      // Kampala
+      await expect(location.findNearestSettlement({ latitude: 0.3476, longitude: 32.5825 })).resolves.toBeNull();
+    });
+  });
+
+  it('lists services nearest first', async () => {
+    serviceRepo.getServicesWithCoordinates.mockResolvedValue([service(1, -0.9, 30.9), service(2, -0.79, 30.95)]);
+
+    const nearby = await location.findNearestServices({ latitude: -0.7833, longitude: 30.95 });
+
+    expect(nearby.map(entry => entry.service.id)).toEqual([2, 1]);
+    expect(nearby[0].distanceKm).toBeLessThan(1);
+  });
+
+  it('remembers a named settlement for the user, or falls back to the saved one', async () => {
+    await expect(location.resolveUserSettlement('user-1', 'I am in Nakivale')).resolves.toBe(NAKIVALE);
+    expect(profileRepo.upsertProfile).toHaveBeenCalledWith('user-1', { settlement_id: NAKIVALE.id });
+
+    profileRepo.getProfile.mockResolvedValue({ settlement_id: ORUCHINGA.id } as Awaited<ReturnType<UserProfileRepository['getProfile']>>);
+    await expect(location.resolveUserSettlement('user-1', 'where is the clinic')).resolves.toBe(ORUCHINGA);
+  });
+
+  it('lists items in the settlement first, then region-wide ones', () => {
+    const items = [
+      { id: 1, settlement_id: ORUCHINGA.id },
+      { id: 2, settlement_id: null },
+      { id: 3, settlement_id: NAKIVALE.id }
+    ];
+
+    expect(location.prioritiseSettlement(items, NAKIVALE).map(item => item.id)).toEqual([3, 2]);
+    expect(location.prioritiseSettlement(items, null)).toBe(items);
+    expect(location.prioritiseSettlement([items[0]], NAKIVALE)).toEqual([items[0]]);
+  });
+});
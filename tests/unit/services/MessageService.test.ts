@@ -0,0 +1,134 @@
+import { MessageService } from '../../../src/services/MessageService.js';
+import { DialogflowService } from '../../../src/services/dialogflowService.js';
+import { LanguageService } from '../../../src/services/LanguageService.js';
+import { SessionService } from '../../../src/services/SessionService.js';
+import { LocationService } from '../../../src/services/LocationService.js';
+import { SafeguardingService } from '../../../src/services/SafeguardingService.js';
+import { HandoffService } from '../../../src/services/HandoffService.js';
+import { TranscriptService } from '../../../src/services/TranscriptService.js';
+import { UnansweredQuestionService } from '../../../src/services/UnansweredQuestionService.js';
+import { FeedbackService } from '../../../src/services/FeedbackService.js';
+import { BotResponse, ConversationSession, HandoffTicket } from '../../../src/types/index.js';
+import { CRISIS_DEFINITIONS } from '../../../src/utils/crisisDefinitions.js';
+import { INTENT_NAMES } from '../../../src/utils/constants.js';
+
+const PHONE = 'whatsapp:+256700000000';
+const SUICIDE = CRISIS_DEFINITIONS[0];
+const TICKET = { id: 3, status: 'open' } as HandoffTicket;
+const CRISIS_REPLY: BotResponse = { message: 'crisis', metadata: { intent: INTENT_NAMES.SAFEGUARDING } };
+const HANDOFF_REPLY: BotResponse = { message: 'handoff' };
+const RATING_REPLY: BotResponse = { message: 'thanks' };
+
+const RATING_SESSION = {
+  pending_feedback: { stage: 'rating', intent: 'find_food', serviceIds: [], contactIds: [], faqId: null }
+} as unknown as ConversationSession;
+
+describe('MessageService routing', () => {
+  let safeguarding: jest.Mocked<Pick<SafeguardingService, 'detectCrisis' | 'handleCrisis'>>;
+  let handoff: jest.Mocked<Pick<HandoffService,
+    'getOpenTicket' | 'isExitRequest' | 'relayUserMessage' | 'leaveTicket' | 'isHandoffRequest' | 'openTicket'>>;
+  let sessions: jest.Mocked<Pick<SessionService, 'getActiveSession' | 'resolveAction' | 'recordResponse'>>;
+  let feedback: jest.Mocked<Pick<FeedbackService, 'parseRating' | 'recordRating'>>;
+  let messages: MessageService;
+
+  beforeEach(() => {
+    safeguarding = { detectCrisis: jest.fn().mockReturnValue(null), handleCrisis: jest.fn().mockResolvedValue(CRISIS_REPLY) };
+    handoff = {
+      getOpenTicket: jest.fn().mockResolvedValue(null),
+      isExitRequest: jest.fn().mockReturnValue(false),
+      relayUserMessage: jest.fn().mockResolvedValue({ message: '' }),
+      leaveTicket: jest.fn(),
+      isHandoffRequest: jest.fn().mockReturnValue(false),
+      openTicket: jest.fn().mockResolvedValue(HANDOFF_REPLY)
+    };
+    sessions = {
+      getActiveSession: jest.fn().mockResolvedValue(null),
+      resolveAction: jest.fn().mockReturnValue(null),
+      recordResponse: jest.fn().mockResolvedValue(undefined)
+    };
+    feedback = { parseRating: jest.fn().mockReturnValue(null), recordRating: jest.fn().mockResolvedValue(RATING_REPLY) };
+
+    messages = new MessageService(
+      {} as DialogflowService,
+      {
+        getPreferredLanguage: jest.fn().mockResolvedValue('en'),
+        resolveLanguage: jest.fn().mockResolvedValue('en'),
+        parseLanguageCommand: jest.fn().mockReturnValue(null)
+      } as unknown as LanguageService,
+      sessions as unknown as SessionService,
+      {
+        getUserSettlement: jest.fn().mockResolvedValue(null),
+        resolveUserSettlement: jest.fn().mockResolvedValue(null)
+      } as unknown as LocationService,
+      safeguarding as unknown as SafeguardingService,
+      handoff as unknown as HandoffService,
+      { recordOutbound: jest.fn() } as unknown as TranscriptService,
+      { capture: jest.fn() } as unknown as UnansweredQuestionService,
+      feedback as unknown as FeedbackService
+    );
+  });
+
+  describe('during a handoff', () => {
+    beforeEach(() => {
+      handoff.getOpenTicket.mockResolvedValue(TICKET);
+    });
+
+    it('relays the message and stays quiet', async () => {
+      await expect(messages.processMessage('MENU', PHONE)).resolves.toEqual({ message: '' });
+      expect(handoff.relayUserMessage).toHaveBeenCalledWith(TICKET, 'MENU', null);
+      expect(handoff.leaveTicket).not.toHaveBeenCalled();
+    });
+
+    it('answers a crisis and still passes it to the caseworker', async () => {
+      safeguarding.detectCrisis.mockReturnValue(SUICIDE);
+
+      const reply = await messages.processMessage('I want to kill myself', PHONE);
+
+      expect(reply.message).toBe('crisis');
+      expect(handoff.relayUserMessage).toHaveBeenCalledWith(TICKET, 'I want to kill myself', null);
+      expect(handoff.leaveTicket).not.toHaveBeenCalled();
+    });
+
+    it('answers a crisis even when the relay fails', async () => {
+      safeguarding.detectCrisis.mockReturnValue(SUICIDE);
+      handoff.relayUserMessage.mockRejectedValue(new Error('Database error: timeout'));
+
+      await expect(messages.processQueuedMessage('I want to kill myself', PHONE, null))
+        .resolves.toMatchObject({ message: 'crisis' });
+    });
+
+    it('fails a message that could not be relayed, so the queue retries it', async () => {
+      handoff.relayUserMessage.mockRejectedValue(new Error('Database error: timeout'));
+
+      await expect(messages.processQueuedMessage('hello?', PHONE, null)).rejects.toThrow('Database error: timeout');
+      await expect(messages.processMessage('hello?', PHONE)).resolves.not.toEqual({ message: '' });
+    });
+  });
+
+  it('answers a crisis before a request for a person', async () => {
+    safeguarding.detectCrisis.mockReturnValue(SUICIDE);
+    handoff.isHandoffRequest.mockReturnValue(true);
+
+    await expect(messages.processMessage('talk to a person, I want to kill myself', PHONE))
+      .resolves.toMatchObject({ message: 'crisis' });
+    expect(handoff.openTicket).not.toHaveBeenCalled();
+  });
+
+  it('opens a handoff before taking a pending rating', async () => {
+    sessions.getActiveSession.mockResolvedValue(RATING_SESSION);
+    sessions.resolveAction.mockReturnValue({ type: 'option', label: 'Talk to a person', intent: INTENT_NAMES.HUMAN_HANDOFF });
+    feedback.parseRating.mockReturnValue({ rating: 5, helpful: true });
+
+    await expect(messages.processMessage('5', PHONE)).resolves.toMatchObject({ message: 'handoff' });
+    expect(feedback.recordRating).not.toHaveBeenCalled();
+  });
+
+  it('records a pending rating', async () => {
+    sessions.getActiveSession.mockResolvedValue(RATING_SESSION);
+    const rating = { rating: 4, helpful: true };
+    feedback.parseRating.mockReturnValue(rating);
+
+    await expect(messages.processMessage('4', PHONE)).resolves.toMatchObject({ message: 'thanks' });
+    expect(feedback.recordRating).toHaveBeenCalledWith(expect.any(String), RATING_SESSION.pending_feedback, rating, 'en');
+  });
+});
@@ -0,0 +1,104 @@
+import { ReplyQueueService } from '../../../src/services/ReplyQueueService.js';
+import { ReplyJobRepository } from '../../../src/repositories/ReplyJobRepository.js';
+import { MessageService } from '../../../src/services/MessageService.js';
+import { TwilioService } from '../../../src/services/TwilioService.js';
+import { EnvironmentConfig } from '../../../src/config/env.js';
+import { ReplyJob } from '../../../src/types/index.js';
+import { ResponseFormatter } from '../../../src/utils/responseFormatter.js';
+
+const REPLY = ResponseFormatter.formatForWhatsApp({ message: 'Food is distributed on Mondays.' });
+
+function job(overrides: Partial<ReplyJob> = {}): ReplyJob {
+  return {
+    id: 11,
+    phone: '+256700000000',
+    body: 'when is food distribution',
+    latitude: null,
+    longitude: null,
+    message_sid: 'SM1',
+    status: 'processing',
+    attempts: 1,
+    reply: null,
+    last_error: null,
+    run_at: '2026-01-01T00:00:00Z',
+    locked_at: '2026-01-01T00:00:00Z',
+    created_at: '2026-01-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+describe('ReplyQueueService', () => {
+  let repo: jest.Mocked<Pick<ReplyJobRepository,
+    'getDueJobs' | 'claimJob' | 'saveReply' | 'scheduleRetry' | 'deleteJob' | 'moveToDeadLetters'>>;
+  let messages: jest.Mocked<Pick<MessageService, 'processQueuedMessage'>>;
+  let twilio: jest.Mocked<Pick<TwilioService, 'sendWhatsAppMessage'>>;
+  let queue: ReplyQueueService;
+
+  function runWith(claimed: ReplyJob): Promise<number> {
+    repo.getDueJobs.mockResolvedValueOnce([claimed]).mockResolvedValue([]);
+    repo.claimJob.mockResolvedValue(claimed);
+    return queue.processDueJobs();
+  }
+
+  beforeEach(() => {
+    repo = {
+      getDueJobs: jest.fn(),
+      claimJob: jest.fn(),
+      saveReply: jest.fn().mockResolvedValue(undefined),
+      scheduleRetry: jest.fn().mockResolvedValue(undefined),
+      deleteJob: jest.fn().mockResolvedValue(undefined),
+      moveToDeadLetters: jest.fn().mockResolvedValue(undefined)
+    };
+    messages = { processQueuedMessage: jest.fn().mockResolvedValue({ message: 'Food is distributed on Mondays.' }) };
+    twilio = { sendWhatsAppMessage: jest.fn().mockResolvedValue(undefined) };
+    queue = new ReplyQueueService(
+      repo as unknown as ReplyJobRepository,
+      messages as unknown as MessageService,
+      twilio as unknown as TwilioService
+    );
+  });
+
+  it('answers, sends and removes a job', async () => {
+    await expect(runWith(job())).resolves.toBe(1);
+
+    expect(repo.saveReply).toHaveBeenCalledWith(11, REPLY);
+    expect(twilio.sendWhatsAppMessage).toHaveBeenCalledWith('+256700000000', REPLY);
+    expect(repo.deleteJob).toHaveBeenCalledWith(11);
+  });
+
+  it('keeps the reply with the retry when saving it fails', async () => {
+    repo.saveReply.mockRejectedValue(new Error('Database error: timeout'));
+
+    await runWith(job());
+
+    expect(twilio.sendWhatsAppMessage).not.toHaveBeenCalled();
+    expect(repo.scheduleRetry).toHaveBeenCalledWith(11, expect.any(String), 'Database error: timeout', REPLY);
+  });
+
+  it('only sends the saved reply on a retry', async () => {
+    await runWith(job({ attempts: 2, reply: REPLY }));
+
+    expect(messages.processQueuedMessage).not.toHaveBeenCalled();
+    expect(twilio.sendWhatsAppMessage).toHaveBeenCalledWith('+256700000000', REPLY);
+  });
+
+  it('retries a failed answer without a reply', async () => {
+    messages.processQueuedMessage.mockRejectedValue(new Error('Dialogflow timeout'));
+
+    await runWith(job());
+
+    expect(repo.scheduleRetry).toHaveBeenCalledWith(11, expect.any(String), 'Dialogflow timeout', null);
+  });
+
+  it('dead-letters the last attempt with the reply it worked out', async () => {
+    twilio.sendWhatsAppMessage.mockRejectedValue(new Error('Twilio unavailable'));
+
+    await runWith(job({ attempts: EnvironmentConfig.replyJobMaxAttempts }));
+
+    expect(repo.scheduleRetry).not.toHaveBeenCalled();
+    expect(repo.moveToDeadLetters).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 11, reply: REPLY }),
+      'Twilio unavailable'
+    );
+  });
+});
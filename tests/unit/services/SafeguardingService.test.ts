@@ -0,0 +1,139 @@
+import { SafeguardingService } from '../../../src/services/SafeguardingService.js';
+import { ContactRepository } from '../../../src/repositories/ContactRepository.js';
+import { SafeguardingRepository } from '../../../src/repositories/SafeguardingRepository.js';
+import { LocationService } from '../../../src/services/LocationService.js';
+import { NotFoundError, ValidationError } from '../../../src/types/index.js';
+import { SafeguardingFlag } from '../../../src/types/database.js';
+import { CRISIS_TYPES, CrisisType } from '../../../src/utils/constants.js';
+
+function flag(status: SafeguardingFlag['status']): SafeguardingFlag {
+  return {
+    id: 7,
+    user_id: 'user-1',
+    crisis_type: CRISIS_TYPES.GBV,
+    message: 'my husband beats me',
+    language: 'en',
+    settlement_id: null,
+    status,
+    resolved_by: status === 'resolved' ? 'Amina' : null,
+    created_at: '2026-01-01T00:00:00Z',
+    resolved_at: status === 'resolved' ? '2026-01-02T00:00:00Z' : null
+  };
+}
+
+describe('SafeguardingService', () => {
+  let repo: jest.Mocked<Pick<SafeguardingRepository, 'getFlags' | 'getFlagById' | 'resolveFlag'>>;
+  let service: SafeguardingService;
+
+  beforeEach(() => {
+    repo = { getFlags: jest.fn(), getFlagById: jest.fn(), resolveFlag: jest.fn() };
+    service = new SafeguardingService(
+      {} as ContactRepository,
+      repo as unknown as SafeguardingRepository,
+      {} as LocationService
+    );
+  });
+
+  describe('detectCrisis', () => {
+    const crises: [CrisisType, string, string][] = [
+      [CRISIS_TYPES.SUICIDE, 'en', 'I want to kill myself'],
+      [CRISIS_TYPES.SUICIDE, 'en', 'thinking about sucide'],
+      [CRISIS_TYPES.SUICIDE, 'en', 'I feel SUICIDAL tonight'],
+      [CRISIS_TYPES.SUICIDE, 'sw', 'nataka kufa'],
+      [CRISIS_TYPES.SUICIDE, 'fr', "j'ai envie de mourir"],
+      [CRISIS_TYPES.SUICIDE, 'rw', 'ndashaka kwiyahura'],
+      [CRISIS_TYPES.SUICIDE, 'ar', 'أريد أن أموت'],
+      [CRISIS_TYPES.SUICIDE, 'so', 'waan dhiman rabaa'],
+      [CRISIS_TYPES.SUICIDE, 'nyn', 'ninyenda kufa'],
+      [CRISIS_TYPES.MEDICAL, 'en', 'my baby is not breathing'],
+      [CRISIS_TYPES.MEDICAL, 'en', 'she collapsed at the market'],
+      [CRISIS_TYPES.MEDICAL, 'sw', 'mama yangu amezimia'],
+      [CRISIS_TYPES.MEDICAL, 'fr', 'mon fils ne respire pas'],
+      [CRISIS_TYPES.MEDICAL, 'rw', 'umugore ari kubyara'],
+      [CRISIS_TYPES.MEDICAL, 'ar', 'أبي لا يتنفس'],
+      [CRISIS_TYPES.MEDICAL, 'so', 'wiilkaygii ma neefsanayo'],
+      [CRISIS_TYPES.CHILD_PROTECTION, 'en', 'he hits my children'],
+      [CRISIS_TYPES.CHILD_PROTECTION, 'en', 'my child is missing since morning'],
+      [CRISIS_TYPES.CHILD_PROTECTION, 'sw', 'mtoto amepotea'],
+      [CRISIS_TYPES.CHILD_PROTECTION, 'fr', 'un enfant perdu au marché'],
+      [CRISIS_TYPES.CHILD_PROTECTION, 'rw', 'umwana yabuze'],
+      [CRISIS_TYPES.CHILD_PROTECTION, 'ar', 'طفل مفقود'],
+      [CRISIS_TYPES.CHILD_PROTECTION, 'so', 'guur carruureed'],
+      [CRISIS_TYPES.CHILD_PROTECTION, 'nyn', 'omwana yaabura'],
+      [CRISIS_TYPES.GBV, 'en', 'my husband beats me every night'],
+      [CRISIS_TYPES.GBV, 'en', 'I was raped'],
+      [CRISIS_TYPES.GBV, 'sw', 'mume wangu ananipiga'],
+      [CRISIS_TYPES.GBV, 'fr', 'mon mari me bat'],
+      [CRISIS_TYPES.GBV, 'rw', 'umugabo wanjye arankubita'],
+      [CRISIS_TYPES.GBV, 'ar', 'زوجي يضربني'],
+      [CRISIS_TYPES.GBV, 'so', 'ninkeyga i garaaca'],
+      [CRISIS_TYPES.VIOLENCE, 'en', 'kill me'],
+      [CRISIS_TYPES.VIOLENCE, 'en', 'my neighbour says he will kill me'],
+      [CRISIS_TYPES.VIOLENCE, 'en', 'he hits me'],
+      [CRISIS_TYPES.VIOLENCE, 'en', 'I was beaten up last night'],
+      [CRISIS_TYPES.VIOLENCE, 'en', 'I was stabbed'],
+      [CRISIS_TYPES.VIOLENCE, 'sw', 'wanataka kuniua'],
+      [CRISIS_TYPES.VIOLENCE, 'fr', 'il veut me tuer'],
+      [CRISIS_TYPES.VIOLENCE, 'rw', 'bashaka kunyica'],
+      [CRISIS_TYPES.VIOLENCE, 'ar', 'يريد قتلي'],
+      [CRISIS_TYPES.VIOLENCE, 'so', 'waa la i garaacay'],
+      [CRISIS_TYPES.VIOLENCE, 'nyn', 'nibenda kunyita']
+    ];
+
+    it.each(crises)('detects %s in %s: %p', (type, _language, message) => {
+      expect(service.detectCrisis(message)?.type).toBe(type);
+    });
+
+    const ordinary: [string, string][] = [
+      ['en', 'hit me up with food info'],
+      ['en', 'I was beaten at football'],
+      ['en', 'beats me why the office is closed'],
+      ['en', 'where is the nearest clinic'],
+      ['en', 'how do I register my children'],
+      ['en', 'he is sick'],
+      ['sw', 'nataka chakula'],
+      ['sw', 'kliniki iko wapi'],
+      ['fr', 'où trouver de la nourriture'],
+      ['fr', 'mon enfant va à l\'école'],
+      ['rw', 'ndashaka ibiryo'],
+      ['ar', 'أين أجد الطعام'],
+      ['so', 'xagee cunto laga helaa'],
+      ['nyn', 'nkwenda ebyokurya']
+    ];
+
+    it.each(ordinary)('ignores an ordinary %s message: %p', (_language, message) => {
+      expect(service.detectCrisis(message)).toBeNull();
+    });
+
+    it('prefers the most urgent crisis when several match', () => {
+      expect(service.detectCrisis('he beat me and now I want to die')?.type).toBe(CRISIS_TYPES.SUICIDE);
+    });
+
+    it('ignores an empty message', () => {
+      expect(service.detectCrisis('  ?! ')).toBeNull();
+    });
+  });
+
+  describe('resolveFlag', () => {
+    it('resolves an open flag', async () => {
+      repo.resolveFlag.mockResolvedValue(flag('resolved'));
+
+      await expect(service.resolveFlag(7, 'Amina')).resolves.toEqual(flag('resolved'));
+      expect(repo.resolveFlag).toHaveBeenCalledWith(7, 'Amina');
+    });
+
+    it('rejects a flag that is already resolved', async () => {
+      repo.resolveFlag.mockResolvedValue(null);
+      repo.getFlagById.mockResolvedValue(flag('resolved'));
+
+      await expect(service.resolveFlag(7, 'Amina')).rejects.toThrow(ValidationError);
+    });
+
+    it('rejects an unknown flag', async () => {
+      repo.resolveFlag.mockResolvedValue(null);
+      repo.getFlagById.mockResolvedValue(null);
+
+      await expect(service.resolveFlag(7, 'Amina')).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { SessionService } from '../../../src/services/SessionService.js';
+import { SessionRepository } from '../../../src/repositories/SessionRepository.js';
+import { ConversationSession } from '../../../src/types/index.js';
+import { INTENT_NAMES } from '../../../src/utils/constants.js';
+
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+
+function session(overrides: Partial<ConversationSession> = {}): ConversationSession {
+  return {
+    user_id: 'user-1',
+    current_menu: INTENT_NAMES.WELCOME,
+    last_intent: INTENT_NAMES.WELCOME,
+    menu_options: ['Registration', 'Food', 'Shelter'],
+    menu_history: [],
+    last_items: [],
+    item_offset: 0,
+    pending_feedback: null,
+    expires_at: new Date(NOW + 60_000).toISOString(),
+    created_at: new Date(NOW).toISOString(),
+    updated_at: new Date(NOW).toISOString(),
+    ...overrides
+  };
+}
+
+describe('SessionService', () => {
+  let repo: jest.Mocked<Pick<SessionRepository, 'getSession' | 'saveSession'>>;
+  let service: SessionService;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    repo = { getSession: jest.fn(), saveSession: jest.fn().mockResolvedValue(undefined) };
+    service = new SessionService(repo as unknown as SessionRepository);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('resolveAction', () => {
+    it.each([
+      ['back', 'back'],
+      ['Rudi', 'back'],
+      ['more', 'more'],
+      ['ebindi', 'more'],
+      ['MENU', 'menu'],
+      ['main menu', 'menu'],
+      ['liiska', 'menu']
+    ])('reads "%s" as %s', (message, type) => {
+      expect(service.resolveAction(message, session())).toEqual({ type });
+    });
+
+    it('picks a numbered option from the current menu', () => {
+      expect(service.resolveAction('2', session())).toEqual({
+        type: 'option',
+        label: 'Food',
+        intent: INTENT_NAMES.FIND_FOOD
+      });
+    });
+
+    it('flags a number that is not on the menu', () => {
+      expect(service.resolveAction('0', session())).toEqual({ type: 'invalid' });
+      expect(service.resolveAction('4', session())).toEqual({ type: 'invalid' });
+    });
+
+    it('leaves numbers alone without a session', () => {
+      expect(service.resolveAction('2', null)).toBeNull();
+    });
+
+    it('matches an option by its text', () => {
+      expect(service.resolveAction('shelter', session())).toEqual({
+        type: 'option',
+        label: 'Shelter',
+        intent: INTENT_NAMES.FIND_SHELTER
+      });
+    });
+
+    it('matches a translated label from an earlier menu', () => {
+      expect(service.resolveAction('Eby\'okurya', null)).toEqual({
+        type: 'option',
+        label: 'Eby\'okurya',
+        intent: INTENT_NAMES.FIND_FOOD
+      });
+    });
+
+    it('returns null for a question', () => {
+      expect(service.resolveAction('where can I get food?', session())).toBeNull();
+    });
+  });
+
+  describe('getActiveSession', () => {
+    it('ignores an expired session', async () => {
+      repo.getSession.mockResolvedValue(session({ expires_at: new Date(NOW - 1).toISOString() }));
+      await expect(service.getActiveSession('user-1')).resolves.toBeNull();
+    });
+
+    it('carries on without a session when it cannot be loaded', async () => {
+      repo.getSession.mockRejectedValue(new Error('Database error: timeout'));
+      await expect(service.getActiveSession('user-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('recordResponse', () => {
+    const foodMenu = { message: 'Food', quickReplies: ['WFP Contacts'], metadata: { intent: INTENT_NAMES.FIND_FOOD } };
+
+    function saved() {
+      return repo.saveSession.mock.calls[0][0];
+    }
+
+    it('stores the new menu and remembers the one it came from', async () => {
+      await service.recordResponse('user-1', session(), foodMenu, null);
+
+      expect(saved()).toMatchObject({
+        current_menu: INTENT_NAMES.FIND_FOOD,
+        menu_options: ['WFP Contacts'],
+        menu_history: [INTENT_NAMES.WELCOME],
+        expires_at: expect.any(String)
+      });
+    });
+
+    it('drops the last menu from the history on BACK', async () => {
+      const previous = session({ current_menu: INTENT_NAMES.FIND_FOOD, menu_history: [INTENT_NAMES.WELCOME] });
+      const welcome = { message: 'Hello', quickReplies: ['Food'], metadata: { intent: INTENT_NAMES.WELCOME } };
+
+      await service.recordResponse('user-1', previous, welcome, { type: 'back' });
+
+      expect(saved()).toMatchObject({ current_menu: INTENT_NAMES.WELCOME, menu_history: [] });
+      expect(service.getPreviousIntent(previous)).toBe(INTENT_NAMES.WELCOME);
+    });
+
+    it('clears the history on MENU', async () => {
+      const previous = session({ current_menu: INTENT_NAMES.FIND_FOOD, menu_history: [INTENT_NAMES.WELCOME, INTENT_NAMES.FIND_SHELTER] });
+      const welcome = { message: 'Hello', metadata: { intent: INTENT_NAMES.WELCOME } };
+
+      await service.recordResponse('user-1', previous, welcome, { type: 'menu' });
+
+      expect(saved().menu_history).toEqual([]);
+    });
+
+    it('keeps the menu after an invalid option, so the user can try again', async () => {
+      const previous = session({ last_items: ['a', 'b'], item_offset: 1 });
+
+      await service.recordResponse('user-1', previous, { message: 'Pick a number' }, { type: 'invalid' });
+
+      expect(saved()).toMatchObject({
+        current_menu: INTENT_NAMES.WELCOME,
+        menu_options: previous.menu_options,
+        last_items: ['a', 'b'],
+        item_offset: 1
+      });
+    });
+
+    it('does not return to one-off menus with BACK', async () => {
+      const previous = session({ current_menu: INTENT_NAMES.SET_LANGUAGE });
+
+      await service.recordResponse('user-1', previous, foodMenu, null);
+
+      expect(saved().menu_history).toEqual([]);
+    });
+
+    it('still answers when the session cannot be saved', async () => {
+      repo.saveSession.mockRejectedValue(new Error('Database error: timeout'));
+
+      await expect(service.recordResponse('user-1', session(), foodMenu, null)).resolves.toBeUndefined();
+    });
+  });
+});
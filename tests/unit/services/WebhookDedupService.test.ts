@@ -0,0 +1,99 @@
+import { WebhookDedupService } from '../../../src/services/WebhookDedupService.js';
+import { ProcessedWebhookRepository } from '../../../src/repositories/ProcessedWebhookRepository.js';
+import { ProcessedWebhook } from '../../../src/types/index.js';
+
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+
+function record(overrides: Partial<ProcessedWebhook> = {}): ProcessedWebhook {
+  return {
+    message_sid: 'SM1',
+    response: '<Response/>',
+    locked_at: new Date(NOW - 5_000).toISOString(),
+    expires_at: new Date(NOW + 60 * 60 * 1000).toISOString(),
+    created_at: new Date(NOW - 5_000).toISOString(),
+    ...overrides
+  };
+}
+
+describe('WebhookDedupService.begin', () => {
+  let repo: jest.Mocked<Pick<ProcessedWebhookRepository, 'claim' | 'getBySid' | 'reclaimExpired' | 'reclaimStale'>>;
+  let service: WebhookDedupService;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    repo = {
+      claim: jest.fn().mockResolvedValue(false),
+      getBySid: jest.fn(),
+      reclaimExpired: jest.fn().mockResolvedValue(false),
+      reclaimStale: jest.fn().mockResolvedValue(false)
+    };
+    service = new WebhookDedupService(repo as unknown as ProcessedWebhookRepository);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('processes a MessageSid seen for the first time', async () => {
+    repo.claim.mockResolvedValue(true);
+
+    await expect(service.begin('SM1')).resolves.toBeNull();
+    expect(repo.claim).toHaveBeenCalledWith('SM1', new Date(NOW + 24 * 60 * 60 * 1000).toISOString());
+    expect(repo.getBySid).not.toHaveBeenCalled();
+  });
+
+  it('returns the earlier record for a retry that was already answered', async () => {
+    const earlier = record();
+    repo.getBySid.mockResolvedValue(earlier);
+
+    await expect(service.begin('SM1')).resolves.toBe(earlier);
+    expect(repo.reclaimStale).not.toHaveBeenCalled();
+  });
+
+  it('leaves a retry to the first delivery while its lease lasts', async () => {
+    const earlier = record({ response: null });
+    repo.getBySid.mockResolvedValue(earlier);
+
+    await expect(service.begin('SM1')).resolves.toBe(earlier);
+    expect(repo.reclaimStale).not.toHaveBeenCalled();
+  });
+
+  it('takes over a delivery left unanswered past its lease', async () => {
+    repo.getBySid.mockResolvedValue(record({ response: null, locked_at: new Date(NOW - 30_000).toISOString() }));
+    repo.reclaimStale.mockResolvedValue(true);
+
+    await expect(service.begin('SM1')).resolves.toBeNull();
+    expect(repo.reclaimStale).toHaveBeenCalledWith('SM1', new Date(NOW - 20_000).toISOString());
+  });
+
+  it('returns the current record when another retry took over the stale delivery first', async () => {
+    const stale = record({ response: null, locked_at: new Date(NOW - 30_000).toISOString() });
+    const current = record({ response: null, locked_at: new Date(NOW).toISOString() });
+    repo.getBySid.mockResolvedValueOnce(stale).mockResolvedValueOnce(current);
+
+    await expect(service.begin('SM1')).resolves.toBe(current);
+  });
+
+  it('processes a MessageSid whose record has expired', async () => {
+    repo.getBySid.mockResolvedValue(record({ expires_at: new Date(NOW - 1).toISOString() }));
+    repo.reclaimExpired.mockResolvedValue(true);
+
+    await expect(service.begin('SM1')).resolves.toBeNull();
+    expect(repo.reclaimExpired).toHaveBeenCalled();
+  });
+
+  it('returns the new record when a concurrent delivery reclaimed the expired one first', async () => {
+    const current = record();
+    repo.getBySid
+      .mockResolvedValueOnce(record({ expires_at: new Date(NOW - 1).toISOString() }))
+      .mockResolvedValueOnce(current);
+
+    await expect(service.begin('SM1')).resolves.toBe(current);
+  });
+
+  it('processes the message when the store is unavailable', async () => {
+    repo.claim.mockRejectedValue(new Error('Database error: timeout'));
+
+    await expect(service.begin('SM1')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { CircuitBreaker } from '../../../src/utils/circuitBreaker.js';
+import { CircuitOpenError } from '../../../src/types/errors.js';
+
+const fail = () => Promise.reject(new Error('unavailable'));
+const succeed = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    breaker = new CircuitBreaker('Test', { failureThreshold: 3, resetTimeoutMs: 10_000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function openCircuit(): Promise<void> {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow('unavailable');
+    }
+  }
+
+  it('stays closed below the failure threshold', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow('unavailable');
+    await expect(breaker.execute(fail)).rejects.toThrow('unavailable');
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+  });
+
+  it('resets the failure count after a success', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await breaker.execute(succeed);
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+  });
+
+  it('opens at the threshold and fails calls without making them', async () => {
+    await openCircuit();
+    const call = jest.fn(succeed);
+
+    await expect(breaker.execute(call)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(call).not.toHaveBeenCalled();
+    expect(breaker.getStatus()).toMatchObject({
+      state: 'open',
+      lastError: 'unavailable',
+      nextProbeAt: new Date(now + 10_000).toISOString()
+    });
+  });
+
+  it('closes again when the probe after the reset timeout succeeds', async () => {
+    await openCircuit();
+    now += 10_000;
+
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0, openedAt: null });
+  });
+
+  it('re-opens for another period when the probe fails', async () => {
+    await openCircuit();
+    now += 10_000;
+
+    await expect(breaker.execute(fail)).rejects.toThrow('unavailable');
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', openedAt: new Date(now).toISOString() });
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it('lets only one probe through while it is in flight', async () => {
+    await openCircuit();
+    now += 10_000;
+
+    let finishProbe!: (value: string) => void;
+    const probe = breaker.execute(() => new Promise<string>(resolve => { finishProbe = resolve; }));
+
+    expect(breaker.getStatus().state).toBe('half_open');
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    finishProbe('probed');
+    await expect(probe).resolves.toBe('probed');
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+  });
+
+  it('passes on errors that isFailure rules out without counting them', async () => {
+    const rejecting = new CircuitBreaker('Test', {
+      failureThreshold: 1,
+      resetTimeoutMs: 10_000,
+      isFailure: error => error.message !== 'bad request'
+    });
+
+    await expect(rejecting.execute(() => Promise.reject(new Error('bad request')))).rejects.toThrow('bad request');
+    expect(rejecting.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+
+    await expect(rejecting.execute(fail)).rejects.toThrow('unavailable');
+    expect(rejecting.getStatus().state).toBe('open');
+  });
+});
@@ -0,0 +1,42 @@
+import { distanceKm, formatDistance, openStreetMapLink, parseCoordinates } from '../../../src/utils/geo.js';
+
+describe('parseCoordinates', () => {
+  it('parses the strings Twilio sends', () => {
+    expect(parseCoordinates('-0.6072', '30.6545')).toEqual({ latitude: -0.6072, longitude: 30.6545 });
+  });
+
+  it.each([
+    [undefined, '30.6'],
+    ['-0.6', ''],
+    [null, null],
+    ['abc', '30.6'],
+    ['91', '30.6'],
+    ['-0.6', '181']
+  ])('rejects %p, %p', (latitude, longitude) => {
+    expect(parseCoordinates(latitude, longitude)).toBeNull();
+  });
+});
+
+describe('distanceKm', () => {
+  it('is zero for the same point', () => {
+    expect(distanceKm({ latitude: 1, longitude: 2 }, { latitude: 1, longitude: 2 })).toBe(0);
+  });
+
+  it('measures great-circle distance', () => {
+    // One degree of longitude on the equator
+    expect(distanceKm({ latitude: 0, longitude: 30 }, { latitude: 0, longitude: 31 })).toBeCloseTo(111.19, 1);
+  });
+});
+
+describe('formatDistance', () => {
+  it('uses metres under a kilometre and rounds long distances', () => {
+    expect(formatDistance(0.45)).toBe('450 m');
+    expect(formatDistance(3.14)).toBe('3.1 km');
+    expect(formatDistance(42.6)).toBe('43 km');
+  });
+});
+
+it('links a point on OpenStreetMap', () => {
+  expect(openStreetMapLink({ latitude: -0.6, longitude: 30.6 }))
+    .toBe('https://www.openstreetmap.org/?mlat=-0.6&mlon=30.6#map=16/-0.6/30.6');
+});
@@ -0,0 +1,40 @@
+import { detectLanguage, findLanguage } from '../../../src/utils/languages.js';
+
+describe('detectLanguage', () => {
+  it.each([
+    ['he is sick', 'en'],
+    ['where can I find food please', 'en'],
+    ['nataka chakula tafadhali', 'sw'],
+    ['muraho ndashaka ibiryo', 'rw'],
+    ['bonjour je suis besoin d\'aide', 'fr'],
+    ['أين أجد الطعام', 'ar'],
+    ['fadlan waxaan rabaa cunto', 'so'],
+    ['agandi ninyenda obuyambi', 'nyn']
+  ])('reads "%s" as %s', (text, language) => {
+    expect(detectLanguage(text)?.language).toBe(language);
+  });
+
+  it('does not guess without enough signal', () => {
+    expect(detectLanguage('')).toBeNull();
+    expect(detectLanguage('12345')).toBeNull();
+    expect(detectLanguage('Nakivale')).toBeNull();
+  });
+
+  it('does not guess when two languages score the same', () => {
+    // 'je' is both French and Swahili
+    expect(detectLanguage('je')).toBeNull();
+  });
+});
+
+describe('findLanguage', () => {
+  it('finds a language by code, English name or native name', () => {
+    expect(findLanguage('sw')).toBe('sw');
+    expect(findLanguage('Somali')).toBe('so');
+    expect(findLanguage(' Runyankore ')).toBe('nyn');
+  });
+
+  it('returns null for an unsupported language', () => {
+    expect(findLanguage('german')).toBeNull();
+    expect(findLanguage('')).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { hashPassword, verifyPassword } from '../../../src/utils/passwordHash.js';
+
+describe('verifyPassword', () => {
+  let hash: string;
+
+  beforeAll(async () => {
+    hash = await hashPassword('correct horse battery');
+  });
+
+  it('accepts the password the hash was made from', async () => {
+    await expect(verifyPassword('correct horse battery', hash)).resolves.toBe(true);
+  });
+
+  it('rejects any other password', async () => {
+    await expect(verifyPassword('correct horse battery!', hash)).resolves.toBe(false);
+  });
+
+  it('salts each hash', async () => {
+    expect(await hashPassword('correct horse battery')).not.toBe(hash);
+  });
+
+  it('rejects hashes in another format', async () => {
+    await expect(verifyPassword('correct horse battery', 'plain-text')).resolves.toBe(false);
+    await expect(verifyPassword('correct horse battery', hash.replace('scrypt$', 'bcrypt$'))).resolves.toBe(false);
+    await expect(verifyPassword('correct horse battery', 'scrypt$$')).resolves.toBe(false);
+  });
+});
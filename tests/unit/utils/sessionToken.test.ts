@@ -0,0 +1,41 @@
+import { signSessionToken, verifySessionToken } from '../../../src/utils/sessionToken.js';
+
+const SECRET = 'a-test-secret-that-is-long-enough-0000';
+
+describe('verifySessionToken', () => {
+  const payload = { sid: 'session-1', exp: 2_000 };
+
+  it('returns the payload of a well-signed, unexpired token', () => {
+    const token = signSessionToken(payload, SECRET);
+    expect(verifySessionToken(token, SECRET, 1_000)).toEqual(payload);
+  });
+
+  it('rejects an expired token', () => {
+    const token = signSessionToken(payload, SECRET);
+    expect(verifySessionToken(token, SECRET, 2_000)).toBeNull();
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const token = signSessionToken(payload, 'another-secret-that-is-long-enough-00');
+    expect(verifySessionToken(token, SECRET, 1_000)).toBeNull();
+  });
+
+  it('rejects a token whose payload was changed', () => {
+    const [, signature] = signSessionToken(payload, SECRET).split('.');
+    const forged = Buffer.from(JSON.stringify({ sid: 'session-1', exp: 9_999_999 })).toString('base64url');
+    expect(verifySessionToken(`${forged}.${signature}`, SECRET, 1_000)).toBeNull();
+  });
+
+  it('rejects malformed tokens', () => {
+    const token = signSessionToken(payload, SECRET);
+
+    expect(verifySessionToken('', SECRET, 1_000)).toBeNull();
+    expect(verifySessionToken('no-signature', SECRET, 1_000)).toBeNull();
+    expect(verifySessionToken(`${token}.extra`, SECRET, 1_000)).toBeNull();
+  });
+
+  it('rejects a well-signed payload without a session id or expiry', () => {
+    const token = signSessionToken({ sid: 42 } as unknown as typeof payload, SECRET);
+    expect(verifySessionToken(token, SECRET, 1_000)).toBeNull();
+  });
+});
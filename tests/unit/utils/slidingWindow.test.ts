@@ -0,0 +1,96 @@
+import type { Options } from 'express-rate-limit';
+import { SlidingWindowCounter, SlidingWindowStore } from '../../../src/utils/slidingWindow.js';
+
+describe('SlidingWindowCounter', () => {
+  it('counts only the hits inside the window', () => {
+    const counter = new SlidingWindowCounter(1000);
+
+    expect(counter.hit('a', 0)).toEqual([0]);
+    expect(counter.hit('a', 500)).toEqual([0, 500]);
+    // The first hit has left the window
+    expect(counter.hit('a', 1000)).toEqual([500, 1000]);
+  });
+
+  it('counts a burst across a fixed-window boundary as one burst', () => {
+    const counter = new SlidingWindowCounter(1000);
+
+    counter.hit('a', 900);
+    counter.hit('a', 950);
+    expect(counter.hit('a', 1050)).toHaveLength(3);
+  });
+
+  it('keeps keys apart', () => {
+    const counter = new SlidingWindowCounter(1000);
+
+    counter.hit('a', 0);
+    counter.hit('a', 10);
+    expect(counter.hit('b', 20)).toEqual([20]);
+  });
+
+  it('removes the latest hit and resets a key', () => {
+    const counter = new SlidingWindowCounter(1000);
+
+    counter.hit('a', 0);
+    counter.hit('a', 10);
+    counter.removeLatest('a');
+    expect(counter.hit('a', 20)).toEqual([0, 20]);
+
+    counter.reset('a');
+    expect(counter.hit('a', 30)).toEqual([30]);
+  });
+
+  it('prunes keys with no hits left in the window', () => {
+    const counter = new SlidingWindowCounter(1000);
+
+    counter.hit('old', 0);
+    counter.hit('recent', 1500);
+    counter.prune(2000);
+
+    expect(counter.hit('old', 2000)).toEqual([2000]);
+    expect(counter.hit('recent', 2000)).toEqual([1500, 2000]);
+  });
+});
+
+describe('SlidingWindowStore', () => {
+  let store: SlidingWindowStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 10_000 });
+    store = new SlidingWindowStore();
+    store.init({ windowMs: 1000 } as Options);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reports the hit count and when the oldest hit leaves the window', async () => {
+    await store.increment('user');
+    jest.setSystemTime(10_400);
+
+    const info = await store.increment('user');
+    expect(info.totalHits).toBe(2);
+    expect(info.resetTime).toEqual(new Date(11_000));
+  });
+
+  it('stops counting hits once they leave the window', async () => {
+    await store.increment('user');
+    jest.setSystemTime(11_000);
+
+    expect((await store.increment('user')).totalHits).toBe(1);
+  });
+
+  it('undoes the latest hit on decrement and forgets a key on reset', async () => {
+    await store.increment('user');
+    await store.increment('user');
+    await store.decrement('user');
+    expect((await store.increment('user')).totalHits).toBe(2);
+
+    await store.resetKey('user');
+    expect((await store.increment('user')).totalHits).toBe(1);
+  });
+
+  it('refuses to count before init', async () => {
+    await expect(new SlidingWindowStore().increment('user')).rejects.toThrow('SlidingWindowStore used before init');
+  });
+});
@@ -0,0 +1,41 @@
+import { contentWords, editDistance, tokenize, wordSimilarity } from '../../../src/utils/textMatching.js';
+
+describe('wordSimilarity', () => {
+  it('scores the same word, inflections and typos', () => {
+    expect(wordSimilarity('food', 'food')).toBe(1);
+    expect(wordSimilarity('registering', 'register')).toBe(0.9);
+    expect(wordSimilarity('regstration', 'registration')).toBe(0.7);
+    expect(wordSimilarity('helth', 'health')).toBe(0.7);
+  });
+
+  it('allows no typos in words of four letters or fewer', () => {
+    expect(wordSimilarity('fod', 'food')).toBe(0);
+    expect(wordSimilarity('give', 'hive')).toBe(0);
+  });
+
+  it('does not read a changed first or last letter in a short word as a typo', () => {
+    expect(wordSimilarity('stars', 'start')).toBe(0);
+    expect(wordSimilarity('mouse', 'house')).toBe(0);
+  });
+
+  it('does not read very short stems as inflections', () => {
+    expect(wordSimilarity('his', 'hi')).toBe(0);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts edits and gives up past the limit', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+  });
+});
+
+describe('tokenize', () => {
+  it('drops accents and punctuation but keeps apostrophes inside words', () => {
+    expect(tokenize('Où est l\'hôpital? Eby\'okurya!')).toEqual(['ou', 'est', 'l\'hopital', 'eby\'okurya']);
+  });
+
+  it('leaves only content words', () => {
+    expect(contentWords('Where is the food? the FOOD')).toEqual(['food']);
+  });
+});
@@ -0,0 +1,51 @@
+import { SUPPORTED_LANGUAGES } from '../../../src/utils/languages.js';
+import { MessageKey, toEnglishQuickReply, translate, translateQuickReplies } from '../../../src/utils/translations.js';
+
+// Messages a user must be able to read in their own language
+const SAFETY_MESSAGES: MessageKey[] = [
+  'CRISIS_SUICIDE',
+  'CRISIS_MEDICAL',
+  'CRISIS_CHILD',
+  'CRISIS_GBV',
+  'CRISIS_VIOLENCE',
+  'CRISIS_NO_CONTACTS',
+  'CRISIS_FOLLOW_UP',
+  'HANDOFF_OPENED',
+  'HANDOFF_ALREADY_OPEN',
+  'HANDOFF_CLOSED',
+  'HANDOFF_LEFT',
+  'HANDOFF_OFFER',
+  'RATE_LIMITED'
+];
+
+const OTHER_LANGUAGES = SUPPORTED_LANGUAGES.map(language => language.code).filter(code => code !== 'en');
+
+describe('translate', () => {
+  it.each(OTHER_LANGUAGES)('has crisis, handoff and rate limit messages in %s', language => {
+    for (const key of SAFETY_MESSAGES) {
+      expect([key, translate(key, language)]).not.toEqual([key, translate(key, 'en')]);
+    }
+  });
+
+  it('fills placeholders', () => {
+    expect(translate('STEP_LABEL', 'en', { number: 3 })).toBe('Step 3');
+    expect(translate('STEP_LABEL', 'sw', { number: 3 })).toContain('3');
+  });
+
+  it('falls back to English for a message without a translation', () => {
+    expect(translate('DIALOGFLOW_NO_RESPONSE', 'nyn')).toBe(translate('DIALOGFLOW_NO_RESPONSE', 'en'));
+  });
+});
+
+describe('quick replies', () => {
+  it('translates labels and keeps untranslated ones in English', () => {
+    expect(translateQuickReplies(['Food', 'Not a label'], 'nyn')).toEqual(['Eby\'okurya', 'Not a label']);
+    expect(translateQuickReplies(['Food'], 'en')).toEqual(['Food']);
+  });
+
+  it('maps a translated label back to English', () => {
+    expect(toEnglishQuickReply('ahabanza')).toBe('Main Menu');
+    expect(toEnglishQuickReply('Food')).toBe('Food');
+    expect(toEnglishQuickReply('something else')).toBeNull();
+  });
+});